@@ -0,0 +1,366 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpEventType, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { DocumentLibraryComponent } from './document-library.component';
+import { DocumentUploadQueueService } from './document-upload-queue.service';
+import { NotificationService, API_BASE_URLS, Document } from '@manteq/ui-lib/core';
+
+function createDocument(index: number, changes: Partial<Document> = {}): Document {
+  return {
+    id: `doc-${index}`,
+    name: `Document ${index}`,
+    type: index % 2 === 0 ? 'pdf' : 'docx',
+    size: 1024,
+    extension: index % 2 === 0 ? 'pdf' : 'docx',
+    mimeType: 'application/octet-stream',
+    creationDate: '2025-01-01T00:00:00Z',
+    filePath: `/files/doc-${index}`,
+    isActive: index % 3 !== 0,
+    createdBy: 'tester',
+    downloadUrl: `/api/documents/doc-${index}/download`,
+    ...changes
+  };
+}
+
+describe('DocumentLibraryComponent', () => {
+  const baseUrl = API_BASE_URLS.CMS;
+  let fixture: ComponentFixture<DocumentLibraryComponent>;
+  let component: DocumentLibraryComponent;
+  let httpMock: HttpTestingController;
+  let notifications: jasmine.SpyObj<NotificationService>;
+
+  beforeEach(async () => {
+    notifications = jasmine.createSpyObj<NotificationService>('NotificationService', [
+      'confirm', 'showLoading', 'hideLoading', 'success', 'warning', 'error', 'apiError'
+    ]);
+
+    await TestBed.configureTestingModule({
+      imports: [DocumentLibraryComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        { provide: NotificationService, useValue: notifications }
+      ]
+    }).compileComponents();
+
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture = TestBed.createComponent(DocumentLibraryComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+
+    const documents = Array.from({ length: 25 }, (_, i) => createDocument(i + 1));
+    httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush(documents);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should load documents on init', () => {
+    expect(component.documents().length).toBe(25);
+    expect(component.loading()).toBeFalse();
+  });
+
+  describe('filtering', () => {
+    it('should filter by status', () => {
+      component.filterDocuments('active');
+      expect(component.filteredDocuments().every(d => d.isActive)).toBeTrue();
+
+      component.filterDocuments('inactive');
+      expect(component.filteredDocuments().length).toBe(8);
+      expect(component.filteredDocuments().every(d => !d.isActive)).toBeTrue();
+
+      component.filterDocuments('all');
+      expect(component.filteredDocuments().length).toBe(25);
+    });
+
+    it('should search by name and type', () => {
+      component.searchTerm.set('document 1');
+      expect(component.filteredDocuments().map(d => d.id)).toContain('doc-10');
+      expect(component.filteredDocuments().length).toBe(11);
+
+      component.searchTerm.set('PDF');
+      expect(component.filteredDocuments().length).toBe(12);
+    });
+
+    it('should reset to the first page when the search term changes', () => {
+      component.goToPage(3);
+      component.updateSearchTerm({ target: { value: 'Document 2' } } as unknown as Event);
+
+      expect(component.searchTerm()).toBe('Document 2');
+      expect(component.currentPage()).toBe(1);
+    });
+  });
+
+  describe('pagination', () => {
+    it('should split documents into pages', () => {
+      expect(component.totalPages()).toBe(3);
+      expect(component.paginatedDocuments().length).toBe(10);
+      expect(component.pages()).toEqual([1, 2, 3]);
+    });
+
+    it('should move between pages within bounds', () => {
+      component.nextPage();
+      component.nextPage();
+      expect(component.currentPage()).toBe(3);
+      expect(component.paginatedDocuments().length).toBe(5);
+
+      component.nextPage();
+      expect(component.currentPage()).toBe(3);
+
+      component.goToPage(0);
+      expect(component.currentPage()).toBe(3);
+
+      component.previousPage();
+      expect(component.currentPage()).toBe(2);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the document after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.deleteDocument(component.documents()[0]);
+
+      const req = httpMock.expectOne(`${baseUrl}/api/documents/doc-1`);
+      expect(req.request.method).toBe('DELETE');
+      // Only the affected row is busy while the request runs
+      expect(component.busy.isBusy('doc-1')).toBeTrue();
+      expect(component.busy.isBusy('doc-2')).toBeFalse();
+      req.flush(null);
+
+      expect(component.busy.isBusy('doc-1')).toBeFalse();
+      expect(component.documents().some(d => d.id === 'doc-1')).toBeFalse();
+      expect(notifications.success).toHaveBeenCalledWith('Document moved to trash');
+    });
+
+    it('should do nothing when the confirmation is cancelled', async () => {
+      notifications.confirm.and.resolveTo(false);
+
+      await component.deleteDocument(component.documents()[0]);
+
+      httpMock.expectNone(`${baseUrl}/api/documents/doc-1`);
+      expect(component.documents().length).toBe(25);
+    });
+  });
+
+  describe('toggle status', () => {
+    it('should deactivate an active document after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+      const doc = component.documents()[0];
+
+      await component.toggleDocumentStatus(doc);
+
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-1/deactivate`).flush(null);
+      expect(component.documents()[0].isActive).toBeFalse();
+      expect(notifications.success).toHaveBeenCalledWith('Document deactivated successfully', undefined, { link: '/doc-1' });
+    });
+
+    it('should report API errors', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.toggleDocumentStatus(component.documents()[2]);
+
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-3/activate`)
+        .flush({ error: 'Document not found' }, { status: 404, statusText: 'Not Found' });
+      expect(notifications.apiError).toHaveBeenCalledWith(jasmine.anything(), 'Failed to activate document', { link: '/doc-3' });
+      expect(component.documents()[2].isActive).toBeFalse();
+    });
+  });
+
+  describe('bulk actions', () => {
+    it('should select the current page and then every matching document', () => {
+      component.filterDocuments('active');
+      component.togglePageSelection();
+      expect(component.selectedDocuments().length).toBe(10);
+      expect(component.allOnPageSelected()).toBeTrue();
+
+      component.toggleSelection('doc-1');
+      expect(component.someOnPageSelected()).toBeTrue();
+
+      component.selectAllMatching();
+      expect(component.selectedDocuments().length).toBe(17);
+      expect(component.allMatchingSelected()).toBeTrue();
+
+      // Selected documents hidden by the filter are left out
+      component.filterDocuments('inactive');
+      expect(component.selectedDocuments()).toEqual([]);
+    });
+
+    it('should confirm once and report the documents that failed', async () => {
+      notifications.confirm.and.resolveTo(true);
+      ['doc-1', 'doc-2', 'doc-3'].forEach(id => component.toggleSelection(id));
+
+      await component.bulkDelete();
+
+      expect(notifications.confirm).toHaveBeenCalledTimes(1);
+      expect(component.busy.isBusy('bulk')).toBeTrue();
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-1`).flush(null);
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-2`)
+        .flush({ error: 'Document is locked' }, { status: 409, statusText: 'Conflict' });
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-3`).flush(null);
+
+      expect(component.busy.isBusy('bulk')).toBeFalse();
+      expect(component.bulkReport()).toEqual(jasmine.objectContaining({ action: 'delete', succeeded: 2 }));
+      expect(component.bulkReport()!.failures.map(failure => failure.id)).toEqual(['doc-2']);
+      expect(component.selectedDocuments().map(d => d.id)).toEqual(['doc-2']);
+      expect(component.documents().length).toBe(23);
+      expect(notifications.apiError).not.toHaveBeenCalled();
+      expect(notifications.warning).toHaveBeenCalledWith('1 of 3 documents could not be processed');
+    });
+  });
+
+  describe('preview', () => {
+    it('should step through the filtered list and follow the page', () => {
+      component.filterDocuments('active');
+      const active = component.filteredDocuments();
+
+      component.openPreview(active[9]);
+      component.previewNext();
+
+      expect(component.previewId()).toBe(active[10].id);
+      expect(component.previewIndex()).toBe(10);
+      expect(component.currentPage()).toBe(2);
+
+      component.handlePreviewKeys(new KeyboardEvent('keydown', { key: 'ArrowLeft' }));
+      expect(component.previewId()).toBe(active[9].id);
+
+      component.handlePreviewKeys(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(component.previewDocument()).toBeNull();
+    });
+
+    it('should download the previewed document and report failures in the panel', async () => {
+      component.openPreview(component.documents()[0]);
+      fixture.detectChanges();
+      expect(component.preview()).toEqual({ status: 'loading', kind: 'docx' });
+
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-1/download`).flush(new Blob(['not an Office file']));
+      await fixture.whenStable();
+
+      expect(component.preview()).toEqual({ status: 'failed', kind: 'docx' });
+      expect(notifications.apiError).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the object URL when the panel closes', async () => {
+      spyOn(URL, 'createObjectURL').and.returnValue('blob:preview-2');
+      const revoke = spyOn(URL, 'revokeObjectURL');
+
+      component.openPreview(component.documents()[1]);
+      fixture.detectChanges();
+      httpMock.expectOne(`${baseUrl}/api/documents/doc-2/download`).flush(new Blob(['%PDF']));
+      await fixture.whenStable();
+      expect(revoke).not.toHaveBeenCalled();
+
+      component.closePreview();
+
+      expect(revoke).toHaveBeenCalledOnceWith('blob:preview-2');
+    });
+  });
+
+  describe('upload queue', () => {
+    const file = (name: string) => new File(['content'], name);
+
+    it('should require a name and file before uploading', () => {
+      component.uploadDocument();
+      expect(notifications.warning).toHaveBeenCalledWith('Please add at least one file and give every file a name');
+
+      component.addFiles([file('invoice.pdf')]);
+      component.renameQueuedFile(component.uploadQueue()[0].id, ' ');
+      component.uploadDocument();
+
+      httpMock.expectNone(`${baseUrl}/api/documents/register`);
+    });
+
+    it('should name files after the file name and skip unsupported ones', () => {
+      const oversized = file('scan.pdf');
+      Object.defineProperty(oversized, 'size', { value: 60 * 1024 * 1024 });
+
+      component.addFiles([file('invoice.pdf'), file('report.v2.docx'), file('.DS_Store'), file('setup.exe'), oversized]);
+
+      expect(component.uploadQueue().map(item => item.name)).toEqual(['invoice', 'report.v2']);
+      expect(notifications.warning).toHaveBeenCalledWith('Unsupported or oversized files skipped: 3');
+    });
+
+    it('should upload three files at a time with per-file progress', () => {
+      component.uploadForm.type = 'CensusList';
+      component.addFiles(['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf'].map(file));
+      component.uploadDocument();
+
+      const requests = httpMock.match(`${baseUrl}/api/documents/register`);
+      expect(requests.length).toBe(3);
+      expect((requests[0].request.body as FormData).get('Type')).toBe('CensusList');
+
+      requests[0].event({ type: HttpEventType.UploadProgress, loaded: 256, total: 1024 });
+      expect(component.uploadQueue()[0].progress).toBe(25);
+
+      requests[0].flush(createDocument(100));
+      expect(component.uploadQueue()[0]).toEqual(jasmine.objectContaining({ status: 'done', documentId: 'doc-100' }));
+      expect(component.uploadQueue()[3].status).toBe('uploading');
+
+      httpMock.match(`${baseUrl}/api/documents/register`).forEach(request => request.flush(createDocument(101)));
+      // The reload started by the first upload is repeated for the uploads that finished meanwhile
+      httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush([]);
+      httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush([]);
+
+      expect(component.uploadSummary()).toEqual({ uploaded: 4, failed: 0, cancelled: 0 });
+      expect(notifications.success).toHaveBeenCalledWith('4 documents uploaded successfully', undefined, {});
+    });
+
+    it('should keep uploading and report the batch after the page is destroyed', () => {
+      component.addFiles(['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf'].map(file));
+      component.uploadDocument();
+      const requests = httpMock.match(`${baseUrl}/api/documents/register`);
+
+      fixture.destroy();
+
+      expect(requests.some(request => request.cancelled)).toBeFalse();
+      requests.forEach(request => request.flush(createDocument(100)));
+      // The waiting file starts in the freed slot
+      httpMock.expectOne(`${baseUrl}/api/documents/register`).flush(createDocument(101));
+      httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush([]);
+      httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush([]);
+
+      expect(TestBed.inject(DocumentUploadQueueService).queue().map(item => item.status)).toEqual(['done', 'done', 'done', 'done']);
+      expect(notifications.success).toHaveBeenCalledWith('4 documents uploaded successfully', undefined, {});
+    });
+
+    it('should show uploads still running when the page is opened again', () => {
+      component.addFiles([file('a.pdf')]);
+      component.uploadDocument();
+      const request = httpMock.expectOne(`${baseUrl}/api/documents/register`);
+      fixture.destroy();
+
+      const reopened = TestBed.createComponent(DocumentLibraryComponent);
+      reopened.detectChanges();
+      expect(reopened.componentInstance.uploadQueue().map(item => item.status)).toEqual(['uploading']);
+
+      request.flush(createDocument(100));
+      httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush([]);
+      expect(reopened.componentInstance.uploadSummary()).toEqual({ uploaded: 1, failed: 0, cancelled: 0 });
+    });
+
+    it('should cancel uploads, summarize the batch and retry failed files', () => {
+      component.addFiles([file('a.pdf'), file('b.pdf')]);
+      component.uploadDocument();
+
+      const [first, second] = httpMock.match(`${baseUrl}/api/documents/register`);
+      component.cancelUpload(component.uploadQueue()[0].id);
+      expect(first.cancelled).toBeTrue();
+
+      second.flush({ error: 'Storage full' }, { status: 507, statusText: 'Insufficient Storage' });
+      expect(component.uploadQueue().map(item => item.status)).toEqual(['cancelled', 'failed']);
+      expect(component.uploadSummary()).toEqual({ uploaded: 0, failed: 1, cancelled: 1 });
+      expect(notifications.warning).toHaveBeenCalledWith('Upload finished: 0 uploaded, 1 failed, 1 cancelled');
+
+      component.retryFailedUploads();
+      httpMock.expectOne(`${baseUrl}/api/documents/register`).flush(createDocument(102));
+      httpMock.match(r => r.url === `${baseUrl}/api/documents`).forEach(request => request.flush([]));
+      expect(component.uploadQueue().map(item => item.status)).toEqual(['cancelled', 'done']);
+      // Only the retried file belongs to the new batch
+      expect(component.uploadSummary()).toEqual({ uploaded: 1, failed: 0, cancelled: 0 });
+      expect(notifications.success).toHaveBeenCalledWith('Document uploaded successfully', undefined, { link: '/doc-102' });
+    });
+  });
+});
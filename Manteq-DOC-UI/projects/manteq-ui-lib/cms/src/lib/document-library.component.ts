@@ -0,0 +1,736 @@
+import { Component, DestroyRef, ElementRef, OnInit, signal, computed, effect, inject, viewChild } from '@angular/core';
+import { takeUntilDestroyed, toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { DomSanitizer, SafeHtml, SafeResourceUrl } from '@angular/platform-browser';
+import { Observable, catchError, distinctUntilChanged, from, map, mergeMap, of, startWith, switchMap, tap, toArray } from 'rxjs';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import {
+  CmsApiService,
+  NotificationService,
+  ManteqStore,
+  Document,
+  DocumentFilters,
+  FileSizePipe,
+  DateFormatPipe,
+  ManteqCanDirective,
+  ManteqDropTargetDirective,
+  ManteqPermissionService,
+  ManteqTranslatePipe,
+  ManteqTranslationService,
+  ManteqTranslationKey,
+  ManteqApiError,
+  manteqBusyState,
+  renderOfficePreview,
+  childRouteData,
+  clampPage,
+  syncQueryParams
+} from '@manteq/ui-lib/core';
+import {
+  DOCUMENT_UPLOAD_EXTENSIONS,
+  DOCUMENT_UPLOAD_MAX_SIZE,
+  DocumentUploadQueueService,
+  UploadQueueItem,
+  UploadQueueStatus
+} from './document-upload-queue.service';
+
+const UPLOAD_STATUS_LABELS: Record<UploadQueueStatus, ManteqTranslationKey> = {
+  pending: 'documents.queue.status.pending',
+  queued: 'documents.queue.status.queued',
+  uploading: 'documents.queue.status.uploading',
+  done: 'documents.queue.status.done',
+  failed: 'documents.queue.status.failed',
+  cancelled: 'documents.queue.status.cancelled'
+};
+
+export type DocumentPreviewKind = 'pdf' | 'image' | 'text' | 'html' | 'docx' | 'xlsx';
+
+/**
+ * Content of the preview panel for the previewed document
+ */
+export interface DocumentPreviewState {
+  status: 'loading' | 'ready' | 'unsupported' | 'tooLarge' | 'failed';
+  kind?: DocumentPreviewKind;
+  /** Object URL of PDFs and images */
+  url?: SafeResourceUrl;
+  /** srcdoc of the sandboxed frame for HTML and Office files */
+  html?: SafeHtml;
+  text?: string;
+  /** Only the first PREVIEW_TEXT_LIMIT characters are shown */
+  truncated?: boolean;
+}
+
+const PREVIEW_KINDS: Record<string, DocumentPreviewKind> = {
+  pdf: 'pdf',
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', bmp: 'image', svg: 'image',
+  txt: 'text', csv: 'text', log: 'text', md: 'text', json: 'text', xml: 'text',
+  html: 'html', htm: 'html',
+  docx: 'docx',
+  xlsx: 'xlsx'
+};
+
+/** Larger files are only offered as a download */
+const PREVIEW_MAX_SIZE = 20 * 1024 * 1024;
+const PREVIEW_TEXT_LIMIT = 200_000;
+
+export type BulkDocumentAction = 'activate' | 'deactivate' | 'delete' | 'download';
+
+/**
+ * Outcome of a bulk action, shown until dismissed when some documents failed
+ */
+export interface BulkActionReport {
+  action: BulkDocumentAction;
+  succeeded: number;
+  failures: { id: string; name: string; message: string }[];
+}
+
+/** Requests a bulk action runs side by side */
+const BULK_CONCURRENCY = 4;
+
+const BULK_FAILURE_MESSAGES: Record<BulkDocumentAction, ManteqTranslationKey> = {
+  activate: 'documents.activate.failed',
+  deactivate: 'documents.deactivate.failed',
+  delete: 'documents.messages.deleteFailed',
+  download: 'documents.messages.downloadFailed'
+};
+
+function documentPreviewKind(doc: Document): DocumentPreviewKind | null {
+  const extension = (doc.extension || doc.name.slice(doc.name.lastIndexOf('.') + 1)).replace(/^\./, '').toLowerCase();
+  if (PREVIEW_KINDS[extension]) return PREVIEW_KINDS[extension];
+  if (doc.mimeType === 'application/pdf') return 'pdf';
+  if (doc.mimeType?.startsWith('image/')) return 'image';
+  if (doc.mimeType?.startsWith('text/')) return 'text';
+  return null;
+}
+
+@Component({
+  selector: 'manteq-document-library',
+  standalone: true,
+  imports: [CommonModule, FormsModule, FileSizePipe, DateFormatPipe, ManteqCanDirective, ManteqDropTargetDirective, ManteqTranslatePipe],
+  templateUrl: './document-library.component.html',
+  styleUrls: ['./document-library.component.scss'],
+  host: {
+    '(document:keydown)': 'handlePreviewKeys($event)'
+  }
+})
+export class DocumentLibraryComponent implements OnInit {
+  private cmsApi = inject(CmsApiService);
+  private store = inject(ManteqStore);
+  private notificationService = inject(NotificationService);
+  private i18n = inject(ManteqTranslationService);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private uploads = inject(DocumentUploadQueueService);
+  private permissions = inject(ManteqPermissionService);
+  private sanitizer = inject(DomSanitizer);
+  
+  // Expose Math for template
+  Math = Math;
+
+  // Signals for state management
+  documents = this.store.documents.entities;
+  filteredDocuments = computed(() => {
+    const docs = this.documents();
+    const filter = this.currentFilter();
+    
+    let filtered = docs;
+
+    // Filter by status
+    if (filter.status === 'active') {
+      filtered = filtered.filter(d => d.isActive);
+    } else if (filter.status === 'inactive') {
+      filtered = filtered.filter(d => !d.isActive);
+    }
+
+    // Filter by type
+    if (filter.type) {
+      filtered = filtered.filter(d => d.type?.toLowerCase().includes(filter.type!.toLowerCase()));
+    }
+
+    // Filter by search term
+    if (this.searchTerm()) {
+      const term = this.searchTerm().toLowerCase();
+      filtered = filtered.filter(d => 
+        d.name.toLowerCase().includes(term) ||
+        d.type?.toLowerCase().includes(term)
+      );
+    }
+
+    return filtered;
+  });
+
+  // Rows (by document id) and bulk actions ('bulk') with a request in progress
+  busy = manteqBusyState();
+
+  // Spinner only on first load - background refreshes keep the current list visible
+  loading = computed(() => this.store.documents.loading() && !this.store.documents.loaded());
+
+  // Document opened through the documents/:id route, kept in sync with the store
+  private routedDocument = childRouteData<Document>('document');
+  // documents/upload (e.g. from the command palette) jumps to the upload form
+  private routedAction = childRouteData<string>('action');
+  private chooseFilesButton = viewChild<ElementRef<HTMLButtonElement>>('chooseFiles');
+  selectedDocument = computed(() => {
+    const doc = this.routedDocument();
+    return doc ? this.store.documents.find(doc.id) ?? doc : null;
+  });
+  currentFilter = signal<DocumentFilters>({ status: 'all' });
+  // Upload queue - names default from the file name, the type is shared by the batch.
+  // Kept by DocumentUploadQueueService, so uploads carry on when the page is left.
+  uploadQueue = this.uploads.queue;
+  uploadForm = {
+    type: ''
+  };
+  uploadStatusLabels = UPLOAD_STATUS_LABELS;
+  uploadExtensions = DOCUMENT_UPLOAD_EXTENSIONS;
+  uploadMaxSize = DOCUMENT_UPLOAD_MAX_SIZE;
+  uploadAccept = DOCUMENT_UPLOAD_EXTENSIONS.join(',');
+  // Files dropped anywhere on the page join the queue
+  canUpload = computed(() => this.permissions.can('documents.upload'));
+  uploadCounts = this.uploads.counts;
+  uploadsActive = this.uploads.active;
+  // Shown once a batch has finished
+  uploadSummary = this.uploads.summary;
+  searchTerm = signal('');
+  
+  // Pagination
+  currentPage = signal(1);
+  itemsPerPage = signal(10);
+  
+  paginatedDocuments = computed(() => {
+    const filtered = this.filteredDocuments();
+    const page = this.currentPage();
+    const perPage = this.itemsPerPage();
+    const start = (page - 1) * perPage;
+    const end = start + perPage;
+    return filtered.slice(start, end);
+  });
+  
+  totalPages = computed(() => {
+    const total = this.filteredDocuments().length;
+    const perPage = this.itemsPerPage();
+    return Math.ceil(total / perPage);
+  });
+  
+  pages = computed(() => {
+    const total = this.totalPages();
+    const current = this.currentPage();
+    const pages: number[] = [];
+    
+    // Show max 5 page numbers
+    let start = Math.max(1, current - 2);
+    let end = Math.min(total, start + 4);
+    
+    if (end - start < 4) {
+      start = Math.max(1, end - 4);
+    }
+    
+    for (let i = start; i <= end; i++) {
+      pages.push(i);
+    }
+    
+    return pages;
+  });
+
+  // Bulk selection - only documents matching the current filters take part
+  private selectedIds = signal<ReadonlySet<string>>(new Set());
+  selectedDocuments = computed(() => this.filteredDocuments().filter(d => this.selectedIds().has(d.id)));
+  allOnPageSelected = computed(() => {
+    const page = this.paginatedDocuments();
+    return page.length > 0 && page.every(d => this.selectedIds().has(d.id));
+  });
+  someOnPageSelected = computed(() =>
+    !this.allOnPageSelected() && this.paginatedDocuments().some(d => this.selectedIds().has(d.id))
+  );
+  allMatchingSelected = computed(() =>
+    this.filteredDocuments().length > 0 && this.selectedDocuments().length === this.filteredDocuments().length
+  );
+  bulkReport = signal<BulkActionReport | null>(null);
+
+  // Preview side panel (?preview=<id>), stepping through the filtered list
+  previewId = signal('');
+  previewDocument = computed(() => {
+    const id = this.previewId();
+    return id ? this.store.documents.find(id) ?? null : null;
+  });
+  previewIndex = computed(() => this.filteredDocuments().findIndex(d => d.id === this.previewId()));
+  preview = toSignal(
+    toObservable(this.previewDocument).pipe(
+      // Status changes of the same document keep the loaded preview
+      distinctUntilChanged((previous, current) => previous?.id === current?.id),
+      switchMap(doc => {
+        if (doc) return this.loadPreview(doc);
+        // Closed through the URL, e.g. browser back
+        this.revokePreviewUrl();
+        return of(null);
+      })
+    ),
+    { initialValue: null }
+  );
+  private previewObjectUrl: string | null = null;
+
+  constructor() {
+    syncQueryParams({
+      status: {
+        get: () => this.currentFilter().status ?? 'all',
+        set: (status: string) => this.currentFilter.update(f => ({ ...f, status: status as DocumentFilters['status'] }))
+      },
+      q: this.searchTerm,
+      page: this.currentPage,
+      preview: this.previewId
+    }, {
+      replaceUrl: ['q', 'preview'],
+      allowedValues: { status: ['all', 'active', 'inactive'] }
+    });
+    clampPage(this.currentPage, this.totalPages, this.store.documents.loaded);
+
+    inject(DestroyRef).onDestroy(() => this.revokePreviewUrl());
+
+    // Back to the list once everything opened from documents/upload has been uploaded
+    this.uploads.finished.pipe(takeUntilDestroyed()).subscribe(summary => {
+      if (summary.failed === 0 && summary.cancelled === 0 && this.routedAction() === 'upload') {
+        this.router.navigate(['.'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+      }
+    });
+
+    effect(() => {
+      const button = this.chooseFilesButton()?.nativeElement;
+      if (button && this.routedAction() === 'upload') {
+        button.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        button.focus();
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadDocuments();
+  }
+
+  /**
+   * Load all documents
+   */
+  loadDocuments(force: boolean = false): void {
+    this.store.documents.load(force).subscribe({
+      error: (error) => {
+        this.notificationService.apiError(error, this.i18n.translate('documents.messages.loadFailed'));
+      }
+    });
+  }
+
+  /**
+   * Handle file or folder selection
+   */
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files && input.files.length > 0) {
+      this.addFiles(Array.from(input.files));
+    }
+    // Allow picking the same files again
+    input.value = '';
+  }
+
+  /**
+   * Add files to the upload queue. Unsupported and hidden files are skipped.
+   */
+  addFiles(files: File[]): void {
+    const skipped = this.uploads.add(files);
+    if (skipped > 0) {
+      this.notificationService.warning(this.i18n.translate('documents.queue.skipped', { count: skipped }));
+    }
+  }
+
+  renameQueuedFile(id: string, name: string): void {
+    this.uploads.rename(id, name);
+  }
+
+  removeFromQueue(id: string): void {
+    this.uploads.remove(id);
+  }
+
+  /**
+   * Upload every pending file in the queue
+   */
+  uploadDocument(): void {
+    const pending = this.uploadQueue().filter(item => item.status === 'pending');
+    if (pending.length === 0 || pending.some(item => !item.name.trim())) {
+      this.notificationService.warning(this.i18n.translate('documents.messages.uploadMissing'));
+      return;
+    }
+
+    this.uploads.upload(pending.map(item => item.id), { type: this.uploadForm.type || undefined, link: id => this.documentLink(id) });
+  }
+
+  cancelUpload(id: string): void {
+    this.uploads.cancel(id);
+  }
+
+  cancelAllUploads(): void {
+    this.uploads.cancelAll();
+  }
+
+  retryUpload(id: string): void {
+    this.uploads.upload([id], { link: documentId => this.documentLink(documentId) });
+  }
+
+  retryFailedUploads(): void {
+    this.uploads.upload(
+      this.uploadQueue().filter(item => item.status === 'failed').map(item => item.id),
+      { link: id => this.documentLink(id) }
+    );
+  }
+
+  /**
+   * Remove uploaded, failed and cancelled files from the queue
+   */
+  clearFinishedUploads(): void {
+    this.uploads.clearFinished();
+  }
+
+  openUploadedDocument(item: UploadQueueItem): void {
+    this.router.navigate([item.documentId], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+  }
+
+  /**
+   * Open the details of a document (documents/:id)
+   */
+  viewDocument(doc: Document): void {
+    this.router.navigate([doc.id], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+  }
+
+  closeDocumentDetails(): void {
+    this.router.navigate(['.'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+  }
+
+  // ========== PREVIEW ==========
+
+  openPreview(doc: Document): void {
+    this.previewId.set(doc.id);
+  }
+
+  closePreview(): void {
+    this.revokePreviewUrl();
+    this.previewId.set('');
+  }
+
+  previewPrevious(): void {
+    this.stepPreview(-1);
+  }
+
+  previewNext(): void {
+    this.stepPreview(1);
+  }
+
+  /**
+   * Arrow keys step through the list and Escape closes the panel, unless the user is typing
+   */
+  handlePreviewKeys(event: KeyboardEvent): void {
+    if (!this.previewId() || this.selectedDocument()) return;
+    if (event.target instanceof HTMLElement && event.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+    const rtl = this.i18n.direction() === 'rtl';
+    if (event.key === 'Escape') {
+      this.closePreview();
+    } else if (event.key === (rtl ? 'ArrowRight' : 'ArrowLeft')) {
+      event.preventDefault();
+      this.previewPrevious();
+    } else if (event.key === (rtl ? 'ArrowLeft' : 'ArrowRight')) {
+      event.preventDefault();
+      this.previewNext();
+    }
+  }
+
+  private stepPreview(offset: number): void {
+    const index = this.previewIndex() + offset;
+    const target = this.filteredDocuments()[index];
+    if (this.previewIndex() < 0 || !target) return;
+
+    this.previewId.set(target.id);
+    // Keep the previewed row on the visible page
+    this.goToPage(Math.floor(index / this.itemsPerPage()) + 1);
+  }
+
+  private loadPreview(doc: Document): Observable<DocumentPreviewState> {
+    this.revokePreviewUrl();
+    const kind = documentPreviewKind(doc);
+    if (!kind) return of({ status: 'unsupported' });
+    if (doc.size > PREVIEW_MAX_SIZE) return of({ status: 'tooLarge', kind });
+
+    return this.cmsApi.downloadDocument(doc.id).pipe(
+      switchMap(blob => this.renderPreview(kind, blob)),
+      catchError(error => {
+        // Reported inside the panel
+        if (error instanceof ManteqApiError) error.markHandled();
+        return of<DocumentPreviewState>({ status: 'failed', kind });
+      }),
+      startWith<DocumentPreviewState>({ status: 'loading', kind })
+    );
+  }
+
+  private async renderPreview(kind: DocumentPreviewKind, blob: Blob): Promise<DocumentPreviewState> {
+    switch (kind) {
+      case 'pdf':
+      case 'image': {
+        // Typed so the browser's PDF viewer opens it whatever content type the server sent
+        const url = URL.createObjectURL(kind === 'pdf' ? new Blob([blob], { type: 'application/pdf' }) : blob);
+        this.previewObjectUrl = url;
+        return { status: 'ready', kind, url: this.sanitizer.bypassSecurityTrustResourceUrl(url) };
+      }
+      case 'text': {
+        const text = await blob.text();
+        return { status: 'ready', kind, text: text.slice(0, PREVIEW_TEXT_LIMIT), truncated: text.length > PREVIEW_TEXT_LIMIT };
+      }
+      case 'html':
+        // Trusted only because the frame has an empty sandbox: no scripts, forms or same-origin access
+        return { status: 'ready', kind, html: this.sanitizer.bypassSecurityTrustHtml(await blob.text()) };
+      default:
+        return { status: 'ready', kind, html: this.sanitizer.bypassSecurityTrustHtml(await renderOfficePreview(blob, kind)) };
+    }
+  }
+
+  private revokePreviewUrl(): void {
+    if (this.previewObjectUrl) {
+      URL.revokeObjectURL(this.previewObjectUrl);
+      this.previewObjectUrl = null;
+    }
+  }
+
+  /**
+   * URL of a document's details, linked from the notification center
+   */
+  private documentLink(id: string): string {
+    return this.router.serializeUrl(this.router.createUrlTree([id], { relativeTo: this.route }));
+  }
+
+  /**
+   * Download document
+   */
+  downloadDocument(doc: Document): void {
+    this.cmsApi.downloadDocument(doc.id).pipe(this.busy.track(doc.id)).subscribe({
+      next: (blob) => this.saveFile(blob, doc.name),
+      error: (error) => {
+        this.notificationService.apiError(error, this.i18n.translate('documents.messages.downloadFailed'), {
+          link: this.documentLink(doc.id)
+        });
+      }
+    });
+  }
+
+  /**
+   * Delete document (soft delete)
+   */
+  async deleteDocument(doc: Document): Promise<void> {
+    const confirmed = await this.notificationService.confirm(
+      this.i18n.translate('documents.delete.title'),
+      this.i18n.translate('documents.delete.message', { name: doc.name }),
+      this.i18n.translate('common.delete'),
+      this.i18n.translate('common.cancel')
+    );
+
+    if (!confirmed) return;
+
+    this.store.deleteDocument(doc.id).pipe(this.busy.track(doc.id)).subscribe({
+      next: () => {
+        this.notificationService.success(this.i18n.translate('documents.messages.deleted'));
+      },
+      error: (error) => {
+        this.notificationService.apiError(error, this.i18n.translate('documents.messages.deleteFailed'), {
+          link: this.documentLink(doc.id)
+        });
+      }
+    });
+  }
+
+  /**
+   * Toggle document status
+   */
+  async toggleDocumentStatus(doc: Document): Promise<void> {
+    const action = doc.isActive ? 'deactivate' : 'activate';
+    const confirmed = await this.notificationService.confirm(
+      this.i18n.translate(`documents.${action}.title`),
+      this.i18n.translate(`documents.${action}.message`, { name: doc.name }),
+      this.i18n.translate('common.yes'),
+      this.i18n.translate('common.cancel')
+    );
+
+    if (!confirmed) return;
+
+    this.store.setDocumentActive(doc.id, !doc.isActive).pipe(this.busy.track(doc.id)).subscribe({
+      next: () => {
+        this.notificationService.success(this.i18n.translate(`documents.${action}.success`), undefined, {
+          link: this.documentLink(doc.id)
+        });
+      },
+      error: (error) => {
+        this.notificationService.apiError(error, this.i18n.translate(`documents.${action}.failed`), {
+          link: this.documentLink(doc.id)
+        });
+      }
+    });
+  }
+
+  // ========== BULK ACTIONS ==========
+
+  isSelected(id: string): boolean {
+    return this.selectedIds().has(id);
+  }
+
+  toggleSelection(id: string): void {
+    this.selectedIds.update(ids => {
+      const next = new Set(ids);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Select every row on the current page, or clear them when all are already selected
+   */
+  togglePageSelection(): void {
+    const pageIds = this.paginatedDocuments().map(d => d.id);
+    const select = !this.allOnPageSelected();
+    this.selectedIds.update(ids => {
+      const next = new Set(ids);
+      pageIds.forEach(id => select ? next.add(id) : next.delete(id));
+      return next;
+    });
+  }
+
+  selectAllMatching(): void {
+    this.selectedIds.set(new Set(this.filteredDocuments().map(d => d.id)));
+  }
+
+  clearSelection(): void {
+    this.selectedIds.set(new Set());
+  }
+
+  /**
+   * Activate or deactivate the selected documents that are not in that state yet
+   */
+  async bulkSetActive(isActive: boolean): Promise<void> {
+    const action = isActive ? 'activate' : 'deactivate';
+    const targets = this.selectedDocuments().filter(d => d.isActive !== isActive);
+    if (targets.length === 0) {
+      this.notificationService.info(this.i18n.translate(`documents.bulk.${action}.none`));
+      return;
+    }
+    if (!await this.confirmBulk(action, targets.length, 'common.yes')) return;
+
+    this.runBulk(action, targets, doc => this.store.setDocumentActive(doc.id, isActive));
+  }
+
+  /**
+   * Move the selected documents to trash
+   */
+  async bulkDelete(): Promise<void> {
+    const targets = this.selectedDocuments();
+    if (targets.length === 0 || !await this.confirmBulk('delete', targets.length, 'common.delete')) return;
+
+    this.runBulk('delete', targets, doc => this.store.deleteDocument(doc.id));
+  }
+
+  bulkDownload(): void {
+    this.runBulk('download', this.selectedDocuments(), doc =>
+      this.cmsApi.downloadDocument(doc.id).pipe(tap(blob => this.saveFile(blob, doc.name)))
+    );
+  }
+
+  dismissBulkReport(): void {
+    this.bulkReport.set(null);
+  }
+
+  private confirmBulk(action: Exclude<BulkDocumentAction, 'download'>, count: number, confirmKey: ManteqTranslationKey): Promise<boolean> {
+    return this.notificationService.confirm(
+      this.i18n.translate(`documents.bulk.${action}.title`),
+      this.i18n.translate(`documents.bulk.${action}.message`, { count }),
+      this.i18n.translate(confirmKey),
+      this.i18n.translate('common.cancel')
+    );
+  }
+
+  /**
+   * Run `operation` for every document and report the outcome once all have finished.
+   * Failed documents stay selected so the action can be retried.
+   */
+  private runBulk(action: BulkDocumentAction, docs: Document[], operation: (doc: Document) => Observable<unknown>): void {
+    this.bulkReport.set(null);
+
+    from(docs).pipe(
+      mergeMap(doc => operation(doc).pipe(
+        this.busy.track(doc.id),
+        toArray(),
+        map(() => ({ doc, error: null as unknown })),
+        catchError(error => {
+          // Collected into one report instead of a toast per document
+          if (error instanceof ManteqApiError) error.markHandled();
+          return of({ doc, error });
+        })
+      ), BULK_CONCURRENCY),
+      toArray(),
+      this.busy.track('bulk')
+    ).subscribe(results => {
+      const failures = results.filter(result => result.error !== null).map(({ doc, error }) => ({
+        id: doc.id,
+        name: doc.name,
+        message: error instanceof ManteqApiError ? error.message : this.i18n.translate(BULK_FAILURE_MESSAGES[action])
+      }));
+      const failedIds = new Set(failures.map(failure => failure.id));
+      this.selectedIds.update(ids => new Set([...ids].filter(id => failedIds.has(id) || !docs.some(d => d.id === id))));
+
+      const succeeded = results.length - failures.length;
+      if (failures.length === 0) {
+        this.notificationService.success(this.i18n.translate(`documents.bulk.${action}.done`, { count: succeeded }));
+      } else {
+        this.bulkReport.set({ action, succeeded, failures });
+        this.notificationService.warning(this.i18n.translate('documents.bulk.report.title', { failed: failures.length, total: results.length }));
+      }
+    });
+  }
+
+  private saveFile(blob: Blob, name: string): void {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  }
+
+  /**
+   * Filter documents
+   */
+  filterDocuments(status: 'all' | 'active' | 'inactive'): void {
+    this.currentFilter.update(f => ({ ...f, status }));
+    this.currentPage.set(1);
+  }
+
+  /**
+   * Search documents
+   */
+  searchDocuments(): void {
+    this.currentFilter.update(f => ({ ...f, searchTerm: this.searchTerm() }));
+    this.currentPage.set(1); // Reset to first page on search
+  }
+
+  updateSearchTerm(event: Event): void {
+    this.searchTerm.set((event.target as HTMLInputElement).value);
+    this.currentPage.set(1);
+  }
+  
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages()) {
+      this.currentPage.set(page);
+    }
+  }
+  
+  nextPage(): void {
+    this.goToPage(this.currentPage() + 1);
+  }
+  
+  previousPage(): void {
+    this.goToPage(this.currentPage() - 1);
+  }
+}
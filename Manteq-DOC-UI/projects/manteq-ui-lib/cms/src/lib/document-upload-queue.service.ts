@@ -0,0 +1,241 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpEventType } from '@angular/common/http';
+import { Observable, Subject, Subscription } from 'rxjs';
+import {
+  NotificationService,
+  ManteqStore,
+  ManteqTranslationService,
+  ManteqProgressService,
+  ManteqApiError
+} from '@manteq/ui-lib/core';
+
+/** Extensions accepted by the upload form; folder uploads skip everything else */
+export const DOCUMENT_UPLOAD_EXTENSIONS = ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.txt', '.png', '.jpg', '.jpeg', '.gif', '.zip', '.rar'];
+
+/** Largest file the CMS API accepts (DocumentService.MaxFileSize) */
+export const DOCUMENT_UPLOAD_MAX_SIZE = 50 * 1024 * 1024;
+
+/** Uploads running side by side; the rest of the queue waits */
+const UPLOAD_CONCURRENCY = 3;
+
+/**
+ * pending: added, name still editable - queued: waiting for a free upload slot
+ */
+export type UploadQueueStatus = 'pending' | 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  name: string;
+  status: UploadQueueStatus;
+  /** 0-100 */
+  progress: number;
+  /** Document type, shared by the files uploaded together */
+  type?: string;
+  error?: string;
+  /** Set once the upload succeeded */
+  documentId?: string;
+}
+
+// A type alias rather than an interface so it can be passed as translation params
+export type UploadSummary = {
+  uploaded: number;
+  failed: number;
+  cancelled: number;
+};
+
+export interface UploadBatchOptions {
+  type?: string;
+  /** Router URL of an uploaded document, linked from the success notification */
+  link?: (documentId: string) => string;
+}
+
+/**
+ * Document upload queue. Root-provided so uploads keep running, and the batch is
+ * still reported, when the user leaves the document library.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DocumentUploadQueueService {
+  private store = inject(ManteqStore);
+  private notificationService = inject(NotificationService);
+  private i18n = inject(ManteqTranslationService);
+  private progress = inject(ManteqProgressService);
+
+  private queueSignal = signal<UploadQueueItem[]>([]);
+  private summarySignal = signal<UploadSummary | null>(null);
+  private finishedSubject = new Subject<UploadSummary>();
+  private subscriptions = new Map<string, Subscription>();
+  // Files started since the last summary; the summary only counts these
+  private batchIds = new Set<string>();
+  private link?: (documentId: string) => string;
+
+  readonly queue = this.queueSignal.asReadonly();
+  readonly counts = computed(() => {
+    const counts: Record<UploadQueueStatus, number> = { pending: 0, queued: 0, uploading: 0, done: 0, failed: 0, cancelled: 0 };
+    for (const item of this.queueSignal()) {
+      counts[item.status]++;
+    }
+    return counts;
+  });
+  readonly active = computed(() => this.counts().queued + this.counts().uploading > 0);
+  // Shown once a batch has finished
+  readonly summary = this.summarySignal.asReadonly();
+  /** Emits the summary of every finished batch */
+  readonly finished: Observable<UploadSummary> = this.finishedSubject.asObservable();
+
+  /**
+   * Add files as pending. Unsupported, hidden and oversized files are skipped.
+   * @returns the number of skipped files
+   */
+  add(files: File[]): number {
+    const accepted = files.filter(file => this.accepts(file));
+    if (accepted.length > 0) {
+      this.summarySignal.set(null);
+      this.queueSignal.update(queue => [
+        ...queue,
+        ...accepted.map(file => ({
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          file,
+          name: file.name.replace(/\.[^.]+$/, ''),
+          status: 'pending' as const,
+          progress: 0
+        }))
+      ]);
+    }
+    return files.length - accepted.length;
+  }
+
+  rename(id: string, name: string): void {
+    this.patch(id, { name });
+  }
+
+  remove(id: string): void {
+    this.queueSignal.update(queue => queue.filter(item => item.id !== id));
+  }
+
+  /**
+   * Queue files for upload; retried files keep their type unless `options.type` is set
+   */
+  upload(ids: string[], options: UploadBatchOptions = {}): void {
+    if (ids.length === 0) return;
+    if (options.link) this.link = options.link;
+    this.queueSignal.update(queue => queue.map(item =>
+      ids.includes(item.id)
+        ? { ...item, status: 'queued' as const, progress: 0, error: undefined, type: options.type ?? item.type }
+        : item
+    ));
+    this.summarySignal.set(null);
+    ids.forEach(id => this.batchIds.add(id));
+    this.processQueue();
+  }
+
+  cancel(id: string): void {
+    this.subscriptions.get(id)?.unsubscribe();
+    this.subscriptions.delete(id);
+    this.patch(id, { status: 'cancelled' });
+    this.processQueue();
+  }
+
+  cancelAll(): void {
+    // Waiting files first, so no new upload starts in a slot freed by a cancelled one
+    const queue = this.queueSignal();
+    [...queue.filter(item => item.status === 'queued'), ...queue.filter(item => item.status === 'uploading')]
+      .forEach(item => this.cancel(item.id));
+  }
+
+  /**
+   * Remove uploaded, failed and cancelled files from the queue
+   */
+  clearFinished(): void {
+    this.queueSignal.update(queue => queue.filter(item => item.status === 'pending' || item.status === 'queued' || item.status === 'uploading'));
+    this.summarySignal.set(null);
+  }
+
+  accepts(file: File): boolean {
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    return !file.name.startsWith('.') && DOCUMENT_UPLOAD_EXTENSIONS.includes(extension) && file.size <= DOCUMENT_UPLOAD_MAX_SIZE;
+  }
+
+  /**
+   * Start queued files while upload slots are free; report the batch once nothing is left
+   */
+  private processQueue(): void {
+    while (this.counts().uploading < UPLOAD_CONCURRENCY) {
+      const next = this.queueSignal().find(item => item.status === 'queued');
+      if (!next) break;
+      this.start(next);
+    }
+
+    if (this.batchIds.size > 0 && !this.active()) {
+      const batch = this.queueSignal().filter(item => this.batchIds.has(item.id));
+      this.batchIds.clear();
+      this.report(batch);
+    }
+  }
+
+  private start(item: UploadQueueItem): void {
+    const name = item.name.trim();
+    this.patch(item.id, { status: 'uploading' });
+
+    const upload$ = this.store.uploadDocumentWithProgress(name, item.file, item.type || undefined);
+    const subscription = this.progress.track(this.i18n.translate('documents.messages.uploadTask', { name }), upload$).subscribe({
+      next: (event) => {
+        if (event.type === HttpEventType.UploadProgress && event.total) {
+          this.patch(item.id, { progress: Math.round(100 * event.loaded / event.total) });
+        } else if (event.type === HttpEventType.Response) {
+          this.patch(item.id, { status: 'done', progress: 100, documentId: event.body?.id });
+        }
+      },
+      error: (error) => {
+        // Reported in the queue row instead of a toast per file
+        if (error instanceof ManteqApiError) error.markHandled();
+        this.patch(item.id, {
+          status: 'failed',
+          error: error instanceof ManteqApiError ? error.message : this.i18n.translate('documents.messages.uploadFailed')
+        });
+        this.finish(item.id);
+      },
+      complete: () => this.finish(item.id)
+    });
+
+    // Synchronous responses (e.g. the mock backend) have already finished here
+    if (!subscription.closed) {
+      this.subscriptions.set(item.id, subscription);
+    }
+  }
+
+  private finish(id: string): void {
+    this.subscriptions.delete(id);
+    this.processQueue();
+  }
+
+  private report(batch: UploadQueueItem[]): void {
+    const uploaded = batch.filter(item => item.status === 'done');
+    const summary: UploadSummary = {
+      uploaded: uploaded.length,
+      failed: batch.filter(item => item.status === 'failed').length,
+      cancelled: batch.filter(item => item.status === 'cancelled').length
+    };
+    this.summarySignal.set(summary);
+
+    if (summary.failed === 0 && summary.cancelled === 0) {
+      const documentId = uploaded.length === 1 ? uploaded[0].documentId : undefined;
+      this.notificationService.success(
+        summary.uploaded === 1
+          ? this.i18n.translate('documents.messages.uploaded')
+          : this.i18n.translate('documents.messages.uploadedMany', { count: summary.uploaded }),
+        undefined,
+        documentId && this.link ? { link: this.link(documentId) } : {}
+      );
+    } else {
+      this.notificationService.warning(this.i18n.translate('documents.queue.summary', summary));
+    }
+    this.finishedSubject.next(summary);
+  }
+
+  private patch(id: string, changes: Partial<UploadQueueItem>): void {
+    this.queueSignal.update(queue => queue.map(item => item.id === id ? { ...item, ...changes } : item));
+  }
+}
@@ -0,0 +1,6 @@
+/*
+ * Public API Surface of @manteq/ui-lib/cms
+ */
+
+export * from './lib/document-library.component';
+export * from './lib/document-upload-queue.service';
@@ -1,5 +1,7 @@
+import { ManteqNavItem, ManteqPermission, ManteqRolePermissions } from '../models/config.model';
+
 /**
- * API Base URLs - Developers can modify these URLs to match their environment
+ * Default API Base URLs - used for any service not configured through MANTEQ_API_CONFIG
  */
 export const API_BASE_URLS = {
   CMS: 'http://localhost:5000',
@@ -7,6 +9,74 @@ export const API_BASE_URLS = {
   EMAIL: 'http://localhost:5030'
 } as const;
 
+/**
+ * Default timeout and retry settings - status 0 covers network failures and client timeouts
+ */
+export const DEFAULT_HTTP_CONFIG = {
+  timeoutMs: 60000,
+  retry: {
+    maxRetries: 3,
+    initialDelayMs: 500,
+    maxDelayMs: 8000,
+    retryStatuses: [0, 408, 429, 502, 503, 504]
+  }
+};
+
+/**
+ * Default mock backend settings - see provideManteqMockBackend
+ */
+export const DEFAULT_MOCK_BACKEND_CONFIG = {
+  latencyMs: 300,
+  seed: true
+};
+
+/**
+ * Notification center history - sessionStorage key and number of entries kept
+ */
+export const NOTIFICATION_HISTORY = {
+  storageKey: 'manteq.notifications',
+  limit: 50
+} as const;
+
+/**
+ * Default feature set - every library area is enabled unless turned off in provideManteq
+ */
+export const DEFAULT_MANTEQ_FEATURES = {
+  documents: true,
+  templates: true,
+  emails: true,
+  trash: true
+};
+
+/**
+ * Default sidebar: one entry per feature, in this order
+ */
+export const DEFAULT_NAV_ITEMS: ManteqNavItem[] = [
+  { id: 'documents', feature: 'documents', icon: 'bi-folder-fill' },
+  { id: 'templates', feature: 'templates', icon: 'bi-file-earmark-text' },
+  { id: 'emails', feature: 'emails', icon: 'bi-envelope' },
+  { id: 'trash', feature: 'trash', icon: 'bi-trash' }
+];
+
+/**
+ * Every permission checked by the library
+ */
+export const MANTEQ_PERMISSIONS: readonly ManteqPermission[] = [
+  'documents.view', 'documents.upload', 'documents.activate', 'documents.delete',
+  'templates.view', 'templates.upload', 'templates.activate', 'templates.delete',
+  'emails.view', 'emails.create', 'emails.edit', 'emails.activate', 'emails.delete', 'emails.test',
+  'trash.view', 'trash.restore', 'trash.delete', 'trash.empty'
+];
+
+/**
+ * Built-in roles; provideManteq({ rolePermissions }) adds or overrides roles
+ */
+export const DEFAULT_ROLE_PERMISSIONS: ManteqRolePermissions = {
+  admin: ['*'],
+  editor: ['documents.*', 'templates.*', 'emails.*', 'trash.view', 'trash.restore'],
+  viewer: ['documents.view', 'templates.view', 'emails.view', 'trash.view']
+};
+
 /**
  * API Endpoints
  */
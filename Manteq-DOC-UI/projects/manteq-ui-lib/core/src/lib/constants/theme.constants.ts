@@ -0,0 +1,88 @@
+import { ManteqColorScheme, ManteqLocale } from '../models/config.model';
+
+/**
+ * Default theme configuration - fallback values if parent app doesn't provide config
+ */
+export const DEFAULT_THEME = {
+  companyName: 'Doc & Email Portal',
+  companyLogo: 'https://cdn-icons-png.flaticon.com/512/861/861377.png',
+  primaryColor: '#2c3e50',
+  accentColor: '#3498db',
+  fontStyle: 'Inter, system-ui, sans-serif',
+  disclaimer: 'By Manteq',
+  locale: 'en'
+} as const;
+
+/**
+ * Locales with a bundled translation
+ */
+export const MANTEQ_LOCALES: readonly ManteqLocale[] = ['en', 'ar'];
+
+/**
+ * Accepted values of ManteqLibConfig.colorScheme
+ */
+export const MANTEQ_COLOR_SCHEMES: readonly ManteqColorScheme[] = ['light', 'dark', 'system'];
+
+/**
+ * Date formatting locale used when ManteqLibConfig.dateLocale is not set
+ */
+export const DEFAULT_DATE_LOCALES: Readonly<Record<ManteqLocale, string>> = {
+  en: 'en-US',
+  ar: 'ar'
+};
+
+/**
+ * Locales written right-to-left
+ */
+export const RTL_LOCALES: readonly string[] = ['ar'];
+
+/**
+ * CSS Custom Property names
+ */
+export const CSS_VARIABLES = {
+  PRIMARY_COLOR: '--manteq-primary-color',
+  ACCENT_COLOR: '--manteq-accent-color',
+  FONT_FAMILY: '--manteq-font-family',
+  PRIMARY_HOVER: '--manteq-primary-hover',
+  ACCENT_HOVER: '--manteq-accent-hover',
+  PRIMARY_LIGHT: '--manteq-primary-light',
+  ACCENT_LIGHT: '--manteq-accent-light',
+  PRIMARY_RGB: '--manteq-primary-rgb',
+  ACCENT_RGB: '--manteq-accent-rgb',
+  SURFACE_COLOR: '--manteq-surface-color',
+  SURFACE_MUTED: '--manteq-surface-muted',
+  TEXT_COLOR: '--manteq-text-color',
+  TEXT_MUTED: '--manteq-text-muted',
+  BORDER_COLOR: '--manteq-border-color'
+} as const;
+
+/**
+ * Palette shades published per brand color, e.g. --manteq-primary-100
+ */
+export const PALETTE_VARIABLE_PREFIXES = {
+  primary: '--manteq-primary',
+  accent: '--manteq-accent'
+} as const;
+
+/**
+ * Neutral colors per scheme; the dark values match Bootstrap's dark color mode
+ */
+export const SURFACE_COLORS = {
+  light: { surface: '#ffffff', surfaceMuted: '#f8f9fa', text: '#212529', textMuted: '#6c757d', border: '#dee2e6' },
+  dark: { surface: '#2b3035', surfaceMuted: '#212529', text: '#dee2e6', textMuted: '#adb5bd', border: '#495057' }
+} as const;
+
+/**
+ * Text drawn on primary and accent backgrounds (buttons, active navigation)
+ */
+export const BRAND_TEXT_COLOR = '#ffffff';
+
+/**
+ * WCAG 2.x AA minimum contrast for normal-size text
+ */
+export const WCAG_AA_CONTRAST = 4.5;
+
+/**
+ * localStorage key holding the color scheme the user picked
+ */
+export const COLOR_SCHEME_STORAGE_KEY = 'manteq.colorScheme';
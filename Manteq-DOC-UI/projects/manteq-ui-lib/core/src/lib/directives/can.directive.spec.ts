@@ -0,0 +1,41 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ManteqCanDirective } from './can.directive';
+import { ManteqPermissionService } from '../services/permission.service';
+import { USER_CONTEXT } from '../tokens/config.tokens';
+
+@Component({
+  standalone: true,
+  imports: [ManteqCanDirective],
+  template: `
+    <button *manteqCan="'trash.empty'; else readOnly" class="empty">Empty Trash</button>
+    <ng-template #readOnly><span class="read-only">Read only</span></ng-template>
+  `
+})
+class HostComponent {}
+
+describe('ManteqCanDirective', () => {
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HostComponent],
+      providers: [
+        { provide: USER_CONTEXT, useValue: { email: 'viewer@example.com', name: 'Viewer', roles: ['viewer'] } }
+      ]
+    });
+  });
+
+  it('should render the else template without the permission and switch when the user changes', () => {
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('.empty')).toBeNull();
+    expect(element.querySelector('.read-only')).not.toBeNull();
+
+    TestBed.inject(ManteqPermissionService).setUser({ email: 'admin@example.com', name: 'Admin', roles: ['admin'] });
+    fixture.detectChanges();
+
+    expect(element.querySelector('.empty')).not.toBeNull();
+    expect(element.querySelector('.read-only')).toBeNull();
+  });
+});
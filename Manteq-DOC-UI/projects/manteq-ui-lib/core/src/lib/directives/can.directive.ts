@@ -0,0 +1,34 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { ManteqPermissionService } from '../services/permission.service';
+import { ManteqPermission } from '../models/config.model';
+
+/**
+ * Render the element only when the current user has the permission:
+ * `*manteqCan="'trash.empty'; else readOnly"`
+ */
+@Directive({
+  selector: '[manteqCan]',
+  standalone: true
+})
+export class ManteqCanDirective {
+  private permissions = inject(ManteqPermissionService);
+  private templateRef = inject<TemplateRef<unknown>>(TemplateRef);
+  private viewContainer = inject(ViewContainerRef);
+  private rendered: TemplateRef<unknown> | null = null;
+
+  manteqCan = input.required<ManteqPermission>();
+  manteqCanElse = input<TemplateRef<unknown> | null>(null);
+
+  constructor() {
+    effect(() => {
+      const template = this.permissions.can(this.manteqCan()) ? this.templateRef : this.manteqCanElse();
+      if (template === this.rendered) return;
+
+      this.viewContainer.clear();
+      if (template) {
+        this.viewContainer.createEmbeddedView(template);
+      }
+      this.rendered = template;
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ManteqDropTargetDirective, ManteqRejectedFile } from './drop-target.directive';
+import { NotificationService } from '../services/notification.service';
+
+@Component({
+  standalone: true,
+  imports: [ManteqDropTargetDirective],
+  template: `
+    <div
+      class="zone"
+      manteqDropTarget
+      dropAccept=".docx,.xlsx"
+      [dropMaxSize]="1024"
+      [dropMultiple]="multiple"
+      [dropDisabled]="disabled"
+      (filesDropped)="dropped = $event"
+      (filesRejected)="rejected = $event">
+      <span class="child"></span>
+    </div>
+  `
+})
+class HostComponent {
+  multiple = true;
+  disabled = false;
+  dropped: File[] = [];
+  rejected: ManteqRejectedFile[] = [];
+}
+
+function dragEvent(type: string, files: File[] = []): DragEvent {
+  const dataTransfer = new DataTransfer();
+  files.forEach(file => dataTransfer.items.add(file));
+  return new DragEvent(type, { dataTransfer, bubbles: true, cancelable: true });
+}
+
+describe('ManteqDropTargetDirective', () => {
+  let notifications: jasmine.SpyObj<NotificationService>;
+
+  beforeEach(() => {
+    notifications = jasmine.createSpyObj<NotificationService>('NotificationService', ['warning']);
+    TestBed.configureTestingModule({
+      imports: [HostComponent],
+      providers: [{ provide: NotificationService, useValue: notifications }]
+    });
+  });
+
+  function setup(changes: Partial<HostComponent> = {}) {
+    const fixture = TestBed.createComponent(HostComponent);
+    Object.assign(fixture.componentInstance, changes);
+    fixture.detectChanges();
+    const zone: HTMLElement = fixture.nativeElement.querySelector('.zone');
+    return { fixture, host: fixture.componentInstance, zone };
+  }
+
+  it('should show the drag-over state until the files leave the element', () => {
+    const { fixture, zone } = setup();
+
+    zone.dispatchEvent(dragEvent('dragenter', [new File([''], 'a.docx')]));
+    zone.querySelector('.child')!.dispatchEvent(dragEvent('dragenter', [new File([''], 'a.docx')]));
+    zone.dispatchEvent(dragEvent('dragleave', [new File([''], 'a.docx')]));
+    fixture.detectChanges();
+    expect(zone.classList).toContain('manteq-drag-over');
+
+    zone.dispatchEvent(dragEvent('dragleave', [new File([''], 'a.docx')]));
+    fixture.detectChanges();
+    expect(zone.classList).not.toContain('manteq-drag-over');
+  });
+
+  it('should emit accepted files and report the rejected ones', () => {
+    const { host, zone } = setup({ multiple: false });
+    const report = new File(['x'], 'report.DOCX');
+
+    const drop = dragEvent('drop', [report, new File([''], 'setup.exe'), new File(['x'.repeat(2048)], 'big.xlsx'), new File([''], 'b.xlsx')]);
+    zone.dispatchEvent(drop);
+
+    expect(drop.defaultPrevented).toBeTrue();
+    expect(host.dropped).toEqual([report]);
+    expect(host.rejected.map(rejection => rejection.reason)).toEqual(['type', 'size', 'count']);
+    expect(notifications.warning).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore drops while disabled', () => {
+    const { host, zone } = setup({ disabled: true });
+
+    zone.dispatchEvent(dragEvent('drop', [new File([''], 'a.docx')]));
+
+    expect(host.dropped).toEqual([]);
+    expect(notifications.warning).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { Directive, booleanAttribute, computed, inject, input, output, signal } from '@angular/core';
+import { NotificationService } from '../services/notification.service';
+import { ManteqTranslationService } from '../services/translation.service';
+import { FileSizePipe } from '../pipes/file-size.pipe';
+
+export type ManteqDropRejection = 'type' | 'size' | 'count';
+
+export interface ManteqRejectedFile {
+  file: File;
+  reason: ManteqDropRejection;
+}
+
+/**
+ * Accept files dragged onto the element:
+ * `<div manteqDropTarget dropAccept=".docx,.xlsx" [dropMaxSize]="5242880" (filesDropped)="select($event[0])">`
+ *
+ * Dropped files are checked against `dropAccept` (extensions), `dropMaxSize` (bytes) and
+ * `dropMultiple`; rejected files are reported with a warning toast and `filesRejected`.
+ * While files are dragged over, the host gets the `manteq-drag-over` class
+ * (`manteq-drag-disabled` when the target is disabled).
+ */
+@Directive({
+  selector: '[manteqDropTarget]',
+  standalone: true,
+  exportAs: 'manteqDropTarget',
+  host: {
+    '[class.manteq-drag-over]': 'dragOver() && !dropDisabled()',
+    '[class.manteq-drag-disabled]': 'dragOver() && dropDisabled()',
+    '(dragenter)': 'onDragEnter($event)',
+    '(dragover)': 'onDragOver($event)',
+    '(dragleave)': 'onDragLeave($event)',
+    '(drop)': 'onDrop($event)'
+  }
+})
+export class ManteqDropTargetDirective {
+  private notifications = inject(NotificationService);
+  private i18n = inject(ManteqTranslationService);
+  private fileSize = new FileSizePipe();
+
+  /** Comma-separated extensions, e.g. `.pdf,.docx`; empty accepts everything */
+  dropAccept = input<string | readonly string[]>('');
+  /** Maximum size per file in bytes */
+  dropMaxSize = input<number | null>(null);
+  dropMultiple = input(true, { transform: booleanAttribute });
+  dropDisabled = input(false, { transform: booleanAttribute });
+
+  filesDropped = output<File[]>();
+  filesRejected = output<ManteqRejectedFile[]>();
+
+  // dragenter/dragleave fire for every child element the pointer crosses
+  private depth = signal(0);
+  readonly dragOver = computed(() => this.depth() > 0);
+
+  private extensions = computed(() => {
+    const accept = this.dropAccept();
+    const list = typeof accept === 'string' ? accept.split(',') : accept;
+    return list.map(extension => extension.trim().toLowerCase()).filter(Boolean);
+  });
+
+  onDragEnter(event: DragEvent): void {
+    if (!this.hasFiles(event)) return;
+    event.preventDefault();
+    this.depth.update(depth => depth + 1);
+  }
+
+  onDragOver(event: DragEvent): void {
+    if (!this.hasFiles(event)) return;
+    // Without preventDefault the browser opens the file instead of dropping it here
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = this.dropDisabled() ? 'none' : 'copy';
+    }
+  }
+
+  onDragLeave(event: DragEvent): void {
+    if (!this.hasFiles(event)) return;
+    this.depth.update(depth => Math.max(0, depth - 1));
+  }
+
+  onDrop(event: DragEvent): void {
+    if (!this.hasFiles(event)) return;
+    event.preventDefault();
+    // Nested drop targets handle their own files
+    event.stopPropagation();
+    this.depth.set(0);
+
+    if (this.dropDisabled()) return;
+    this.handleFiles(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  private handleFiles(files: File[]): void {
+    const accepted: File[] = [];
+    const rejected: ManteqRejectedFile[] = [];
+
+    for (const file of files) {
+      const reason = this.rejectionReason(file, accepted.length);
+      if (reason) {
+        rejected.push({ file, reason });
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    if (rejected.length > 0) {
+      this.notifications.warning(rejected.map(rejection => this.rejectionMessage(rejection)).join(' '));
+      this.filesRejected.emit(rejected);
+    }
+    if (accepted.length > 0) {
+      this.filesDropped.emit(accepted);
+    }
+  }
+
+  private rejectionReason(file: File, acceptedCount: number): ManteqDropRejection | null {
+    const extensions = this.extensions();
+    const name = file.name.toLowerCase();
+    if (extensions.length > 0 && !extensions.some(extension => name.endsWith(extension))) {
+      return 'type';
+    }
+    const maxSize = this.dropMaxSize();
+    if (maxSize !== null && file.size > maxSize) {
+      return 'size';
+    }
+    if (!this.dropMultiple() && acceptedCount > 0) {
+      return 'count';
+    }
+    return null;
+  }
+
+  private rejectionMessage({ file, reason }: ManteqRejectedFile): string {
+    switch (reason) {
+      case 'type':
+        return this.i18n.translate('common.dropzone.rejectedType', { name: file.name, types: this.extensions().join(', ') });
+      case 'size':
+        return this.i18n.translate('common.dropzone.rejectedSize', { name: file.name, size: this.fileSize.transform(this.dropMaxSize()!) });
+      case 'count':
+        return this.i18n.translate('common.dropzone.rejectedCount', { name: file.name });
+    }
+  }
+
+  private hasFiles(event: DragEvent): boolean {
+    return !!event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files');
+  }
+}
@@ -0,0 +1,176 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { ManteqApiServiceName } from '../models/config.model';
+
+/**
+ * Field-level validation messages keyed by field name
+ */
+export type ManteqFieldErrors = Record<string, string[]>;
+
+export interface ManteqApiErrorInit {
+  status: number;
+  message: string;
+  service: ManteqApiServiceName | null;
+  url: string | null;
+  title?: string;
+  fieldErrors?: ManteqFieldErrors;
+  traceId?: string;
+  response: HttpErrorResponse;
+}
+
+/**
+ * Typed error for failed CMS, TMS and Email API calls
+ */
+export class ManteqApiError extends Error {
+  readonly status: number;
+  readonly service: ManteqApiServiceName | null;
+  readonly url: string | null;
+  readonly title?: string;
+  readonly fieldErrors: ManteqFieldErrors;
+  readonly traceId?: string;
+  readonly response: HttpErrorResponse;
+
+  private _handled = false;
+
+  constructor(init: ManteqApiErrorInit) {
+    super(init.message);
+    this.name = 'ManteqApiError';
+    this.status = init.status;
+    this.service = init.service;
+    this.url = init.url;
+    this.title = init.title;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.traceId = init.traceId;
+    this.response = init.response;
+  }
+
+  /**
+   * Whether the error was already reported to the user by the caller
+   */
+  get handled(): boolean {
+    return this._handled;
+  }
+
+  /**
+   * Mark the error as handled so the global error toast is skipped
+   */
+  markHandled(): void {
+    this._handled = true;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  /**
+   * Flattened "field: message" list for display
+   */
+  get fieldMessages(): string[] {
+    return Object.entries(this.fieldErrors).flatMap(([field, messages]) =>
+      messages.map(message => field ? `${field}: ${message}` : message)
+    );
+  }
+}
+
+/**
+ * Build a ManteqApiError from an HttpErrorResponse.
+ *
+ * Understands ASP.NET ProblemDetails / ValidationProblemDetails, serialized ModelState
+ * dictionaries, the `{ error }` / `{ message }` bodies our controllers return, plain text
+ * and blob bodies (for requests made with `responseType: 'blob'`).
+ */
+export async function parseApiError(
+  response: HttpErrorResponse,
+  service: ManteqApiServiceName | null
+): Promise<ManteqApiError> {
+  const body = await readErrorBody(response.error);
+
+  let message: string | undefined;
+  let title: string | undefined;
+  let traceId: string | undefined;
+  let fieldErrors: ManteqFieldErrors = {};
+
+  if (isRecord(body)) {
+    title = asString(body['title']);
+    traceId = asString(body['traceId']);
+
+    if (isRecord(body['errors'])) {
+      fieldErrors = toFieldErrors(body['errors']);
+    } else if (isModelStateDictionary(body)) {
+      fieldErrors = toFieldErrors(body);
+    }
+
+    message = asString(body['detail'])
+      ?? asString(body['error'])
+      ?? asString(body['message'])
+      ?? asString(body['errorMessage'])
+      ?? title;
+  } else if (typeof body === 'string' && body.trim() && !body.trim().startsWith('<')) {
+    message = body.trim();
+  }
+
+  if (!message && Object.keys(fieldErrors).length > 0) {
+    message = 'One or more validation errors occurred.';
+  }
+
+  return new ManteqApiError({
+    status: response.status,
+    message: message ?? defaultMessage(response),
+    service,
+    url: response.url,
+    title,
+    fieldErrors,
+    traceId,
+    response
+  });
+}
+
+async function readErrorBody(error: unknown): Promise<unknown> {
+  if (!(error instanceof Blob)) {
+    return error;
+  }
+
+  const text = await error.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function defaultMessage(response: HttpErrorResponse): string {
+  if (response.status === 0) {
+    return 'Unable to reach the server. Please check your connection.';
+  }
+  return `Request failed with status ${response.status}${response.statusText ? ` (${response.statusText})` : ''}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+/**
+ * `BadRequest(ModelState)` serializes as `{ "Field": ["message", ...] }`
+ */
+function isModelStateDictionary(body: Record<string, unknown>): boolean {
+  const values = Object.values(body);
+  return values.length > 0 && values.every(value =>
+    Array.isArray(value) && value.every(item => typeof item === 'string')
+  );
+}
+
+function toFieldErrors(errors: Record<string, unknown>): ManteqFieldErrors {
+  const result: ManteqFieldErrors = {};
+  for (const [field, value] of Object.entries(errors)) {
+    const messages = (Array.isArray(value) ? value : [value]).filter(
+      (item): item is string => typeof item === 'string' && item.length > 0
+    );
+    if (messages.length > 0) {
+      result[field] = messages;
+    }
+  }
+  return result;
+}
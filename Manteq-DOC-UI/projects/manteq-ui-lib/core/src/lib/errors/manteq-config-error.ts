@@ -0,0 +1,12 @@
+/**
+ * Thrown at startup when the options passed to provideManteq are invalid
+ */
+export class ManteqConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid Manteq configuration:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+    this.name = 'ManteqConfigError';
+    this.problems = problems;
+  }
+}
@@ -0,0 +1,12 @@
+import { inject } from '@angular/core';
+import { CanMatchFn } from '@angular/router';
+import { ManteqPermissionService } from '../services/permission.service';
+import { ManteqPermission } from '../models/config.model';
+
+/**
+ * Only match the route when the current user has the permission, so forbidden
+ * feature routes behave as if they were not registered
+ */
+export function manteqPermissionGuard(permission: ManteqPermission): CanMatchFn {
+  return () => inject(ManteqPermissionService).can(permission);
+}
@@ -0,0 +1,623 @@
+import { ManteqTranslations } from './translations.en';
+
+/**
+ * Arabic translation bundle (rendered right-to-left)
+ */
+export const MANTEQ_AR: ManteqTranslations = {
+  common: {
+    active: 'نشط',
+    inactive: 'غير نشط',
+    draft: 'مسودة',
+    status: 'الحالة',
+    allStatus: 'كل الحالات',
+    allTypes: 'كل الأنواع',
+    loading: 'جارٍ التحميل...',
+    downloading: 'جارٍ التنزيل...',
+    working: 'جارٍ التنفيذ...',
+    cancel: 'إلغاء',
+    close: 'إغلاق',
+    delete: 'حذف',
+    download: 'تنزيل',
+    yes: 'نعم',
+    unknown: 'غير معروف',
+    viewDetails: 'عرض التفاصيل',
+    requiredFields: 'يرجى تعبئة جميع الحقول المطلوبة',
+    showingResults: 'عرض {from} إلى {to} من أصل {total} نتيجة',
+    columns: {
+      status: 'الحالة',
+      actions: 'الإجراءات',
+      lastUpdated: 'آخر تحديث'
+    },
+    dropzone: {
+      title: 'اسحب الملف وأفلته هنا',
+      browse: 'أو انقر للاستعراض',
+      rejectedType: 'نوع الملف {name} غير مدعوم ({types}).',
+      rejectedSize: 'حجم الملف {name} أكبر من {size}.',
+      rejectedCount: 'تم تخطي {name} - يمكن إفلات ملف واحد فقط هنا.'
+    }
+  },
+
+  layout: {
+    subtitle: 'إدارة مستنداتك وتنظيمها بكفاءة',
+    logoAlt: 'شعار الشركة',
+    toggleMenu: 'إظهار القائمة أو إخفاؤها',
+    darkMode: 'التبديل إلى الوضع الداكن',
+    lightMode: 'التبديل إلى الوضع الفاتح',
+    breadcrumbs: 'مسار التنقل',
+    progress: 'جارٍ التحميل',
+    tasks: {
+      title: 'المهام في الخلفية',
+      running: '{count} قيد التنفيذ',
+      inProgress: 'قيد التنفيذ',
+      succeeded: 'تم',
+      failed: 'فشل',
+      open: 'فتح',
+      dismiss: 'إخفاء',
+      clearFinished: 'مسح المكتملة',
+      toggle: 'إظهار المهام في الخلفية أو إخفاؤها'
+    },
+    userMenu: {
+      label: 'قائمة حساب {name}',
+      profile: 'ملفي الشخصي',
+      signOut: 'تسجيل الخروج'
+    },
+    notifications: {
+      label: 'الإشعارات',
+      unread: '{count} غير مقروءة',
+      markAllRead: 'تعليم الكل كمقروء',
+      clear: 'مسح',
+      empty: 'لا توجد إشعارات بعد',
+      open: 'فتح',
+      dismiss: 'إخفاء',
+      status: 'HTTP {status}',
+      traceId: 'معرّف التتبع: {id}'
+    },
+    palette: {
+      open: 'البحث والأوامر',
+      placeholder: 'ابحث في المستندات والقوالب والأوامر…',
+      searching: 'جارٍ البحث…',
+      noResults: 'لا توجد نتائج لـ "{term}"',
+      hint: 'استخدم ↑ ↓ للاختيار و Enter للفتح',
+      groups: {
+        actions: 'الإجراءات',
+        document: 'المستندات',
+        template: 'القوالب',
+        emailTemplate: 'قوالب البريد الإلكتروني',
+        trash: 'سلة المحذوفات'
+      },
+      actions: {
+        goTo: 'الانتقال إلى {name}',
+        uploadDocument: 'رفع مستند',
+        addTemplate: 'إضافة قالب',
+        createEmail: 'إنشاء قالب بريد إلكتروني',
+        testEmail: 'اختبار قالب البريد الإلكتروني {name}',
+        toggleDarkMode: 'تبديل الوضع الداكن'
+      }
+    },
+    nav: {
+      documents: 'مكتبة المستندات',
+      templates: 'منشئ القوالب',
+      emails: 'قوالب البريد الإلكتروني',
+      trash: 'سلة المحذوفات'
+    },
+    offline: {
+      title: 'أنت غير متصل بالإنترنت.',
+      pendingOne: 'سيتم إرسال {count} تغيير معلّق عند عودة الاتصال.',
+      pendingMany: 'سيتم إرسال {count} تغييرات معلّقة عند عودة الاتصال.',
+      noPending: 'سيتم إرسال التغييرات عند عودة الاتصال.'
+    }
+  },
+
+  dates: {
+    expired: 'منتهي الصلاحية',
+    countdownDays: '{days} يوم {time}'
+  },
+
+  notifications: {
+    success: 'تم بنجاح',
+    error: 'خطأ',
+    warning: 'تنبيه',
+    info: 'معلومة',
+    loading: 'جارٍ التحميل...'
+  },
+
+  documents: {
+    title: 'المستندات',
+    searchPlaceholder: 'ابحث في المستندات...',
+    empty: 'لم يتم العثور على مستندات',
+    types: {
+      censusList: 'قائمة التعداد',
+      fullList: 'القائمة الكاملة'
+    },
+    columns: {
+      name: 'اسم المستند',
+      type: 'النوع',
+      size: 'الحجم',
+      uploadDate: 'تاريخ الرفع'
+    },
+    upload: {
+      title: 'رفع المستندات',
+      name: 'اسم المستند',
+      namePlaceholder: 'أدخل اسم المستند',
+      type: 'النوع (اختياري)',
+      typePlaceholder: 'اختر النوع...',
+      file: 'اختر الملفات',
+      folder: 'اختر مجلدًا',
+      dropOverlay: 'أفلت الملفات لإضافتها إلى قائمة الرفع',
+      hint: 'أفلت الملفات في أي مكان في هذه الصفحة أو اخترها. تُسمّى المستندات باسم الملف ويمكن تعديلها قبل الرفع. ينطبق النوع على جميع الملفات.',
+      submit: 'رفع المستندات'
+    },
+    queue: {
+      file: 'الملف',
+      progress: 'التقدم',
+      status: {
+        pending: 'جاهز',
+        queued: 'في الانتظار',
+        uploading: 'جارٍ الرفع',
+        done: 'تم الرفع',
+        failed: 'فشل',
+        cancelled: 'أُلغي'
+      },
+      remove: 'إزالة من القائمة',
+      cancel: 'إلغاء الرفع',
+      retry: 'إعادة المحاولة',
+      open: 'فتح المستند',
+      cancelAll: 'إلغاء الكل',
+      retryFailed: 'إعادة محاولة الفاشلة',
+      clearFinished: 'مسح المكتملة',
+      summary: 'انتهى الرفع: {uploaded} تم رفعها، {failed} فشلت، {cancelled} أُلغيت',
+      skipped: 'تم تخطي ملفات غير مدعومة أو كبيرة الحجم: {count}'
+    },
+    actions: {
+      download: 'تنزيل المستند',
+      activate: 'تفعيل المستند',
+      deactivate: 'إلغاء تفعيل المستند',
+      delete: 'حذف المستند'
+    },
+    preview: {
+      title: 'معاينة المستند',
+      open: 'معاينة',
+      previous: 'المستند السابق',
+      next: 'المستند التالي',
+      position: '{index} من {total}',
+      loading: 'جارٍ تحميل المعاينة...',
+      unsupported: 'لا تتوفر معاينة لهذا النوع من الملفات.',
+      tooLarge: 'الملف كبير جدًا للمعاينة. قم بتنزيله لعرضه.',
+      failed: 'تعذر تحميل المعاينة.',
+      officeNotice: 'معاينة مبسطة - لا تظهر الصور والمخططات وتنسيق الصفحة.',
+      truncated: 'يظهر جزء من بداية الملف فقط.'
+    },
+    bulk: {
+      selectPage: 'تحديد كل المستندات في هذه الصفحة',
+      selectRow: 'تحديد {name}',
+      selected: 'تم تحديد {count}',
+      selectAllMatching: 'تحديد كل المستندات المطابقة ({count})',
+      allMatchingSelected: 'تم تحديد كل المستندات المطابقة ({count})',
+      clear: 'إلغاء التحديد',
+      activate: {
+        action: 'تفعيل',
+        title: 'تفعيل المستندات',
+        message: 'هل أنت متأكد من تفعيل {count} مستندات؟',
+        done: 'تم تفعيل {count} مستندات',
+        none: 'كل المستندات المحددة مفعلة بالفعل'
+      },
+      deactivate: {
+        action: 'إلغاء التفعيل',
+        title: 'إلغاء تفعيل المستندات',
+        message: 'هل أنت متأكد من إلغاء تفعيل {count} مستندات؟',
+        done: 'تم إلغاء تفعيل {count} مستندات',
+        none: 'كل المستندات المحددة غير مفعلة بالفعل'
+      },
+      delete: {
+        action: 'نقل إلى سلة المحذوفات',
+        title: 'حذف المستندات',
+        message: 'هل أنت متأكد من حذف {count} مستندات؟ سيتم نقلها إلى سلة المحذوفات.',
+        done: 'تم نقل {count} مستندات إلى سلة المحذوفات'
+      },
+      download: {
+        action: 'تنزيل',
+        done: 'تم تنزيل {count} مستندات'
+      },
+      report: {
+        title: 'تعذرت معالجة {failed} من {total} مستندات',
+        succeeded: 'نجح {count}. المستندات التي فشلت ما زالت محددة لتتمكن من المحاولة مرة أخرى.',
+        dismiss: 'إغلاق التقرير'
+      }
+    },
+    details: {
+      subtitle: 'تفاصيل المستند',
+      type: 'النوع',
+      extension: 'الامتداد',
+      mimeType: 'نوع MIME',
+      size: 'الحجم',
+      uploaded: 'تاريخ الرفع',
+      uploadedBy: 'رُفع بواسطة'
+    },
+    delete: {
+      title: 'حذف المستند',
+      message: 'هل أنت متأكد من حذف "{name}"؟ سيتم نقله إلى سلة المحذوفات.'
+    },
+    activate: {
+      title: 'تفعيل المستند',
+      message: 'هل أنت متأكد من تفعيل "{name}"؟',
+      progress: 'جارٍ تفعيل المستند...',
+      success: 'تم تفعيل المستند بنجاح',
+      failed: 'تعذّر تفعيل المستند'
+    },
+    deactivate: {
+      title: 'إلغاء تفعيل المستند',
+      message: 'هل أنت متأكد من إلغاء تفعيل "{name}"؟',
+      progress: 'جارٍ إلغاء تفعيل المستند...',
+      success: 'تم إلغاء تفعيل المستند بنجاح',
+      failed: 'تعذّر إلغاء تفعيل المستند'
+    },
+    messages: {
+      loadFailed: 'تعذّر تحميل المستندات',
+      uploadMissing: 'يرجى إضافة ملف واحد على الأقل وتسمية كل ملف',
+      uploading: 'جارٍ رفع المستند...',
+      uploadTask: 'رفع {name}',
+      uploaded: 'تم رفع المستند بنجاح',
+      uploadedMany: 'تم رفع {count} مستندات بنجاح',
+      uploadFailed: 'تعذّر رفع المستند',
+      downloadFailed: 'تعذّر تنزيل المستند',
+      deleting: 'جارٍ حذف المستند...',
+      deleted: 'تم نقل المستند إلى سلة المحذوفات',
+      deleteFailed: 'تعذّر حذف المستند'
+    }
+  },
+
+  templates: {
+    title: 'منشئ القوالب',
+    subtitle: 'إدارة قوالب المستندات وتنظيمها',
+    searchPlaceholder: 'ابحث في القوالب...',
+    empty: 'لم يتم العثور على قوالب',
+    types: {
+      quotationReport: 'تقرير عرض سعر'
+    },
+    columns: {
+      name: 'اسم القالب',
+      type: 'نوع القالب',
+      outputFormat: 'صيغة الإخراج'
+    },
+    actions: {
+      download: 'تنزيل ملف القالب',
+      downloadPlaceholders: 'تنزيل ملف Excel للعناصر النائبة',
+      activate: 'تفعيل القالب',
+      deactivate: 'إلغاء تفعيل القالب'
+    },
+    add: {
+      title: 'إضافة قالب جديد',
+      subtitle: 'ارفع قالب المستند وقم بإعداده',
+      details: 'تفاصيل القالب',
+      name: 'اسم القالب',
+      namePlaceholder: 'أدخل اسم القالب',
+      type: 'نوع القالب',
+      typePlaceholder: 'اختر النوع',
+      uploadFile: 'رفع ملف القالب',
+      file: 'ملف القالب',
+      fileHint: 'ملفات .docx و .xlsx فقط',
+      supportedFiles: 'يدعم ملفات .docx و .xlsx',
+      outputFormat: 'صيغة الإخراج',
+      testSection: 'اختبار القالب (اختياري)',
+      testHint: 'ارفع بيانات اختبارية لمعاينة شكل القالب بالقيم الفعلية.',
+      step1Title: 'الخطوة 1: تنزيل ملف Excel للعناصر النائبة',
+      step1Body: 'أولاً، نزّل ملف Excel للعناصر النائبة بالقيم الافتراضية من القالب المحدد.',
+      downloadPlaceholder: 'تنزيل ملف Excel للعناصر النائبة',
+      step2Title: 'الخطوة 2: تعبئة بيانات الاختبار',
+      step2Body: 'افتح ملف Excel الذي تم تنزيله، واملأ قيم الاختبار، ثم ارفعه أدناه لاختبار القالب.',
+      uploadFilled: 'رفع ملف Excel المعبأ',
+      testFilePlaceholder: 'اختر ملف Excel للاختبار',
+      versionInfo: 'إصدار القالب: 1.0 | الحالة: مسودة'
+    },
+    guidelines: {
+      title: 'إرشادات',
+      creation: 'إنشاء القالب',
+      fileTypes: 'ارفع ملفات .docx أو .xlsx فقط',
+      formatting: 'حافظ على تنسيق متّسق',
+      formattingHint: '(الخطوط، المسافات، المحاذاة، التخطيط، الصور)',
+      variables: 'إضافة متغيرات ديناميكية',
+      openTemplate: 'افتح القالب في Word/Excel',
+      properties: 'انتقل إلى ملف ← معلومات ← خصائص ← خصائص متقدمة ← مخصص',
+      addProperty: 'أضف خاصية جديدة:',
+      propertyName: 'الاسم:',
+      propertyType: 'النوع:',
+      propertyTypeValue: 'نص',
+      propertyValue: 'القيمة:',
+      propertyValueValue: 'القيمة الافتراضية',
+      embedding: 'تضمين القوالب',
+      embeddingHint: 'ضمّن قالبًا محفوظًا آخر داخل القالب الرئيسي:'
+    },
+    details: {
+      subtitle: 'تفاصيل القالب',
+      created: 'تاريخ الإنشاء',
+      createdBy: '{date} بواسطة {name}',
+      updated: 'آخر تحديث',
+      generated: 'المستندات المنشأة',
+      succeeded: '{count} ناجحة',
+      failed: '{count} فاشلة',
+      placeholders: 'العناصر النائبة',
+      noPlaceholders: 'لا توجد عناصر نائبة في هذا القالب',
+      placeholdersExcel: 'ملف Excel للعناصر النائبة'
+    },
+    save: {
+      title: 'حفظ القالب',
+      message: 'هل أنت متأكد من حفظ هذا القالب؟'
+    },
+    test: {
+      title: 'اختبار القالب',
+      message: 'هل تريد إنشاء مستند اختباري من القالب وتنزيله؟',
+      confirm: 'إنشاء'
+    },
+    delete: {
+      title: 'نقل إلى سلة المحذوفات',
+      message: 'هل أنت متأكد من نقل "{name}" إلى سلة المحذوفات؟'
+    },
+    activate: {
+      title: 'تفعيل القالب',
+      message: 'هل أنت متأكد من تفعيل "{name}"؟',
+      confirm: 'تفعيل',
+      progress: 'جارٍ تفعيل القالب...',
+      success: 'تم تفعيل القالب بنجاح',
+      failed: 'تعذّر تفعيل القالب'
+    },
+    deactivate: {
+      title: 'إلغاء تفعيل القالب',
+      message: 'هل أنت متأكد من إلغاء تفعيل "{name}"؟',
+      confirm: 'إلغاء التفعيل',
+      progress: 'جارٍ إلغاء تفعيل القالب...',
+      success: 'تم إلغاء تفعيل القالب بنجاح',
+      failed: 'تعذّر إلغاء تفعيل القالب'
+    },
+    messages: {
+      loadFailed: 'تعذّر تحميل القوالب',
+      unsupportedFile: 'يتم دعم ملفات .docx و .xlsx فقط',
+      uploading: 'جارٍ رفع القالب...',
+      uploaded: 'تم رفع القالب بنجاح',
+      uploadFailed: 'تعذّر رفع القالب',
+      selectFileFirst: 'يرجى اختيار ملف القالب أولاً',
+      extracting: 'جارٍ استخراج العناصر النائبة...',
+      placeholdersDownloaded: 'تم تنزيل العناصر النائبة بنجاح',
+      extractFailed: 'تعذّر استخراج العناصر النائبة من القالب',
+      unsupportedTestFile: 'يتم دعم ملفات .xlsx فقط للاختبار',
+      fileTooLarge: 'الملفات التي يزيد حجمها عن {size} ميجابايت غير مدعومة',
+      testFileSelected: 'تم اختيار ملف الاختبار: {name}',
+      selectFile: 'يرجى اختيار ملف القالب',
+      selectTestFile: 'يرجى اختيار ملف Excel معبأ للاختبار',
+      generating: 'جارٍ إنشاء المستند الاختباري...',
+      testTask: 'مستند اختباري من {name}',
+      generated: 'تم إنشاء المستند الاختباري بنجاح!',
+      generateFailed: 'تعذّر إنشاء المستند الاختباري',
+      downloadingPlaceholders: 'جارٍ تنزيل العناصر النائبة...',
+      placeholdersFailed: 'تعذّر تنزيل العناصر النائبة',
+      fileNotFound: 'لم يتم العثور على ملف القالب',
+      downloading: 'جارٍ تنزيل القالب...',
+      downloaded: 'تم تنزيل القالب بنجاح',
+      downloadFailed: 'تعذّر تنزيل القالب',
+      deleting: 'جارٍ النقل إلى سلة المحذوفات...',
+      deleted: 'تم نقل القالب إلى سلة المحذوفات',
+      deleteFailed: 'تعذّر نقل القالب إلى سلة المحذوفات'
+    }
+  },
+
+  emails: {
+    title: 'قوالب البريد الإلكتروني',
+    subtitle: 'إدارة قوالب البريد الإلكتروني مع دعم مرفقات CMS/TMS',
+    allCategories: 'كل الفئات',
+    showingTemplates: 'عرض {from} إلى {to} من أصل {total} قالب',
+    empty: {
+      title: 'لم يتم العثور على قوالب بريد إلكتروني',
+      subtitle: 'أنشئ أول قالب بريد إلكتروني للبدء'
+    },
+    columns: {
+      name: 'الاسم',
+      subject: 'الموضوع',
+      bodySource: 'مصدر المحتوى',
+      category: 'الفئة',
+      stats: 'الإحصائيات'
+    },
+    stats: {
+      sent: '{count} مُرسلة',
+      failed: '{count} فاشلة',
+      successRate: 'نسبة النجاح {rate}%'
+    },
+    actions: {
+      test: 'اختبار القالب',
+      edit: 'تعديل القالب'
+    },
+    bodySource: {
+      plainText: 'نص عادي',
+      tmsTemplate: 'قالب TMS',
+      customTemplate: 'قالب مخصص'
+    },
+    create: {
+      title: 'إنشاء قالب بريد إلكتروني',
+      submit: 'إنشاء القالب'
+    },
+    edit: {
+      title: 'تعديل قالب البريد الإلكتروني',
+      submit: 'تحديث القالب'
+    },
+    delete: {
+      title: 'حذف القالب',
+      message: 'هل أنت متأكد من حذف "{name}"؟ سيتم نقله إلى سلة المحذوفات.'
+    },
+    form: {
+      basicInfo: 'المعلومات الأساسية',
+      namePlaceholder: 'مثال: رسالة ترحيب، إشعار فاتورة',
+      subject: 'موضوع الرسالة',
+      subjectPlaceholder: 'مثال: مرحبًا بك في CompanyName!',
+      subjectHint: 'يمكنك استخدام عناصر نائبة مثل PropertyName',
+      category: 'الفئة',
+      categoryPlaceholder: 'مثال: معاملات، تسويق، إشعارات',
+      categoryHint: 'نظّم القوالب حسب الفئة لتسهيل إدارتها',
+      bodyConfig: 'إعداد محتوى الرسالة',
+      bodySourceType: 'مصدر المحتوى',
+      plainText: 'محتوى النص العادي',
+      plainTextPlaceholder: 'أدخل محتوى الرسالة كنص عادي...\n\nيمكنك استخدام عناصر نائبة مثل {CustomerName}',
+      plainTextHint: 'استخدم نصًا بسيطًا بدون وسوم HTML. سيتم استبدال العناصر النائبة عند الإرسال.',
+      selectTmsTemplate: 'اختر قالب TMS',
+      tmsTemplatePlaceholder: 'اختر قالب TMS...',
+      uncategorized: 'بدون فئة',
+      tmsTemplateHint: 'سيتم إنشاء قالب TMS بصيغة EmailHtml لمحتوى الرسالة',
+      customFile: 'ملف القالب المخصص',
+      customFileHint: 'ملفات mht أو mHTML فقط، بحد أقصى 5MB',
+      customFileUploaded: 'تم رفع ملف القالب المخصص مسبقًا',
+      replace: 'استبدال',
+      customFileSupported: 'يدعم ملفات .mht و .mhtml (بحد أقصى 5MB)',
+      removeFile: 'إزالة الملف'
+    },
+    attachments: {
+      show: 'إظهار المرفقات الافتراضية',
+      hide: 'إخفاء المرفقات الافتراضية',
+      management: 'إدارة المرفقات الافتراضية',
+      documentsTab: 'المستندات',
+      templatesTab: 'القوالب',
+      uploadTab: 'رفع ملفات مخصصة',
+      selectCmsDocument: 'اختر مستند CMS',
+      cmsDocumentPlaceholder: 'اختر مستندًا...',
+      cmsDocumentHint: 'اختر من المستندات الموجودة في CMS',
+      tmsTemplatePlaceholder: 'اختر قالبًا...',
+      tmsTemplateHint: 'سيتم إنشاء قوالب TMS عند إرسال الرسائل',
+      exportFormat: 'صيغة التصدير',
+      addTms: 'إضافة مرفق TMS',
+      uploadLimits: 'بحد أقصى 10MB • PDF، Word، Excel، صور، نصوص',
+      supportedFormats: 'الصيغ المدعومة: PDF، Word (.docx)، Excel (.xlsx)، الصور (PNG، JPG)، الملفات النصية',
+      selected: 'المرفقات المحددة ({count})',
+      uploadBadge: 'مرفوع',
+      cmsDocument: 'مستند CMS',
+      tmsTemplate: 'قالب TMS',
+      customFile: 'ملف مخصص'
+    },
+    test: {
+      title: 'اختبار قالب البريد الإلكتروني: {name}',
+      recipients: 'المستلمون',
+      to: 'إلى',
+      toPlaceholder: 'recipient@example.com (افصل بين العناوين بفاصلة)',
+      toHint: 'أدخل عنوان بريد إلكتروني واحدًا أو أكثر مفصولة بفواصل',
+      cc: 'نسخة (اختياري)',
+      bcc: 'نسخة مخفية (اختياري)',
+      bodyTitle: 'مطلوب إنشاء المحتوى من TMS',
+      bodyHeading: 'بيانات اختبار مطلوبة لمحتوى الرسالة',
+      bodyIntro: 'يستخدم هذا القالب قالب TMS لإنشاء محتوى الرسالة. اتبع الخطوات التالية:',
+      bodyStep1: 'نزّل ملف Excel للعناصر النائبة بالقيم الافتراضية',
+      bodyStep2: 'املأ بيانات الاختبار (معلومات العميل، تفاصيل الطلب، إلخ)',
+      bodyStep3: 'ارفع ملف Excel المكتمل أدناه',
+      bodyUpload: 'ارفع ملف Excel المعبأ',
+      bodyUploadHint: 'انقر للاستعراض أو اسحب الملف وأفلته هنا',
+      excelOnly: 'ملفات Excel فقط (.xlsx، .xls)',
+      readyToUse: 'جاهز للاستخدام',
+      attachmentsTitle: 'بيانات اختبار مرفقات TMS',
+      attachmentsHeading: 'بيانات اختبار مطلوبة لمرفقات TMS',
+      attachmentsIntro: 'يحتاج كل مرفق من قوالب TMS إلى بيانات اختبار لإنشاء المستند:',
+      attachmentsStep1: 'نزّل ملف Excel للعناصر النائبة لكل مرفق',
+      attachmentsStep2: 'املأ بيانات الاختبار المطلوبة',
+      attachmentsStep3: 'ارفع الملفات المكتملة لإنشاء المرفقات',
+      format: 'صيغة {format}',
+      dataUploaded: 'تم رفع البيانات',
+      awaitingData: 'بانتظار البيانات',
+      downloadPlaceholder: 'تنزيل العناصر النائبة',
+      attachmentUpload: 'رفع ملف Excel لبيانات الاختبار',
+      attachmentUploadHint: 'انقر للاستعراض أو اسحب ملف Excel المعبأ وأفلته',
+      readyForGeneration: 'جاهز للإنشاء',
+      templateInfo: 'معلومات القالب',
+      bodySource: 'مصدر المحتوى',
+      defaultAttachments: 'المرفقات الافتراضية',
+      noAttachments: 'لا توجد مرفقات',
+      send: 'إرسال رسالة اختبار'
+    },
+    messages: {
+      loadFailed: 'تعذّر تحميل قوالب البريد الإلكتروني',
+      plainTextRequired: 'محتوى النص العادي مطلوب',
+      tmsTemplateRequired: 'يرجى اختيار قالب TMS لإنشاء المحتوى',
+      customFileRequired: 'يرجى رفع ملف القالب المخصص',
+      creating: 'جارٍ إنشاء القالب...',
+      updating: 'جارٍ تحديث القالب...',
+      created: 'تم إنشاء قالب البريد الإلكتروني بنجاح',
+      createFailed: 'تعذّر إنشاء القالب',
+      updated: 'تم تحديث قالب البريد الإلكتروني بنجاح',
+      updateFailed: 'تعذّر تحديث القالب',
+      deleting: 'جارٍ حذف القالب...',
+      deleteFailed: 'تعذّر حذف القالب',
+      unsupportedCustomFile: 'يرجى رفع ملف mht أو mHTML',
+      customFileTooLarge: 'يجب أن يكون حجم الملف أقل من 5MB',
+      fileSelected: 'تم اختيار الملف "{name}"',
+      attachmentTooLarge: 'يجب أن يكون حجم المرفق أقل من 10MB',
+      attachmentAdded: 'تمت إضافة المرفق "{name}"',
+      saved: 'تم حفظ القالب بنجاح',
+      savedWithFile: 'تم رفع القالب والملف المخصص بنجاح',
+      customFileFailed: 'تعذّر رفع ملف القالب المخصص',
+      downloadingPlaceholder: 'جارٍ تنزيل ملف Excel للعناصر النائبة...',
+      placeholderDownloaded: 'تم تنزيل ملف Excel للعناصر النائبة',
+      placeholderFailed: 'تعذّر تنزيل العناصر النائبة',
+      testFileSelected: 'تم اختيار ملف الاختبار "{name}"',
+      recipientRequired: 'يرجى إدخال بريد إلكتروني لمستلم واحد على الأقل',
+      bodyTestDataRequired: 'يرجى رفع ملف Excel لبيانات الاختبار لإنشاء المحتوى من TMS',
+      attachmentTestDataRequired: 'يرجى رفع بيانات الاختبار للمرفق: {name}',
+      sendingTest: 'جارٍ إرسال رسالة الاختبار...',
+      testTask: 'رسالة اختبار لـ {name}',
+      testSent: 'تم إرسال رسالة الاختبار بنجاح!',
+      testFailed: 'تعذّر إرسال رسالة الاختبار',
+      testPrepareFailed: 'تعذّر تجهيز رسالة الاختبار',
+      excelParseFailed: 'تعذّر قراءة ملف Excel'
+    }
+  },
+
+  trash: {
+    title: 'سلة المحذوفات',
+    subtitle: 'إدارة المستندات والقوالب والرسائل المحذوفة',
+    searchPlaceholder: 'ابحث في العناصر المحذوفة...',
+    showingItems: 'عرض {from} إلى {to} من أصل {total} عنصر',
+    info: 'يمكن استعادة العناصر الموجودة في سلة المحذوفات أو حذفها نهائيًا. لا يمكن استرجاع العناصر المحذوفة نهائيًا.',
+    filters: {
+      documents: 'المستندات',
+      templates: 'القوالب',
+      emailTemplates: 'قوالب البريد الإلكتروني'
+    },
+    types: {
+      document: 'مستند CMS',
+      template: 'قالب TMS',
+      emailTemplate: 'قالب بريد إلكتروني'
+    },
+    columns: {
+      type: 'النوع',
+      name: 'الاسم',
+      deletedBy: 'حُذف بواسطة',
+      deletedDate: 'تاريخ الحذف'
+    },
+    emptyState: {
+      title: 'سلة المحذوفات فارغة',
+      subtitle: 'ستظهر العناصر المحذوفة هنا'
+    },
+    actions: {
+      deletePermanently: 'حذف نهائي'
+    },
+    restore: {
+      title: 'استعادة العنصر',
+      message: 'هل أنت متأكد من استعادة "{name}"؟',
+      confirm: 'استعادة'
+    },
+    delete: {
+      title: 'حذف نهائي',
+      message: 'هل أنت متأكد من حذف "{name}" نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.',
+      confirm: 'حذف نهائيًا'
+    },
+    empty: {
+      title: 'إفراغ سلة المحذوفات',
+      message: 'هل أنت متأكد من حذف جميع العناصر ({count}) نهائيًا؟ لا يمكن التراجع عن هذا الإجراء.',
+      withCount: 'إفراغ سلة المحذوفات ({count})'
+    },
+    messages: {
+      loadFailed: 'تعذّر تحميل عناصر سلة المحذوفات',
+      restoring: 'جارٍ استعادة العنصر...',
+      restored: 'تمت استعادة {name} بنجاح',
+      restoreFailed: 'تعذّرت استعادة {name}',
+      deleting: 'جارٍ الحذف النهائي...',
+      deleted: 'تم حذف {name} نهائيًا',
+      deleteFailed: 'تعذّر حذف {name}',
+      alreadyEmpty: 'سلة المحذوفات فارغة بالفعل',
+      emptying: 'جارٍ إفراغ سلة المحذوفات...',
+      emptied: 'تم إفراغ سلة المحذوفات بنجاح',
+      emptyFailed: 'تعذّر إفراغ سلة المحذوفات'
+    }
+  }
+};
@@ -0,0 +1,643 @@
+/**
+ * English translation bundle.
+ * This is the reference bundle - every other locale must provide the same keys.
+ * Values may contain `{name}` placeholders that are filled in by ManteqTranslationService.
+ */
+export const MANTEQ_EN = {
+  common: {
+    active: 'Active',
+    inactive: 'Inactive',
+    draft: 'Draft',
+    status: 'Status',
+    allStatus: 'All Status',
+    allTypes: 'All Types',
+    loading: 'Loading...',
+    downloading: 'Downloading...',
+    working: 'Working...',
+    cancel: 'Cancel',
+    close: 'Close',
+    delete: 'Delete',
+    download: 'Download',
+    yes: 'Yes',
+    unknown: 'Unknown',
+    viewDetails: 'View Details',
+    requiredFields: 'Please fill in all required fields',
+    showingResults: 'Showing {from} to {to} of {total} results',
+    columns: {
+      status: 'STATUS',
+      actions: 'ACTIONS',
+      lastUpdated: 'LAST UPDATED'
+    },
+    dropzone: {
+      title: 'Drag and drop your file here',
+      browse: 'or click to browse',
+      rejectedType: '{name} is not a supported file type ({types}).',
+      rejectedSize: '{name} is larger than {size}.',
+      rejectedCount: '{name} was skipped - only one file can be dropped here.'
+    }
+  },
+
+  layout: {
+    subtitle: 'Manage and organize your documents efficiently',
+    logoAlt: 'Company Logo',
+    toggleMenu: 'Toggle navigation',
+    darkMode: 'Switch to dark mode',
+    lightMode: 'Switch to light mode',
+    breadcrumbs: 'Breadcrumb',
+    progress: 'Loading',
+    tasks: {
+      title: 'Background tasks',
+      running: '{count} running',
+      inProgress: 'In progress',
+      succeeded: 'Done',
+      failed: 'Failed',
+      open: 'Open',
+      dismiss: 'Dismiss',
+      clearFinished: 'Clear finished',
+      toggle: 'Show or hide background tasks'
+    },
+    userMenu: {
+      label: 'Account menu for {name}',
+      profile: 'My profile',
+      signOut: 'Sign out'
+    },
+    notifications: {
+      label: 'Notifications',
+      unread: '{count} unread',
+      markAllRead: 'Mark all as read',
+      clear: 'Clear',
+      empty: 'No notifications yet',
+      open: 'Open',
+      dismiss: 'Dismiss',
+      status: 'HTTP {status}',
+      traceId: 'Trace ID: {id}'
+    },
+    palette: {
+      open: 'Search and commands',
+      placeholder: 'Search documents, templates and commands…',
+      searching: 'Searching…',
+      noResults: 'No results for "{term}"',
+      hint: 'Use ↑ ↓ to choose and Enter to open',
+      groups: {
+        actions: 'Actions',
+        document: 'Documents',
+        template: 'Templates',
+        emailTemplate: 'Email templates',
+        trash: 'Trash'
+      },
+      actions: {
+        goTo: 'Go to {name}',
+        uploadDocument: 'Upload document',
+        addTemplate: 'Add template',
+        createEmail: 'Create email template',
+        testEmail: 'Test email template {name}',
+        toggleDarkMode: 'Toggle dark mode'
+      }
+    },
+    nav: {
+      documents: 'Document Library',
+      templates: 'Template Builder',
+      emails: 'Email Templates',
+      trash: 'Trash'
+    },
+    offline: {
+      title: 'You are offline.',
+      pendingOne: '{count} pending change will be sent when the connection returns.',
+      pendingMany: '{count} pending changes will be sent when the connection returns.',
+      noPending: 'Changes will be sent when the connection returns.'
+    }
+  },
+
+  dates: {
+    expired: 'Expired',
+    countdownDays: '{days}d {time}'
+  },
+
+  notifications: {
+    success: 'Success',
+    error: 'Error',
+    warning: 'Warning',
+    info: 'Info',
+    loading: 'Loading...'
+  },
+
+  documents: {
+    title: 'Documents',
+    searchPlaceholder: 'Search documents...',
+    empty: 'No documents found',
+    types: {
+      censusList: 'Census List',
+      fullList: 'Full List'
+    },
+    columns: {
+      name: 'DOCUMENT NAME',
+      type: 'TYPE',
+      size: 'SIZE',
+      uploadDate: 'UPLOAD DATE'
+    },
+    upload: {
+      title: 'Upload Documents',
+      name: 'Document Name',
+      namePlaceholder: 'Enter document name',
+      type: 'Type (Optional)',
+      typePlaceholder: 'Select type...',
+      file: 'Choose Files',
+      folder: 'Choose Folder',
+      dropOverlay: 'Drop files to add them to the upload queue',
+      hint: 'Drop files anywhere on this page or choose them. Names default to the file name and can be changed before uploading. The type applies to every file.',
+      submit: 'Upload Documents'
+    },
+    queue: {
+      file: 'FILE',
+      progress: 'PROGRESS',
+      status: {
+        pending: 'Ready',
+        queued: 'Waiting',
+        uploading: 'Uploading',
+        done: 'Uploaded',
+        failed: 'Failed',
+        cancelled: 'Cancelled'
+      },
+      remove: 'Remove from queue',
+      cancel: 'Cancel upload',
+      retry: 'Retry upload',
+      open: 'Open document',
+      cancelAll: 'Cancel All',
+      retryFailed: 'Retry Failed',
+      clearFinished: 'Clear Finished',
+      summary: 'Upload finished: {uploaded} uploaded, {failed} failed, {cancelled} cancelled',
+      skipped: 'Unsupported or oversized files skipped: {count}'
+    },
+    actions: {
+      download: 'Download Document',
+      activate: 'Activate Document',
+      deactivate: 'Deactivate Document',
+      delete: 'Delete Document'
+    },
+    preview: {
+      title: 'Document preview',
+      open: 'Preview',
+      previous: 'Previous document',
+      next: 'Next document',
+      position: '{index} of {total}',
+      loading: 'Loading preview...',
+      unsupported: 'No preview is available for this file type.',
+      tooLarge: 'This file is too large to preview. Download it to view it.',
+      failed: 'The preview could not be loaded.',
+      officeNotice: 'Simplified preview - images, charts and page layout are not shown.',
+      truncated: 'Only the beginning of this file is shown.'
+    },
+    bulk: {
+      selectPage: 'Select all documents on this page',
+      selectRow: 'Select {name}',
+      selected: '{count} selected',
+      selectAllMatching: 'Select all {count} matching documents',
+      allMatchingSelected: 'All {count} matching documents are selected',
+      clear: 'Clear selection',
+      activate: {
+        action: 'Activate',
+        title: 'Activate Documents',
+        message: 'Are you sure you want to activate {count} documents?',
+        done: '{count} documents activated',
+        none: 'All selected documents are already active'
+      },
+      deactivate: {
+        action: 'Deactivate',
+        title: 'Deactivate Documents',
+        message: 'Are you sure you want to deactivate {count} documents?',
+        done: '{count} documents deactivated',
+        none: 'All selected documents are already inactive'
+      },
+      delete: {
+        action: 'Move to Trash',
+        title: 'Delete Documents',
+        message: 'Are you sure you want to delete {count} documents? They will be moved to trash.',
+        done: '{count} documents moved to trash'
+      },
+      download: {
+        action: 'Download',
+        done: '{count} documents downloaded'
+      },
+      report: {
+        title: '{failed} of {total} documents could not be processed',
+        succeeded: '{count} succeeded. The failed documents are still selected so you can try again.',
+        dismiss: 'Dismiss report'
+      }
+    },
+    details: {
+      subtitle: 'Document details',
+      type: 'Type',
+      extension: 'Extension',
+      mimeType: 'MIME Type',
+      size: 'Size',
+      uploaded: 'Uploaded',
+      uploadedBy: 'Uploaded By'
+    },
+    delete: {
+      title: 'Delete Document',
+      message: 'Are you sure you want to delete "{name}"? This will move it to trash.'
+    },
+    activate: {
+      title: 'Activate Document',
+      message: 'Are you sure you want to activate "{name}"?',
+      progress: 'Activating document...',
+      success: 'Document activated successfully',
+      failed: 'Failed to activate document'
+    },
+    deactivate: {
+      title: 'Deactivate Document',
+      message: 'Are you sure you want to deactivate "{name}"?',
+      progress: 'Deactivating document...',
+      success: 'Document deactivated successfully',
+      failed: 'Failed to deactivate document'
+    },
+    messages: {
+      loadFailed: 'Failed to load documents',
+      uploadMissing: 'Please add at least one file and give every file a name',
+      uploading: 'Uploading document...',
+      uploadTask: 'Uploading {name}',
+      uploaded: 'Document uploaded successfully',
+      uploadedMany: '{count} documents uploaded successfully',
+      uploadFailed: 'Failed to upload document',
+      downloadFailed: 'Failed to download document',
+      deleting: 'Deleting document...',
+      deleted: 'Document moved to trash',
+      deleteFailed: 'Failed to delete document'
+    }
+  },
+
+  templates: {
+    title: 'Template Builder',
+    subtitle: 'Manage and organize your document templates',
+    searchPlaceholder: 'Search templates...',
+    empty: 'No templates found',
+    types: {
+      quotationReport: 'Quotation Report'
+    },
+    columns: {
+      name: 'TEMPLATE NAME',
+      type: 'TEMPLATE TYPE',
+      outputFormat: 'OUTPUT FORMAT'
+    },
+    actions: {
+      download: 'Download Template File',
+      downloadPlaceholders: 'Download Placeholders Excel',
+      activate: 'Activate Template',
+      deactivate: 'Deactivate Template'
+    },
+    add: {
+      title: 'Add New Template',
+      subtitle: 'Upload and configure your document template',
+      details: 'Template Details',
+      name: 'Template Name',
+      namePlaceholder: 'Enter template name',
+      type: 'Template Type',
+      typePlaceholder: 'Select type',
+      uploadFile: 'Upload Template File',
+      file: 'Template File',
+      fileHint: 'Only .docx and .xlsx files',
+      supportedFiles: 'Supports .docx and .xlsx files',
+      outputFormat: 'Output Format',
+      testSection: 'Test Template (Optional)',
+      testHint: 'Upload test data to preview how your template will render with actual values.',
+      step1Title: 'Step 1: Download Placeholder Excel',
+      step1Body: 'First, download the placeholder Excel file with default values from your selected template.',
+      downloadPlaceholder: 'Download Placeholder Excel',
+      step2Title: 'Step 2: Fill Test Data',
+      step2Body: 'Open the downloaded Excel, fill in test values, then upload it below to test your template.',
+      uploadFilled: 'Upload Filled Excel',
+      testFilePlaceholder: 'Choose test Excel file',
+      versionInfo: 'Template Version: 1.0 | Status: Draft'
+    },
+    guidelines: {
+      title: 'Guidelines',
+      creation: 'Template Creation',
+      fileTypes: 'Upload .docx or .xlsx files only',
+      formatting: 'Keep formatting consistent',
+      formattingHint: '(fonts, spacing, alignment, layout, images)',
+      variables: 'Adding Dynamic Variables',
+      openTemplate: 'Open template in Word/Excel',
+      properties: 'Go to File → Info → Properties → Advanced Properties → Custom',
+      addProperty: 'Add a new property:',
+      propertyName: 'Name:',
+      propertyType: 'Type:',
+      propertyTypeValue: 'Text',
+      propertyValue: 'Value:',
+      propertyValueValue: 'Default value',
+      embedding: 'Embedding Templates',
+      embeddingHint: 'Include another saved template inside your main template:'
+    },
+    details: {
+      subtitle: 'Template details',
+      created: 'Created',
+      createdBy: '{date} by {name}',
+      updated: 'Last Updated',
+      generated: 'Generated',
+      succeeded: '{count} succeeded',
+      failed: '{count} failed',
+      placeholders: 'Placeholders',
+      noPlaceholders: 'No placeholders found in this template',
+      placeholdersExcel: 'Placeholders Excel'
+    },
+    save: {
+      title: 'Save Template',
+      message: 'Are you sure you want to save this template?'
+    },
+    test: {
+      title: 'Test Template',
+      message: 'Generate and download a test document from your template?',
+      confirm: 'Generate'
+    },
+    delete: {
+      title: 'Move to Trash',
+      message: 'Are you sure you want to move "{name}" to trash?'
+    },
+    activate: {
+      title: 'Activate Template',
+      message: 'Are you sure you want to activate "{name}"?',
+      confirm: 'Activate',
+      progress: 'Activating template...',
+      success: 'Template activated successfully',
+      failed: 'Failed to activate template'
+    },
+    deactivate: {
+      title: 'Deactivate Template',
+      message: 'Are you sure you want to deactivate "{name}"?',
+      confirm: 'Deactivate',
+      progress: 'Deactivating template...',
+      success: 'Template deactivated successfully',
+      failed: 'Failed to deactivate template'
+    },
+    messages: {
+      loadFailed: 'Failed to load templates',
+      unsupportedFile: 'Only .docx and .xlsx files are supported',
+      uploading: 'Uploading template...',
+      uploaded: 'Template uploaded successfully',
+      uploadFailed: 'Failed to upload template',
+      selectFileFirst: 'Please select a template file first',
+      extracting: 'Extracting placeholders...',
+      placeholdersDownloaded: 'Placeholders downloaded successfully',
+      extractFailed: 'Failed to extract placeholders from template',
+      unsupportedTestFile: 'Only .xlsx files are supported for testing',
+      fileTooLarge: 'Files larger than {size} MB are not supported',
+      testFileSelected: 'Test file selected: {name}',
+      selectFile: 'Please select a template file',
+      selectTestFile: 'Please select a filled Excel file for testing',
+      generating: 'Generating test document...',
+      testTask: 'Test document from {name}',
+      generated: 'Test document generated successfully!',
+      generateFailed: 'Failed to generate test document',
+      downloadingPlaceholders: 'Downloading placeholders...',
+      placeholdersFailed: 'Failed to download placeholders',
+      fileNotFound: 'Template file not found',
+      downloading: 'Downloading template...',
+      downloaded: 'Template downloaded successfully',
+      downloadFailed: 'Failed to download template',
+      deleting: 'Moving to trash...',
+      deleted: 'Template moved to trash',
+      deleteFailed: 'Failed to move template to trash'
+    }
+  },
+
+  emails: {
+    title: 'Email Templates',
+    subtitle: 'Manage email templates with CMS/TMS attachments support',
+    allCategories: 'All Categories',
+    showingTemplates: 'Showing {from} to {to} of {total} templates',
+    empty: {
+      title: 'No email templates found',
+      subtitle: 'Create your first email template to get started'
+    },
+    columns: {
+      name: 'NAME',
+      subject: 'SUBJECT',
+      bodySource: 'BODY SOURCE',
+      category: 'CATEGORY',
+      stats: 'STATS'
+    },
+    stats: {
+      sent: '{count} sent',
+      failed: '{count} failed',
+      successRate: '{rate}% success'
+    },
+    actions: {
+      test: 'Test Template',
+      edit: 'Edit Template'
+    },
+    bodySource: {
+      plainText: 'Plain Text',
+      tmsTemplate: 'TMS Template',
+      customTemplate: 'Custom Template'
+    },
+    create: {
+      title: 'Create Email Template',
+      submit: 'Create Template'
+    },
+    edit: {
+      title: 'Edit Email Template',
+      submit: 'Update Template'
+    },
+    delete: {
+      title: 'Delete Template',
+      message: 'Are you sure you want to delete "{name}"? This will move it to trash.'
+    },
+    form: {
+      basicInfo: 'Basic Information',
+      namePlaceholder: 'e.g., Welcome Email, Invoice Notification',
+      subject: 'Email Subject',
+      subjectPlaceholder: 'e.g., Welcome to CompanyName!',
+      subjectHint: 'You can use placeholders like PropertyName',
+      category: 'Category',
+      categoryPlaceholder: 'e.g., Transactional, Marketing, Notification',
+      categoryHint: 'Organize templates by category for easier management',
+      bodyConfig: 'Email Body Configuration',
+      bodySourceType: 'Body Source Type',
+      plainText: 'Plain Text Content',
+      plainTextPlaceholder: 'Enter plain text email content...\n\nYou can use placeholders like {CustomerName}',
+      plainTextHint: 'Use simple text without HTML tags. Placeholders will be replaced at runtime.',
+      selectTmsTemplate: 'Select TMS Template',
+      tmsTemplatePlaceholder: 'Choose a TMS template...',
+      uncategorized: 'Uncategorized',
+      tmsTemplateHint: 'The TMS template will be generated as EmailHtml format for the email body',
+      customFile: 'Custom Template File',
+      customFileHint: 'mht or mHTML files only, max 5MB',
+      customFileUploaded: 'Custom template file already uploaded',
+      replace: 'Replace',
+      customFileSupported: 'Supports .mht and .mhtml files (max 5MB)',
+      removeFile: 'Remove File'
+    },
+    attachments: {
+      show: 'Show Default Attachments',
+      hide: 'Hide Default Attachments',
+      management: 'Default Attachments Management',
+      documentsTab: 'Documents',
+      templatesTab: 'Templates',
+      uploadTab: 'Upload Custom Files',
+      selectCmsDocument: 'Select CMS Document',
+      cmsDocumentPlaceholder: 'Choose a document...',
+      cmsDocumentHint: 'Select existing documents from CMS',
+      tmsTemplatePlaceholder: 'Choose a template...',
+      tmsTemplateHint: 'TMS templates will be generated when emails are sent',
+      exportFormat: 'Export Format',
+      addTms: 'Add TMS Attachment',
+      uploadLimits: 'Max 10MB • PDF, Word, Excel, Images, Text',
+      supportedFormats: 'Supported formats: PDF, Word (.docx), Excel (.xlsx), Images (PNG, JPG), Text files',
+      selected: 'Selected Attachments ({count})',
+      uploadBadge: 'Upload',
+      cmsDocument: 'CMS Document',
+      tmsTemplate: 'TMS Template',
+      customFile: 'Custom File'
+    },
+    test: {
+      title: 'Test Email Template: {name}',
+      recipients: 'Recipients',
+      to: 'To',
+      toPlaceholder: 'recipient@example.com (separate multiple with comma)',
+      toHint: 'Enter one or more email addresses separated by commas',
+      cc: 'CC (Optional)',
+      bcc: 'BCC (Optional)',
+      bodyTitle: 'TMS Body Generation Required',
+      bodyHeading: 'Test Data Required for Email Body',
+      bodyIntro: 'This email template uses a TMS template to generate the email body content. Follow these steps:',
+      bodyStep1: 'Download the placeholder Excel file with default values',
+      bodyStep2: 'Fill in your test data (customer info, order details, etc.)',
+      bodyStep3: 'Upload the completed Excel file below',
+      bodyUpload: 'Upload Your Filled Excel File',
+      bodyUploadHint: 'Click to browse or drag and drop your file here',
+      excelOnly: 'Excel files only (.xlsx, .xls)',
+      readyToUse: 'Ready to use',
+      attachmentsTitle: 'TMS Attachment Test Data',
+      attachmentsHeading: 'Test Data Required for TMS Attachments',
+      attachmentsIntro: 'Each TMS template attachment needs test data to generate the document:',
+      attachmentsStep1: 'Download the placeholder Excel for each attachment',
+      attachmentsStep2: 'Fill in the required test data',
+      attachmentsStep3: 'Upload the completed files to generate the attachments',
+      format: '{format} Format',
+      dataUploaded: 'Data Uploaded',
+      awaitingData: 'Awaiting Data',
+      downloadPlaceholder: 'Download Placeholder',
+      attachmentUpload: 'Upload Test Data Excel',
+      attachmentUploadHint: 'Click to browse or drag and drop your filled Excel file',
+      readyForGeneration: 'Ready for generation',
+      templateInfo: 'Template Information',
+      bodySource: 'Body Source',
+      defaultAttachments: 'Default Attachments',
+      noAttachments: 'No attachments',
+      send: 'Send Test Email'
+    },
+    messages: {
+      loadFailed: 'Failed to load email templates',
+      plainTextRequired: 'Plain text content is required',
+      tmsTemplateRequired: 'Please select a TMS template for body generation',
+      customFileRequired: 'Please upload a custom template file',
+      creating: 'Creating template...',
+      updating: 'Updating template...',
+      created: 'Email template created successfully',
+      createFailed: 'Failed to create template',
+      updated: 'Email template updated successfully',
+      updateFailed: 'Failed to update template',
+      deleting: 'Deleting template...',
+      deleteFailed: 'Failed to delete template',
+      unsupportedCustomFile: 'Please upload an mht or mHTML file',
+      customFileTooLarge: 'File size must be less than 5MB',
+      fileSelected: 'File "{name}" selected',
+      attachmentTooLarge: 'Attachment size must be less than 10MB',
+      attachmentAdded: 'Attachment "{name}" added',
+      saved: 'Template saved successfully',
+      savedWithFile: 'Template and custom file uploaded successfully',
+      customFileFailed: 'Failed to upload custom template file',
+      downloadingPlaceholder: 'Downloading placeholder Excel...',
+      placeholderDownloaded: 'Placeholder Excel downloaded',
+      placeholderFailed: 'Failed to download placeholder',
+      testFileSelected: 'Test file "{name}" selected',
+      recipientRequired: 'Please enter at least one recipient email',
+      bodyTestDataRequired: 'Please upload test data Excel file for TMS body generation',
+      attachmentTestDataRequired: 'Please upload test data for attachment: {name}',
+      sendingTest: 'Sending test email...',
+      testTask: 'Test email for {name}',
+      testSent: 'Test email sent successfully!',
+      testFailed: 'Failed to send test email',
+      testPrepareFailed: 'Failed to prepare test email',
+      excelParseFailed: 'Failed to parse Excel file'
+    }
+  },
+
+  trash: {
+    title: 'Trash',
+    subtitle: 'Manage deleted documents, templates, and emails',
+    searchPlaceholder: 'Search deleted items...',
+    showingItems: 'Showing {from} to {to} of {total} items',
+    info: 'Items in trash can be restored or permanently deleted. Permanently deleted items cannot be recovered.',
+    filters: {
+      documents: 'Documents',
+      templates: 'Templates',
+      emailTemplates: 'Email Templates'
+    },
+    types: {
+      document: 'CMS Document',
+      template: 'TMS Template',
+      emailTemplate: 'Email Template'
+    },
+    columns: {
+      type: 'TYPE',
+      name: 'NAME',
+      deletedBy: 'DELETED BY',
+      deletedDate: 'DELETED DATE'
+    },
+    emptyState: {
+      title: 'Trash is empty',
+      subtitle: 'Deleted items will appear here'
+    },
+    actions: {
+      deletePermanently: 'Delete Permanently'
+    },
+    restore: {
+      title: 'Restore Item',
+      message: 'Are you sure you want to restore "{name}"?',
+      confirm: 'Restore'
+    },
+    delete: {
+      title: 'Permanently Delete',
+      message: 'Are you sure you want to permanently delete "{name}"? This action cannot be undone.',
+      confirm: 'Delete Forever'
+    },
+    empty: {
+      title: 'Empty Trash',
+      message: 'Are you sure you want to permanently delete all {count} items? This action cannot be undone.',
+      withCount: 'Empty Trash ({count})'
+    },
+    messages: {
+      loadFailed: 'Failed to load trash items',
+      restoring: 'Restoring item...',
+      restored: '{name} restored successfully',
+      restoreFailed: 'Failed to restore {name}',
+      deleting: 'Deleting permanently...',
+      deleted: '{name} permanently deleted',
+      deleteFailed: 'Failed to delete {name}',
+      alreadyEmpty: 'Trash is already empty',
+      emptying: 'Emptying trash...',
+      emptied: 'Trash emptied successfully',
+      emptyFailed: 'Failed to empty trash'
+    }
+  }
+};
+
+/**
+ * Shape every translation bundle must follow
+ */
+export type ManteqTranslations = DeepStringRecord<typeof MANTEQ_EN>;
+
+type DeepStringRecord<T> = {
+  [K in keyof T]: T[K] extends string ? string : DeepStringRecord<T[K]>;
+};
+
+type LeafKeys<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : LeafKeys<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+/**
+ * Dot-separated path to a translated string, e.g. `'documents.messages.deleted'`
+ */
+export type ManteqTranslationKey = LeafKeys<ManteqTranslations>;
@@ -0,0 +1,105 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { EMPTY, Observable, Subject, of } from 'rxjs';
+import { authInterceptor } from './auth.interceptor';
+import { MANTEQ_AUTH_PROVIDER } from '../tokens/config.tokens';
+import { API_BASE_URLS } from '../constants/api.constants';
+
+describe('authInterceptor', () => {
+  const documentsUrl = `${API_BASE_URLS.CMS}/api/documents`;
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let accessToken: () => Observable<string | null>;
+  let refreshAccessToken: jasmine.Spy<() => Observable<string | null>>;
+
+  beforeEach(() => {
+    accessToken = () => of('token-1');
+    refreshAccessToken = jasmine.createSpy('refreshAccessToken').and.returnValue(of('token-2'));
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting(),
+        {
+          provide: MANTEQ_AUTH_PROVIDER,
+          useValue: { getAccessToken: () => accessToken(), refreshAccessToken: () => refreshAccessToken() }
+        }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  const unauthorized = { status: 401, statusText: 'Unauthorized' };
+
+  it('should only send the bearer token to the Manteq services', () => {
+    http.get(documentsUrl).subscribe();
+    http.get('http://localhost:50001/api/documents').subscribe();
+    http.get('https://cdn.example.net/logo.svg').subscribe();
+
+    expect(httpMock.expectOne(documentsUrl).request.headers.get('Authorization')).toBe('Bearer token-1');
+    expect(httpMock.expectOne('http://localhost:50001/api/documents').request.headers.has('Authorization')).toBeFalse();
+    const external = httpMock.expectOne('https://cdn.example.net/logo.svg').request;
+    expect(external.headers.has('Authorization')).toBeFalse();
+    expect(external.headers.get('X-SME-UserId')).toBe('user@example.com');
+  });
+
+  it('should send the request without a token when the provider has none', () => {
+    accessToken = () => EMPTY;
+
+    http.get(documentsUrl).subscribe();
+
+    expect(httpMock.expectOne(documentsUrl).request.headers.has('Authorization')).toBeFalse();
+  });
+
+  it('should refresh once and replay the request after a 401', () => {
+    let body: unknown;
+    http.get(documentsUrl).subscribe(response => body = response);
+
+    httpMock.expectOne(documentsUrl).flush(null, unauthorized);
+    const replay = httpMock.expectOne(documentsUrl);
+    expect(replay.request.headers.get('Authorization')).toBe('Bearer token-2');
+    replay.flush([]);
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(body).toEqual([]);
+  });
+
+  it('should share one refresh between requests that fail together', () => {
+    const refreshed = new Subject<string | null>();
+    refreshAccessToken.and.returnValue(refreshed);
+
+    http.get(documentsUrl).subscribe();
+    http.get(`${documentsUrl}/doc-1`).subscribe();
+    httpMock.expectOne(documentsUrl).flush(null, unauthorized);
+    httpMock.expectOne(`${documentsUrl}/doc-1`).flush(null, unauthorized);
+    // Requests started during the refresh wait for the new token
+    http.get(`${documentsUrl}/doc-2`).subscribe();
+    httpMock.expectNone(`${documentsUrl}/doc-2`);
+
+    refreshed.next('token-2');
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    for (const url of [documentsUrl, `${documentsUrl}/doc-1`, `${documentsUrl}/doc-2`]) {
+      const request = httpMock.expectOne(url);
+      expect(request.request.headers.get('Authorization')).toBe('Bearer token-2');
+      request.flush([]);
+    }
+  });
+
+  it('should pass a second 401 on to the caller', () => {
+    let error: HttpErrorResponse | undefined;
+    http.get(documentsUrl).subscribe({ error: (e: HttpErrorResponse) => error = e });
+
+    httpMock.expectOne(documentsUrl).flush(null, unauthorized);
+    httpMock.expectOne(documentsUrl).flush(null, unauthorized);
+
+    expect(error?.status).toBe(401);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+  });
+});
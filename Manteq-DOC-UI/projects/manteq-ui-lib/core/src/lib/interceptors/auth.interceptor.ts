@@ -0,0 +1,88 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, defaultIfEmpty, finalize, from, of, shareReplay, switchMap, take, throwError } from 'rxjs';
+import { MANTEQ_AUTH_PROVIDER, USER_CONTEXT } from '../tokens/config.tokens';
+import { ManteqAuthProvider } from '../models/config.model';
+import { ApiConfigService } from '../services/api-config.service';
+
+/**
+ * Shares a single in-flight token refresh between all requests that need it
+ */
+@Injectable({
+  providedIn: 'root'
+})
+class AuthTokenRefresher {
+  private refresh$: Observable<string | null> | null = null;
+
+  /**
+   * Current access token - waits for a running refresh instead of using a stale token
+   */
+  getToken(provider: ManteqAuthProvider): Observable<string | null> {
+    // Providers may return a long-lived stream, or one that completes without a token
+    return this.refresh$ ?? from(provider.getAccessToken()).pipe(take(1), defaultIfEmpty(null));
+  }
+
+  /**
+   * New access token, or null when the provider cannot refresh
+   */
+  refresh(provider: ManteqAuthProvider): Observable<string | null> {
+    if (!provider.refreshAccessToken) {
+      return of(null);
+    }
+    if (!this.refresh$) {
+      this.refresh$ = from(provider.refreshAccessToken()).pipe(
+        take(1),
+        defaultIfEmpty(null),
+        finalize(() => this.refresh$ = null),
+        shareReplay(1)
+      );
+    }
+    return this.refresh$;
+  }
+}
+
+/**
+ * HTTP Interceptor to add user context and bearer token headers to all requests
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const userContext = inject(USER_CONTEXT, { optional: true });
+  const authProvider = inject(MANTEQ_AUTH_PROVIDER, { optional: true });
+  const apiConfig = inject(ApiConfigService);
+  const refresher = inject(AuthTokenRefresher);
+
+  if (userContext) {
+    req = req.clone({
+      setHeaders: {
+        'X-SME-UserId': userContext.email
+      }
+    });
+  }
+
+  // Only send tokens to the Manteq services, never to third-party URLs
+  if (!authProvider || !apiConfig.isApiUrl(req.url)) {
+    return next(req);
+  }
+
+  return refresher.getToken(authProvider).pipe(
+    switchMap(token => next(withBearerToken(req, token))),
+    catchError(error => {
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401 || !authProvider.refreshAccessToken) {
+        return throwError(() => error);
+      }
+
+      // Refresh once and replay; a second 401 is passed on to the caller
+      return refresher.refresh(authProvider).pipe(
+        catchError(() => throwError(() => error)),
+        switchMap(token => token
+          ? next(withBearerToken(req, token))
+          : throwError(() => error))
+      );
+    })
+  );
+};
+
+function withBearerToken(req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+  return token
+    ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } })
+    : req;
+}
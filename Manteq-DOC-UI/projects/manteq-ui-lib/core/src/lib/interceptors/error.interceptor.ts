@@ -0,0 +1,59 @@
+import { HttpContext, HttpContextToken, HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, from, switchMap, throwError } from 'rxjs';
+import { ApiConfigService } from '../services/api-config.service';
+import { NotificationService } from '../services/notification.service';
+import { parseApiError } from '../errors/manteq-api-error';
+
+/**
+ * Set to true on a request to skip the global error toast entirely
+ */
+export const SKIP_ERROR_TOAST = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Request context that disables the global error toast
+ */
+export function withoutErrorToast(context: HttpContext = new HttpContext()): HttpContext {
+  return context.set(SKIP_ERROR_TOAST, true);
+}
+
+/**
+ * HTTP Interceptor that maps failed Manteq API calls to ManteqApiError.
+ *
+ * A toast with the server's message is shown unless the request opted out through
+ * SKIP_ERROR_TOAST, or the subscriber handled the error itself (for example via
+ * `NotificationService.apiError`). Register it first, before retryInterceptor and
+ * authInterceptor, so only the final failure is reported and token refresh still
+ * sees the raw 401 response.
+ */
+export const errorInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiConfig = inject(ApiConfigService);
+  const notificationService = inject(NotificationService);
+
+  const service = apiConfig.getServiceForUrl(req.url);
+  if (!service) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    catchError(error => {
+      if (!(error instanceof HttpErrorResponse)) {
+        return throwError(() => error);
+      }
+
+      return from(parseApiError(error, service)).pipe(
+        switchMap(apiError => {
+          if (!req.context.get(SKIP_ERROR_TOAST)) {
+            // Subscribers receive the error synchronously, so give them a chance to handle it first
+            setTimeout(() => {
+              if (!apiError.handled) {
+                notificationService.apiError(apiError);
+              }
+            });
+          }
+          return throwError(() => apiError);
+        })
+      );
+    })
+  );
+};
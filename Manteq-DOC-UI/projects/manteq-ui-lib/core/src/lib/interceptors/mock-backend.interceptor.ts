@@ -0,0 +1,75 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { of, switchMap, throwError, timer } from 'rxjs';
+import { ApiConfigService } from '../services/api-config.service';
+import { MANTEQ_MOCK_BACKEND_CONFIG, USER_CONTEXT } from '../tokens/config.tokens';
+import { ManteqMockDatabase } from '../mock/mock-database';
+import { MOCK_ROUTES, MockRouteError } from '../mock/mock-routes';
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  404: 'Not Found',
+  500: 'Internal Server Error'
+};
+
+/**
+ * HTTP Interceptor answering Manteq API calls from ManteqMockDatabase instead of the network.
+ *
+ * Requests to other URLs are passed on unchanged. Usually registered through
+ * provideManteqMockBackend; when added to withInterceptors manually, list it last so the
+ * error, retry and auth interceptors still see every request.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiConfig = inject(ApiConfigService);
+  const db = inject(ManteqMockDatabase);
+  const config = inject(MANTEQ_MOCK_BACKEND_CONFIG);
+  const userContext = inject(USER_CONTEXT);
+
+  const service = apiConfig.getServiceForUrl(req.url);
+  if (!service) {
+    return next(req);
+  }
+
+  const [url, queryString = ''] = req.url.split('?');
+  const path = url.substring(apiConfig.getBaseUrl(service).length) || '/';
+  const query = new URLSearchParams(queryString);
+  req.params.keys().forEach(key => req.params.getAll(key)?.forEach(value => query.append(key, value)));
+
+  return timer(config.latencyMs).pipe(
+    switchMap(() => {
+      for (const route of MOCK_ROUTES[service]) {
+        const match = req.method === route.method ? route.pattern.exec(path) : null;
+        if (!match) continue;
+
+        try {
+          const response = route.handle({
+            req,
+            params: match.slice(1).map(decodeURIComponent),
+            query,
+            db,
+            user: req.headers.get('X-SME-UserId') ?? userContext.email,
+            baseUrl: name => apiConfig.getBaseUrl(name)
+          });
+          return of(response.clone({ url: req.urlWithParams }));
+        } catch (error) {
+          if (!(error instanceof MockRouteError)) {
+            throw error;
+          }
+          return throwError(() => new HttpErrorResponse({
+            status: error.status,
+            statusText: STATUS_TEXT[error.status] ?? 'Error',
+            url: req.urlWithParams,
+            error: error.body
+          }));
+        }
+      }
+
+      return throwError(() => new HttpErrorResponse({
+        status: 404,
+        statusText: STATUS_TEXT[404],
+        url: req.urlWithParams,
+        error: { error: `No mock route for ${req.method} ${path}` }
+      }));
+    })
+  );
+};
@@ -0,0 +1,33 @@
+import { HttpContext, HttpContextToken, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { finalize } from 'rxjs';
+import { ApiConfigService } from '../services/api-config.service';
+import { ManteqProgressService } from '../services/progress.service';
+
+/**
+ * Set to true on a request to keep it out of the top progress bar
+ */
+export const SKIP_PROGRESS = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Request context that hides the request from the top progress bar
+ */
+export function withoutProgress(context: HttpContext = new HttpContext()): HttpContext {
+  return context.set(SKIP_PROGRESS, true);
+}
+
+/**
+ * HTTP Interceptor counting Manteq API calls in flight for ManteqProgressService.
+ * A request counts once, including its retries, until it completes, fails or is cancelled.
+ */
+export const progressInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiConfig = inject(ApiConfigService);
+  const progress = inject(ManteqProgressService);
+
+  if (!apiConfig.isApiUrl(req.url) || req.context.get(SKIP_PROGRESS)) {
+    return next(req);
+  }
+
+  progress.requestStarted();
+  return next(req).pipe(finalize(() => progress.requestFinished()));
+};
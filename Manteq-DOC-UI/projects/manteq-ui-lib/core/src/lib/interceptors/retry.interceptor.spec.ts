@@ -0,0 +1,122 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpContext, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { BehaviorSubject, filter, map, take } from 'rxjs';
+import { MAX_RETRIES, REQUEST_TIMEOUT, retryInterceptor } from './retry.interceptor';
+import { NetworkStatusService } from '../services/network-status.service';
+import { API_BASE_URLS } from '../constants/api.constants';
+
+describe('retryInterceptor', () => {
+  const documentsUrl = `${API_BASE_URLS.CMS}/api/documents`;
+  const unavailable = { status: 503, statusText: 'Service Unavailable' };
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let connection: BehaviorSubject<boolean>;
+
+  beforeEach(() => {
+    connection = new BehaviorSubject(true);
+    const whenOnline = () => connection.pipe(filter(online => online), take(1), map(() => undefined));
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([retryInterceptor])),
+        provideHttpClientTesting(),
+        {
+          provide: NetworkStatusService,
+          useValue: { online: () => connection.value, whenOnline, holdUntilOnline: whenOnline }
+        }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    // No jitter
+    spyOn(Math, 'random').and.returnValue(0.5);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should retry transient GET failures with exponential backoff', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    http.get(documentsUrl).subscribe({ error: (e: HttpErrorResponse) => error = e });
+
+    httpMock.expectOne(documentsUrl).flush(null, unavailable);
+    for (const delay of [500, 1000, 2000]) {
+      tick(delay - 1);
+      httpMock.expectNone(documentsUrl);
+      tick(1);
+      httpMock.expectOne(documentsUrl).flush(null, unavailable);
+    }
+
+    // Three retries, then the failure reaches the caller
+    expect(error?.status).toBe(503);
+    tick(10000);
+    httpMock.expectNone(documentsUrl);
+  }));
+
+  it('should honour MAX_RETRIES and never retry mutations or permanent errors', fakeAsync(() => {
+    const errors: number[] = [];
+    const record = { error: (e: HttpErrorResponse) => errors.push(e.status) };
+
+    http.get(documentsUrl, { context: new HttpContext().set(MAX_RETRIES, 1) }).subscribe(record);
+    httpMock.expectOne(documentsUrl).flush(null, unavailable);
+    tick(500);
+    httpMock.expectOne(documentsUrl).flush(null, unavailable);
+
+    http.post(`${documentsUrl}/doc-1/activate`, null).subscribe(record);
+    httpMock.expectOne(`${documentsUrl}/doc-1/activate`).flush(null, unavailable);
+
+    http.get(`${documentsUrl}/doc-2`).subscribe(record);
+    httpMock.expectOne(`${documentsUrl}/doc-2`).flush(null, { status: 404, statusText: 'Not Found' });
+
+    tick(10000);
+    httpMock.expectNone(() => true);
+    expect(errors).toEqual([503, 503, 404]);
+  }));
+
+  it('should time out API calls but not file transfers', fakeAsync(() => {
+    let timedOut: HttpErrorResponse | undefined;
+    http.get(documentsUrl, { context: new HttpContext().set(MAX_RETRIES, 0) })
+      .subscribe({ error: (e: HttpErrorResponse) => timedOut = e });
+    http.get(`${documentsUrl}/doc-1/download`, { responseType: 'blob' }).subscribe();
+    const request = httpMock.expectOne(documentsUrl);
+
+    tick(60000);
+
+    expect(timedOut?.status).toBe(408);
+    expect(request.cancelled).toBeTrue();
+    const download = httpMock.expectOne(`${documentsUrl}/doc-1/download`);
+    expect(download.cancelled).toBeFalse();
+    download.flush(new Blob(['file']));
+  }));
+
+  it('should not retry a transfer that hit its own timeout', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    http.get(`${documentsUrl}/doc-1/download`, {
+      responseType: 'blob',
+      context: new HttpContext().set(REQUEST_TIMEOUT, 1000)
+    }).subscribe({ error: (e: HttpErrorResponse) => error = e });
+
+    const request = httpMock.expectOne(`${documentsUrl}/doc-1/download`);
+    tick(1000);
+    expect(request.cancelled).toBeTrue();
+    tick(10000);
+
+    expect(error?.status).toBe(408);
+    httpMock.expectNone(`${documentsUrl}/doc-1/download`);
+  }));
+
+  it('should hold mutations while offline and send them once back online', fakeAsync(() => {
+    connection.next(false);
+    let done = false;
+    http.post(`${documentsUrl}/doc-1/deactivate`, null).subscribe(() => done = true);
+
+    tick(60000);
+    httpMock.expectNone(`${documentsUrl}/doc-1/deactivate`);
+
+    connection.next(true);
+    httpMock.expectOne(`${documentsUrl}/doc-1/deactivate`).flush(null);
+    expect(done).toBeTrue();
+  }));
+});
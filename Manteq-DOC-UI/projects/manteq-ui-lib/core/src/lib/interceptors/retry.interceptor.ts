@@ -0,0 +1,106 @@
+import { HttpContext, HttpContextToken, HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { defer, retry, switchMap, throwError, timeout, timer } from 'rxjs';
+import { ApiConfigService } from '../services/api-config.service';
+import { NetworkStatusService } from '../services/network-status.service';
+import { MANTEQ_HTTP_CONFIG } from '../tokens/config.tokens';
+import { ManteqRetryConfig } from '../models/config.model';
+
+/**
+ * Per-request timeout in milliseconds (null = configured default, 0 = no timeout)
+ */
+export const REQUEST_TIMEOUT = new HttpContextToken<number | null>(() => null);
+
+/**
+ * Per-request retry count for idempotent requests (null = configured default, 0 = no retries)
+ */
+export const MAX_RETRIES = new HttpContextToken<number | null>(() => null);
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Timeouts raised by this interceptor, as opposed to 408 responses from the server
+const clientTimeouts = new WeakSet<HttpErrorResponse>();
+
+/**
+ * Request options for calls the server may take long to answer (sending mail, generating
+ * documents): no timeout, so a slow call that still succeeds is not reported as failed
+ */
+export function longRunningRequest(): { context: HttpContext } {
+  return { context: new HttpContext().set(REQUEST_TIMEOUT, 0) };
+}
+
+/**
+ * HTTP Interceptor adding timeouts, exponential-backoff retries for idempotent requests
+ * and offline handling to Manteq API calls.
+ *
+ * While the browser is offline, mutations are held until the connection returns and
+ * pending GET retries wait for it instead of burning through their attempts.
+ *
+ * File transfers (uploads, blob downloads, progress-reporting requests) get no default
+ * timeout, and a timeout set on one through REQUEST_TIMEOUT is not retried.
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiConfig = inject(ApiConfigService);
+  const networkStatus = inject(NetworkStatusService);
+  const config = inject(MANTEQ_HTTP_CONFIG);
+
+  if (!apiConfig.isApiUrl(req.url)) {
+    return next(req);
+  }
+
+  const idempotent = IDEMPOTENT_METHODS.includes(req.method);
+  const transfer = isTransfer(req);
+  const timeoutMs = req.context.get(REQUEST_TIMEOUT) ?? (transfer ? 0 : config.timeoutMs);
+  const maxRetries = idempotent ? req.context.get(MAX_RETRIES) ?? config.retry.maxRetries : 0;
+
+  const attempt$ = defer(() => next(req));
+  const request$ = (timeoutMs > 0
+    ? attempt$.pipe(timeout({ each: timeoutMs, with: () => throwError(() => timeoutError(req, timeoutMs)) }))
+    : attempt$
+  ).pipe(
+    retry({
+      count: maxRetries,
+      delay: (error, retryCount) => {
+        if (!isTransientError(error, config.retry.retryStatuses) || (transfer && clientTimeouts.has(error))) {
+          return throwError(() => error);
+        }
+        return networkStatus.online()
+          ? timer(backoffDelay(retryCount, config.retry))
+          : networkStatus.whenOnline();
+      }
+    })
+  );
+
+  if (!idempotent && !networkStatus.online()) {
+    return networkStatus.holdUntilOnline().pipe(switchMap(() => request$));
+  }
+
+  return request$;
+};
+
+function isTransfer(req: HttpRequest<unknown>): boolean {
+  return req.reportProgress || req.responseType === 'blob' || req.body instanceof FormData;
+}
+
+function isTransientError(error: unknown, retryStatuses: number[]): boolean {
+  return error instanceof HttpErrorResponse && retryStatuses.includes(error.status);
+}
+
+/**
+ * Exponential backoff with +/-20% jitter so parallel retries don't hit the server together
+ */
+function backoffDelay(retryCount: number, config: ManteqRetryConfig): number {
+  const delay = Math.min(config.maxDelayMs, config.initialDelayMs * 2 ** (retryCount - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function timeoutError(req: HttpRequest<unknown>, timeoutMs: number): HttpErrorResponse {
+  const error = new HttpErrorResponse({
+    status: 408,
+    statusText: 'Request Timeout',
+    url: req.urlWithParams,
+    error: { error: `The request timed out after ${Math.round(timeoutMs / 1000)} seconds` }
+  });
+  clientTimeouts.add(error);
+  return error;
+}
@@ -0,0 +1,94 @@
+import { Injectable, inject } from '@angular/core';
+import { MANTEQ_MOCK_BACKEND_CONFIG } from '../tokens/config.tokens';
+import { CmsTemplate } from '../models/cms.models';
+import { ExportFormat } from '../models/tms.models';
+import { EmailAccount } from '../models/email.models';
+import { MockDocumentRecord, MockEmailTemplateRecord, createMockSeed } from './mock-seed-data';
+
+/**
+ * Document produced by a TMS generate call, kept until the page is reloaded
+ */
+export interface MockGeneratedDocument {
+  id: string;
+  fileName: string;
+  exportFormat: ExportFormat;
+  content: Blob;
+  expiresAt: string;
+}
+
+/**
+ * Email accepted by one of the EmailService send endpoints
+ */
+export interface MockSentEmail {
+  emailId: string;
+  endpoint: string;
+  toRecipients: string[];
+  subject?: string;
+  sentAt: string;
+}
+
+/**
+ * In-memory state behind provideManteqMockBackend.
+ *
+ * Templates are shared by the CMS and TMS routes, just like the real TMS stores its
+ * templates in the CMS. Call `reset()` to restore the initial data set.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqMockDatabase {
+  private config = inject(MANTEQ_MOCK_BACKEND_CONFIG);
+
+  documents: MockDocumentRecord[] = [];
+  templates: CmsTemplate[] = [];
+  emailTemplates: MockEmailTemplateRecord[] = [];
+  accounts: EmailAccount[] = [];
+  generatedDocuments = new Map<string, MockGeneratedDocument>();
+  sentEmails: MockSentEmail[] = [];
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Restore the initial data set (empty when seeding is disabled)
+   */
+  reset(): void {
+    const seed = createMockSeed();
+    this.documents = this.config.seed ? seed.documents : [];
+    this.templates = this.config.seed ? seed.templates : [];
+    this.emailTemplates = this.config.seed ? seed.emailTemplates : [];
+    this.accounts = seed.accounts;
+    this.generatedDocuments.clear();
+    this.sentEmails = [];
+  }
+
+  findDocument(id: string, deleted: boolean = false): MockDocumentRecord | undefined {
+    return this.documents.find(document => sameId(document.id, id) && document.isDeleted === deleted);
+  }
+
+  findTemplate(id: string, deleted: boolean = false): CmsTemplate | undefined {
+    return this.templates.find(template => sameId(template.id, id) && template.isDeleted === deleted);
+  }
+
+  findEmailTemplate(id: string, deleted: boolean = false): MockEmailTemplateRecord | undefined {
+    return this.emailTemplates.find(template => sameId(template.id, id) && template.isDeleted === deleted);
+  }
+
+  newId(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+      const random = Math.random() * 16 | 0;
+      return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+    });
+  }
+}
+
+/**
+ * GUIDs are case-insensitive on the .NET side
+ */
+function sameId(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,1014 @@
+import { HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { ManteqApiServiceName } from '../models/config.model';
+import { ApiMessageResponse, CmsTemplate, CreateCmsTemplateRequest, Document } from '../models/cms.models';
+import {
+  DocumentGenerationRequest,
+  DocumentGenerationResponse,
+  ExportFormat,
+  Template,
+  TemplateProperty,
+  TemplateType
+} from '../models/tms.models';
+import {
+  AttachmentSourceType,
+  CreateEmailTemplateRequest,
+  EmailBodySourceType,
+  EmailSendResponse,
+  EmailStatus,
+  EmailTemplate,
+  EmailTemplateAnalytics,
+  EmailTemplateAttachment,
+  SendEmailRequest,
+  SendEmailWithDocumentsRequest,
+  SendEmailWithTemplateRequest,
+  SendEmailWithTmsHtmlAndAttachmentRequest,
+  TestEmailTemplateRequest,
+  UpdateEmailTemplateRequest
+} from '../models/email.models';
+import { TrashItem, TrashResponse } from '../services/cms-trash-api.service';
+import { ManteqMockDatabase, MockGeneratedDocument } from './mock-database';
+import {
+  MOCK_EMAIL_PLACEHOLDERS,
+  MOCK_PROPERTY_VALUES,
+  MOCK_QUOTATION_PLACEHOLDERS,
+  MockDocumentRecord,
+  MockEmailTemplateRecord,
+  mockFileContent,
+  mockMimeType
+} from './mock-seed-data';
+import { escapeHtml } from '../utils/html.utils';
+
+/**
+ * Request details passed to a mock route handler
+ */
+export interface MockRequestContext {
+  req: HttpRequest<unknown>;
+  params: string[];
+  query: URLSearchParams;
+  db: ManteqMockDatabase;
+  user: string;
+  baseUrl: (service: ManteqApiServiceName) => string;
+}
+
+export interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handle: (context: MockRequestContext) => HttpResponse<unknown>;
+}
+
+/**
+ * Thrown by handlers to answer with an error status, mapped to HttpErrorResponse by the interceptor
+ */
+export class MockRouteError {
+  constructor(readonly status: number, readonly body: unknown) {}
+}
+
+const GENERATED_DOCUMENT_LIFETIME_MS = 60 * 60 * 1000;
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.Original]: 'docx',
+  [ExportFormat.Word]: 'docx',
+  [ExportFormat.Html]: 'html',
+  [ExportFormat.EmailHtml]: 'html',
+  [ExportFormat.Pdf]: 'pdf'
+};
+
+// ========== HELPERS ==========
+
+function route(method: string, path: string, handle: MockRoute['handle']): MockRoute {
+  const source = path
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:\w+/g, '([^/]+)');
+  return { method, pattern: new RegExp(`^${source}$`), handle };
+}
+
+function ok<T>(body: T, status: number = 200): HttpResponse<T> {
+  return new HttpResponse({ status, statusText: 'OK', body });
+}
+
+function message(text: string): HttpResponse<ApiMessageResponse> {
+  return ok({ message: text });
+}
+
+function noContent(): HttpResponse<null> {
+  return new HttpResponse({ status: 204, statusText: 'No Content', body: null });
+}
+
+function file(content: Blob, fileName: string): HttpResponse<Blob> {
+  return new HttpResponse({
+    status: 200,
+    statusText: 'OK',
+    body: content,
+    headers: new HttpHeaders({
+      'Content-Type': content.type,
+      'Content-Disposition': `attachment; filename="${fileName}"`
+    })
+  });
+}
+
+function fail(status: number, error: string): never {
+  throw new MockRouteError(status, { error });
+}
+
+/**
+ * ASP.NET model validation failure (ValidationProblemDetails)
+ */
+function invalid(errors: Record<string, string[]>): never {
+  throw new MockRouteError(400, {
+    type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+    title: 'One or more validation errors occurred.',
+    status: 400,
+    errors
+  });
+}
+
+function formValue(req: HttpRequest<unknown>, key: string): string | undefined {
+  const value = req.body instanceof FormData ? req.body.get(key) : null;
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function formFile(req: HttpRequest<unknown>, key: string): File | undefined {
+  const value = req.body instanceof FormData ? req.body.get(key) : null;
+  return value instanceof File ? value : undefined;
+}
+
+function fileExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.');
+  return index >= 0 ? fileName.substring(index + 1).toLowerCase() : '';
+}
+
+function requireExtension(upload: File | undefined, field: string, extensions: string[], error: string): File {
+  if (!upload) {
+    fail(400, `${field} is required`);
+  }
+  if (!extensions.includes(fileExtension(upload.name))) {
+    fail(400, error);
+  }
+  return upload;
+}
+
+function queryFlag(query: URLSearchParams, key: string): boolean | undefined {
+  const value = query.get(key);
+  return value === null ? undefined : value.toLowerCase() === 'true';
+}
+
+/**
+ * TMS serializes enums as strings, so accept both names and numbers
+ */
+function parseExportFormat(value: unknown, fallback: ExportFormat = ExportFormat.Original): ExportFormat {
+  if (typeof value === 'number' && value in ExportFormat) {
+    return value;
+  }
+  if (typeof value === 'string' && value !== '') {
+    const numeric = Number(value);
+    if (!isNaN(numeric) && numeric in ExportFormat) {
+      return numeric;
+    }
+    const named = Object.keys(ExportFormat).find(key => key.toLowerCase() === value.toLowerCase());
+    if (named) {
+      return ExportFormat[named as keyof typeof ExportFormat];
+    }
+  }
+  return fallback;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function softDelete(record: { isDeleted: boolean; deletedAt?: string | Date; deletedBy?: string }, user: string): void {
+  record.isDeleted = true;
+  record.deletedAt = now();
+  record.deletedBy = user;
+}
+
+function restore(record: { isDeleted: boolean; deletedAt?: string | Date; deletedBy?: string }): void {
+  record.isDeleted = false;
+  record.deletedAt = undefined;
+  record.deletedBy = undefined;
+}
+
+// ========== RESPONSE MAPPING ==========
+
+function toDocument(record: MockDocumentRecord, cmsBaseUrl: string): Document {
+  return {
+    id: record.id,
+    name: record.name,
+    type: record.type,
+    size: record.size,
+    extension: record.extension,
+    mimeType: record.mimeType,
+    creationDate: record.creationDate,
+    filePath: record.filePath,
+    isActive: record.isActive,
+    createdBy: record.createdBy,
+    downloadUrl: `${cmsBaseUrl}/api/documents/${record.id}/download`
+  };
+}
+
+function toTmsTemplate(template: CmsTemplate, cmsBaseUrl: string): Template {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description ?? '',
+    category: template.category,
+    cmsDocumentId: template.cmsDocumentId,
+    placeholders: template.placeholders,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+    isActive: template.isActive,
+    createdBy: template.createdBy,
+    updatedBy: template.updatedBy ?? '',
+    templateDownloadUrl: `${cmsBaseUrl}/api/documents/${template.cmsDocumentId}/download`,
+    successCount: template.successCount,
+    failureCount: template.failureCount
+  };
+}
+
+function toEmailTemplate(record: MockEmailTemplateRecord): EmailTemplate {
+  const totalAttempts = record.sentCount + record.failureCount;
+  return {
+    id: record.id,
+    name: record.name,
+    subject: record.subject,
+    htmlContent: record.htmlContent,
+    plainTextContent: record.plainTextContent,
+    templateId: record.templateId,
+    bodySourceType: record.bodySourceType,
+    tmsTemplateId: record.tmsTemplateId,
+    customTemplateFilePath: record.customTemplateFilePath,
+    isActive: record.isActive,
+    category: record.category,
+    sentCount: record.sentCount,
+    failureCount: record.failureCount,
+    createdBy: record.createdBy,
+    createdDate: record.createdDate,
+    totalAttempts,
+    successRate: totalAttempts > 0 ? record.sentCount / totalAttempts * 100 : 0,
+    attachments: record.attachments
+  };
+}
+
+function toTrashItem(
+  record: { id: string; name: string; deletedAt?: string | Date; deletedBy?: string },
+  type: TrashItem['type'],
+  category?: string,
+  size?: number
+): TrashItem {
+  return {
+    id: record.id,
+    name: record.name,
+    type,
+    deletedAt: String(record.deletedAt ?? now()),
+    deletedBy: record.deletedBy ?? 'Unknown',
+    size,
+    category
+  };
+}
+
+function byDeletedAtDesc<T extends { deletedAt?: string | Date }>(a: T, b: T): number {
+  return String(b.deletedAt ?? '').localeCompare(String(a.deletedAt ?? ''));
+}
+
+// ========== LOOKUPS ==========
+
+function requireDocument(db: ManteqMockDatabase, id: string): MockDocumentRecord {
+  return db.findDocument(id) ?? fail(404, 'Document not found');
+}
+
+function requireTemplate(db: ManteqMockDatabase, id: string): CmsTemplate {
+  return db.findTemplate(id) ?? fail(404, `Template with ID ${id} not found`);
+}
+
+function requireEmailTemplate(db: ManteqMockDatabase, id: string): MockEmailTemplateRecord {
+  return db.findEmailTemplate(id) ?? fail(404, 'Email template not found');
+}
+
+// ========== DOCUMENT GENERATION ==========
+
+function renderDocument(title: string, values: Record<string, string>, format: ExportFormat): Blob {
+  const entries = Object.entries(values);
+
+  if (format === ExportFormat.Html || format === ExportFormat.EmailHtml) {
+    const rows = entries
+      .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`)
+      .join('');
+    return new Blob(
+      [`<!DOCTYPE html><html><body><h1>${escapeHtml(title)}</h1><table>${rows}</table></body></html>`],
+      { type: 'text/html' }
+    );
+  }
+
+  return mockFileContent(title, EXPORT_EXTENSIONS[format], entries.map(([key, value]) => `${key}: ${value}`));
+}
+
+function storeGeneratedDocument(
+  db: ManteqMockDatabase,
+  template: CmsTemplate,
+  values: Record<string, string>,
+  format: ExportFormat
+): MockGeneratedDocument {
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14);
+  const generated: MockGeneratedDocument = {
+    id: db.newId(),
+    fileName: `${template.name.replace(/\s+/g, '_')}_${timestamp}.${EXPORT_EXTENSIONS[format]}`,
+    exportFormat: format,
+    content: renderDocument(template.name, values, format),
+    expiresAt: new Date(Date.now() + GENERATED_DOCUMENT_LIFETIME_MS).toISOString()
+  };
+  db.generatedDocuments.set(generated.id, generated);
+  return generated;
+}
+
+function generationResponse(
+  generated: MockGeneratedDocument,
+  processedPlaceholders: number,
+  tmsBaseUrl: string
+): DocumentGenerationResponse {
+  return {
+    generationId: generated.id,
+    message: 'Document generated successfully',
+    fileName: generated.fileName,
+    fileSizeBytes: generated.content.size,
+    downloadUrl: `${tmsBaseUrl}/api/templates/download/${generated.id}`,
+    expiresAt: generated.expiresAt,
+    exportFormat: generated.exportFormat,
+    processedPlaceholders
+  };
+}
+
+/**
+ * Generate from an active template, updating its success counter like the real TMS
+ */
+function generate(
+  db: ManteqMockDatabase,
+  templateId: string,
+  values: Record<string, string>,
+  format: ExportFormat
+): { template: CmsTemplate; generated: MockGeneratedDocument; processed: number } {
+  const template = db.findTemplate(templateId);
+  if (!template || !template.isActive) {
+    fail(404, `Template not found or inactive: ${templateId}`);
+  }
+
+  const processed = template.placeholders.filter(name => values[name] !== undefined).length;
+  const generated = storeGeneratedDocument(db, template, values, format);
+  template.successCount++;
+  return { template, generated, processed };
+}
+
+function placeholderSheet(title: string, placeholders: string[]): Blob {
+  // Plain-text stand-in for the Excel sheet the TMS produces
+  return mockFileContent(title, 'xlsx', ['Placeholder\tValue', ...placeholders.map(name => `${name}\t`)]);
+}
+
+// ========== EMAIL SENDING ==========
+
+function requireRecipients(recipients: string[] | undefined): void {
+  if (!recipients?.length) {
+    invalid({ ToRecipients: ['At least one recipient is required'] });
+  }
+}
+
+function sent(db: ManteqMockDatabase, endpoint: string, toRecipients: string[], subject?: string): HttpResponse<EmailSendResponse> {
+  const email = { emailId: db.newId(), endpoint, toRecipients, subject, sentAt: now() };
+  db.sentEmails.push(email);
+  return ok({
+    emailId: email.emailId,
+    message: 'Email sent successfully',
+    status: EmailStatus.Sent,
+    sentAt: email.sentAt
+  });
+}
+
+// ========== CMS ==========
+
+const CMS_ROUTES: MockRoute[] = [
+  // Documents
+  route('POST', '/api/documents/register', ({ req, db, user }) => {
+    const name = formValue(req, 'Name');
+    const content = formFile(req, 'Content');
+    if (!name || !content) {
+      invalid({
+        ...(name ? {} : { Name: ['The Name field is required.'] }),
+        ...(content ? {} : { Content: ['The Content field is required.'] })
+      });
+    }
+
+    const id = db.newId();
+    const extension = fileExtension(content.name);
+    db.documents.push({
+      id,
+      name,
+      type: formValue(req, 'Type'),
+      size: content.size,
+      extension,
+      mimeType: content.type || mockMimeType(extension),
+      creationDate: now(),
+      filePath: `/storage/documents/${name}_${id}.${extension}`,
+      isActive: true,
+      createdBy: user,
+      isDeleted: false,
+      content
+    });
+    return ok({ id, message: 'Document registered successfully' });
+  }),
+  route('GET', '/api/documents/types', ({ db }) => {
+    const counts = new Map<string, number>();
+    db.documents
+      .filter(document => !document.isDeleted)
+      .forEach(document => {
+        const type = document.type ?? 'Unspecified';
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      });
+    return ok([...counts].map(([type, count]) => ({ type, count })));
+  }),
+  route('GET', '/api/documents', ({ db, query, baseUrl }) => {
+    const name = query.get('name')?.toLowerCase();
+    const isActive = queryFlag(query, 'isActive');
+    const type = query.get('type');
+
+    const documents = db.documents.filter(document =>
+      !document.isDeleted &&
+      (!name || document.name.toLowerCase().includes(name)) &&
+      (isActive === undefined || document.isActive === isActive) &&
+      (!type || document.type === type)
+    );
+    return ok(documents.map(document => toDocument(document, baseUrl('CMS'))));
+  }),
+  route('GET', '/api/documents/:id', ({ db, params, baseUrl }) =>
+    ok(toDocument(requireDocument(db, params[0]), baseUrl('CMS')))
+  ),
+  route('GET', '/api/documents/:id/download', ({ db, params }) => {
+    const document = db.findDocument(params[0]) ?? fail(404, 'Document or file not found');
+    return file(document.content, `${document.name}.${document.extension}`);
+  }),
+  route('POST', '/api/documents/:id/activate', ({ db, params }) => {
+    requireDocument(db, params[0]).isActive = true;
+    return message('Document activated successfully');
+  }),
+  route('POST', '/api/documents/:id/deactivate', ({ db, params }) => {
+    requireDocument(db, params[0]).isActive = false;
+    return message('Document deactivated successfully');
+  }),
+  route('DELETE', '/api/documents/:id', ({ db, params, user }) => {
+    softDelete(requireDocument(db, params[0]), user);
+    return message('Document moved to trash successfully');
+  }),
+
+  // Templates
+  route('GET', '/api/templates/placeholders', ({ db, query }) => {
+    const name = query.get('name')?.toLowerCase();
+    const isActive = queryFlag(query, 'isActive') ?? true;
+    const template = db.templates.find(t =>
+      !t.isDeleted && t.isActive === isActive && t.name.toLowerCase() === name
+    );
+    return ok(template?.placeholders ?? []);
+  }),
+  route('GET', '/api/templates', ({ db, query }) => {
+    const category = query.get('category');
+    const name = query.get('name')?.toLowerCase();
+    const isActive = queryFlag(query, 'isActive');
+
+    return ok(db.templates.filter(template =>
+      !template.isDeleted &&
+      (!category || template.category === category) &&
+      (!name || template.name.toLowerCase().includes(name)) &&
+      (isActive === undefined || template.isActive === isActive)
+    ));
+  }),
+  route('POST', '/api/templates', ({ req, db, user }) => {
+    const request = req.body as CreateCmsTemplateRequest;
+    if (!request?.name) {
+      fail(400, 'Template name is required');
+    }
+
+    const template: CmsTemplate = {
+      description: undefined,
+      templateType: TemplateType.Document,
+      defaultExportFormat: ExportFormat.Word,
+      placeholders: [],
+      isActive: true,
+      successCount: 0,
+      failureCount: 0,
+      ...request,
+      id: db.newId(),
+      isDeleted: false,
+      createdBy: request.createdBy || user,
+      createdAt: now(),
+      updatedAt: now()
+    };
+    db.templates.push(template);
+    return ok(template);
+  }),
+  route('GET', '/api/templates/:id', ({ db, params }) => ok(requireTemplate(db, params[0]))),
+  route('PUT', '/api/templates/:id', ({ req, db, params, user }) => {
+    const template = requireTemplate(db, params[0]);
+    Object.assign(template, req.body as CreateCmsTemplateRequest, {
+      id: template.id,
+      isDeleted: false,
+      createdBy: template.createdBy,
+      createdAt: template.createdAt,
+      updatedBy: user,
+      updatedAt: now()
+    });
+    return ok(template);
+  }),
+  route('DELETE', '/api/templates/:id', ({ db, params, user }) => {
+    softDelete(requireTemplate(db, params[0]), user);
+    return message('Template deleted successfully');
+  }),
+  route('POST', '/api/templates/:id/activate', ({ db, params }) => {
+    requireTemplate(db, params[0]).isActive = true;
+    return message('Template activated successfully');
+  }),
+  route('POST', '/api/templates/:id/deactivate', ({ db, params }) => {
+    requireTemplate(db, params[0]).isActive = false;
+    return message('Template deactivated successfully');
+  }),
+  route('POST', '/api/templates/:id/increment-success', ({ db, params }) => {
+    requireTemplate(db, params[0]).successCount++;
+    return message('Success count incremented');
+  }),
+  route('POST', '/api/templates/:id/increment-failure', ({ db, params }) => {
+    requireTemplate(db, params[0]).failureCount++;
+    return message('Failure count incremented');
+  }),
+
+  // Email templates
+  route('GET', '/api/email-templates/categories', ({ db }) => {
+    const categories = db.emailTemplates
+      .filter(template => !template.isDeleted && template.category)
+      .map(template => template.category!);
+    return ok([...new Set(categories)].sort());
+  }),
+  route('GET', '/api/email-templates', ({ db, query }) => {
+    const name = query.get('name')?.toLowerCase();
+    const isActive = queryFlag(query, 'isActive');
+    const category = query.get('category');
+
+    const templates = db.emailTemplates.filter(template =>
+      !template.isDeleted &&
+      (!name || template.name.toLowerCase().includes(name)) &&
+      (isActive === undefined || template.isActive === isActive) &&
+      (!category || template.category === category)
+    );
+    return ok(templates.map(toEmailTemplate));
+  }),
+  route('POST', '/api/email-templates', ({ req, db, user }) => {
+    const request = req.body as CreateEmailTemplateRequest;
+    if (!request?.name || !request.subject) {
+      invalid({
+        ...(request?.name ? {} : { Name: ['The Name field is required.'] }),
+        ...(request?.subject ? {} : { Subject: ['The Subject field is required.'] })
+      });
+    }
+    if (request.bodySourceType === EmailBodySourceType.TmsTemplate && !request.tmsTemplateId) {
+      invalid({ TmsTemplateId: ['TMS template ID is required when body source type is TmsTemplate'] });
+    }
+
+    const id = db.newId();
+    const record: MockEmailTemplateRecord = {
+      id,
+      name: request.name,
+      subject: request.subject,
+      htmlContent: request.htmlContent ?? '',
+      plainTextContent: request.plainTextContent,
+      templateId: request.templateId,
+      bodySourceType: request.bodySourceType ?? EmailBodySourceType.PlainText,
+      tmsTemplateId: request.tmsTemplateId,
+      customTemplateFilePath: request.customTemplateFilePath,
+      isActive: true,
+      category: request.category,
+      sentCount: 0,
+      failureCount: 0,
+      createdBy: user,
+      createdDate: now(),
+      attachments: toAttachments(db, id, request.attachments, user),
+      isDeleted: false
+    };
+    db.emailTemplates.push(record);
+    return ok(toEmailTemplate(record), 201);
+  }),
+  route('GET', '/api/email-templates/:id', ({ db, params }) =>
+    ok(toEmailTemplate(requireEmailTemplate(db, params[0])))
+  ),
+  route('PUT', '/api/email-templates/:id', ({ req, db, params, user }) => {
+    const record = requireEmailTemplate(db, params[0]);
+    const request = req.body as UpdateEmailTemplateRequest;
+    const { attachments, ...changes } = request ?? {};
+
+    Object.entries(changes)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .forEach(([key, value]) => Object.assign(record, { [key]: value }));
+    if (attachments) {
+      record.attachments = toAttachments(db, record.id, attachments, user);
+    }
+    return ok(toEmailTemplate(record));
+  }),
+  route('DELETE', '/api/email-templates/:id', ({ db, params, user }) => {
+    softDelete(requireEmailTemplate(db, params[0]), user);
+    return noContent();
+  }),
+  route('POST', '/api/email-templates/:id/activate', ({ db, params }) => {
+    requireEmailTemplate(db, params[0]).isActive = true;
+    return message('Email template activated successfully');
+  }),
+  route('POST', '/api/email-templates/:id/deactivate', ({ db, params }) => {
+    requireEmailTemplate(db, params[0]).isActive = false;
+    return message('Email template deactivated successfully');
+  }),
+  route('GET', '/api/email-templates/:id/analytics', ({ db, params }) => {
+    const template = toEmailTemplate(requireEmailTemplate(db, params[0]));
+    return ok<EmailTemplateAnalytics>({
+      templateId: template.id,
+      templateName: template.name,
+      sentCount: template.sentCount,
+      failureCount: template.failureCount,
+      totalAttempts: template.totalAttempts,
+      successRate: template.successRate
+    });
+  }),
+  route('GET', '/api/email-templates/:id/custom-template', ({ db, params }) => {
+    const record = requireEmailTemplate(db, params[0]);
+    if (!record.customTemplateContent) {
+      fail(404, 'Custom template not found');
+    }
+    return file(new Blob([record.customTemplateContent], { type: 'text/html' }), `${record.name}.html`);
+  }),
+  route('POST', '/api/email-templates/:id/upload-custom', ({ req, db, params }) => {
+    const record = requireEmailTemplate(db, params[0]);
+    const upload = formFile(req, 'file') ?? fail(400, 'No file provided');
+    if (!['mhtml', 'mht'].includes(fileExtension(upload.name))) {
+      fail(400, 'Only .mhtml and .mht files are allowed');
+    }
+
+    record.customTemplateContent = upload;
+    record.customTemplateFilePath = `/storage/email-templates/${record.id}/${upload.name}`;
+    return message('Custom template file uploaded successfully');
+  }),
+  route('GET', '/api/email-templates/:id/attachments', ({ db, params }) =>
+    ok(db.findEmailTemplate(params[0])?.attachments ?? [])
+  ),
+  route('GET', '/api/email-templates/:id/attachments/:index/download', ({ db, params }) => {
+    const record = requireEmailTemplate(db, params[0]);
+    const attachment = record.attachments[Number(params[1])];
+    if (attachment?.sourceType !== AttachmentSourceType.CustomFile || !attachment.customFileName) {
+      fail(404, 'Custom attachment not found');
+    }
+    const fileName = attachment.customFileName;
+    return file(mockFileContent(fileName, fileExtension(fileName)), fileName);
+  }),
+  route('POST', '/api/email-templates/:id/increment-sent', ({ db, params }) => {
+    requireEmailTemplate(db, params[0]).sentCount++;
+    return message('Sent count incremented successfully');
+  }),
+  route('POST', '/api/email-templates/:id/increment-failure', ({ db, params }) => {
+    requireEmailTemplate(db, params[0]).failureCount++;
+    return message('Failure count incremented successfully');
+  }),
+
+  // Trash
+  route('GET', '/api/trash', ({ db }) => {
+    const documents = db.documents.filter(d => d.isDeleted).sort(byDeletedAtDesc);
+    const templates = db.templates.filter(t => t.isDeleted).sort(byDeletedAtDesc);
+    const emailTemplates = db.emailTemplates.filter(e => e.isDeleted).sort(byDeletedAtDesc);
+
+    return ok<TrashResponse>({
+      documents: documents.map(d => toTrashItem(d, 'Document', d.type, d.size)),
+      templates: templates.map(t => toTrashItem(t, 'Template', t.category)),
+      emailTemplates: emailTemplates.map(e => toTrashItem(e, 'EmailTemplate', e.category)),
+      totalCount: documents.length + templates.length + emailTemplates.length
+    });
+  }),
+  route('POST', '/api/trash/documents/:id/restore', ({ db, params }) => {
+    restore(db.findDocument(params[0], true) ?? fail(404, 'Document not found in trash'));
+    return message('Document restored successfully');
+  }),
+  route('POST', '/api/trash/templates/:id/restore', ({ db, params }) => {
+    restore(db.findTemplate(params[0], true) ?? fail(404, 'Template not found in trash'));
+    return message('Template restored successfully');
+  }),
+  route('POST', '/api/trash/email-templates/:id/restore', ({ db, params }) => {
+    restore(db.findEmailTemplate(params[0], true) ?? fail(404, 'Email template not found in trash'));
+    return message('Email template restored successfully');
+  }),
+  route('DELETE', '/api/trash/documents/:id/permanent', ({ db, params }) => {
+    const document = db.findDocument(params[0], true) ?? fail(404, 'Document not found in trash');
+    db.documents = db.documents.filter(d => d !== document);
+    return message('Document permanently deleted');
+  }),
+  route('DELETE', '/api/trash/templates/:id/permanent', ({ db, params }) => {
+    const template = db.findTemplate(params[0], true) ?? fail(404, 'Template not found in trash');
+    db.templates = db.templates.filter(t => t !== template);
+    return message('Template permanently deleted');
+  }),
+  route('DELETE', '/api/trash/email-templates/:id/permanent', ({ db, params }) => {
+    const template = db.findEmailTemplate(params[0], true) ?? fail(404, 'Email template not found in trash');
+    db.emailTemplates = db.emailTemplates.filter(e => e !== template);
+    return message('Email template permanently deleted');
+  }),
+  route('DELETE', '/api/trash/empty', ({ db }) => {
+    const documents = db.documents.filter(d => d.isDeleted).length;
+    const templates = db.templates.filter(t => t.isDeleted).length;
+    const emailTemplates = db.emailTemplates.filter(e => e.isDeleted).length;
+
+    db.documents = db.documents.filter(d => !d.isDeleted);
+    db.templates = db.templates.filter(t => !t.isDeleted);
+    db.emailTemplates = db.emailTemplates.filter(e => !e.isDeleted);
+
+    return ok({
+      message: 'Trash emptied successfully',
+      totalDeleted: documents + templates + emailTemplates,
+      documents,
+      templates,
+      emailTemplates
+    });
+  })
+];
+
+function toAttachments(
+  db: ManteqMockDatabase,
+  emailTemplateId: string,
+  requests: CreateEmailTemplateRequest['attachments'],
+  user: string
+): EmailTemplateAttachment[] {
+  return (requests ?? []).map(request => ({
+    ...request,
+    id: db.newId(),
+    emailTemplateId,
+    createdDate: now(),
+    createdBy: user
+  }));
+}
+
+// ========== TMS ==========
+
+const TMS_ROUTES: MockRoute[] = [
+  route('POST', '/api/templates/register', ({ req, db, user }) => {
+    const name = formValue(req, 'Name');
+    const category = formValue(req, 'Category');
+    const templateFile = formFile(req, 'TemplateFile');
+    if (!name || !category || !templateFile) {
+      invalid({
+        ...(name ? {} : { Name: ['The Name field is required.'] }),
+        ...(category ? {} : { Category: ['The Category field is required.'] }),
+        ...(templateFile ? {} : { TemplateFile: ['The TemplateFile field is required.'] })
+      });
+    }
+    requireExtension(templateFile, 'Template file', ['docx', 'xlsx'], 'Only .docx and .xlsx files are supported');
+
+    // Template files are stored as CMS documents; placeholders can't be read without parsing the file
+    const documentId = db.newId();
+    const extension = fileExtension(templateFile.name);
+    db.documents.push({
+      id: documentId,
+      name,
+      type: 'Template',
+      size: templateFile.size,
+      extension,
+      mimeType: templateFile.type || mockMimeType(extension),
+      creationDate: now(),
+      filePath: `/storage/documents/${name}_${documentId}.${extension}`,
+      isActive: true,
+      createdBy: user,
+      isDeleted: false,
+      content: templateFile
+    });
+
+    const placeholders = category.toLowerCase() === 'email'
+      ? [...MOCK_EMAIL_PLACEHOLDERS]
+      : MOCK_QUOTATION_PLACEHOLDERS.slice(0, 5);
+    const template: CmsTemplate = {
+      id: db.newId(),
+      name,
+      description: formValue(req, 'Description'),
+      category,
+      templateType: TemplateType.Document,
+      defaultExportFormat: ExportFormat.Word,
+      cmsDocumentId: documentId,
+      placeholders,
+      isActive: true,
+      isDeleted: false,
+      createdBy: formValue(req, 'CreatedBy') ?? user,
+      createdAt: now(),
+      updatedAt: now(),
+      successCount: 0,
+      failureCount: 0
+    };
+    db.templates.push(template);
+
+    return ok({
+      templateId: template.id,
+      message: 'Template registered successfully',
+      extractedPlaceholders: placeholders
+    });
+  }),
+  route('GET', '/api/templates/template-types', () =>
+    ok(['Word', 'Excel', 'PowerPoint'].map((name, value) => ({ value, name })))
+  ),
+  route('GET', '/api/templates/export-formats', () =>
+    ok(Object.keys(ExportFormat)
+      .filter(key => isNaN(Number(key)))
+      .map(name => ({ value: ExportFormat[name as keyof typeof ExportFormat], name })))
+  ),
+  route('GET', '/api/templates', ({ db, baseUrl }) =>
+    ok(db.templates
+      .filter(template => !template.isDeleted)
+      .map(template => toTmsTemplate(template, baseUrl('CMS'))))
+  ),
+  route('GET', '/api/templates/:id', ({ db, params, baseUrl }) => {
+    const template = db.findTemplate(params[0]) ?? fail(404, 'Template not found');
+    return ok(toTmsTemplate(template, baseUrl('CMS')));
+  }),
+  route('DELETE', '/api/templates/:id', ({ db, params, user }) => {
+    softDelete(db.findTemplate(params[0]) ?? fail(404, 'Template not found'), user);
+    return message('Template deleted successfully');
+  }),
+  route('GET', '/api/templates/:id/properties', ({ db, params }) => {
+    const template = db.findTemplate(params[0]) ?? fail(404, 'Template not found');
+    const properties: TemplateProperty[] = template.placeholders.map(name => ({
+      name,
+      type: 'Text',
+      isRequired: true,
+      description: `Value for ${name}`,
+      currentValue: ''
+    }));
+    return ok({ templateId: template.id, templateName: template.name, properties });
+  }),
+  route('GET', '/api/templates/:id/analytics', ({ db, params }) => {
+    const template = db.findTemplate(params[0]) ?? fail(404, 'Template not found');
+    const totalGenerations = template.successCount + template.failureCount;
+    return ok({
+      templateId: template.id,
+      templateName: template.name,
+      successCount: template.successCount,
+      failureCount: template.failureCount,
+      totalGenerations,
+      successRate: totalGenerations > 0
+        ? Math.round(template.successCount / totalGenerations * 10000) / 100
+        : 0
+    });
+  }),
+  route('POST', '/api/templates/:id/increment-success', ({ db, params }) => {
+    (db.findTemplate(params[0]) ?? fail(404, 'Template not found')).successCount++;
+    return message('Success count incremented');
+  }),
+  route('POST', '/api/templates/:id/increment-failure', ({ db, params }) => {
+    (db.findTemplate(params[0]) ?? fail(404, 'Template not found')).failureCount++;
+    return message('Failure count incremented');
+  }),
+  route('POST', '/api/templates/generate', ({ req, db, query, baseUrl }) => {
+    const request = req.body as DocumentGenerationRequest;
+    if (!request?.templateId) {
+      invalid({ TemplateId: ['The TemplateId field is required.'] });
+    }
+
+    const { generated, processed } = generate(
+      db,
+      request.templateId,
+      request.propertyValues ?? {},
+      parseExportFormat(request.exportFormat)
+    );
+    return queryFlag(query, 'autoDownload')
+      ? file(generated.content, generated.fileName)
+      : ok(generationResponse(generated, processed, baseUrl('TMS')));
+  }),
+  route('POST', '/api/templates/generate-with-embeddings', ({ req, db, query, baseUrl }) => {
+    const request = req.body as {
+      mainTemplateId: string;
+      mainTemplateValues?: Record<string, string>;
+      embeddings?: { embedTemplateId: string; embedTemplateValues?: Record<string, string>; embedPlaceholder: string }[];
+      exportFormat?: ExportFormat | string;
+    };
+    if (!request?.mainTemplateId) {
+      invalid({ MainTemplateId: ['The MainTemplateId field is required.'] });
+    }
+
+    const embeddings = request.embeddings ?? [];
+    const embeddingResults = embeddings.map(embed => {
+      const child = db.findTemplate(embed.embedTemplateId) ?? fail(400, `Embed template not found: ${embed.embedTemplateId}`);
+      return `Embedded '${child.name}' at ${embed.embedPlaceholder}`;
+    });
+    const values = embeddings.reduce(
+      (all, embed) => ({ ...all, ...embed.embedTemplateValues }),
+      { ...request.mainTemplateValues }
+    );
+
+    const { generated, processed } = generate(db, request.mainTemplateId, values, parseExportFormat(request.exportFormat));
+    if (queryFlag(query, 'autoDownload')) {
+      return file(generated.content, generated.fileName);
+    }
+
+    const { processedPlaceholders, ...response } = generationResponse(generated, processed, baseUrl('TMS'));
+    return ok({
+      ...response,
+      message: 'Document with embeddings generated successfully',
+      processedEmbeddings: embeddings.length,
+      processedMainPlaceholders: processedPlaceholders,
+      embeddingResults
+    });
+  }),
+  route('GET', '/api/templates/download/:generationId', ({ db, params }) => {
+    const generated = db.generatedDocuments.get(params[0].toLowerCase());
+    if (!generated || new Date(generated.expiresAt).getTime() < Date.now()) {
+      fail(404, `Generated document not found or expired: ${params[0]}`);
+    }
+    return file(generated.content, generated.fileName);
+  }),
+  route('GET', '/api/templates/:id/download-placeholders-excel', ({ db, params }) => {
+    const template = db.findTemplate(params[0]) ?? fail(404, 'Template not found');
+    return file(placeholderSheet(template.name, template.placeholders), `${template.name}_Placeholders.xlsx`);
+  }),
+  route('POST', '/api/templates/extract-placeholders', ({ req }) => {
+    const templateFile = requireExtension(
+      formFile(req, 'TemplateFile'), 'Template file', ['docx', 'xlsx'], 'Only .docx and .xlsx files are supported'
+    );
+    const name = templateFile.name.replace(/\.[^.]+$/, '');
+    return file(placeholderSheet(name, MOCK_QUOTATION_PLACEHOLDERS), `${name}_Placeholders.xlsx`);
+  }),
+  route('POST', '/api/templates/test-template', ({ req }) => {
+    const templateFile = requireExtension(
+      formFile(req, 'TemplateFile'), 'Template file', ['docx', 'xlsx'], 'Only .docx and .xlsx template files are supported'
+    );
+    requireExtension(formFile(req, 'ExcelFile'), 'Excel file with test data', ['xlsx'], 'Only .xlsx files are supported for test data');
+
+    const format = parseExportFormat(formValue(req, 'ExportFormat'), ExportFormat.Word);
+    const name = templateFile.name.replace(/\.[^.]+$/, '');
+    return file(renderDocument(name, MOCK_PROPERTY_VALUES, format), `${name}_test.${EXPORT_EXTENSIONS[format]}`);
+  }),
+  route('POST', '/api/templates/:id/test-generate', ({ req, db, params, baseUrl }) => {
+    requireExtension(formFile(req, 'ExcelFile'), 'Excel file', ['xlsx'], 'Only .xlsx files are supported');
+
+    const { generated, processed } = generate(
+      db,
+      params[0],
+      MOCK_PROPERTY_VALUES,
+      parseExportFormat(formValue(req, 'ExportFormat'), ExportFormat.Word)
+    );
+    return ok(generationResponse(generated, processed, baseUrl('TMS')));
+  }),
+  route('POST', '/api/templates/parse-excel', ({ req }) => {
+    requireExtension(formFile(req, 'ExcelFile'), 'Excel file', ['xlsx'], 'Only .xlsx files are supported');
+    return ok({ ...MOCK_PROPERTY_VALUES });
+  })
+];
+
+// ========== EMAIL SERVICE ==========
+
+const EMAIL_ROUTES: MockRoute[] = [
+  route('POST', '/api/email/send-with-template', ({ req, db }) => {
+    const request = req.body as SendEmailWithTemplateRequest;
+    requireRecipients(request?.toRecipients);
+    generate(db, request.templateId, request.propertyValues ?? {}, parseExportFormat(request.exportFormat));
+    return sent(db, 'send-with-template', request.toRecipients, request.subject);
+  }),
+  route('POST', '/api/email/send-with-documents', ({ req, db }) => {
+    const request = req.body as SendEmailWithDocumentsRequest;
+    requireRecipients(request?.toRecipients);
+    (request.cmsDocumentIds ?? []).forEach(id => db.findDocument(id) ?? fail(400, `Document not found: ${id}`));
+    return sent(db, 'send-with-documents', request.toRecipients, request.subject);
+  }),
+  route('POST', '/api/email/send-tms-html-and-attachment', ({ req, db }) => {
+    const request = req.body as SendEmailWithTmsHtmlAndAttachmentRequest;
+    requireRecipients(request?.toRecipients);
+    generate(db, request.bodyTemplateId, request.bodyPropertyValues ?? {}, ExportFormat.EmailHtml);
+    generate(
+      db,
+      request.attachmentTemplateId,
+      request.attachmentPropertyValues ?? {},
+      parseExportFormat(request.attachmentExportFormat, ExportFormat.Pdf)
+    );
+    return sent(db, 'send-tms-html-and-attachment', request.toRecipients, request.subject);
+  }),
+  route('POST', '/api/email/send-with-flexible-attachments', ({ req, db }) => {
+    const request = req.body as SendEmailRequest;
+    requireRecipients(request?.toRecipients);
+    const template = db.findEmailTemplate(request.emailTemplateId) ?? fail(400, `Email template not found: ${request.emailTemplateId}`);
+    template.sentCount++;
+    return sent(db, 'send-with-flexible-attachments', request.toRecipients, request.subject);
+  }),
+  route('POST', '/api/email/test-template', ({ req, db }) => {
+    const request = req.body as TestEmailTemplateRequest;
+    requireRecipients(request?.toRecipients);
+    const template = db.findEmailTemplate(request.templateId) ?? fail(400, `Email template not found: ${request.templateId}`);
+    if (!template.isActive) {
+      fail(400, `Email template '${template.name}' is inactive`);
+    }
+    template.sentCount++;
+    return sent(db, 'test-template', request.toRecipients, template.subject);
+  }),
+  route('GET', '/api/email/accounts', ({ db }) => ok(db.accounts)),
+  route('GET', '/api/email/health', () =>
+    ok({ status: 'healthy', timestamp: now(), service: 'EmailService.WebApi' })
+  )
+];
+
+/**
+ * Route tables per backend service, matched in order (static paths before parameterized ones)
+ */
+export const MOCK_ROUTES: Record<ManteqApiServiceName, MockRoute[]> = {
+  CMS: CMS_ROUTES,
+  TMS: TMS_ROUTES,
+  EMAIL: EMAIL_ROUTES
+};
@@ -0,0 +1,299 @@
+import { CmsTemplate, Document } from '../models/cms.models';
+import { ExportFormat, TemplateType } from '../models/tms.models';
+import {
+  AttachmentSourceType,
+  EmailAccount,
+  EmailBodySourceType,
+  EmailTemplate,
+  EmailTemplateAttachment,
+  TmsExportFormat
+} from '../models/email.models';
+
+/**
+ * Stored document - the API response fields plus soft-delete state and file content
+ */
+export interface MockDocumentRecord extends Omit<Document, 'downloadUrl'> {
+  isDeleted: boolean;
+  deletedAt?: string;
+  deletedBy?: string;
+  content: Blob;
+}
+
+/**
+ * Stored email template - attachments are always present, custom template content is kept in memory
+ */
+export interface MockEmailTemplateRecord extends Omit<EmailTemplate, 'totalAttempts' | 'successRate' | 'attachments'> {
+  attachments: EmailTemplateAttachment[];
+  customTemplateContent?: Blob;
+  isDeleted: boolean;
+  deletedAt?: string;
+  deletedBy?: string;
+}
+
+/**
+ * Complete in-memory state of the mock backend
+ */
+export interface MockSeed {
+  documents: MockDocumentRecord[];
+  templates: CmsTemplate[];
+  emailTemplates: MockEmailTemplateRecord[];
+  accounts: EmailAccount[];
+}
+
+/**
+ * Placeholders of the ICS quotation template
+ */
+export const MOCK_QUOTATION_PLACEHOLDERS = [
+  'ICS_CustomerName',
+  'ICS_QuotationNumber',
+  'ICS_PolicyNumber',
+  'ICS_PolicyStartDate',
+  'ICS_PolicyEndDate',
+  'ICS_Benefit1_Name',
+  'ICS_Benefit1_Coverage',
+  'ICS_Benefit1_Limit',
+  'ICS_Benefit2_Name',
+  'ICS_Benefit2_Coverage',
+  'ICS_Benefit2_Limit',
+  'ICS_Term1',
+  'ICS_Term2',
+  'ICS_Term3',
+  'ICS_Include_Doc'
+];
+
+/**
+ * Placeholders of the ICS policy email template
+ */
+export const MOCK_EMAIL_PLACEHOLDERS = [
+  'ICS_CustomerName',
+  'ICS_PolicyNumber',
+  'ICS_PolicyStartDate',
+  'ICS_PolicyEndDate',
+  'ICS_SupportEmail',
+  'ICS_SupportPhone',
+  'ICS_Signature'
+];
+
+/**
+ * Sample values returned when a filled placeholder Excel file is parsed
+ */
+export const MOCK_PROPERTY_VALUES: Record<string, string> = {
+  ICS_CustomerName: 'Ahmed Al-Mansouri',
+  ICS_QuotationNumber: 'QUO-2025-00789',
+  ICS_PolicyNumber: 'POL-2025-001234',
+  ICS_PolicyStartDate: '2025-09-11',
+  ICS_PolicyEndDate: '2026-09-11',
+  ICS_Benefit1_Name: 'Medical Coverage',
+  ICS_Benefit1_Coverage: 'Comprehensive Health Insurance',
+  ICS_Benefit1_Limit: 'AED 500,000',
+  ICS_Benefit2_Name: 'Dental Coverage',
+  ICS_Benefit2_Coverage: 'Full Dental Care',
+  ICS_Benefit2_Limit: 'AED 50,000',
+  ICS_Term1: 'Coverage is valid 24/7 worldwide',
+  ICS_Term2: 'Claim processing within 48 hours',
+  ICS_Term3: 'Direct billing with approved hospitals',
+  ICS_SupportEmail: 'support@manteq-me.com',
+  ICS_SupportPhone: '+971-4-123-4567',
+  ICS_Signature: 'Best Regards,\nManteq Insurance Team'
+};
+
+const QUOTATION_TEMPLATE_ID = '5ab6685f-1892-4c55-8f6e-fdcbbb8fb733';
+const EMAIL_TEMPLATE_ID = 'e6913cb9-f0c3-42ca-89e4-05f9955e505b';
+const BENEFITS_TEMPLATE_ID = '2f7c1d3e-8a4b-4c6d-9e0f-1a2b3c4d5e6f';
+const POLICY_EMAIL_TEMPLATE_ID = '96cec0ae-a1f9-4e01-8e07-16ddd57b4b25';
+const POLICY_SCHEDULE_DOCUMENT_ID = 'ced4e35b-6a1f-4b8e-9c2d-7e3f5a1b9d04';
+
+const MIME_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+  html: 'text/html',
+  mhtml: 'multipart/related',
+  txt: 'text/plain'
+};
+
+/**
+ * MIME type for a file extension (without the dot)
+ */
+export function mockMimeType(extension: string): string {
+  return MIME_TYPES[extension.toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Placeholder file content - the mock backend does not render real Office documents
+ */
+export function mockFileContent(title: string, extension: string, lines: string[] = []): Blob {
+  return new Blob(
+    [[`Manteq mock file: ${title}`, ...lines].join('\n')],
+    { type: mockMimeType(extension) }
+  );
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function seedDocument(
+  id: string,
+  name: string,
+  extension: string,
+  type: string | undefined,
+  daysOld: number,
+  isActive: boolean = true
+): MockDocumentRecord {
+  const content = mockFileContent(name, extension);
+  return {
+    id,
+    name,
+    type,
+    size: content.size,
+    extension,
+    mimeType: mockMimeType(extension),
+    creationDate: daysAgo(daysOld),
+    filePath: `/storage/documents/${id}.${extension}`,
+    isActive,
+    createdBy: 'Manteq Admin',
+    isDeleted: false,
+    content
+  };
+}
+
+function seedTemplate(
+  id: string,
+  name: string,
+  category: string,
+  templateType: TemplateType,
+  cmsDocumentId: string,
+  placeholders: string[],
+  successCount: number,
+  failureCount: number
+): CmsTemplate {
+  return {
+    id,
+    name,
+    description: `${name} used by the ICS insurance workflows`,
+    category,
+    templateType,
+    defaultExportFormat: ExportFormat.Word,
+    cmsDocumentId,
+    placeholders: [...placeholders],
+    isActive: true,
+    isDeleted: false,
+    createdBy: 'Manteq Admin',
+    createdAt: daysAgo(45),
+    updatedAt: daysAgo(10),
+    successCount,
+    failureCount
+  };
+}
+
+/**
+ * Fresh copy of the ICS demo data set
+ */
+export function createMockSeed(): MockSeed {
+  const quotationDocument = seedDocument('0b9d7c41-3f2e-4a5b-8c6d-1e2f3a4b5c6d', 'ICS_Document_Template', 'docx', 'Template', 45);
+  const emailDocument = seedDocument('7a1e2b3c-4d5e-4f60-8192-a3b4c5d6e7f8', 'Email_Template', 'docx', 'Template', 40);
+  const benefitsDocument = seedDocument('4c5d6e7f-8091-4a2b-b3c4-d5e6f7081920', 'ICS_Benefits_Annex', 'docx', 'Template', 30);
+
+  const deletedDocument = seedDocument('9e8d7c6b-5a49-4382-a716-05f4e3d2c1b0', 'Policy Wording 2023', 'pdf', 'Contract', 400);
+  deletedDocument.isDeleted = true;
+  deletedDocument.deletedAt = daysAgo(3);
+  deletedDocument.deletedBy = 'Manteq Admin';
+
+  return {
+    documents: [
+      seedDocument(POLICY_SCHEDULE_DOCUMENT_ID, 'Policy Schedule POL-2025-001234', 'pdf', 'Contract', 12),
+      seedDocument('1d2e3f40-5162-4738-8495-a6b7c8d9e0f1', 'Quotation Letter QUO-2025-00789', 'docx', 'Letter', 8),
+      seedDocument('2e3f4051-6273-4849-95a6-b7c8d9e0f102', 'Invoice INV-2025-0042', 'pdf', 'Invoice', 5),
+      seedDocument('3f405162-7384-495a-a6b7-c8d9e0f10213', 'Q3 Claims Report', 'xlsx', 'Report', 20),
+      seedDocument('40516273-8495-4a6b-b7c8-d9e0f1021324', 'Sarah Al-Zahra Renewal Notice', 'pdf', 'Letter', 60, false),
+      quotationDocument,
+      emailDocument,
+      benefitsDocument,
+      deletedDocument
+    ],
+    templates: [
+      seedTemplate(QUOTATION_TEMPLATE_ID, 'ICS Main Quotation', 'Quotation', TemplateType.Quotation,
+        quotationDocument.id, MOCK_QUOTATION_PLACEHOLDERS, 128, 3),
+      seedTemplate(EMAIL_TEMPLATE_ID, 'ICS Policy Email', 'Email', TemplateType.Document,
+        emailDocument.id, MOCK_EMAIL_PLACEHOLDERS, 342, 7),
+      seedTemplate(BENEFITS_TEMPLATE_ID, 'ICS Table of Benefits', 'TOB', TemplateType.TOB,
+        benefitsDocument.id, ['ICS_Benefit1_Name', 'ICS_Benefit1_Coverage', 'ICS_Benefit1_Limit'], 57, 0)
+    ],
+    emailTemplates: [
+      {
+        id: POLICY_EMAIL_TEMPLATE_ID,
+        name: 'Policy Documentation',
+        subject: 'Your Insurance Policy Documentation - Policy #{{ICS_PolicyNumber}}',
+        htmlContent: '',
+        bodySourceType: EmailBodySourceType.TmsTemplate,
+        tmsTemplateId: EMAIL_TEMPLATE_ID,
+        isActive: true,
+        category: 'Policy',
+        sentCount: 215,
+        failureCount: 4,
+        createdBy: 'Manteq Admin',
+        createdDate: daysAgo(35),
+        attachments: [
+          {
+            id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+            emailTemplateId: POLICY_EMAIL_TEMPLATE_ID,
+            sourceType: AttachmentSourceType.TmsTemplate,
+            tmsTemplateId: QUOTATION_TEMPLATE_ID,
+            tmsExportFormat: TmsExportFormat.Pdf,
+            displayOrder: 0,
+            createdDate: daysAgo(35),
+            createdBy: 'Manteq Admin'
+          },
+          {
+            id: 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e',
+            emailTemplateId: POLICY_EMAIL_TEMPLATE_ID,
+            sourceType: AttachmentSourceType.CmsDocument,
+            cmsDocumentId: POLICY_SCHEDULE_DOCUMENT_ID,
+            displayOrder: 1,
+            createdDate: daysAgo(35),
+            createdBy: 'Manteq Admin'
+          }
+        ],
+        isDeleted: false
+      },
+      {
+        id: 'c3d4e5f6-a7b8-4c9d-8e1f-2a3b4c5d6e7f',
+        name: 'Quotation Follow-up',
+        subject: 'Your quotation QUO-2025-00789 from Manteq Insurance',
+        htmlContent: '<p>Dear Customer,</p><p>Thank you for your interest. Your quotation is attached.</p><p>Best regards,<br>Manteq Insurance Team</p>',
+        plainTextContent: 'Dear Customer,\n\nThank you for your interest. Your quotation is attached.\n\nBest regards,\nManteq Insurance Team',
+        bodySourceType: EmailBodySourceType.PlainText,
+        isActive: true,
+        category: 'Sales',
+        sentCount: 48,
+        failureCount: 1,
+        createdBy: 'Manteq Admin',
+        createdDate: daysAgo(20),
+        attachments: [],
+        isDeleted: false
+      },
+      {
+        id: 'd4e5f6a7-b8c9-4d0e-9f2a-3b4c5d6e7f80',
+        name: 'Renewal Reminder',
+        subject: 'Your policy is due for renewal',
+        htmlContent: '<p>Dear Customer,</p><p>Your policy expires soon. Contact support@manteq-me.com to renew.</p>',
+        bodySourceType: EmailBodySourceType.PlainText,
+        isActive: false,
+        category: 'Policy',
+        sentCount: 0,
+        failureCount: 0,
+        createdBy: 'Manteq Admin',
+        createdDate: daysAgo(90),
+        attachments: [],
+        isDeleted: true,
+        deletedAt: daysAgo(2),
+        deletedBy: 'Manteq Admin'
+      }
+    ],
+    accounts: [
+      { name: 'Default', displayName: 'Manteq Insurance Support', emailAddress: 'support@manteq-me.com', isDefault: true },
+      { name: 'Sales', displayName: 'Manteq Insurance Sales', emailAddress: 'sales@manteq-me.com', isDefault: false }
+    ]
+  };
+}
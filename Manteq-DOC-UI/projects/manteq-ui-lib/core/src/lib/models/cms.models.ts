@@ -0,0 +1,82 @@
+import { ExportFormat, TemplateType } from './tms.models';
+
+/**
+ * Document model from CMS API
+ */
+export interface Document {
+  id: string;
+  name: string;
+  type?: string;
+  size: number;
+  extension: string;
+  mimeType: string;
+  creationDate: Date | string;
+  filePath: string;
+  isActive: boolean;
+  createdBy: string;
+  downloadUrl: string;
+}
+
+/**
+ * Document upload DTO
+ */
+export interface DocumentUploadRequest {
+  name: string;
+  type?: string;
+  file: File;
+  createdBy: string;
+}
+
+/**
+ * Document filter options
+ */
+export interface DocumentFilters {
+  status?: 'active' | 'inactive' | 'all';
+  type?: string;
+  searchTerm?: string;
+}
+
+/**
+ * Template metadata stored by the CMS API
+ */
+export interface CmsTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  category: string;
+  templateType: TemplateType;
+  defaultExportFormat: ExportFormat;
+  cmsDocumentId: string;
+  placeholders: string[];
+  isActive: boolean;
+  isDeleted: boolean;
+  deletedAt?: Date | string;
+  deletedBy?: string;
+  createdBy: string;
+  createdAt: Date | string;
+  updatedBy?: string;
+  updatedAt: Date | string;
+  successCount: number;
+  failureCount: number;
+}
+
+/**
+ * Create CMS template request - server-managed fields are optional
+ */
+export interface CreateCmsTemplateRequest extends Omit<Partial<CmsTemplate>, 'name' | 'category' | 'cmsDocumentId'> {
+  name: string;
+  category: string;
+  cmsDocumentId: string;
+}
+
+/**
+ * Update CMS template request
+ */
+export type UpdateCmsTemplateRequest = CreateCmsTemplateRequest;
+
+/**
+ * Confirmation body returned by activate, deactivate, delete and counter endpoints
+ */
+export interface ApiMessageResponse {
+  message: string;
+}
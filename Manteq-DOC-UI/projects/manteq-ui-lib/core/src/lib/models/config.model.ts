@@ -0,0 +1,188 @@
+import { Observable } from 'rxjs';
+import { ManteqTranslationKey } from '../i18n/translations.en';
+
+/**
+ * Library configuration interface
+ */
+export interface ManteqLibConfig {
+  companyName: string;
+  companyLogo: string | null;
+  primaryColor: string;
+  accentColor: string;
+  fontStyle: string;
+  disclaimer: string;
+  locale?: ManteqLocale;
+  /** BCP 47 tag used to format dates, e.g. 'en-GB' for dd/mm/yyyy. Defaults per locale */
+  dateLocale?: string;
+  /** IANA time zone for displayed dates, e.g. 'Asia/Dubai'. Defaults to the browser's zone */
+  timeZone?: string;
+  /** Initial color scheme; a choice the user made with ThemeService.setColorScheme() wins. Defaults to 'system' */
+  colorScheme?: ManteqColorScheme;
+}
+
+/**
+ * UI languages shipped with the library. Arabic switches the layout to right-to-left;
+ * load Bootstrap's RTL stylesheet (bootstrap.rtl.min.css) so its utility classes mirror too.
+ */
+export type ManteqLocale = 'en' | 'ar';
+
+/**
+ * `system` follows the operating system's `prefers-color-scheme` setting
+ */
+export type ManteqColorScheme = 'light' | 'dark' | 'system';
+
+/**
+ * A theme color pair that fails the WCAG AA contrast minimum
+ */
+export interface ManteqContrastIssue {
+  /** What the pair is used for, e.g. 'text on primaryColor' */
+  usage: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  minimum: number;
+}
+
+/**
+ * Current user. Roles are mapped to permissions through MANTEQ_ROLE_PERMISSIONS;
+ * `permissions` grants extra ones. A user without roles and permissions can do everything.
+ */
+export interface UserContext {
+  email: string;
+  name: string;
+  roles?: string[];
+  permissions?: ManteqPermissionGrant[];
+}
+
+/**
+ * Actions that can be allowed per user, named `<feature>.<action>`
+ */
+export type ManteqPermission =
+  | 'documents.view' | 'documents.upload' | 'documents.activate' | 'documents.delete'
+  | 'templates.view' | 'templates.upload' | 'templates.activate' | 'templates.delete'
+  | 'emails.view' | 'emails.create' | 'emails.edit' | 'emails.activate' | 'emails.delete' | 'emails.test'
+  | 'trash.view' | 'trash.restore' | 'trash.delete' | 'trash.empty';
+
+/**
+ * A single permission, every action of a feature (`documents.*`) or everything (`*`)
+ */
+export type ManteqPermissionGrant = ManteqPermission | `${ManteqFeatureName}.*` | '*';
+
+export type ManteqRolePermissions = Record<string, ManteqPermissionGrant[]>;
+
+/**
+ * Access token source for bearer authentication (OIDC, custom SSO, ...)
+ *
+ * `refreshAccessToken` is called once when a Manteq API responds with 401;
+ * requests issued while the refresh is running wait for the new token.
+ */
+export interface ManteqAuthProvider {
+  getAccessToken(): Observable<string | null> | Promise<string | null>;
+  refreshAccessToken?(): Observable<string | null> | Promise<string | null>;
+}
+
+/**
+ * Backend service identifiers used for API endpoint resolution
+ */
+export type ManteqApiServiceName = 'CMS' | 'TMS' | 'EMAIL';
+
+/**
+ * Endpoint settings for a single backend service
+ */
+export interface ManteqApiEndpointConfig {
+  baseUrl?: string;
+  pathPrefix?: string;
+}
+
+/**
+ * API configuration interface
+ *
+ * `baseUrl` and `pathPrefix` apply to every service unless overridden in `services`,
+ * e.g. a reverse proxy exposing `/cms`, `/tms` and `/email` on a single origin.
+ */
+export interface ManteqApiConfig {
+  baseUrl?: string;
+  pathPrefix?: string;
+  services?: Partial<Record<ManteqApiServiceName, ManteqApiEndpointConfig>>;
+}
+
+/**
+ * Retry policy for idempotent (GET/HEAD/OPTIONS) API requests
+ */
+export interface ManteqRetryConfig {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  retryStatuses: number[];
+}
+
+/**
+ * HTTP resilience configuration (timeouts and retries)
+ */
+export interface ManteqHttpConfig {
+  timeoutMs: number;
+  retry: ManteqRetryConfig;
+}
+
+/**
+ * In-memory mock backend settings
+ *
+ * `latencyMs` simulates network delay; set `seed` to false to start with empty collections.
+ */
+export interface ManteqMockBackendConfig {
+  latencyMs: number;
+  seed: boolean;
+}
+
+/**
+ * Library feature areas; each one maps to a route and a sidebar entry
+ */
+export type ManteqFeatureName = 'documents' | 'templates' | 'emails' | 'trash';
+
+export type ManteqFeatures = Record<ManteqFeatureName, boolean>;
+
+/**
+ * Sidebar badge value; a function (or signal) is re-read whenever the signals it reads change
+ */
+export type ManteqNavBadge = number | string | (() => number | string | null | undefined);
+
+/**
+ * Sidebar entry, configured through MANTEQ_NAV_ITEMS or `navItems` in provideManteq.
+ *
+ * - `feature` items open a library screen; they are shown while the feature is enabled,
+ *   its route is registered and the user has `<feature>.view`
+ * - `route` items open a page of the host app (absolute URL such as '/reports')
+ * - items with `children` render as a collapsible group, hidden when no child is visible
+ */
+export interface ManteqNavItem {
+  id: string;
+  feature?: ManteqFeatureName;
+  route?: string;
+  /** Text shown as is; feature items default to their translated name */
+  label?: string;
+  /** Translation key, takes precedence over `label` */
+  labelKey?: ManteqTranslationKey;
+  /** Bootstrap icon class, e.g. 'bi-folder-fill' */
+  icon?: string;
+  /** Additional permission needed to see the item */
+  permission?: ManteqPermission;
+  /** Feature items show a built-in count (trash: items in the trash); null hides it */
+  badge?: ManteqNavBadge | null;
+  children?: ManteqNavItem[];
+}
+
+/**
+ * Options for provideManteq
+ *
+ * `routePath` mounts the feature routes under a path of the host app (default: root);
+ * pass `null` to register MANTEQ_ROUTES yourself. `navItems` replaces the default sidebar.
+ */
+export interface ManteqOptions {
+  api?: ManteqApiConfig;
+  theme?: Partial<ManteqLibConfig>;
+  user?: UserContext;
+  rolePermissions?: ManteqRolePermissions;
+  features?: Partial<ManteqFeatures>;
+  routePath?: string | null;
+  navItems?: ManteqNavItem[];
+}
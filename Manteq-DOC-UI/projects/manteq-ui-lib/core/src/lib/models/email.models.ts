@@ -60,10 +60,39 @@ export interface EmailTemplateAttachment {
   sourceType: AttachmentSourceType;
   cmsDocumentId?: string;
   tmsTemplateId?: string;
-  tmsExportFormat?: number;
+  tmsExportFormat?: TmsExportFormat;
   customFilePath?: string;
   customFileName?: string;
+  fileSize?: number;
+  mimeType?: string;
   displayOrder: number;
+  createdDate?: Date | string;
+  createdBy?: string;
+}
+
+/**
+ * Attachment definition sent when creating or updating an email template
+ */
+export interface CreateEmailTemplateAttachmentRequest {
+  sourceType: AttachmentSourceType;
+  cmsDocumentId?: string;
+  tmsTemplateId?: string;
+  tmsExportFormat?: TmsExportFormat;
+  customFilePath?: string;
+  customFileName?: string;
+  displayOrder: number;
+}
+
+/**
+ * Email template send statistics
+ */
+export interface EmailTemplateAnalytics {
+  templateId: string;
+  templateName: string;
+  sentCount: number;
+  failureCount: number;
+  totalAttempts: number;
+  successRate: number;
 }
 
 /**
@@ -79,6 +108,7 @@ export interface CreateEmailTemplateRequest {
   bodySourceType: EmailBodySourceType;
   tmsTemplateId?: string;
   customTemplateFilePath?: string;
+  attachments?: CreateEmailTemplateAttachmentRequest[];
 }
 
 /**
@@ -94,6 +124,7 @@ export interface UpdateEmailTemplateRequest {
   bodySourceType?: EmailBodySourceType;
   tmsTemplateId?: string;
   customTemplateFilePath?: string;
+  attachments?: CreateEmailTemplateAttachmentRequest[];
 }
 
 /**
@@ -133,8 +164,8 @@ export interface SendEmailWithTemplateRequest {
   plainTextBody?: string;
   htmlBody?: string;
   templateId: string;
-  TmsBodyPropertyValues: { [key: string]: string };
-  exportFormat: number;
+  propertyValues: Record<string, string>;
+  exportFormat: TmsExportFormat;
 }
 
 /**
@@ -151,6 +182,22 @@ export interface SendEmailWithDocumentsRequest {
   cmsDocumentIds: string[];
 }
 
+/**
+ * Send email with a TMS-rendered HTML body and a TMS-generated attachment
+ */
+export interface SendEmailWithTmsHtmlAndAttachmentRequest {
+  fromAccount?: string;
+  toRecipients: string[];
+  ccRecipients: string[];
+  bccRecipients: string[];
+  subject: string;
+  bodyTemplateId: string;
+  bodyPropertyValues: Record<string, string>;
+  attachmentTemplateId: string;
+  attachmentPropertyValues: Record<string, string>;
+  attachmentExportFormat: TmsExportFormat;
+}
+
 /**
  * Email send response
  */
@@ -177,7 +224,17 @@ export enum EmailStatus {
 export interface EmailAccount {
   name: string;
   displayName: string;
-  email: string;
+  emailAddress: string;
+  isDefault: boolean;
+}
+
+/**
+ * Email service health check response
+ */
+export interface EmailServiceHealth {
+  status: string;
+  timestamp: Date | string;
+  service: string;
 }
 
 /**
@@ -40,6 +40,15 @@ export interface RegisterTemplateRequest {
   createdBy: string;
 }
 
+/**
+ * Template registration response
+ */
+export interface RegisterTemplateResponse {
+  templateId: string;
+  message: string;
+  extractedPlaceholders: string[];
+}
+
 /**
  * Document generation request
  */
@@ -0,0 +1,52 @@
+import { ChangeDetectorRef } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { DateFormatPipe } from './date-format.pipe';
+import { MANTEQ_CONFIG } from '../tokens/config.tokens';
+import { DEFAULT_THEME } from '../constants/theme.constants';
+import { ManteqLibConfig } from '../models/config.model';
+
+describe('DateFormatPipe', () => {
+  let pipe: DateFormatPipe;
+
+  function createPipe(config: Partial<ManteqLibConfig>): DateFormatPipe {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MANTEQ_CONFIG, useValue: { ...DEFAULT_THEME, ...config } },
+        { provide: ChangeDetectorRef, useValue: { markForCheck: () => undefined } }
+      ]
+    });
+    return TestBed.runInInjectionContext(() => new DateFormatPipe());
+  }
+
+  afterEach(() => pipe?.ngOnDestroy());
+
+  it('should keep MM/DD/YYYY as the default short format', () => {
+    pipe = createPipe({ timeZone: 'UTC' });
+
+    expect(pipe.transform('2025-03-14T10:30:00Z')).toBe('03/14/2025');
+    expect(pipe.transform(undefined)).toBe('');
+    expect(pipe.transform('not a date')).toBe('');
+  });
+
+  it('should honour the configured date locale and time zone', () => {
+    pipe = createPipe({ dateLocale: 'en-GB', timeZone: 'Asia/Dubai' });
+
+    // 22:30 UTC is already the next day in Dubai (UTC+4)
+    expect(pipe.transform('2025-03-14T22:30:00Z')).toBe('15/03/2025');
+    expect(pipe.transform('2025-03-14T22:30:00Z', 'datetime')).toBe('15/03/2025, 02:30');
+  });
+
+  it('should describe dates relative to now', () => {
+    pipe = createPipe({});
+
+    expect(pipe.transform(new Date(Date.now() - 3 * 60 * 60 * 1000), 'relative')).toBe('3 hours ago');
+    expect(pipe.transform(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000), 'relative')).toBe('in 2 days');
+  });
+
+  it('should count down to an expiry time', () => {
+    pipe = createPipe({});
+
+    expect(pipe.transform(new Date(Date.now() + (90 * 60 + 5) * 1000 + 500), 'countdown')).toBe('01:30:05');
+    expect(pipe.transform(new Date(Date.now() - 1000), 'countdown')).toBe('Expired');
+  });
+});
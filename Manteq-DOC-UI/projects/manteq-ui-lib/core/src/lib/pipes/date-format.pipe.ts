@@ -0,0 +1,131 @@
+import { ChangeDetectorRef, OnDestroy, Pipe, PipeTransform, inject } from '@angular/core';
+import { ThemeService } from '../services/theme.service';
+import { ManteqTranslationService } from '../services/translation.service';
+
+/**
+ * - `short`: numeric date, e.g. 03/14/2025 (en-US) or 14/03/2025 (en-GB)
+ * - `long`: date with the month spelled out, e.g. March 14, 2025
+ * - `datetime`: numeric date plus hours and minutes
+ * - `relative`: distance from now, e.g. "3 hours ago" or "in 2 days" (live)
+ * - `countdown`: time left until the date, e.g. "04:13:09", then "Expired" (live)
+ */
+export type ManteqDateFormat = 'short' | 'long' | 'datetime' | 'relative' | 'countdown';
+
+const ABSOLUTE_FORMATS: Record<'short' | 'long' | 'datetime', Intl.DateTimeFormatOptions> = {
+  short: { year: 'numeric', month: '2-digit', day: '2-digit' },
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+  datetime: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' }
+};
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * DAY],
+  ['month', 30 * DAY],
+  ['week', 7 * DAY],
+  ['day', DAY],
+  ['hour', HOUR],
+  ['minute', MINUTE],
+  ['second', SECOND]
+];
+
+// Intl formatters are costly to build and this pipe is impure, so share them
+const formatterCache = new Map<string, Intl.DateTimeFormat | Intl.RelativeTimeFormat>();
+
+function cached<T extends Intl.DateTimeFormat | Intl.RelativeTimeFormat>(key: string, create: () => T): T {
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = create();
+    formatterCache.set(key, formatter);
+  }
+  return formatter as T;
+}
+
+/**
+ * Formats dates with the configured locale (ManteqLibConfig.dateLocale) and time zone
+ * (ManteqLibConfig.timeZone): `{{ doc.creationDate | dateFormat: 'datetime' }}`.
+ * Relative and countdown output refreshes itself while the view is alive.
+ */
+@Pipe({
+  name: 'dateFormat',
+  standalone: true,
+  pure: false
+})
+export class DateFormatPipe implements PipeTransform, OnDestroy {
+  private themeService = inject(ThemeService);
+  private i18n = inject(ManteqTranslationService);
+  private cdr = inject(ChangeDetectorRef);
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+
+  transform(value: Date | string | undefined | null, format: ManteqDateFormat = 'short'): string {
+    if (!value) return '';
+
+    const date = typeof value === 'string' ? new Date(value) : value;
+    if (isNaN(date.getTime())) return '';
+
+    switch (format) {
+      case 'relative':
+        return this.formatRelative(date);
+      case 'countdown':
+        return this.formatCountdown(date);
+      default:
+        return this.formatAbsolute(date, format);
+    }
+  }
+
+  ngOnDestroy(): void {
+    clearTimeout(this.refreshTimer);
+  }
+
+  private formatAbsolute(date: Date, format: keyof typeof ABSOLUTE_FORMATS): string {
+    const locale = this.themeService.dateLocale();
+    const timeZone = this.themeService.timeZone();
+    const formatter = cached(`${locale}|${timeZone}|${format}`, () =>
+      new Intl.DateTimeFormat(locale, { ...ABSOLUTE_FORMATS[format], timeZone })
+    );
+    return formatter.format(date);
+  }
+
+  private formatRelative(date: Date): string {
+    const locale = this.themeService.dateLocale();
+    const diff = date.getTime() - Date.now();
+    const [unit, size] = RELATIVE_UNITS.find(([, ms]) => Math.abs(diff) >= ms) ?? ['second', SECOND];
+    const formatter = cached(`${locale}|relative`, () => new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }));
+
+    this.scheduleRefresh(Math.abs(diff) < MINUTE ? SECOND : MINUTE);
+    return formatter.format(Math.round(diff / size), unit);
+  }
+
+  private formatCountdown(date: Date): string {
+    const remaining = date.getTime() - Date.now();
+    if (remaining <= 0) {
+      return this.i18n.translate('dates.expired');
+    }
+
+    const days = Math.floor(remaining / DAY);
+    const time = [
+      Math.floor((remaining % DAY) / HOUR),
+      Math.floor((remaining % HOUR) / MINUTE),
+      Math.floor((remaining % MINUTE) / SECOND)
+    ].map(part => String(part).padStart(2, '0')).join(':');
+
+    // Wake up on the next whole second so the display ticks evenly
+    this.scheduleRefresh(remaining % SECOND || SECOND);
+    return days > 0 ? this.i18n.translate('dates.countdownDays', { days, time }) : time;
+  }
+
+  /**
+   * Mark the view for check after `delay` ms; the next change detection re-runs transform()
+   */
+  private scheduleRefresh(delay: number): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.cdr.markForCheck();
+    }, delay);
+  }
+}
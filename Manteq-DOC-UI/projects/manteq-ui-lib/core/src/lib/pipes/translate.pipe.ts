@@ -0,0 +1,20 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { ManteqTranslationService, ManteqTranslationParams } from '../services/translation.service';
+import { ManteqTranslationKey } from '../i18n/translations.en';
+
+/**
+ * Translates a key for the active locale: `{{ 'documents.title' | translate }}`.
+ * Impure so text updates when the locale changes at runtime.
+ */
+@Pipe({
+  name: 'translate',
+  standalone: true,
+  pure: false
+})
+export class ManteqTranslatePipe implements PipeTransform {
+  private i18n = inject(ManteqTranslationService);
+
+  transform(key: ManteqTranslationKey, params?: ManteqTranslationParams): string {
+    return this.i18n.translate(key, params);
+  }
+}
@@ -0,0 +1,54 @@
+import { EnvironmentProviders, inject, makeEnvironmentProviders, provideAppInitializer } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { MANTEQ_API_CONFIG, MANTEQ_HTTP_CONFIG } from '../tokens/config.tokens';
+import { ManteqApiConfig, ManteqHttpConfig, ManteqRetryConfig } from '../models/config.model';
+import { DEFAULT_HTTP_CONFIG } from '../constants/api.constants';
+import { ApiConfigService } from '../services/api-config.service';
+
+/**
+ * Provide a static API configuration
+ */
+export function provideManteqApiConfig(config: ManteqApiConfig): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: MANTEQ_API_CONFIG, useValue: config }
+  ]);
+}
+
+/**
+ * Load API configuration from a JSON file at app bootstrap.
+ * Values from the file are merged over MANTEQ_API_CONFIG; if loading fails the app
+ * starts with the static configuration.
+ */
+export function provideManteqApiConfigLoader(url: string): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideAppInitializer(() => {
+      const apiConfig = inject(ApiConfigService);
+      // Bypass interceptors - the config file is a static asset, not a Manteq API
+      const http = new HttpClient(inject(HttpBackend));
+
+      return firstValueFrom(http.get<ManteqApiConfig>(url)).then(
+        config => apiConfig.updateConfig(config),
+        error => console.error(`Failed to load API config from ${url}, using defaults:`, error)
+      );
+    })
+  ]);
+}
+
+/**
+ * Override request timeout and retry settings (merged with DEFAULT_HTTP_CONFIG)
+ */
+export function provideManteqHttpConfig(
+  config: Partial<Omit<ManteqHttpConfig, 'retry'>> & { retry?: Partial<ManteqRetryConfig> }
+): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    {
+      provide: MANTEQ_HTTP_CONFIG,
+      useValue: {
+        ...DEFAULT_HTTP_CONFIG,
+        ...config,
+        retry: { ...DEFAULT_HTTP_CONFIG.retry, ...config.retry }
+      }
+    }
+  ]);
+}
@@ -0,0 +1,44 @@
+import {
+  EnvironmentInjector,
+  EnvironmentProviders,
+  Injectable,
+  inject,
+  makeEnvironmentProviders,
+  runInInjectionContext
+} from '@angular/core';
+import { HttpBackend, HttpEvent, HttpRequest, HttpXhrBackend } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { MANTEQ_MOCK_BACKEND_CONFIG } from '../tokens/config.tokens';
+import { ManteqMockBackendConfig } from '../models/config.model';
+import { DEFAULT_MOCK_BACKEND_CONFIG } from '../constants/api.constants';
+import { mockBackendInterceptor } from '../interceptors/mock-backend.interceptor';
+
+/**
+ * HttpBackend running mockBackendInterceptor in front of the browser backend
+ */
+@Injectable()
+class ManteqMockHttpBackend implements HttpBackend {
+  private injector = inject(EnvironmentInjector);
+  private xhrBackend = inject(HttpXhrBackend);
+
+  handle(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    return runInInjectionContext(this.injector, () =>
+      mockBackendInterceptor(req, request => this.xhrBackend.handle(request))
+    );
+  }
+}
+
+/**
+ * Serve every Manteq API route from an in-memory database seeded with ICS demo data,
+ * so the UI runs without the CMS, TMS and EmailService backends.
+ *
+ * The mock replaces the HTTP backend, so all interceptors keep working. List it after
+ * provideHttpClient() or provideManteq(); other URLs (assets, config files) still go to the network.
+ */
+export function provideManteqMockBackend(config: Partial<ManteqMockBackendConfig> = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: MANTEQ_MOCK_BACKEND_CONFIG, useValue: { ...DEFAULT_MOCK_BACKEND_CONFIG, ...config } },
+    ManteqMockHttpBackend,
+    { provide: HttpBackend, useExisting: ManteqMockHttpBackend }
+  ]);
+}
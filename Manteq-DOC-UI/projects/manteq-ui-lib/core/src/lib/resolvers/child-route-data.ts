@@ -0,0 +1,22 @@
+import { Signal, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, NavigationEnd, Router } from '@angular/router';
+import { filter, map, startWith } from 'rxjs';
+
+/**
+ * Resolved data of the active child route (e.g. `documents/:id`) as a signal.
+ * Emits null while no child route is active; call from a routed component's constructor.
+ */
+export function childRouteData<T>(key: string): Signal<T | null> {
+  const router = inject(Router);
+  const route = inject(ActivatedRoute);
+
+  return toSignal(
+    router.events.pipe(
+      filter(event => event instanceof NavigationEnd),
+      startWith(null),
+      map(() => (route.firstChild?.snapshot.data[key] as T | undefined) ?? null)
+    ),
+    { initialValue: null }
+  );
+}
@@ -0,0 +1,94 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { documentResolver } from './entity.resolvers';
+import { ManteqStore } from '../store/manteq-store';
+import { API_BASE_URLS } from '../constants/api.constants';
+import { Document } from '../models/cms.models';
+
+@Component({ standalone: true, template: '' })
+class ListStubComponent {}
+
+function createDocument(id: string): Document {
+  return {
+    id,
+    name: `Document ${id}`,
+    type: 'pdf',
+    size: 1024,
+    extension: 'pdf',
+    mimeType: 'application/pdf',
+    creationDate: '2025-01-01T00:00:00Z',
+    filePath: `/files/${id}`,
+    isActive: true,
+    createdBy: 'tester',
+    downloadUrl: `/api/documents/${id}/download`
+  };
+}
+
+describe('documentResolver', () => {
+  const baseUrl = API_BASE_URLS.CMS;
+  let harness: RouterTestingHarness;
+  let httpMock: HttpTestingController;
+  let router: Router;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([
+          {
+            path: 'documents',
+            component: ListStubComponent,
+            children: [{ path: ':id', resolve: { document: documentResolver }, children: [] }]
+          }
+        ])
+      ]
+    });
+
+    httpMock = TestBed.inject(HttpTestingController);
+    router = TestBed.inject(Router);
+    harness = await RouterTestingHarness.create();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  function resolvedDocument(): Document | undefined {
+    return router.routerState.snapshot.root.firstChild?.firstChild?.data['document'];
+  }
+
+  it('should use the cached document when the list is loaded', async () => {
+    const store = TestBed.inject(ManteqStore);
+    store.documents.load().subscribe();
+    httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`).flush([createDocument('doc-1')]);
+
+    await harness.navigateByUrl('/documents/doc-1');
+
+    httpMock.expectNone(`${baseUrl}/api/documents/doc-1`);
+    expect(resolvedDocument()?.id).toBe('doc-1');
+  });
+
+  it('should fetch the document when it is not cached', async () => {
+    const navigation = harness.navigateByUrl('/documents/doc-2');
+
+    httpMock.expectOne(`${baseUrl}/api/documents/doc-2`).flush(createDocument('doc-2'));
+    await navigation;
+
+    expect(resolvedDocument()?.id).toBe('doc-2');
+  });
+
+  it('should redirect to the list when the document cannot be loaded', async () => {
+    const navigation = harness.navigateByUrl('/documents/missing');
+
+    httpMock.expectOne(`${baseUrl}/api/documents/missing`)
+      .flush({ error: 'Document not found' }, { status: 404, statusText: 'Not Found' });
+    await navigation;
+
+    expect(router.url).toBe('/documents');
+  });
+});
@@ -0,0 +1,53 @@
+import { inject } from '@angular/core';
+import { ActivatedRouteSnapshot, RedirectCommand, ResolveFn, Router } from '@angular/router';
+import { Observable, catchError, of } from 'rxjs';
+import { CmsApiService } from '../services/cms-api.service';
+import { TmsApiService } from '../services/tms-api.service';
+import { EmailApiService } from '../services/email-api.service';
+import { ManteqStore } from '../store/manteq-store';
+import { Document } from '../models/cms.models';
+import { Template } from '../models/tms.models';
+import { EmailTemplate } from '../models/email.models';
+
+/**
+ * Resolve the `:id` document, using the store cache when the list is already loaded
+ */
+export const documentResolver: ResolveFn<Document> = route => {
+  const id = route.paramMap.get('id')!;
+  return inject(ManteqStore).documents.find(id)
+    ?? orRedirectToList(inject(CmsApiService).getDocument(id), route);
+};
+
+/**
+ * Resolve the `:id` TMS template, using the store cache when the list is already loaded
+ */
+export const templateResolver: ResolveFn<Template> = route => {
+  const id = route.paramMap.get('id')!;
+  return inject(ManteqStore).templates.find(id)
+    ?? orRedirectToList(inject(TmsApiService).getTemplate(id), route);
+};
+
+/**
+ * Resolve the `:id` email template, using the store cache when the list is already loaded
+ */
+export const emailTemplateResolver: ResolveFn<EmailTemplate> = route => {
+  const id = route.paramMap.get('id')!;
+  return inject(ManteqStore).emailTemplates.find(id)
+    ?? orRedirectToList(inject(EmailApiService).getEmailTemplate(id), route);
+};
+
+/**
+ * Unknown or deleted items send the user back to the list; the error interceptor
+ * already reports the failed request.
+ */
+function orRedirectToList<T>(request: Observable<T>, route: ActivatedRouteSnapshot): Observable<T | RedirectCommand> {
+  const router = inject(Router);
+  const listUrl = route.pathFromRoot
+    .slice(0, -1)
+    .flatMap(snapshot => snapshot.url.map(segment => segment.path))
+    .join('/');
+
+  return request.pipe(
+    catchError(() => of(new RedirectCommand(router.parseUrl(`/${listUrl}`))))
+  );
+}
@@ -0,0 +1,53 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { manteqBreadcrumbs } from './breadcrumbs';
+
+@Component({ standalone: true, template: '' })
+class PageStubComponent {
+  breadcrumbs = manteqBreadcrumbs();
+}
+
+describe('manteqBreadcrumbs', () => {
+  let harness: RouterTestingHarness;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([
+          {
+            path: 'portal',
+            children: [
+              {
+                path: 'documents',
+                data: { title: 'documents.title' },
+                children: [
+                  { path: '', component: PageStubComponent },
+                  { path: ':id', component: PageStubComponent, data: { title: 'Q3 report' } }
+                ]
+              }
+            ]
+          }
+        ])
+      ]
+    });
+
+    harness = await RouterTestingHarness.create();
+  });
+
+  it('should list titled routes with their URLs and translate keys', async () => {
+    const page = await harness.navigateByUrl('/portal/documents/42', PageStubComponent);
+
+    expect(page.breadcrumbs()).toEqual([
+      { label: 'Documents', url: '/portal/documents' },
+      { label: 'Q3 report', url: '/portal/documents/42' }
+    ]);
+  });
+
+  it('should not repeat titles inherited by empty-path children', async () => {
+    const page = await harness.navigateByUrl('/portal/documents', PageStubComponent);
+
+    expect(page.breadcrumbs()).toEqual([{ label: 'Documents', url: '/portal/documents' }]);
+  });
+});
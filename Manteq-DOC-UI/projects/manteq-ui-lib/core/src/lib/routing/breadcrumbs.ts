@@ -0,0 +1,50 @@
+import { Signal, computed, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRouteSnapshot, NavigationEnd, Router } from '@angular/router';
+import { filter, map, startWith } from 'rxjs';
+import { ManteqTranslationService } from '../services/translation.service';
+import { ManteqTranslationKey } from '../i18n/translations.en';
+
+export interface ManteqBreadcrumb {
+  label: string;
+  url: string;
+}
+
+/**
+ * Active routes that declare `data.title`, outermost first; the last one is the current page.
+ * Titles may be literal text or translation keys. Call from an injection context.
+ */
+export function manteqBreadcrumbs(): Signal<ManteqBreadcrumb[]> {
+  const router = inject(Router);
+  const i18n = inject(ManteqTranslationService);
+
+  const trail = toSignal(
+    router.events.pipe(
+      filter(event => event instanceof NavigationEnd),
+      startWith(null),
+      map(() => collectTitles(router.routerState.snapshot.root))
+    ),
+    { initialValue: [] }
+  );
+
+  // Unknown keys come back unchanged, so literal titles pass through
+  return computed(() => trail().map(({ title, url }) => ({
+    label: i18n.translate(title as ManteqTranslationKey),
+    url
+  })));
+}
+
+function collectTitles(root: ActivatedRouteSnapshot): { title: string; url: string }[] {
+  const crumbs: { title: string; url: string }[] = [];
+  const segments: string[] = [];
+
+  for (let route: ActivatedRouteSnapshot | null = root; route; route = route.firstChild) {
+    segments.push(...route.url.map(segment => segment.path));
+    // Read the route's own config: snapshot data also holds titles inherited from parents
+    const title = route.routeConfig?.data?.['title'];
+    if (typeof title === 'string' && title) {
+      crumbs.push({ title, url: `/${segments.join('/')}` });
+    }
+  }
+  return crumbs;
+}
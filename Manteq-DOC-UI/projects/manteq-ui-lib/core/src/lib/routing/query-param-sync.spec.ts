@@ -0,0 +1,97 @@
+import { Component, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { clampPage, syncQueryParams } from './query-param-sync';
+
+@Component({ standalone: true, template: '' })
+class ListStubComponent {
+  searchTerm = signal('');
+  status = signal('all');
+  currentPage = signal(1);
+  totalPages = signal(5);
+  loaded = signal(false);
+
+  constructor() {
+    syncQueryParams(
+      { q: this.searchTerm, status: this.status, page: this.currentPage },
+      { allowedValues: { status: ['all', 'active', 'inactive'] } }
+    );
+    clampPage(this.currentPage, this.totalPages, this.loaded);
+  }
+}
+
+describe('syncQueryParams', () => {
+  let harness: RouterTestingHarness;
+  let router: Router;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [provideRouter([{ path: 'list', component: ListStubComponent }])]
+    });
+
+    router = TestBed.inject(Router);
+    harness = await RouterTestingHarness.create();
+  });
+
+  it('should restore state from the query params', async () => {
+    const list = await harness.navigateByUrl('/list?q=invoice&status=active&page=3', ListStubComponent);
+
+    expect(list.searchTerm()).toBe('invoice');
+    expect(list.status()).toBe('active');
+    expect(list.currentPage()).toBe(3);
+  });
+
+  it('should fall back to the defaults for missing or invalid params', async () => {
+    const list = await harness.navigateByUrl('/list?page=abc', ListStubComponent);
+
+    expect(list.currentPage()).toBe(1);
+    expect(list.status()).toBe('all');
+
+    await harness.navigateByUrl('/list?page=2.5&status=archived');
+    expect(list.currentPage()).toBe(1);
+    expect(list.status()).toBe('all');
+  });
+
+  it('should clamp the page to the available pages once loaded', async () => {
+    const list = await harness.navigateByUrl('/list?page=999', ListStubComponent);
+    expect(list.currentPage()).toBe(999);
+
+    list.loaded.set(true);
+    harness.detectChanges();
+    expect(list.currentPage()).toBe(5);
+
+    await harness.navigateByUrl('/list?page=-1');
+    harness.detectChanges();
+    expect(list.currentPage()).toBe(1);
+
+    list.totalPages.set(0);
+    await harness.navigateByUrl('/list?page=3');
+    harness.detectChanges();
+    expect(list.currentPage()).toBe(1);
+  });
+
+  it('should write state changes to the URL and leave defaults out', async () => {
+    const list = await harness.navigateByUrl('/list', ListStubComponent);
+
+    list.searchTerm.set('invoice');
+    list.currentPage.set(2);
+    harness.detectChanges();
+    await harness.fixture.whenStable();
+    expect(router.url).toBe('/list?q=invoice&page=2');
+
+    list.currentPage.set(1);
+    harness.detectChanges();
+    await harness.fixture.whenStable();
+    expect(router.url).toBe('/list?q=invoice');
+  });
+
+  it('should follow URL changes such as back navigation', async () => {
+    const list = await harness.navigateByUrl('/list?status=inactive', ListStubComponent);
+
+    await harness.navigateByUrl('/list?page=2');
+
+    expect(list.status()).toBe('all');
+    expect(list.currentPage()).toBe(2);
+  });
+});
@@ -0,0 +1,117 @@
+import { Signal, WritableSignal, effect, inject, untracked } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Params, Router } from '@angular/router';
+
+type QueryParamValue = string | number;
+
+/**
+ * Piece of state kept in a query parameter when it isn't a plain signal
+ * (e.g. one field of a filter object)
+ */
+export interface QueryParamBinding<T extends QueryParamValue = QueryParamValue> {
+  get: () => T;
+  set: (value: T) => void;
+}
+
+/**
+ * State that can be synced: a string or number signal, or a binding of either type
+ */
+export type QueryParamSource =
+  | WritableSignal<string>
+  | WritableSignal<number>
+  | QueryParamBinding<string>
+  | QueryParamBinding<number>;
+
+export interface QueryParamSyncOptions {
+  /** Params whose changes replace the current history entry instead of adding one (e.g. search as you type) */
+  replaceUrl?: string[];
+  /** Values accepted by enum-like params (e.g. a status filter); anything else falls back to the default */
+  allowedValues?: Record<string, readonly string[]>;
+}
+
+interface SyncedParam {
+  key: string;
+  get: () => QueryParamValue;
+  set: (value: QueryParamValue) => void;
+  defaultValue: QueryParamValue;
+  allowedValues?: readonly string[];
+}
+
+/**
+ * Two-way sync between component state and router query params.
+ * The initial values are the defaults and are left out of the URL; number
+ * state is parsed back to integers. Invalid values fall back to the default.
+ * Call from a routed component's constructor.
+ */
+export function syncQueryParams(
+  bindings: Record<string, QueryParamSource>,
+  options: QueryParamSyncOptions = {}
+): void {
+  const router = inject(Router);
+  const route = inject(ActivatedRoute);
+
+  const params: SyncedParam[] = Object.entries(bindings).map(([key, binding]) => {
+    // parseValue() keeps the type of the default value, so each setter receives its own type
+    const { get, set }: Pick<SyncedParam, 'get' | 'set'> = typeof binding === 'function'
+      ? { get: binding, set: (value: QueryParamValue) => (binding as WritableSignal<QueryParamValue>).set(value) }
+      : { get: binding.get, set: binding.set as (value: QueryParamValue) => void };
+    return { key, get, set, defaultValue: untracked(get), allowedValues: options.allowedValues?.[key] };
+  });
+
+  // URL -> state: first load, shared links, back/forward
+  route.queryParamMap.pipe(takeUntilDestroyed()).subscribe(queryParamMap => {
+    for (const param of params) {
+      const raw = queryParamMap.get(param.key);
+      param.set(raw === null ? param.defaultValue : parseValue(raw, param));
+    }
+  });
+
+  // State -> URL
+  effect(() => {
+    const values = params.map(param => ({ param, value: param.get() }));
+
+    untracked(() => {
+      const current = route.snapshot.queryParamMap;
+      const changed = values.filter(({ param, value }) =>
+        (current.get(param.key) ?? String(param.defaultValue)) !== String(value)
+      );
+      if (changed.length === 0) {
+        return;
+      }
+
+      const queryParams: Params = {};
+      for (const { param, value } of values) {
+        queryParams[param.key] = value === param.defaultValue ? null : value;
+      }
+
+      router.navigate([], {
+        queryParams,
+        queryParamsHandling: 'merge',
+        replaceUrl: changed.every(({ param }) => options.replaceUrl?.includes(param.key))
+      });
+    });
+  });
+}
+
+/**
+ * Keep a page number taken from the URL within [1, totalPages] once the list has loaded
+ * (e.g. ?page=999 after items were deleted). Call next to syncQueryParams().
+ */
+export function clampPage(page: WritableSignal<number>, totalPages: Signal<number>, loaded: Signal<boolean>): void {
+  effect(() => {
+    if (!loaded()) return;
+    const current = page();
+    const clamped = Math.min(Math.max(current, 1), Math.max(totalPages(), 1));
+    if (clamped !== current) {
+      page.set(clamped);
+    }
+  });
+}
+
+function parseValue(raw: string, { defaultValue, allowedValues }: SyncedParam): QueryParamValue {
+  if (typeof defaultValue === 'number') {
+    const value = Number(raw);
+    return Number.isInteger(value) ? value : defaultValue;
+  }
+  return !allowedValues || allowedValues.includes(raw) ? raw : defaultValue;
+}
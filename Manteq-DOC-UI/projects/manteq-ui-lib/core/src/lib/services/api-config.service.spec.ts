@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import { ApiConfigService } from './api-config.service';
+import { MANTEQ_API_CONFIG } from '../tokens/config.tokens';
+import { API_BASE_URLS } from '../constants/api.constants';
+
+describe('ApiConfigService', () => {
+  let service: ApiConfigService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: MANTEQ_API_CONFIG, useValue: { baseUrl: 'https://api.example.com/' } }]
+    });
+    service = TestBed.inject(ApiConfigService);
+  });
+
+  it('should prefer service overrides over the shared base URL and prefix', () => {
+    service.updateConfig({
+      pathPrefix: 'gateway',
+      services: { TMS: { baseUrl: 'https://tms.example.com', pathPrefix: '' } }
+    });
+
+    expect(service.getBaseUrl('CMS')).toBe('https://api.example.com/gateway');
+    expect(service.getBaseUrl('TMS')).toBe('https://tms.example.com');
+
+    service.setConfig({});
+    expect(service.getBaseUrl('EMAIL')).toBe(API_BASE_URLS.EMAIL);
+  });
+
+  it('should normalize path prefixes to one leading slash', () => {
+    service.updateConfig({ pathPrefix: '//cms-api//' });
+    expect(service.getBaseUrl('CMS')).toBe('https://api.example.com/cms-api');
+
+    service.updateConfig({ pathPrefix: '/' });
+    expect(service.getBaseUrl('CMS')).toBe('https://api.example.com');
+  });
+
+  it('should match the longest base URL', () => {
+    service.setConfig({ baseUrl: 'https://api.example.com', services: { EMAIL: { pathPrefix: 'email' } } });
+
+    expect(service.getServiceForUrl('https://api.example.com/email/api/send')).toBe('EMAIL');
+    expect(service.getServiceForUrl('https://api.example.com/api/documents')).not.toBe('EMAIL');
+    expect(service.getServiceForUrl('https://API.example.com/email?x=1')).toBe('EMAIL');
+  });
+
+  it('should not match URLs that only share a prefix with a base URL', () => {
+    service.setConfig({ baseUrl: 'http://localhost:5000' });
+
+    expect(service.isApiUrl('http://localhost:5000')).toBeTrue();
+    expect(service.isApiUrl('http://localhost:50001/api/documents')).toBeFalse();
+    expect(service.isApiUrl('http://localhost:5000.evil.net/api/documents')).toBeFalse();
+    expect(service.isApiUrl('/assets/i18n/en.json')).toBeFalse();
+  });
+
+  it('should only match same-origin requests when the base URL is relative', () => {
+    service.setConfig({ baseUrl: '' });
+
+    expect(service.isApiUrl('/api/documents')).toBeTrue();
+    expect(service.isApiUrl(`${location.origin}/api/documents`)).toBeTrue();
+    expect(service.isApiUrl('https://cdn.example.net/api/documents')).toBeFalse();
+
+    service.setConfig({ baseUrl: '/', pathPrefix: 'manteq' });
+    expect(service.isApiUrl('/manteq/api/documents')).toBeTrue();
+    expect(service.isApiUrl('/manteqx/api/documents')).toBeFalse();
+  });
+});
@@ -0,0 +1,111 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { MANTEQ_API_CONFIG } from '../tokens/config.tokens';
+import { ManteqApiConfig, ManteqApiServiceName } from '../models/config.model';
+import { API_BASE_URLS } from '../constants/api.constants';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiConfigService {
+  private config = inject(MANTEQ_API_CONFIG, { optional: true });
+  // Relative base URLs (reverse proxy setups) only ever match same-origin requests
+  private origin = inject(DOCUMENT).location?.origin ?? 'http://manteq.invalid';
+
+  // Signal for reactive API configuration
+  private configSignal = signal<ManteqApiConfig>(this.config || {});
+
+  /**
+   * Resolve the base URL (including path prefix) for a backend service
+   */
+  getBaseUrl(service: ManteqApiServiceName): string {
+    const config = this.configSignal();
+    const override = config.services?.[service];
+
+    const baseUrl = override?.baseUrl ?? config.baseUrl ?? API_BASE_URLS[service];
+    const pathPrefix = override?.pathPrefix ?? config.pathPrefix ?? '';
+
+    return `${this.trimSlashes(baseUrl, false)}${this.normalizePrefix(pathPrefix)}`;
+  }
+
+  /**
+   * Find the backend service a request URL targets (longest matching base URL wins).
+   * URLs are compared after resolving them against the page origin, and a base URL only
+   * matches up to a path boundary: http://localhost:5000 does not match http://localhost:50001.
+   */
+  getServiceForUrl(url: string): ManteqApiServiceName | null {
+    const requestUrl = this.resolveUrl(url);
+    if (requestUrl === null) return null;
+
+    const services = Object.keys(API_BASE_URLS) as ManteqApiServiceName[];
+    let match: ManteqApiServiceName | null = null;
+    let matchLength = -1;
+
+    for (const service of services) {
+      const baseUrl = this.resolveUrl(this.getBaseUrl(service) || '/')?.replace(/\/+$/, '');
+      if (baseUrl && this.isWithin(requestUrl, baseUrl) && baseUrl.length > matchLength) {
+        match = service;
+        matchLength = baseUrl.length;
+      }
+    }
+
+    return match;
+  }
+
+  /**
+   * Check whether a request URL targets one of the configured backend services
+   */
+  isApiUrl(url: string): boolean {
+    return this.getServiceForUrl(url) !== null;
+  }
+
+  /**
+   * Update API configuration (merged with the current one)
+   */
+  updateConfig(config: Partial<ManteqApiConfig>): void {
+    this.configSignal.update(current => ({
+      ...current,
+      ...config,
+      services: { ...current.services, ...config.services }
+    }));
+  }
+
+  /**
+   * Set entire API configuration (for parent app runtime updates)
+   */
+  setConfig(config: ManteqApiConfig): void {
+    this.configSignal.set(config);
+  }
+
+  /**
+   * Get current configuration (for debugging or parent app access)
+   */
+  getCurrentConfig(): ManteqApiConfig {
+    return this.configSignal();
+  }
+
+  private resolveUrl(url: string): string | null {
+    try {
+      return new URL(url, this.origin).href;
+    } catch {
+      return null;
+    }
+  }
+
+  private isWithin(url: string, baseUrl: string): boolean {
+    return url.startsWith(baseUrl) && (url.length === baseUrl.length || '/?#'.includes(url[baseUrl.length]));
+  }
+
+  /**
+   * Ensure a path prefix starts with a single slash and has no trailing slash
+   */
+  private normalizePrefix(prefix: string): string {
+    const trimmed = this.trimSlashes(prefix, true);
+    return trimmed ? `/${trimmed}` : '';
+  }
+
+  private trimSlashes(value: string, leading: boolean): string {
+    const withoutTrailing = value.replace(/\/+$/, '');
+    return leading ? withoutTrailing.replace(/^\/+/, '') : withoutTrailing;
+  }
+}
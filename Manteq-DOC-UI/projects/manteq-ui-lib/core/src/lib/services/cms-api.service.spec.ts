@@ -0,0 +1,343 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpEvent, HttpEventType, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { CmsApiService } from './cms-api.service';
+import { API_BASE_URLS } from '../constants/api.constants';
+import { CreateCmsTemplateRequest, Document } from '../models/cms.models';
+import { CreateEmailTemplateRequest, EmailBodySourceType } from '../models/email.models';
+
+describe('CmsApiService', () => {
+  const baseUrl = API_BASE_URLS.CMS;
+  let service: CmsApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(CmsApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  // ========== DOCUMENT OPERATIONS ==========
+
+  it('uploadDocument should post the file as multipart form data', () => {
+    const file = new File(['content'], 'invoice.docx');
+    service.uploadDocument('Invoice', file, 'docx').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/register`);
+    expect(req.request.method).toBe('POST');
+    const body = req.request.body as FormData;
+    expect(body.get('Name')).toBe('Invoice');
+    expect(body.get('Content')).toBe(file);
+    expect(body.get('Type')).toBe('docx');
+    req.flush({});
+  });
+
+  it('uploadDocument should omit the type when not given', () => {
+    service.uploadDocument('Invoice', new File(['content'], 'invoice.docx')).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/register`);
+    expect((req.request.body as FormData).has('Type')).toBeFalse();
+    req.flush({});
+  });
+
+  it('uploadDocumentWithProgress should report upload progress events', () => {
+    const events: HttpEvent<Document>[] = [];
+    service.uploadDocumentWithProgress('Invoice', new File(['content'], 'invoice.docx')).subscribe(event => events.push(event));
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/register`);
+    expect(req.request.reportProgress).toBeTrue();
+    req.event({ type: HttpEventType.UploadProgress, loaded: 512, total: 1024 });
+    req.flush({ id: 'doc-1' });
+
+    expect(events.map(event => event.type)).toEqual([HttpEventType.Sent, HttpEventType.UploadProgress, HttpEventType.Response]);
+  });
+
+  it('getDocuments should map filters to query params', () => {
+    service.getDocuments({ status: 'active', type: 'pdf', searchTerm: 'quote' }).subscribe(documents => {
+      expect(documents.length).toBe(0);
+    });
+
+    const req = httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.params.get('status')).toBe('active');
+    expect(req.request.params.get('type')).toBe('pdf');
+    expect(req.request.params.get('search')).toBe('quote');
+    req.flush([]);
+  });
+
+  it('getDocuments should not send the "all" status', () => {
+    service.getDocuments({ status: 'all' }).subscribe();
+
+    const req = httpMock.expectOne(r => r.url === `${baseUrl}/api/documents`);
+    expect(req.request.params.keys().length).toBe(0);
+    req.flush([]);
+  });
+
+  it('getDocument should request a single document', () => {
+    service.getDocument('doc-1').subscribe(document => {
+      expect(document.id).toBe('doc-1');
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/doc-1`);
+    expect(req.request.method).toBe('GET');
+    req.flush({ id: 'doc-1' });
+  });
+
+  it('downloadDocument should request a blob', () => {
+    service.downloadDocument('doc-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/doc-1/download`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('activateDocument should post to the activate endpoint', () => {
+    service.activateDocument('doc-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/doc-1/activate`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('deactivateDocument should post to the deactivate endpoint', () => {
+    service.deactivateDocument('doc-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/doc-1/deactivate`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('deleteDocument should send a DELETE', () => {
+    service.deleteDocument('doc-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/doc-1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('getDocumentTypes should return type counts', () => {
+    service.getDocumentTypes().subscribe(types => {
+      expect(types).toEqual([{ type: 'pdf', count: 2 }]);
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/documents/types`);
+    expect(req.request.method).toBe('GET');
+    req.flush([{ type: 'pdf', count: 2 }]);
+  });
+
+  // ========== TEMPLATE OPERATIONS (CMS) ==========
+
+  it('createTemplate should post the request body', () => {
+    const request: CreateCmsTemplateRequest = { name: 'Quotation', category: 'Sales', cmsDocumentId: 'doc-1' };
+    service.createTemplate(request).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('getTemplates should only send the given filters', () => {
+    service.getTemplates('Sales', false).subscribe();
+
+    const req = httpMock.expectOne(r => r.url === `${baseUrl}/api/templates`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.params.get('category')).toBe('Sales');
+    expect(req.request.params.get('isActive')).toBe('false');
+    expect(req.request.params.has('name')).toBeFalse();
+    req.flush([]);
+  });
+
+  it('getTemplate should request a single template', () => {
+    service.getTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1`);
+    expect(req.request.method).toBe('GET');
+    req.flush({});
+  });
+
+  it('getTemplatePlaceholders should encode the template name', () => {
+    service.getTemplatePlaceholders('Sales Quote').subscribe(placeholders => {
+      expect(placeholders).toEqual(['CustomerName']);
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/placeholders?name=Sales%20Quote&isActive=true`);
+    expect(req.request.method).toBe('GET');
+    req.flush(['CustomerName']);
+  });
+
+  it('updateTemplate should put the request body', () => {
+    const request: CreateCmsTemplateRequest = { name: 'Quotation', category: 'Sales', cmsDocumentId: 'doc-1' };
+    service.updateTemplate('tpl-1', request).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1`);
+    expect(req.request.method).toBe('PUT');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('activateTemplate should post to the activate endpoint', () => {
+    service.activateTemplate('tpl-1').subscribe(response => {
+      expect(response.message).toBe('Template activated successfully');
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/activate`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'Template activated successfully' });
+  });
+
+  it('deactivateTemplate should post to the deactivate endpoint', () => {
+    service.deactivateTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/deactivate`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'Template deactivated successfully' });
+  });
+
+  it('deleteTemplate should send a DELETE', () => {
+    service.deleteTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush({ message: 'Template deleted successfully' });
+  });
+
+  it('incrementTemplateSuccess should post to the increment-success endpoint', () => {
+    service.incrementTemplateSuccess('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/increment-success`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'ok' });
+  });
+
+  it('incrementTemplateFailure should post to the increment-failure endpoint', () => {
+    service.incrementTemplateFailure('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/increment-failure`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'ok' });
+  });
+
+  // ========== EMAIL TEMPLATE OPERATIONS (CMS) ==========
+
+  it('createEmailTemplate should delegate to the email template endpoint', () => {
+    const request: CreateEmailTemplateRequest = {
+      name: 'Welcome',
+      subject: 'Welcome',
+      htmlContent: '<p>Welcome</p>',
+      bodySourceType: EmailBodySourceType.PlainText
+    };
+    service.createEmailTemplate(request).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('getEmailTemplates should pass the filters', () => {
+    service.getEmailTemplates(true, 'Sales').subscribe();
+
+    const req = httpMock.expectOne(r => r.url === `${baseUrl}/api/email-templates`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.params.get('isActive')).toBe('true');
+    expect(req.request.params.get('category')).toBe('Sales');
+    req.flush([]);
+  });
+
+  it('getEmailTemplate should request a single email template', () => {
+    service.getEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1`);
+    expect(req.request.method).toBe('GET');
+    req.flush({});
+  });
+
+  it('updateEmailTemplate should put the request body', () => {
+    service.updateEmailTemplate('mail-1', { name: 'Renamed' }).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1`);
+    expect(req.request.method).toBe('PUT');
+    expect(req.request.body).toEqual({ name: 'Renamed' });
+    req.flush({});
+  });
+
+  it('deleteEmailTemplate should send a DELETE', () => {
+    service.deleteEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('activateEmailTemplate should post to the activate endpoint', () => {
+    service.activateEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/activate`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('deactivateEmailTemplate should post to the deactivate endpoint', () => {
+    service.deactivateEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/deactivate`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('getEmailTemplateAnalytics should request the analytics endpoint', () => {
+    service.getEmailTemplateAnalytics('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/analytics`);
+    expect(req.request.method).toBe('GET');
+    req.flush({});
+  });
+
+  it('getCustomTemplateContent should request a blob', () => {
+    service.getCustomTemplateContent('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/custom-template`);
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['<html></html>']));
+  });
+
+  it('getTemplateAttachments should request the attachments endpoint', () => {
+    service.getTemplateAttachments('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/attachments`);
+    expect(req.request.method).toBe('GET');
+    req.flush([]);
+  });
+
+  it('downloadCustomAttachment should request the attachment by index', () => {
+    service.downloadCustomAttachment('mail-1', 2).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/attachments/2/download`);
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('incrementEmailTemplateSent should post to the increment-sent endpoint', () => {
+    service.incrementEmailTemplateSent('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/increment-sent`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'ok' });
+  });
+
+  it('incrementEmailTemplateFailure should post to the increment-failure endpoint', () => {
+    service.incrementEmailTemplateFailure('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/email-templates/mail-1/increment-failure`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'ok' });
+  });
+});
@@ -0,0 +1,341 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpEvent, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiConfigService } from './api-config.service';
+import { EmailApiService } from './email-api.service';
+import {
+  ApiMessageResponse,
+  CmsTemplate,
+  CreateCmsTemplateRequest,
+  Document,
+  DocumentFilters,
+  UpdateCmsTemplateRequest
+} from '../models/cms.models';
+import {
+  CreateEmailTemplateRequest,
+  EmailTemplate,
+  EmailTemplateAnalytics,
+  EmailTemplateAttachment,
+  UpdateEmailTemplateRequest
+} from '../models/email.models';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CmsApiService {
+  private http = inject(HttpClient);
+  private apiConfig = inject(ApiConfigService);
+  private emailApi = inject(EmailApiService);
+
+  private get baseUrl(): string {
+    return this.apiConfig.getBaseUrl('CMS');
+  }
+
+  // ========== DOCUMENT OPERATIONS ==========
+
+  /**
+   * Upload a new document
+   */
+  uploadDocument(name: string, file: File, type?: string): Observable<Document> {
+    return this.http.post<Document>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_REGISTER}`,
+      this.documentFormData(name, file, type)
+    );
+  }
+
+  /**
+   * Upload a new document, emitting HttpEventType.UploadProgress events before the response
+   */
+  uploadDocumentWithProgress(name: string, file: File, type?: string): Observable<HttpEvent<Document>> {
+    return this.http.post<Document>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_REGISTER}`,
+      this.documentFormData(name, file, type),
+      { reportProgress: true, observe: 'events' }
+    );
+  }
+
+  private documentFormData(name: string, file: File, type?: string): FormData {
+    const formData = new FormData();
+    formData.append('Content', file);
+    formData.append('Name', name);
+    if (type) {
+      formData.append('Type', type);
+    }
+    return formData;
+  }
+
+  /**
+   * Get all documents with optional filters
+   */
+  getDocuments(filters?: DocumentFilters): Observable<Document[]> {
+    let params = new HttpParams();
+    
+    if (filters?.status && filters.status !== 'all') {
+      params = params.set('status', filters.status);
+    }
+    if (filters?.type) {
+      params = params.set('type', filters.type);
+    }
+    if (filters?.searchTerm) {
+      params = params.set('search', filters.searchTerm);
+    }
+
+    return this.http.get<Document[]>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS}`,
+      { params }
+    );
+  }
+
+  /**
+   * Get document by ID
+   */
+  getDocument(id: string): Observable<Document> {
+    return this.http.get<Document>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_BY_ID(id)}`
+    );
+  }
+
+  /**
+   * Download document
+   */
+  downloadDocument(id: string): Observable<Blob> {
+    return this.http.get(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_DOWNLOAD(id)}`,
+      { responseType: 'blob' }
+    );
+  }
+
+  /**
+   * Activate document
+   */
+  activateDocument(id: string): Observable<void> {
+    return this.http.post<void>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_ACTIVATE(id)}`,
+      {}
+    );
+  }
+
+  /**
+   * Deactivate document
+   */
+  deactivateDocument(id: string): Observable<void> {
+    return this.http.post<void>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_DEACTIVATE(id)}`,
+      {}
+    );
+  }
+
+  /**
+   * Delete document (soft delete)
+   */
+  deleteDocument(id: string): Observable<void> {
+    return this.http.delete<void>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_DELETE(id)}`
+    );
+  }
+
+  /**
+   * Get document types with counts
+   */
+  getDocumentTypes(): Observable<{ type: string; count: number }[]> {
+    return this.http.get<{ type: string; count: number }[]>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.DOCUMENTS_TYPES}`
+    );
+  }
+
+  // ========== TEMPLATE OPERATIONS (CMS) ==========
+
+  /**
+   * Create a new CMS template
+   */
+  createTemplate(request: CreateCmsTemplateRequest): Observable<CmsTemplate> {
+    return this.http.post<CmsTemplate>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_CREATE}`,
+      request
+    );
+  }
+
+  /**
+   * Get all CMS templates with optional filtering
+   */
+  getTemplates(category?: string, isActive?: boolean, name?: string): Observable<CmsTemplate[]> {
+    let params = new HttpParams();
+    if (category) params = params.set('category', category);
+    if (isActive !== undefined) params = params.set('isActive', isActive.toString());
+    if (name) params = params.set('name', name);
+
+    return this.http.get<CmsTemplate[]>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES}`,
+      { params }
+    );
+  }
+
+  /**
+   * Get CMS template by ID
+   */
+  getTemplate(id: string): Observable<CmsTemplate> {
+    return this.http.get<CmsTemplate>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_BY_ID(id)}`
+    );
+  }
+
+  getTemplatePlaceholders(name: string, isActive: boolean = true): Observable<string[]> {
+    return this.http.get<string[]>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATE_PLACEHOLDERS(name, isActive)}`
+    );
+  }
+
+  /**
+   * Update CMS template
+   */
+  updateTemplate(id: string, request: UpdateCmsTemplateRequest): Observable<CmsTemplate> {
+    return this.http.put<CmsTemplate>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_UPDATE(id)}`,
+      request
+    );
+  }
+
+  /**
+   * Activate CMS template
+   */
+  activateTemplate(id: string): Observable<ApiMessageResponse> {
+    return this.http.post<ApiMessageResponse>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_ACTIVATE(id)}`,
+      {}
+    );
+  }
+
+  /**
+   * Deactivate CMS template
+   */
+  deactivateTemplate(id: string): Observable<ApiMessageResponse> {
+    return this.http.post<ApiMessageResponse>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_DEACTIVATE(id)}`,
+      {}
+    );
+  }
+
+  /**
+   * Delete CMS template (soft delete)
+   */
+  deleteTemplate(id: string): Observable<ApiMessageResponse> {
+    return this.http.delete<ApiMessageResponse>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_DELETE(id)}`
+    );
+  }
+
+  /**
+   * Increment success count for CMS template
+   */
+  incrementTemplateSuccess(id: string): Observable<ApiMessageResponse> {
+    return this.http.post<ApiMessageResponse>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_INCREMENT_SUCCESS(id)}`,
+      {}
+    );
+  }
+
+  /**
+   * Increment failure count for CMS template
+   */
+  incrementTemplateFailure(id: string): Observable<ApiMessageResponse> {
+    return this.http.post<ApiMessageResponse>(
+      `${this.baseUrl}${API_ENDPOINTS.CMS.TEMPLATES_INCREMENT_FAILURE(id)}`,
+      {}
+    );
+  }
+
+  // ========== EMAIL TEMPLATE OPERATIONS (CMS) ==========
+  // Kept for backwards compatibility - EmailApiService owns these endpoints
+
+  /**
+   * @deprecated Use EmailApiService.createEmailTemplate
+   */
+  createEmailTemplate(request: CreateEmailTemplateRequest): Observable<EmailTemplate> {
+    return this.emailApi.createEmailTemplate(request);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.getEmailTemplates
+   */
+  getEmailTemplates(isActive?: boolean, category?: string): Observable<EmailTemplate[]> {
+    return this.emailApi.getEmailTemplates(isActive, category);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.getEmailTemplate
+   */
+  getEmailTemplate(id: string): Observable<EmailTemplate> {
+    return this.emailApi.getEmailTemplate(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.updateEmailTemplate
+   */
+  updateEmailTemplate(id: string, request: UpdateEmailTemplateRequest): Observable<EmailTemplate> {
+    return this.emailApi.updateEmailTemplate(id, request);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.deleteEmailTemplate
+   */
+  deleteEmailTemplate(id: string): Observable<void> {
+    return this.emailApi.deleteEmailTemplate(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.activateEmailTemplate
+   */
+  activateEmailTemplate(id: string): Observable<void> {
+    return this.emailApi.activateEmailTemplate(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.deactivateEmailTemplate
+   */
+  deactivateEmailTemplate(id: string): Observable<void> {
+    return this.emailApi.deactivateEmailTemplate(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.getEmailTemplateAnalytics
+   */
+  getEmailTemplateAnalytics(id: string): Observable<EmailTemplateAnalytics> {
+    return this.emailApi.getEmailTemplateAnalytics(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.getCustomTemplateContent
+   */
+  getCustomTemplateContent(id: string): Observable<Blob> {
+    return this.emailApi.getCustomTemplateContent(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.getTemplateAttachments
+   */
+  getTemplateAttachments(id: string): Observable<EmailTemplateAttachment[]> {
+    return this.emailApi.getTemplateAttachments(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.downloadCustomAttachment
+   */
+  downloadCustomAttachment(id: string, attachmentIndex: number): Observable<Blob> {
+    return this.emailApi.downloadCustomAttachment(id, attachmentIndex);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.incrementEmailTemplateSent
+   */
+  incrementEmailTemplateSent(id: string): Observable<ApiMessageResponse> {
+    return this.emailApi.incrementEmailTemplateSent(id);
+  }
+
+  /**
+   * @deprecated Use EmailApiService.incrementEmailTemplateFailure
+   */
+  incrementEmailTemplateFailure(id: string): Observable<ApiMessageResponse> {
+    return this.emailApi.incrementEmailTemplateFailure(id);
+  }
+}
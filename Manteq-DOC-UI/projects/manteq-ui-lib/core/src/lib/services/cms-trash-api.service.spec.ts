@@ -0,0 +1,90 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { CmsTrashApiService, TrashResponse } from './cms-trash-api.service';
+import { API_BASE_URLS } from '../constants/api.constants';
+
+describe('CmsTrashApiService', () => {
+  const baseUrl = API_BASE_URLS.CMS;
+  let service: CmsTrashApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(CmsTrashApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('getTrashItems should request the trash contents', () => {
+    const response: TrashResponse = { documents: [], templates: [], emailTemplates: [], totalCount: 0 };
+    service.getTrashItems().subscribe(trash => {
+      expect(trash).toEqual(response);
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash`);
+    expect(req.request.method).toBe('GET');
+    req.flush(response);
+  });
+
+  it('restoreDocument should post to the document restore endpoint', () => {
+    service.restoreDocument('doc-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/documents/doc-1/restore`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('restoreTemplate should post to the template restore endpoint', () => {
+    service.restoreTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/templates/tpl-1/restore`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('restoreEmailTemplate should post to the email template restore endpoint', () => {
+    service.restoreEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/email-templates/mail-1/restore`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('permanentlyDeleteDocument should send a DELETE', () => {
+    service.permanentlyDeleteDocument('doc-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/documents/doc-1/permanent`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('permanentlyDeleteTemplate should send a DELETE', () => {
+    service.permanentlyDeleteTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/templates/tpl-1/permanent`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('permanentlyDeleteEmailTemplate should send a DELETE', () => {
+    service.permanentlyDeleteEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/email-templates/mail-1/permanent`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('emptyTrash should send a DELETE to the empty endpoint', () => {
+    service.emptyTrash().subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/trash/empty`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+});
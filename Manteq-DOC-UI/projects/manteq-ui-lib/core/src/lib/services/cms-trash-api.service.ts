@@ -1,7 +1,8 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable } from 'rxjs';
-import { API_BASE_URLS, API_ENDPOINTS } from '../constants/api.constants';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiConfigService } from './api-config.service';
 
 export interface TrashItem {
   id: string;
@@ -25,7 +26,11 @@ export interface TrashResponse {
 })
 export class CmsTrashApiService {
   private readonly http = inject(HttpClient);
-  private readonly baseUrl = API_BASE_URLS.CMS;
+  private readonly apiConfig = inject(ApiConfigService);
+
+  private get baseUrl(): string {
+    return this.apiConfig.getBaseUrl('CMS');
+  }
 
   getTrashItems(): Observable<TrashResponse> {
     return this.http.get<TrashResponse>(`${this.baseUrl}${API_ENDPOINTS.CMS.TRASH}`);
@@ -0,0 +1,294 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { EmailApiService } from './email-api.service';
+import { API_BASE_URLS } from '../constants/api.constants';
+import {
+  CreateEmailTemplateRequest,
+  EmailBodySourceType,
+  SendEmailRequest,
+  SendEmailWithDocumentsRequest,
+  SendEmailWithTemplateRequest,
+  SendEmailWithTmsHtmlAndAttachmentRequest,
+  TestEmailTemplateRequest,
+  TmsExportFormat
+} from '../models/email.models';
+
+describe('EmailApiService', () => {
+  const cmsBaseUrl = API_BASE_URLS.CMS;
+  const emailBaseUrl = API_BASE_URLS.EMAIL;
+  let service: EmailApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(EmailApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  // ========== EMAIL TEMPLATE CRUD (via CMS) ==========
+
+  it('createEmailTemplate should post the request body', () => {
+    const request: CreateEmailTemplateRequest = {
+      name: 'Welcome',
+      subject: 'Welcome',
+      htmlContent: '<p>Welcome</p>',
+      bodySourceType: EmailBodySourceType.PlainText
+    };
+    service.createEmailTemplate(request).subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('getEmailTemplates should pass the filters as query params', () => {
+    service.getEmailTemplates(false, 'Sales').subscribe();
+
+    const req = httpMock.expectOne(r => r.url === `${cmsBaseUrl}/api/email-templates`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.params.get('isActive')).toBe('false');
+    expect(req.request.params.get('category')).toBe('Sales');
+    req.flush([]);
+  });
+
+  it('getEmailTemplates should send no params without filters', () => {
+    service.getEmailTemplates().subscribe();
+
+    const req = httpMock.expectOne(r => r.url === `${cmsBaseUrl}/api/email-templates`);
+    expect(req.request.params.keys().length).toBe(0);
+    req.flush([]);
+  });
+
+  it('getEmailTemplate should request a single email template', () => {
+    service.getEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1`);
+    expect(req.request.method).toBe('GET');
+    req.flush({});
+  });
+
+  it('updateEmailTemplate should put the request body', () => {
+    service.updateEmailTemplate('mail-1', { subject: 'Updated' }).subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1`);
+    expect(req.request.method).toBe('PUT');
+    expect(req.request.body).toEqual({ subject: 'Updated' });
+    req.flush({});
+  });
+
+  it('deleteEmailTemplate should send a DELETE', () => {
+    service.deleteEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('activateEmailTemplate should post to the activate endpoint', () => {
+    service.activateEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/activate`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('deactivateEmailTemplate should post to the deactivate endpoint', () => {
+    service.deactivateEmailTemplate('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/deactivate`);
+    expect(req.request.method).toBe('POST');
+    req.flush(null);
+  });
+
+  it('getEmailTemplateAnalytics should request the analytics endpoint', () => {
+    service.getEmailTemplateAnalytics('mail-1').subscribe(analytics => {
+      expect(analytics.successRate).toBe(100);
+    });
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/analytics`);
+    expect(req.request.method).toBe('GET');
+    req.flush({ templateId: 'mail-1', templateName: 'Welcome', sentCount: 1, failureCount: 0, totalAttempts: 1, successRate: 100 });
+  });
+
+  it('getCustomTemplateContent should request a blob', () => {
+    service.getCustomTemplateContent('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/custom-template`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['<html></html>']));
+  });
+
+  it('getTemplateAttachments should request the attachments endpoint', () => {
+    service.getTemplateAttachments('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/attachments`);
+    expect(req.request.method).toBe('GET');
+    req.flush([]);
+  });
+
+  it('getEmailTemplateAttachments should use the attachments endpoint', () => {
+    service.getEmailTemplateAttachments('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/attachments`);
+    expect(req.request.method).toBe('GET');
+    req.flush([]);
+  });
+
+  it('downloadCustomAttachment should request the attachment by index', () => {
+    service.downloadCustomAttachment('mail-1', 0).subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/attachments/0/download`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('incrementEmailTemplateSent should post to the increment-sent endpoint', () => {
+    service.incrementEmailTemplateSent('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/increment-sent`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'ok' });
+  });
+
+  it('incrementEmailTemplateFailure should post to the increment-failure endpoint', () => {
+    service.incrementEmailTemplateFailure('mail-1').subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/increment-failure`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'ok' });
+  });
+
+  it('uploadCustomTemplate should post the file as multipart form data', () => {
+    const file = new File(['<html></html>'], 'welcome.mhtml');
+    service.uploadCustomTemplate('mail-1', file).subscribe();
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1/upload-custom`);
+    expect(req.request.method).toBe('POST');
+    expect((req.request.body as FormData).get('file')).toBe(file);
+    req.flush(null);
+  });
+
+  it('getEmailTemplateCategories should request the categories', () => {
+    service.getEmailTemplateCategories().subscribe(categories => {
+      expect(categories).toEqual(['Sales']);
+    });
+
+    const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/categories`);
+    expect(req.request.method).toBe('GET');
+    req.flush(['Sales']);
+  });
+
+  // ========== EMAIL SENDING (via EmailService) ==========
+
+  it('sendEmailWithTemplate should post to the EmailService', () => {
+    const request: SendEmailWithTemplateRequest = {
+      toRecipients: ['client@example.com'],
+      ccRecipients: [],
+      bccRecipients: [],
+      subject: 'Quotation',
+      templateId: 'tpl-1',
+      propertyValues: { CustomerName: 'ICS' },
+      exportFormat: TmsExportFormat.Pdf
+    };
+    service.sendEmailWithTemplate(request).subscribe();
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/send-with-template`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('sendEmailWithDocuments should post to the EmailService', () => {
+    const request: SendEmailWithDocumentsRequest = {
+      toRecipients: ['client@example.com'],
+      ccRecipients: [],
+      bccRecipients: [],
+      subject: 'Documents',
+      cmsDocumentIds: ['doc-1']
+    };
+    service.sendEmailWithDocuments(request).subscribe();
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/send-with-documents`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('sendEmailWithTmsHtmlAndAttachment should post to the EmailService', () => {
+    const request: SendEmailWithTmsHtmlAndAttachmentRequest = {
+      toRecipients: ['client@example.com'],
+      ccRecipients: [],
+      bccRecipients: [],
+      subject: 'Quotation',
+      bodyTemplateId: 'tpl-body',
+      bodyPropertyValues: {},
+      attachmentTemplateId: 'tpl-1',
+      attachmentPropertyValues: {},
+      attachmentExportFormat: TmsExportFormat.Pdf
+    };
+    service.sendEmailWithTmsHtmlAndAttachment(request).subscribe();
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/send-tms-html-and-attachment`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('sendEmail should post to the flexible attachments endpoint', () => {
+    const request: SendEmailRequest = {
+      toRecipients: ['client@example.com'],
+      subject: 'Welcome',
+      emailTemplateId: 'mail-1'
+    };
+    service.sendEmail(request).subscribe();
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/send-with-flexible-attachments`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({});
+  });
+
+  it('testEmailTemplate should post the request unchanged', () => {
+    const request: TestEmailTemplateRequest = {
+      templateId: 'mail-1',
+      toRecipients: ['tester@example.com'],
+      ccRecipients: [],
+      bccRecipients: [],
+      tmsBodyPropertyValues: { CustomerName: 'ICS' }
+    };
+    service.testEmailTemplate(request).subscribe();
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/test-template`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toBe(request);
+    req.flush({});
+  });
+
+  it('getEmailAccounts should request the accounts', () => {
+    service.getEmailAccounts().subscribe();
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/accounts`);
+    expect(req.request.method).toBe('GET');
+    req.flush([]);
+  });
+
+  it('checkEmailServiceHealth should request the health endpoint', () => {
+    service.checkEmailServiceHealth().subscribe(health => {
+      expect(health.status).toBe('Healthy');
+    });
+
+    const req = httpMock.expectOne(`${emailBaseUrl}/api/email/health`);
+    expect(req.request.method).toBe('GET');
+    req.flush({ status: 'Healthy', timestamp: '2025-01-01T00:00:00Z', service: 'EmailService' });
+  });
+});
@@ -1,17 +1,23 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
-import { API_BASE_URLS, API_ENDPOINTS } from '../constants/api.constants';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiConfigService } from './api-config.service';
+import { longRunningRequest } from '../interceptors/retry.interceptor';
+import { ApiMessageResponse } from '../models/cms.models';
 import {
   EmailTemplate,
+  EmailTemplateAnalytics,
   EmailTemplateAttachment,
   CreateEmailTemplateRequest,
   UpdateEmailTemplateRequest,
   SendEmailRequest,
   SendEmailWithTemplateRequest,
+  SendEmailWithDocumentsRequest,
+  SendEmailWithTmsHtmlAndAttachmentRequest,
   EmailSendResponse,
   EmailAccount,
-  TmsAttachmentRequest,
+  EmailServiceHealth,
   TestEmailTemplateRequest
 } from '../models/email.models';
 
@@ -20,8 +26,15 @@ import {
 })
 export class EmailApiService {
   private readonly http = inject(HttpClient);
-  private readonly cmsBaseUrl = API_BASE_URLS.CMS;
-  private readonly emailBaseUrl = API_BASE_URLS.EMAIL;
+  private readonly apiConfig = inject(ApiConfigService);
+
+  private get cmsBaseUrl(): string {
+    return this.apiConfig.getBaseUrl('CMS');
+  }
+
+  private get emailBaseUrl(): string {
+    return this.apiConfig.getBaseUrl('EMAIL');
+  }
 
   // ========== EMAIL TEMPLATE CRUD (via CMS) ==========
 
@@ -39,15 +52,14 @@ export class EmailApiService {
    * Get all email templates with optional filtering
    */
   getEmailTemplates(isActive?: boolean, category?: string): Observable<EmailTemplate[]> {
-    let url = `${this.cmsBaseUrl}${API_ENDPOINTS.CMS.EMAIL_TEMPLATES}`;
-    const params: string[] = [];
-    
-    if (isActive !== undefined) params.push(`isActive=${isActive}`);
-    if (category) params.push(`category=${encodeURIComponent(category)}`);
-    
-    if (params.length > 0) url += `?${params.join('&')}`;
-    
-    return this.http.get<EmailTemplate[]>(url);
+    let params = new HttpParams();
+    if (isActive !== undefined) params = params.set('isActive', isActive.toString());
+    if (category) params = params.set('category', category);
+
+    return this.http.get<EmailTemplate[]>(
+      `${this.cmsBaseUrl}${API_ENDPOINTS.CMS.EMAIL_TEMPLATES}`,
+      { params }
+    );
   }
 
   /**
@@ -101,8 +113,8 @@ export class EmailApiService {
   /**
    * Get email template analytics
    */
-  getEmailTemplateAnalytics(id: string): Observable<any> {
-    return this.http.get(
+  getEmailTemplateAnalytics(id: string): Observable<EmailTemplateAnalytics> {
+    return this.http.get<EmailTemplateAnalytics>(
       `${this.cmsBaseUrl}${API_ENDPOINTS.CMS.EMAIL_TEMPLATES_ANALYTICS(id)}`
     );
   }
@@ -139,8 +151,8 @@ export class EmailApiService {
   /**
    * Increment sent count for email template
    */
-  incrementEmailTemplateSent(id: string): Observable<any> {
-    return this.http.post(
+  incrementEmailTemplateSent(id: string): Observable<ApiMessageResponse> {
+    return this.http.post<ApiMessageResponse>(
       `${this.cmsBaseUrl}${API_ENDPOINTS.CMS.EMAIL_TEMPLATES_INCREMENT_SENT(id)}`,
       {}
     );
@@ -149,8 +161,8 @@ export class EmailApiService {
   /**
    * Increment failure count for email template
    */
-  incrementEmailTemplateFailure(id: string): Observable<any> {
-    return this.http.post(
+  incrementEmailTemplateFailure(id: string): Observable<ApiMessageResponse> {
+    return this.http.post<ApiMessageResponse>(
       `${this.cmsBaseUrl}${API_ENDPOINTS.CMS.EMAIL_TEMPLATES_INCREMENT_FAILURE(id)}`,
       {}
     );
@@ -179,7 +191,7 @@ export class EmailApiService {
   }
 
   /**
-   * Get email template attachments (alias for getTemplateAttachments)
+   * @deprecated Use getTemplateAttachments
    */
   getEmailTemplateAttachments(id: string): Observable<EmailTemplateAttachment[]> {
     return this.getTemplateAttachments(id);
@@ -190,30 +202,33 @@ export class EmailApiService {
   /**
    * Send email with TMS template
    */
-  sendEmailWithTemplate(request: any): Observable<EmailSendResponse> {
+  sendEmailWithTemplate(request: SendEmailWithTemplateRequest): Observable<EmailSendResponse> {
     return this.http.post<EmailSendResponse>(
       `${this.emailBaseUrl}${API_ENDPOINTS.EMAIL.SEND_WITH_TEMPLATE}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
   /**
    * Send email with CMS documents
    */
-  sendEmailWithDocuments(request: any): Observable<EmailSendResponse> {
+  sendEmailWithDocuments(request: SendEmailWithDocumentsRequest): Observable<EmailSendResponse> {
     return this.http.post<EmailSendResponse>(
       `${this.emailBaseUrl}${API_ENDPOINTS.EMAIL.SEND_WITH_DOCUMENTS}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
   /**
    * Send email with TMS HTML body and attachment
    */
-  sendEmailWithTmsHtmlAndAttachment(request: any): Observable<EmailSendResponse> {
+  sendEmailWithTmsHtmlAndAttachment(request: SendEmailWithTmsHtmlAndAttachmentRequest): Observable<EmailSendResponse> {
     return this.http.post<EmailSendResponse>(
       `${this.emailBaseUrl}${API_ENDPOINTS.EMAIL.SEND_TMS_HTML_AND_ATTACHMENT}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
@@ -223,7 +238,8 @@ export class EmailApiService {
   sendEmail(request: SendEmailRequest): Observable<EmailSendResponse> {
     return this.http.post<EmailSendResponse>(
       `${this.emailBaseUrl}${API_ENDPOINTS.EMAIL.SEND_WITH_FLEXIBLE_ATTACHMENTS}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
@@ -234,7 +250,8 @@ export class EmailApiService {
     // POST the test request directly so TmsBodyPropertyValues stays intact
     return this.http.post<EmailSendResponse>(
       `${this.emailBaseUrl}${API_ENDPOINTS.EMAIL.TEST_TEMPLATE}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
@@ -250,8 +267,8 @@ export class EmailApiService {
   /**
    * Check email service health
    */
-  checkEmailServiceHealth(): Observable<any> {
-    return this.http.get(
+  checkEmailServiceHealth(): Observable<EmailServiceHealth> {
+    return this.http.get<EmailServiceHealth>(
       `${this.emailBaseUrl}${API_ENDPOINTS.EMAIL.HEALTH}`
     );
   }
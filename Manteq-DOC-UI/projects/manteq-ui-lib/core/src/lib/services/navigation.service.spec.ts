@@ -0,0 +1,82 @@
+import { Component, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { ManteqNavigationService } from './navigation.service';
+import { MANTEQ_FEATURES, MANTEQ_NAV_ITEMS } from '../tokens/config.tokens';
+import { DEFAULT_MANTEQ_FEATURES } from '../constants/api.constants';
+
+@Component({ standalone: true, template: '' })
+class PageStubComponent {}
+
+describe('ManteqNavigationService', () => {
+  const pendingReports = signal(0);
+  let service: ManteqNavigationService;
+
+  beforeEach(() => {
+    pendingReports.set(0);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([
+          {
+            path: 'portal',
+            children: [
+              { path: 'documents', component: PageStubComponent },
+              { path: 'templates', component: PageStubComponent },
+              { path: 'emails', component: PageStubComponent }
+            ]
+          },
+          { path: 'reports', component: PageStubComponent }
+        ]),
+        { provide: MANTEQ_FEATURES, useValue: { ...DEFAULT_MANTEQ_FEATURES, emails: false } },
+        {
+          provide: MANTEQ_NAV_ITEMS,
+          useValue: [
+            { id: 'documents', feature: 'documents', icon: 'bi-folder-fill' },
+            { id: 'emails', feature: 'emails' },
+            {
+              id: 'more',
+              label: 'More',
+              children: [
+                { id: 'reports', route: '/reports', label: 'Reports', badge: pendingReports },
+                { id: 'templates', feature: 'templates' }
+              ]
+            },
+            { id: 'trash', feature: 'trash' }
+          ]
+        }
+      ]
+    });
+    service = TestBed.inject(ManteqNavigationService);
+  });
+
+  it('should hide disabled and unregistered features and link to where routes are mounted', () => {
+    const items = service.items();
+
+    expect(items.map(item => item.id)).toEqual(['documents', 'more']);
+    expect(items[0].url).toBe('/portal/documents');
+    expect(items[0].label).toBe('Document Library');
+    expect(items[1].url).toBeUndefined();
+    expect(items[1].children.map(child => child.url)).toEqual(['/reports', '/portal/templates']);
+  });
+
+  it('should mark the active item and its group', async () => {
+    await TestBed.inject(Router).navigateByUrl('/portal/templates');
+
+    const [documents, more] = service.items();
+    expect(documents.active).toBeFalse();
+    expect(more.active).toBeTrue();
+    expect(more.children[1].active).toBeTrue();
+  });
+
+  it('should show badges from signals and hide zero counts', () => {
+    expect(service.items()[1].children[0].badge).toBeNull();
+
+    pendingReports.set(3);
+
+    expect(service.items()[1].children[0].badge).toBe(3);
+  });
+});
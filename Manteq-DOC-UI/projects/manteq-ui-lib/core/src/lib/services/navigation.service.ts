@@ -0,0 +1,154 @@
+import { Injectable, computed, effect, inject, untracked } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { NavigationEnd, Router, Routes } from '@angular/router';
+import { filter, map } from 'rxjs';
+import { MANTEQ_FEATURES, MANTEQ_NAV_ITEMS } from '../tokens/config.tokens';
+import { ManteqFeatureName, ManteqNavBadge, ManteqNavItem } from '../models/config.model';
+import { ManteqPermissionService } from './permission.service';
+import { ManteqTranslationService } from './translation.service';
+import { ManteqStore } from '../store/manteq-store';
+import { ManteqApiError } from '../errors/manteq-api-error';
+
+/**
+ * Sidebar entry ready for display
+ */
+export interface ManteqResolvedNavItem {
+  id: string;
+  label: string;
+  icon?: string;
+  /** Absolute URL; groups have none */
+  url?: string;
+  badge: number | string | null;
+  /** The current URL is this item's page, one of its sub-pages or inside this group */
+  active: boolean;
+  children: ManteqResolvedNavItem[];
+}
+
+/**
+ * Turns MANTEQ_NAV_ITEMS into the sidebar: hides disabled, forbidden and unregistered
+ * screens, translates labels, evaluates badges and marks the active entry.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqNavigationService {
+  private router = inject(Router);
+  private store = inject(ManteqStore);
+  private features = inject(MANTEQ_FEATURES);
+  private navItems = inject(MANTEQ_NAV_ITEMS);
+  private permissions = inject(ManteqPermissionService);
+  private i18n = inject(ManteqTranslationService);
+
+  private currentUrl = toSignal(
+    this.router.events.pipe(
+      filter(event => event instanceof NavigationEnd),
+      map(event => event.urlAfterRedirects)
+    ),
+    { initialValue: this.router.url }
+  );
+
+  readonly items = computed(() => {
+    const path = this.currentUrl().split(/[?#]/)[0];
+    return this.resolve(this.navItems, path);
+  });
+
+  // The trash badge needs the trash list, which otherwise loads when the screen opens
+  private showsTrashCount = computed(() =>
+    this.flatten(this.navItems).some(item => item.feature === 'trash' && item.badge === undefined && this.isVisible(item))
+  );
+
+  constructor() {
+    effect(() => {
+      if (this.showsTrashCount()) {
+        untracked(() => this.store.trash.load().subscribe({
+          error: error => {
+            // A missing badge is not worth an error toast
+            if (error instanceof ManteqApiError) error.markHandled();
+          }
+        }));
+      }
+    });
+  }
+
+  /**
+   * URL of a feature screen where its route is registered, or null when it is not
+   */
+  featureUrl(feature: ManteqFeatureName): string | null {
+    return this.findRoute(this.router.config, feature, []);
+  }
+
+  private resolve(items: ManteqNavItem[], path: string): ManteqResolvedNavItem[] {
+    const resolved: ManteqResolvedNavItem[] = [];
+
+    for (const item of items) {
+      if (!this.isVisible(item)) continue;
+
+      const children = this.resolve(item.children ?? [], path);
+      if (item.children && children.length === 0) continue;
+
+      const url = item.children ? undefined : (item.feature ? this.featureUrl(item.feature)! : item.route);
+      resolved.push({
+        id: item.id,
+        label: this.label(item),
+        icon: item.icon,
+        url,
+        badge: this.badge(item),
+        active: url ? path === url || path.startsWith(`${url}/`) : children.some(child => child.active),
+        children
+      });
+    }
+    return resolved;
+  }
+
+  private isVisible(item: ManteqNavItem): boolean {
+    if (item.permission && !this.permissions.can(item.permission)) {
+      return false;
+    }
+    if (item.feature) {
+      return this.features[item.feature]
+        && this.permissions.can(`${item.feature}.view`)
+        && this.featureUrl(item.feature) !== null;
+    }
+    return true;
+  }
+
+  private label(item: ManteqNavItem): string {
+    if (item.labelKey) return this.i18n.translate(item.labelKey);
+    if (item.label) return item.label;
+    return item.feature ? this.i18n.translate(`layout.nav.${item.feature}`) : item.id;
+  }
+
+  private badge(item: ManteqNavItem): number | string | null {
+    const badge = item.badge === undefined && item.feature ? this.featureBadge(item.feature) : item.badge;
+    const value = typeof badge === 'function' ? badge() : badge;
+    // Zero and empty values hide the badge
+    return value || null;
+  }
+
+  private featureBadge(feature: ManteqFeatureName): ManteqNavBadge | null {
+    if (feature === 'trash') {
+      return () => this.store.trash.loaded() ? this.store.trash.entities().length : null;
+    }
+    return null;
+  }
+
+  /**
+   * Depth-first search for the feature's route; lazy `loadChildren` configs are not searched
+   */
+  private findRoute(routes: Routes, feature: ManteqFeatureName, parents: string[]): string | null {
+    for (const route of routes) {
+      const segments = route.path ? [...parents, route.path] : parents;
+      if (route.path === feature && (route.component || route.loadComponent)) {
+        return `/${segments.join('/')}`;
+      }
+
+      const found = route.children ? this.findRoute(route.children, feature, segments) : null;
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private flatten(items: ManteqNavItem[]): ManteqNavItem[] {
+    return items.flatMap(item => [item, ...this.flatten(item.children ?? [])]);
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, DestroyRef, signal, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { BehaviorSubject, Observable, defer, filter, finalize, map, take } from 'rxjs';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NetworkStatusService {
+  private destroyRef = inject(DestroyRef);
+
+  private online$ = new BehaviorSubject<boolean>(typeof navigator === 'undefined' || navigator.onLine);
+  private pausedRequestsSignal = signal(0);
+
+  // Read-only state for components
+  readonly online = toSignal(this.online$, { requireSync: true });
+  readonly pausedRequests = this.pausedRequestsSignal.asReadonly();
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    const update = () => this.online$.next(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+
+    this.destroyRef.onDestroy(() => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    });
+  }
+
+  /**
+   * Emit once the browser is online (immediately if it already is)
+   */
+  whenOnline(): Observable<void> {
+    return this.online$.pipe(
+      filter(online => online),
+      take(1),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Same as whenOnline, but counts the caller as a paused request while waiting
+   */
+  holdUntilOnline(): Observable<void> {
+    return defer(() => {
+      this.pausedRequestsSignal.update(count => count + 1);
+      return this.whenOnline().pipe(
+        finalize(() => this.pausedRequestsSignal.update(count => count - 1))
+      );
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import Swal from 'sweetalert2';
+import { NotificationService } from './notification.service';
+import { ManteqApiError } from '../errors/manteq-api-error';
+import { NOTIFICATION_HISTORY } from '../constants/api.constants';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  beforeEach(() => {
+    sessionStorage.removeItem(NOTIFICATION_HISTORY.storageKey);
+    spyOn(Swal, 'mixin').and.returnValue(jasmine.createSpyObj('Toast', ['fire']));
+    service = TestBed.inject(NotificationService);
+  });
+
+  afterEach(() => {
+    sessionStorage.removeItem(NOTIFICATION_HISTORY.storageKey);
+  });
+
+  it('should record toasts newest first with their links', () => {
+    service.success('Document uploaded', undefined, { link: '/documents/doc-1' });
+    service.warning('Trash is already empty');
+
+    const [warning, success] = service.history();
+    expect(warning.level).toBe('warning');
+    expect(success).toEqual(jasmine.objectContaining({
+      level: 'success',
+      title: 'Success',
+      message: 'Document uploaded',
+      link: '/documents/doc-1',
+      read: false
+    }));
+    expect(service.unreadCount()).toBe(2);
+  });
+
+  it('should keep the API error detail and persist the history for the session', () => {
+    const error = new ManteqApiError({
+      status: 400,
+      message: 'Validation failed',
+      service: 'CMS',
+      url: '/api/documents',
+      fieldErrors: { Name: ['Name is required'] },
+      traceId: 'trace-1',
+      response: new HttpErrorResponse({ status: 400 })
+    });
+
+    service.apiError(error, 'Upload failed');
+
+    const stored = JSON.parse(sessionStorage.getItem(NOTIFICATION_HISTORY.storageKey)!);
+    expect(stored[0].detail).toEqual({ status: 400, service: 'CMS', messages: ['Name: Name is required'], traceId: 'trace-1' });
+    expect(error.handled).toBeTrue();
+  });
+
+  it('should mark entries read and clear the history', () => {
+    service.error('Failed to send test email');
+    service.info('Draft saved');
+
+    service.markAllRead();
+    expect(service.unreadCount()).toBe(0);
+
+    service.clearHistory();
+    expect(service.history()).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import Swal, { SweetAlertIcon, SweetAlertOptions } from 'sweetalert2';
+import { ManteqApiError } from '../errors/manteq-api-error';
+import { ManteqApiServiceName } from '../models/config.model';
+import { NOTIFICATION_HISTORY } from '../constants/api.constants';
+import { ManteqTranslationService } from './translation.service';
+import { escapeHtml } from '../utils/html.utils';
+
+export type ManteqNotificationLevel = 'success' | 'error' | 'warning' | 'info';
+
+/**
+ * What the server reported for a failed API call
+ */
+export interface ManteqNotificationDetail {
+  status: number;
+  service: ManteqApiServiceName | null;
+  messages: string[];
+  traceId?: string;
+}
+
+/**
+ * Entry in the notification center history
+ */
+export interface ManteqNotification {
+  id: string;
+  level: ManteqNotificationLevel;
+  title: string;
+  message: string;
+  detail?: ManteqNotificationDetail;
+  /** Router URL of the entity the notification is about */
+  link?: string;
+  /** ISO timestamp */
+  createdAt: string;
+  read: boolean;
+}
+
+export interface ManteqNotificationOptions {
+  /** Router URL of the entity involved, shown as a link in the notification center */
+  link?: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private i18n = inject(ManteqTranslationService);
+
+  // Survives reloads within the browser tab, like the rest of the session
+  private historySignal = signal<ManteqNotification[]>(this.readHistory());
+
+  // Read-only state for the notification center
+  readonly history = this.historySignal.asReadonly();
+  readonly unreadCount = computed(() => this.historySignal().filter(entry => !entry.read).length);
+  
+  /**
+   * Show success toast
+   */
+  success(
+    message: string,
+    title: string = this.i18n.translate('notifications.success'),
+    options: ManteqNotificationOptions = {}
+  ): void {
+    this.notify('success', title, message, options);
+  }
+  
+  /**
+   * Show error toast
+   */
+  error(
+    message: string,
+    title: string = this.i18n.translate('notifications.error'),
+    options: ManteqNotificationOptions = {}
+  ): void {
+    this.notify('error', title, message, options);
+  }
+  
+  /**
+   * Show error toast for a failed API call, including server and field-level messages.
+   * Marks ManteqApiError instances as handled so the global error toast is skipped.
+   */
+  apiError(
+    error: unknown,
+    title: string = this.i18n.translate('notifications.error'),
+    options: ManteqNotificationOptions = {}
+  ): void {
+    if (error instanceof ManteqApiError) {
+      error.markHandled();
+      const fieldMessages = error.fieldMessages;
+      const detail: ManteqNotificationDetail = {
+        status: error.status,
+        service: error.service,
+        messages: fieldMessages,
+        traceId: error.traceId
+      };
+
+      if (fieldMessages.length > 0) {
+        const items = fieldMessages.map(message => `<li>${escapeHtml(message)}</li>`).join('');
+        this.notify('error', title, error.message, options, detail, `<ul class="text-start mb-0 ps-3">${items}</ul>`);
+      } else {
+        this.notify('error', title, error.message, options, detail);
+      }
+      return;
+    }
+
+    this.notify('error', title, error instanceof Error ? error.message : '', options);
+  }
+  
+  /**
+   * Show warning toast
+   */
+  warning(
+    message: string,
+    title: string = this.i18n.translate('notifications.warning'),
+    options: ManteqNotificationOptions = {}
+  ): void {
+    this.notify('warning', title, message, options);
+  }
+  
+  /**
+   * Show info toast
+   */
+  info(
+    message: string,
+    title: string = this.i18n.translate('notifications.info'),
+    options: ManteqNotificationOptions = {}
+  ): void {
+    this.notify('info', title, message, options);
+  }
+
+  // ========== HISTORY ==========
+
+  markRead(id: string): void {
+    this.updateHistory(history => history.map(entry => entry.id === id ? { ...entry, read: true } : entry));
+  }
+
+  markAllRead(): void {
+    this.updateHistory(history => history.map(entry => entry.read ? entry : { ...entry, read: true }));
+  }
+
+  dismiss(id: string): void {
+    this.updateHistory(history => history.filter(entry => entry.id !== id));
+  }
+
+  clearHistory(): void {
+    this.updateHistory(() => []);
+  }
+  
+  /**
+   * Show confirmation dialog
+   */
+  async confirm(
+    title: string,
+    message: string,
+    confirmButtonText: string = this.i18n.translate('common.yes'),
+    cancelButtonText: string = this.i18n.translate('common.cancel')
+  ): Promise<boolean> {
+    const result = await Swal.fire({
+      title,
+      text: message,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText,
+      cancelButtonText,
+      confirmButtonColor: 'var(--manteq-primary-color, #2c3e50)',
+      cancelButtonColor: '#6c757d',
+      reverseButtons: true,
+      ...this.directionOptions()
+    });
+    
+    return result.isConfirmed;
+  }
+  
+  /**
+   * Show loading spinner
+   * @deprecated Blocks the whole screen. Use manteqBusyState() for row actions and
+   * ManteqProgressService.track() for long jobs; API calls already drive the progress bar.
+   */
+  showLoading(message: string = this.i18n.translate('notifications.loading')): void {
+    Swal.fire({
+      title: message,
+      allowOutsideClick: false,
+      allowEscapeKey: false,
+      ...this.directionOptions(),
+      didOpen: () => {
+        Swal.showLoading();
+      }
+    });
+  }
+  
+  /**
+   * Close loading spinner
+   * @deprecated See showLoading
+   */
+  hideLoading(): void {
+    Swal.close();
+  }
+  
+  /**
+   * Record the notification in the history and show it as a toast
+   */
+  private notify(
+    level: ManteqNotificationLevel,
+    title: string,
+    message: string,
+    options: ManteqNotificationOptions,
+    detail?: ManteqNotificationDetail,
+    html?: string
+  ): void {
+    const entry: ManteqNotification = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      level,
+      title,
+      message,
+      createdAt: new Date().toISOString(),
+      read: false
+    };
+    if (detail) entry.detail = detail;
+    if (options.link) entry.link = options.link;
+
+    this.updateHistory(history => [entry, ...history].slice(0, NOTIFICATION_HISTORY.limit));
+    this.showToast(level, title, message, html);
+  }
+
+  private updateHistory(update: (history: ManteqNotification[]) => ManteqNotification[]): void {
+    this.historySignal.update(update);
+    try {
+      sessionStorage.setItem(NOTIFICATION_HISTORY.storageKey, JSON.stringify(this.historySignal()));
+    } catch {
+      // Storage can be unavailable or full; keep the history in memory
+    }
+  }
+
+  private readHistory(): ManteqNotification[] {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(NOTIFICATION_HISTORY.storageKey) ?? '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+  
+  /**
+   * Show toast notification
+   */
+  private showToast(icon: SweetAlertIcon, title: string, text: string, html?: string): void {
+    const Toast = Swal.mixin({
+      toast: true,
+      // Toasts sit in the top corner where the reading direction ends
+      position: this.i18n.isRtl() ? 'top-start' : 'top-end',
+      ...this.directionOptions(),
+      showConfirmButton: false,
+      timer: 3000,
+      timerProgressBar: true,
+      didOpen: (toast) => {
+        toast.addEventListener('mouseenter', Swal.stopTimer);
+        toast.addEventListener('mouseleave', Swal.resumeTimer);
+      }
+    });
+    
+    Toast.fire({
+      icon,
+      title,
+      ...(html
+        ? { html: `<div>${escapeHtml(text)}</div>${html}`, timer: 6000 }
+        : { text })
+    });
+  }
+  
+  /**
+   * Mirror dialog layout for RTL locales, even when the host page itself is LTR
+   */
+  private directionOptions(): SweetAlertOptions {
+    return this.i18n.isRtl() ? { customClass: { container: 'swal2-rtl' } } : {};
+  }
+}
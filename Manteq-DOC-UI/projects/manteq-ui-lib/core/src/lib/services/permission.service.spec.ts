@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { ManteqPermissionService } from './permission.service';
+import { MANTEQ_ROLE_PERMISSIONS, USER_CONTEXT } from '../tokens/config.tokens';
+import { DEFAULT_ROLE_PERMISSIONS } from '../constants/api.constants';
+import { UserContext } from '../models/config.model';
+
+describe('ManteqPermissionService', () => {
+  function createService(user: UserContext): ManteqPermissionService {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: USER_CONTEXT, useValue: user },
+        { provide: MANTEQ_ROLE_PERMISSIONS, useValue: { ...DEFAULT_ROLE_PERMISSIONS, auditor: ['trash.view'] } }
+      ]
+    });
+    return TestBed.inject(ManteqPermissionService);
+  }
+
+  it('should allow everything for a user without roles or permissions', () => {
+    const service = createService({ email: 'guest@example.com', name: 'Guest' });
+
+    expect(service.can('trash.empty')).toBeTrue();
+    expect(service.can('documents.upload')).toBeTrue();
+  });
+
+  it('should grant the permissions of the user roles', () => {
+    const service = createService({ email: 'editor@example.com', name: 'Editor', roles: ['editor'] });
+
+    expect(service.can('documents.delete')).toBeTrue();
+    expect(service.can('trash.restore')).toBeTrue();
+    expect(service.can('trash.empty')).toBeFalse();
+  });
+
+  it('should combine custom roles with explicit permissions', () => {
+    const service = createService({
+      email: 'auditor@example.com',
+      name: 'Auditor',
+      roles: ['auditor'],
+      permissions: ['emails.view']
+    });
+
+    expect(service.can('trash.view')).toBeTrue();
+    expect(service.can('emails.view')).toBeTrue();
+    expect(service.can('emails.edit')).toBeFalse();
+    expect(service.can('documents.view')).toBeFalse();
+  });
+
+  it('should ignore unknown roles', () => {
+    const service = createService({ email: 'x@example.com', name: 'X', roles: ['unknown'] });
+
+    expect(service.can('documents.view')).toBeFalse();
+  });
+
+  it('should re-evaluate permissions when the user changes', () => {
+    const service = createService({ email: 'viewer@example.com', name: 'Viewer', roles: ['viewer'] });
+    expect(service.can('templates.upload')).toBeFalse();
+
+    service.setUser({ email: 'admin@example.com', name: 'Admin', roles: ['admin'] });
+
+    expect(service.can('templates.upload')).toBeTrue();
+  });
+});
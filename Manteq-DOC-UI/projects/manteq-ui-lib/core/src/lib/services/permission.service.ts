@@ -0,0 +1,42 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { MANTEQ_ROLE_PERMISSIONS, USER_CONTEXT } from '../tokens/config.tokens';
+import { ManteqPermission, ManteqPermissionGrant, UserContext } from '../models/config.model';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqPermissionService {
+  private rolePermissions = inject(MANTEQ_ROLE_PERMISSIONS);
+  private userSignal = signal<UserContext>(inject(USER_CONTEXT));
+
+  // Read-only state for components
+  readonly user = this.userSignal.asReadonly();
+
+  /** Grants from the user's roles plus the explicitly listed permissions */
+  readonly grants = computed<ReadonlySet<ManteqPermissionGrant>>(() => {
+    const { roles, permissions } = this.userSignal();
+    if (!roles && !permissions) {
+      return new Set(['*']);
+    }
+    return new Set([
+      ...(roles ?? []).flatMap(role => this.rolePermissions[role] ?? []),
+      ...(permissions ?? [])
+    ]);
+  });
+
+  /**
+   * Switch the current user, e.g. after sign-in or an impersonation change
+   */
+  setUser(user: UserContext): void {
+    this.userSignal.set(user);
+  }
+
+  /**
+   * Check a permission; reactive when called inside computed() or a template
+   */
+  can(permission: ManteqPermission): boolean {
+    const grants = this.grants();
+    const feature = permission.split('.')[0];
+    return grants.has('*') || grants.has(`${feature}.*` as ManteqPermissionGrant) || grants.has(permission);
+  }
+}
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, throwError } from 'rxjs';
+import { ManteqProgressService } from './progress.service';
+
+describe('ManteqProgressService', () => {
+  let service: ManteqProgressService;
+
+  beforeEach(() => {
+    service = TestBed.inject(ManteqProgressService);
+  });
+
+  it('should report loading while requests are in flight', () => {
+    service.requestStarted();
+    service.requestStarted();
+    service.requestFinished();
+    expect(service.loading()).toBeTrue();
+
+    service.requestFinished();
+    service.requestFinished();
+    expect(service.pendingRequests()).toBe(0);
+    expect(service.loading()).toBeFalse();
+  });
+
+  it('should track a job from running to succeeded', () => {
+    const job = new Subject<string>();
+
+    service.track('Uploading contract.pdf', job, { link: '/documents/doc-1' }).subscribe();
+    expect(service.tasks()[0]).toEqual(jasmine.objectContaining({ label: 'Uploading contract.pdf', status: 'running' }));
+    expect(service.runningTasks()).toBe(1);
+
+    job.next('done');
+    job.complete();
+    expect(service.tasks()[0]).toEqual(jasmine.objectContaining({ status: 'succeeded', link: '/documents/doc-1' }));
+    expect(service.tasks()[0].finishedAt).toBeDefined();
+    expect(service.runningTasks()).toBe(0);
+  });
+
+  it('should mark failed jobs and drop cancelled ones', () => {
+    service.track('Test email', throwError(() => new Error('SMTP down'))).subscribe({ error: () => {} });
+    const cancelled = service.track('Test document', new Subject<void>()).subscribe();
+    cancelled.unsubscribe();
+
+    expect(service.tasks().map(task => task.status)).toEqual(['failed']);
+
+    service.clearFinishedTasks();
+    expect(service.tasks()).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { Observable, defer, finalize, tap } from 'rxjs';
+
+export type ManteqBackgroundTaskStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * Long-running job shown in the background tasks tray
+ */
+export interface ManteqBackgroundTask {
+  id: string;
+  label: string;
+  status: ManteqBackgroundTaskStatus;
+  /** ISO timestamps */
+  startedAt: string;
+  finishedAt?: string;
+  /** Router URL of the entity the job works on */
+  link?: string;
+}
+
+export interface ManteqBackgroundTaskOptions {
+  link?: string;
+}
+
+/**
+ * Non-blocking progress: the number of Manteq API requests in flight (fed by
+ * progressInterceptor) and background jobs the user can leave running while they work.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqProgressService {
+  private pendingSignal = signal(0);
+  private tasksSignal = signal<ManteqBackgroundTask[]>([]);
+
+  // Read-only state for the progress bar and the tasks tray
+  readonly pendingRequests = this.pendingSignal.asReadonly();
+  readonly loading = computed(() => this.pendingSignal() > 0);
+  readonly tasks = this.tasksSignal.asReadonly();
+  readonly runningTasks = computed(() => this.tasksSignal().filter(task => task.status === 'running').length);
+
+  requestStarted(): void {
+    this.pendingSignal.update(count => count + 1);
+  }
+
+  requestFinished(): void {
+    this.pendingSignal.update(count => Math.max(0, count - 1));
+  }
+
+  /**
+   * Show `source` as a background task from subscription until it completes or fails.
+   * Unsubscribing early removes the task again.
+   */
+  track<T>(label: string, source: Observable<T>, options: ManteqBackgroundTaskOptions = {}): Observable<T> {
+    return defer(() => {
+      const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      let status: ManteqBackgroundTaskStatus = 'running';
+
+      this.tasksSignal.update(tasks => [
+        { id, label, status, startedAt: new Date().toISOString(), ...(options.link ? { link: options.link } : {}) },
+        ...tasks
+      ]);
+
+      return source.pipe(
+        tap({
+          complete: () => status = 'succeeded',
+          error: () => status = 'failed'
+        }),
+        finalize(() => {
+          if (status === 'running') {
+            this.dismissTask(id);
+            return;
+          }
+          this.tasksSignal.update(tasks => tasks.map(task =>
+            task.id === id ? { ...task, status, finishedAt: new Date().toISOString() } : task
+          ));
+        })
+      );
+    });
+  }
+
+  dismissTask(id: string): void {
+    this.tasksSignal.update(tasks => tasks.filter(task => task.id !== id));
+  }
+
+  clearFinishedTasks(): void {
+    this.tasksSignal.update(tasks => tasks.filter(task => task.status === 'running'));
+  }
+}
@@ -0,0 +1,83 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { ManteqSearchService, ManteqSearchResult } from './search.service';
+import { MANTEQ_FEATURES } from '../tokens/config.tokens';
+import { API_BASE_URLS, API_ENDPOINTS, DEFAULT_MANTEQ_FEATURES } from '../constants/api.constants';
+
+@Component({ standalone: true, template: '' })
+class PageStubComponent {}
+
+describe('ManteqSearchService', () => {
+  let service: ManteqSearchService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([
+          {
+            path: 'portal',
+            children: [
+              { path: 'documents', component: PageStubComponent },
+              { path: 'templates', component: PageStubComponent }
+            ]
+          }
+        ]),
+        { provide: MANTEQ_FEATURES, useValue: { ...DEFAULT_MANTEQ_FEATURES, emails: false, trash: false } }
+      ]
+    });
+    service = TestBed.inject(ManteqSearchService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should search documents on the server and filter cached templates', () => {
+    let results: ManteqSearchResult[] = [];
+    service.search(' invoice ').subscribe(value => results = value);
+
+    const documents = httpMock.expectOne(req => req.url === `${API_BASE_URLS.CMS}${API_ENDPOINTS.CMS.DOCUMENTS}`);
+    expect(documents.request.params.get('search')).toBe('invoice');
+    documents.flush([{ id: 'doc-1', name: 'Invoice March', type: 'pdf' }]);
+
+    httpMock.expectOne(`${API_BASE_URLS.TMS}${API_ENDPOINTS.TMS.TEMPLATES}`).flush([
+      { id: 'tpl-1', name: 'Letter', category: 'Invoices' },
+      { id: 'tpl-2', name: 'Contract', category: 'Legal' }
+    ]);
+
+    expect(results).toEqual([
+      { type: 'document', id: 'doc-1', label: 'Invoice March', description: 'pdf', url: '/portal/documents/doc-1' },
+      { type: 'template', id: 'tpl-1', label: 'Letter', description: 'Invoices', url: '/portal/templates/tpl-1' }
+    ]);
+  });
+
+  it('should keep the results of other sources when one fails', () => {
+    let results: ManteqSearchResult[] = [];
+    service.search('letter').subscribe(value => results = value);
+
+    httpMock.expectOne(req => req.url.endsWith(API_ENDPOINTS.CMS.DOCUMENTS)).flush(null, {
+      status: 500,
+      statusText: 'Server Error'
+    });
+    httpMock.expectOne(`${API_BASE_URLS.TMS}${API_ENDPOINTS.TMS.TEMPLATES}`).flush([
+      { id: 'tpl-1', name: 'Letter', category: 'Invoices' }
+    ]);
+
+    expect(results.map(result => result.id)).toEqual(['tpl-1']);
+  });
+
+  it('should not call any API for an empty term', () => {
+    let results: ManteqSearchResult[] | undefined;
+    service.search('   ').subscribe(value => results = value);
+
+    httpMock.expectNone(() => true);
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, forkJoin, map, of } from 'rxjs';
+import { MANTEQ_FEATURES } from '../tokens/config.tokens';
+import { ManteqFeatureName } from '../models/config.model';
+import { CmsApiService } from './cms-api.service';
+import { ManteqPermissionService } from './permission.service';
+import { ManteqNavigationService } from './navigation.service';
+import { ManteqStore } from '../store/manteq-store';
+import { ManteqApiError } from '../errors/manteq-api-error';
+
+export type ManteqSearchResultType = 'document' | 'template' | 'emailTemplate' | 'trash';
+
+export interface ManteqSearchResult {
+  type: ManteqSearchResultType;
+  id: string;
+  label: string;
+  description?: string;
+  /** Screen that shows the item */
+  url: string;
+}
+
+/**
+ * Search documents, TMS templates, email templates and trash items in one call.
+ *
+ * Documents are searched on the server; the other lists come from ManteqStore and are
+ * filtered locally, so repeated searches reuse the cached collections.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqSearchService {
+  private cmsApi = inject(CmsApiService);
+  private store = inject(ManteqStore);
+  private features = inject(MANTEQ_FEATURES);
+  private permissions = inject(ManteqPermissionService);
+  private navigation = inject(ManteqNavigationService);
+
+  /**
+   * Results of every feature the user can view, at most `limit` per type.
+   * A failing source contributes no results instead of failing the search.
+   */
+  search(term: string, limit = 5): Observable<ManteqSearchResult[]> {
+    const query = term.trim().toLowerCase();
+    if (!query) {
+      return of([]);
+    }
+
+    const sources: Observable<ManteqSearchResult[]>[] = [];
+
+    const documentsUrl = this.screenUrl('documents');
+    if (documentsUrl) {
+      sources.push(this.cmsApi.getDocuments({ searchTerm: term.trim() }).pipe(
+        map(documents => documents.map(doc => ({
+          type: 'document' as const,
+          id: doc.id,
+          label: doc.name,
+          description: doc.type,
+          url: `${documentsUrl}/${doc.id}`
+        })))
+      ));
+    }
+
+    const templatesUrl = this.screenUrl('templates');
+    if (templatesUrl) {
+      sources.push(this.store.templates.load().pipe(
+        map(templates => templates
+          .filter(template => matches(query, template.name, template.category, template.description))
+          .map(template => ({
+            type: 'template' as const,
+            id: template.id,
+            label: template.name,
+            description: template.category,
+            url: `${templatesUrl}/${template.id}`
+          })))
+      ));
+    }
+
+    const emailsUrl = this.screenUrl('emails');
+    if (emailsUrl) {
+      sources.push(this.store.emailTemplates.load().pipe(
+        map(templates => templates
+          .filter(template => matches(query, template.name, template.subject, template.category))
+          .map(template => ({
+            type: 'emailTemplate' as const,
+            id: template.id,
+            label: template.name,
+            description: template.subject,
+            // Email templates have no detail screen; filter the list down to the match
+            url: `${emailsUrl}?q=${encodeURIComponent(template.name)}`
+          })))
+      ));
+    }
+
+    const trashUrl = this.screenUrl('trash');
+    if (trashUrl) {
+      sources.push(this.store.trash.load().pipe(
+        map(items => items
+          .filter(item => matches(query, item.name, item.category))
+          .map(item => ({
+            type: 'trash' as const,
+            id: item.id,
+            label: item.name,
+            description: item.type,
+            url: `${trashUrl}?q=${encodeURIComponent(item.name)}`
+          })))
+      ));
+    }
+
+    if (sources.length === 0) {
+      return of([]);
+    }
+
+    return forkJoin(sources.map(source => source.pipe(
+      map(results => results.slice(0, limit)),
+      catchError(error => {
+        // Searching must not raise error toasts for every keystroke
+        if (error instanceof ManteqApiError) error.markHandled();
+        return of([]);
+      })
+    ))).pipe(
+      map(groups => groups.flat())
+    );
+  }
+
+  /**
+   * URL of a feature screen the user may open, or null
+   */
+  private screenUrl(feature: ManteqFeatureName): string | null {
+    if (!this.features[feature] || !this.permissions.can(`${feature}.view`)) {
+      return null;
+    }
+    return this.navigation.featureUrl(feature);
+  }
+}
+
+function matches(query: string, ...fields: (string | undefined)[]): boolean {
+  return fields.some(field => field?.toLowerCase().includes(query));
+}
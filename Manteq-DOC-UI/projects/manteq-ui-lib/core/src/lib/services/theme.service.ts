@@ -0,0 +1,228 @@
+import { Injectable, DestroyRef, signal, computed, inject, isDevMode } from '@angular/core';
+import { MANTEQ_CONFIG } from '../tokens/config.tokens';
+import { ManteqColorScheme, ManteqContrastIssue, ManteqLibConfig } from '../models/config.model';
+import {
+  BRAND_TEXT_COLOR,
+  COLOR_SCHEME_STORAGE_KEY,
+  CSS_VARIABLES,
+  DEFAULT_DATE_LOCALES,
+  DEFAULT_THEME,
+  MANTEQ_COLOR_SCHEMES,
+  PALETTE_VARIABLE_PREFIXES,
+  SURFACE_COLORS,
+  WCAG_AA_CONTRAST
+} from '../constants/theme.constants';
+import {
+  ManteqPalette,
+  ManteqPaletteStep,
+  RgbaColor,
+  contrastRatio,
+  createPalette,
+  flattenColor,
+  parseColor,
+  toRgbTriplet
+} from '../utils/color.utils';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ThemeService {
+  private config = inject(MANTEQ_CONFIG, { optional: true });
+  private destroyRef = inject(DestroyRef);
+
+  // Signals for reactive theme state
+  private configSignal = signal<ManteqLibConfig>(this.config || DEFAULT_THEME);
+  private userColorScheme = signal<ManteqColorScheme | null>(this.readStoredColorScheme());
+  private systemPrefersDark = signal(false);
+  private contrastIssuesSignal = signal<ManteqContrastIssue[]>([]);
+  private reportedIssues = new Set<string>();
+
+  // Computed values
+  readonly primaryColor = computed(() => this.configSignal().primaryColor);
+  readonly accentColor = computed(() => this.configSignal().accentColor);
+  readonly fontStyle = computed(() => this.configSignal().fontStyle);
+  readonly companyName = computed(() => this.configSignal().companyName);
+  readonly companyLogo = computed(() => this.configSignal().companyLogo);
+  readonly disclaimer = computed(() => this.configSignal().disclaimer);
+  readonly locale = computed(() => this.configSignal().locale ?? DEFAULT_THEME.locale);
+  readonly dateLocale = computed(() => this.configSignal().dateLocale ?? DEFAULT_DATE_LOCALES[this.locale()]);
+  readonly timeZone = computed(() => this.configSignal().timeZone);
+
+  // Color scheme: the user's choice, then the configured one, then the OS setting
+  readonly colorScheme = computed(() => this.userColorScheme() ?? this.configSignal().colorScheme ?? 'system');
+  readonly isDarkMode = computed(() => {
+    const scheme = this.colorScheme();
+    return scheme === 'dark' || (scheme === 'system' && this.systemPrefersDark());
+  });
+
+  // Derived palettes (50-900) for the brand colors
+  readonly primaryPalette = computed(() => createPalette(this.resolveColor('primaryColor')));
+  readonly accentPalette = computed(() => createPalette(this.resolveColor('accentColor')));
+
+  // Brand color pairs that fail WCAG AA with the current config and scheme
+  readonly contrastIssues = this.contrastIssuesSignal.asReadonly();
+
+  constructor() {
+    this.watchSystemColorScheme();
+    this.applyTheme();
+  }
+
+  /**
+   * Apply theme by setting CSS custom properties
+   */
+  private applyTheme(): void {
+    const config = this.configSignal();
+    const root = document.documentElement;
+    const surfaces = SURFACE_COLORS[this.isDarkMode() ? 'dark' : 'light'];
+
+    // Base colors
+    root.style.setProperty(CSS_VARIABLES.PRIMARY_COLOR, config.primaryColor);
+    root.style.setProperty(CSS_VARIABLES.ACCENT_COLOR, config.accentColor);
+    root.style.setProperty(CSS_VARIABLES.FONT_FAMILY, config.fontStyle);
+    root.style.setProperty(CSS_VARIABLES.PRIMARY_RGB, toRgbTriplet(this.resolveColor('primaryColor')));
+    root.style.setProperty(CSS_VARIABLES.ACCENT_RGB, toRgbTriplet(this.resolveColor('accentColor')));
+
+    // Full palettes, plus the hover and light variations the components use
+    const primary = this.primaryPalette();
+    const accent = this.accentPalette();
+    this.setPalette(PALETTE_VARIABLE_PREFIXES.primary, primary);
+    this.setPalette(PALETTE_VARIABLE_PREFIXES.accent, accent);
+
+    root.style.setProperty(CSS_VARIABLES.PRIMARY_HOVER, primary[600]);
+    root.style.setProperty(CSS_VARIABLES.ACCENT_HOVER, accent[600]);
+    root.style.setProperty(CSS_VARIABLES.PRIMARY_LIGHT, primary[300]);
+    root.style.setProperty(CSS_VARIABLES.ACCENT_LIGHT, accent[300]);
+
+    // Neutral colors for the current scheme
+    root.style.setProperty(CSS_VARIABLES.SURFACE_COLOR, surfaces.surface);
+    root.style.setProperty(CSS_VARIABLES.SURFACE_MUTED, surfaces.surfaceMuted);
+    root.style.setProperty(CSS_VARIABLES.TEXT_COLOR, surfaces.text);
+    root.style.setProperty(CSS_VARIABLES.TEXT_MUTED, surfaces.textMuted);
+    root.style.setProperty(CSS_VARIABLES.BORDER_COLOR, surfaces.border);
+
+    this.checkContrast();
+  }
+
+  private setPalette(prefix: string, palette: ManteqPalette): void {
+    for (const step of Object.keys(palette)) {
+      document.documentElement.style.setProperty(`${prefix}-${step}`, palette[Number(step) as ManteqPaletteStep]);
+    }
+  }
+
+  /**
+   * Parsed brand color; falls back to the default when the configured value is not a color
+   */
+  private resolveColor(field: 'primaryColor' | 'accentColor'): RgbaColor {
+    return parseColor(this.configSignal()[field]) ?? parseColor(DEFAULT_THEME[field])!;
+  }
+
+  /**
+   * Compare brand colors with the text drawn on them and with the page surface.
+   * Failures are exposed through contrastIssues and logged once in development.
+   */
+  private checkContrast(): void {
+    const config = this.configSignal();
+    const surfaceColor = SURFACE_COLORS[this.isDarkMode() ? 'dark' : 'light'].surface;
+    const surface = parseColor(surfaceColor)!;
+    const brandText = parseColor(BRAND_TEXT_COLOR)!;
+
+    const pairs: [string, string, RgbaColor, string, RgbaColor][] = [
+      ['text on primaryColor', BRAND_TEXT_COLOR, brandText, config.primaryColor, this.resolveColor('primaryColor')],
+      ['text on accentColor', BRAND_TEXT_COLOR, brandText, config.accentColor, this.resolveColor('accentColor')],
+      ['primaryColor text on the page', config.primaryColor, this.resolveColor('primaryColor'), surfaceColor, surface]
+    ];
+
+    const issues: ManteqContrastIssue[] = [];
+    for (const [usage, foregroundValue, foreground, backgroundValue, background] of pairs) {
+      // Translucent colors are judged as they render on the page surface
+      const ratio = contrastRatio(flattenColor(foreground, surface), flattenColor(background, surface));
+      if (ratio < WCAG_AA_CONTRAST) {
+        issues.push({
+          usage,
+          foreground: foregroundValue,
+          background: backgroundValue,
+          ratio: Math.round(ratio * 100) / 100,
+          minimum: WCAG_AA_CONTRAST
+        });
+      }
+    }
+    this.contrastIssuesSignal.set(issues);
+
+    if (!isDevMode()) return;
+    for (const issue of issues) {
+      const message = `[Manteq] Contrast ${issue.ratio}:1 for ${issue.usage} (${issue.foreground} on ${issue.background}) ` +
+        `is below the WCAG AA minimum of ${issue.minimum}:1`;
+      if (!this.reportedIssues.has(message)) {
+        this.reportedIssues.add(message);
+        console.warn(message);
+      }
+    }
+  }
+
+  private watchSystemColorScheme(): void {
+    if (typeof window === 'undefined' || !window.matchMedia) return;
+
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const update = () => {
+      this.systemPrefersDark.set(query.matches);
+      this.applyTheme();
+    };
+    this.systemPrefersDark.set(query.matches);
+    query.addEventListener('change', update);
+
+    this.destroyRef.onDestroy(() => query.removeEventListener('change', update));
+  }
+
+  private readStoredColorScheme(): ManteqColorScheme | null {
+    try {
+      const stored = localStorage.getItem(COLOR_SCHEME_STORAGE_KEY) as ManteqColorScheme | null;
+      return stored && MANTEQ_COLOR_SCHEMES.includes(stored) ? stored : null;
+    } catch {
+      // Storage can be unavailable (private browsing, sandboxed iframes)
+      return null;
+    }
+  }
+
+  /**
+   * Switch between light, dark and the OS setting; the choice is remembered across visits
+   */
+  setColorScheme(scheme: ManteqColorScheme): void {
+    this.userColorScheme.set(scheme);
+    try {
+      localStorage.setItem(COLOR_SCHEME_STORAGE_KEY, scheme);
+    } catch {
+      // Keep the choice for this session only
+    }
+    this.applyTheme();
+  }
+
+  /**
+   * Flip between light and dark mode
+   */
+  toggleDarkMode(): void {
+    this.setColorScheme(this.isDarkMode() ? 'light' : 'dark');
+  }
+
+  /**
+   * Update theme configuration (optional - for dynamic theme changes)
+   */
+  updateConfig(config: Partial<ManteqLibConfig>): void {
+    this.configSignal.update(current => ({ ...current, ...config }));
+    this.applyTheme();
+  }
+
+  /**
+   * Set entire theme configuration (for parent app runtime updates)
+   */
+  setConfig(config: ManteqLibConfig): void {
+    this.configSignal.set(config);
+    this.applyTheme();
+  }
+
+  /**
+   * Get current configuration (for debugging or parent app access)
+   */
+  getCurrentConfig(): ManteqLibConfig {
+    return this.configSignal();
+  }
+}
@@ -0,0 +1,228 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TmsApiService } from './tms-api.service';
+import { API_BASE_URLS } from '../constants/api.constants';
+import { DocumentGenerationRequest, ExportFormat } from '../models/tms.models';
+
+describe('TmsApiService', () => {
+  const baseUrl = API_BASE_URLS.TMS;
+  let service: TmsApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(TmsApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  // ========== TEMPLATE REGISTRATION & MANAGEMENT ==========
+
+  it('registerTemplate should post the template file as multipart form data', () => {
+    const file = new File(['content'], 'quotation.docx');
+    service.registerTemplate('Quotation', file, 'Sales', 'Motor quotation').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/register`);
+    expect(req.request.method).toBe('POST');
+    const body = req.request.body as FormData;
+    expect(body.get('TemplateFile')).toBe(file);
+    expect(body.get('Name')).toBe('Quotation');
+    expect(body.get('Category')).toBe('Sales');
+    expect(body.get('Description')).toBe('Motor quotation');
+    req.flush({});
+  });
+
+  it('registerTemplate should omit the description when not given', () => {
+    service.registerTemplate('Quotation', new File(['content'], 'quotation.docx'), 'Sales').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/register`);
+    expect((req.request.body as FormData).has('Description')).toBeFalse();
+    req.flush({});
+  });
+
+  it('getTemplates should request all templates', () => {
+    service.getTemplates().subscribe(templates => {
+      expect(templates).toEqual([]);
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates`);
+    expect(req.request.method).toBe('GET');
+    req.flush([]);
+  });
+
+  it('getTemplate should request a single template', () => {
+    service.getTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1`);
+    expect(req.request.method).toBe('GET');
+    req.flush({});
+  });
+
+  it('getTemplateProperties should request the properties endpoint', () => {
+    service.getTemplateProperties('tpl-1').subscribe(response => {
+      expect(response.properties.length).toBe(0);
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/properties`);
+    expect(req.request.method).toBe('GET');
+    req.flush({ templateId: 'tpl-1', templateName: 'Quotation', properties: [] });
+  });
+
+  it('activateTemplate should post to the CMS activate endpoint', () => {
+    service.activateTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${API_BASE_URLS.CMS}/api/templates/tpl-1/activate`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'Template activated successfully' });
+  });
+
+  it('deactivateTemplate should post to the CMS deactivate endpoint', () => {
+    service.deactivateTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${API_BASE_URLS.CMS}/api/templates/tpl-1/deactivate`);
+    expect(req.request.method).toBe('POST');
+    req.flush({ message: 'Template deactivated successfully' });
+  });
+
+  it('deleteTemplate should send a DELETE', () => {
+    service.deleteTemplate('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush(null);
+  });
+
+  it('getTemplateAnalytics should request the analytics endpoint', () => {
+    service.getTemplateAnalytics('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/analytics`);
+    expect(req.request.method).toBe('GET');
+    req.flush({});
+  });
+
+  // ========== DOCUMENT GENERATION ==========
+
+  it('generateDocument should post the generation request', () => {
+    const request: DocumentGenerationRequest = {
+      templateId: 'tpl-1',
+      propertyValues: { CustomerName: 'ICS' },
+      exportFormat: ExportFormat.Pdf,
+      generatedBy: 'tester'
+    };
+    service.generateDocument(request).subscribe(response => {
+      expect(response.generationId).toBe('gen-1');
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/generate`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(request);
+    req.flush({ generationId: 'gen-1' });
+  });
+
+  it('downloadGeneratedDocument should request a blob', () => {
+    service.downloadGeneratedDocument('gen-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/download/gen-1`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('generateDocumentWithEmbeddings should post the request', () => {
+    service.generateDocumentWithEmbeddings({ templateId: 'tpl-1' }).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/generate-with-embeddings`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual({ templateId: 'tpl-1' });
+    req.flush({});
+  });
+
+  // ========== PLACEHOLDER & FILE OPERATIONS ==========
+
+  it('downloadPlaceholdersExcel should request a blob', () => {
+    service.downloadPlaceholdersExcel('tpl-1').subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/download-placeholders-excel`);
+    expect(req.request.method).toBe('GET');
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('extractPlaceholdersFromFile should post the template file', () => {
+    const file = new File(['content'], 'quotation.docx');
+    service.extractPlaceholdersFromFile(file).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/extract-placeholders`);
+    expect(req.request.method).toBe('POST');
+    expect((req.request.body as FormData).get('TemplateFile')).toBe(file);
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('parseExcelToJson should post the Excel file', () => {
+    const file = new File(['content'], 'values.xlsx');
+    service.parseExcelToJson(file).subscribe(values => {
+      expect(values).toEqual({ CustomerName: 'ICS' });
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/parse-excel`);
+    expect(req.request.method).toBe('POST');
+    expect((req.request.body as FormData).get('ExcelFile')).toBe(file);
+    req.flush({ CustomerName: 'ICS' });
+  });
+
+  // ========== TESTING ENDPOINTS ==========
+
+  it('testTemplateWithoutSaving should post both files and the export format', () => {
+    const templateFile = new File(['content'], 'quotation.docx');
+    const excelFile = new File(['content'], 'values.xlsx');
+    service.testTemplateWithoutSaving(templateFile, excelFile, ExportFormat.Pdf).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/test-template`);
+    expect(req.request.method).toBe('POST');
+    const body = req.request.body as FormData;
+    expect(body.get('TemplateFile')).toBe(templateFile);
+    expect(body.get('ExcelFile')).toBe(excelFile);
+    expect(body.get('ExportFormat')).toBe(ExportFormat.Pdf.toString());
+    expect(req.request.responseType).toBe('blob');
+    req.flush(new Blob(['content']));
+  });
+
+  it('testGenerateWithExcel should post the Excel file for a saved template', () => {
+    const excelFile = new File(['content'], 'values.xlsx');
+    service.testGenerateWithExcel('tpl-1', excelFile, ExportFormat.Word).subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-1/test-generate`);
+    expect(req.request.method).toBe('POST');
+    const body = req.request.body as FormData;
+    expect(body.get('ExcelFile')).toBe(excelFile);
+    expect(body.get('ExportFormat')).toBe(ExportFormat.Word.toString());
+    req.flush({});
+  });
+
+  // ========== UTILITY ENDPOINTS ==========
+
+  it('getTemplateTypes should request the template types', () => {
+    service.getTemplateTypes().subscribe(types => {
+      expect(types).toEqual([{ value: 0, name: 'Document' }]);
+    });
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/template-types`);
+    expect(req.request.method).toBe('GET');
+    req.flush([{ value: 0, name: 'Document' }]);
+  });
+
+  it('getExportFormats should request the export formats', () => {
+    service.getExportFormats().subscribe();
+
+    const req = httpMock.expectOne(`${baseUrl}/api/templates/export-formats`);
+    expect(req.request.method).toBe('GET');
+    req.flush([]);
+  });
+});
@@ -1,10 +1,13 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
-import { API_BASE_URLS, API_ENDPOINTS } from '../constants/api.constants';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import { ApiConfigService } from './api-config.service';
+import { longRunningRequest } from '../interceptors/retry.interceptor';
 import { 
   Template, 
   RegisterTemplateRequest, 
+  RegisterTemplateResponse,
   DocumentGenerationRequest, 
   DocumentGenerationResponse,
   TemplateProperty,
@@ -16,14 +19,18 @@ import {
 })
 export class TmsApiService {
   private http = inject(HttpClient);
-  private baseUrl = API_BASE_URLS.TMS;
+  private apiConfig = inject(ApiConfigService);
+
+  private get baseUrl(): string {
+    return this.apiConfig.getBaseUrl('TMS');
+  }
 
   // ========== TEMPLATE REGISTRATION & MANAGEMENT ==========
 
   /**
    * Register a new template
    */
-  registerTemplate(name: string, file: File, category: string, description?: string): Observable<any> {
+  registerTemplate(name: string, file: File, category: string, description?: string): Observable<RegisterTemplateResponse> {
     const formData = new FormData();
     formData.append('TemplateFile', file);
     formData.append('Name', name);
@@ -33,7 +40,7 @@ export class TmsApiService {
     }
     formData.append('CreatedBy', 'UI-User');
 
-    return this.http.post(
+    return this.http.post<RegisterTemplateResponse>(
       `${this.baseUrl}${API_ENDPOINTS.TMS.TEMPLATES_REGISTER}`,
       formData
     );
@@ -67,21 +74,22 @@ export class TmsApiService {
   }
 
   /**
-   * Activate template
+   * Activate template - TMS has no status endpoints, its templates are stored in the CMS
    */
   activateTemplate(id: string): Observable<void> {
     return this.http.post<void>(
-      `${this.baseUrl}${API_ENDPOINTS.TMS.TEMPLATES_INCREMENT_SUCCESS(id)}`,
+      `${this.apiConfig.getBaseUrl('CMS')}${API_ENDPOINTS.CMS.TEMPLATES_ACTIVATE(id)}`,
       {}
     );
   }
 
   /**
-   * Deactivate template
+   * Deactivate template - TMS has no status endpoints, its templates are stored in the CMS
    */
   deactivateTemplate(id: string): Observable<void> {
-    return this.http.delete<void>(
-      `${this.baseUrl}${API_ENDPOINTS.TMS.TEMPLATES_DELETE(id)}`
+    return this.http.post<void>(
+      `${this.apiConfig.getBaseUrl('CMS')}${API_ENDPOINTS.CMS.TEMPLATES_DEACTIVATE(id)}`,
+      {}
     );
   }
 
@@ -111,7 +119,8 @@ export class TmsApiService {
   generateDocument(request: DocumentGenerationRequest): Observable<DocumentGenerationResponse> {
     return this.http.post<DocumentGenerationResponse>(
       `${this.baseUrl}${API_ENDPOINTS.TMS.TEMPLATES_GENERATE}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
@@ -131,7 +140,8 @@ export class TmsApiService {
   generateDocumentWithEmbeddings(request: any): Observable<DocumentGenerationResponse> {
     return this.http.post<DocumentGenerationResponse>(
       `${this.baseUrl}${API_ENDPOINTS.TMS.TEMPLATES_GENERATE_WITH_EMBEDDINGS}`,
-      request
+      request,
+      longRunningRequest()
     );
   }
 
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { ManteqTranslationService } from './translation.service';
+import { MANTEQ_CONFIG, MANTEQ_TRANSLATIONS } from '../tokens/config.tokens';
+import { DEFAULT_THEME } from '../constants/theme.constants';
+import { MANTEQ_EN } from '../i18n/translations.en';
+import { MANTEQ_AR } from '../i18n/translations.ar';
+import { ManteqLocale } from '../models/config.model';
+
+describe('ManteqTranslationService', () => {
+  function createService(locale: ManteqLocale): ManteqTranslationService {
+    TestBed.configureTestingModule({
+      providers: [{ provide: MANTEQ_CONFIG, useValue: { ...DEFAULT_THEME, locale } }]
+    });
+    return TestBed.inject(ManteqTranslationService);
+  }
+
+  it('should translate English keys and fill placeholders', () => {
+    const service = createService('en');
+
+    expect(service.direction()).toBe('ltr');
+    expect(service.translate('documents.messages.deleted')).toBe('Document moved to trash');
+    expect(service.translate('trash.messages.restored', { name: 'Q3 report' })).toBe('Q3 report restored successfully');
+  });
+
+  it('should switch to Arabic and right-to-left at runtime', () => {
+    const service = createService('en');
+
+    service.setLocale('ar');
+
+    expect(service.locale()).toBe('ar');
+    expect(service.direction()).toBe('rtl');
+    expect(service.translate('common.cancel')).toBe(MANTEQ_AR.common.cancel);
+  });
+
+  it('should fall back to English for strings missing from a bundle', () => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MANTEQ_CONFIG, useValue: { ...DEFAULT_THEME, locale: 'ar' } },
+        {
+          provide: MANTEQ_TRANSLATIONS,
+          useValue: { en: MANTEQ_EN, ar: { ...MANTEQ_AR, common: { ...MANTEQ_AR.common, yes: undefined } } }
+        }
+      ]
+    });
+    const service = TestBed.inject(ManteqTranslationService);
+
+    expect(service.translate('common.yes')).toBe('Yes');
+  });
+
+  it('should leave unknown placeholders untouched', () => {
+    const service = createService('en');
+
+    expect(service.translate('emails.form.plainTextPlaceholder', { name: 'x' })).toContain('{CustomerName}');
+  });
+});
@@ -0,0 +1,53 @@
+import { Injectable, computed, inject } from '@angular/core';
+import { ThemeService } from './theme.service';
+import { MANTEQ_TRANSLATIONS } from '../tokens/config.tokens';
+import { ManteqLocale } from '../models/config.model';
+import { RTL_LOCALES } from '../constants/theme.constants';
+import { ManteqTranslationKey, ManteqTranslations } from '../i18n/translations.en';
+
+export type ManteqTranslationParams = Record<string, string | number>;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqTranslationService {
+  private themeService = inject(ThemeService);
+  private bundles = inject(MANTEQ_TRANSLATIONS);
+
+  // Locale comes from ManteqLibConfig so it follows runtime theme updates
+  readonly locale = this.themeService.locale;
+  readonly direction = computed<'ltr' | 'rtl'>(() => RTL_LOCALES.includes(this.locale()) ? 'rtl' : 'ltr');
+  readonly isRtl = computed(() => this.direction() === 'rtl');
+
+  /**
+   * Switch the active locale
+   */
+  setLocale(locale: ManteqLocale): void {
+    this.themeService.updateConfig({ locale });
+  }
+
+  /**
+   * Translate a key for the active locale, filling `{name}` placeholders from params.
+   * Falls back to English, then to the key itself. Reactive inside computed() and templates.
+   */
+  translate(key: ManteqTranslationKey, params?: ManteqTranslationParams): string {
+    const text = this.lookup(this.bundles[this.locale()], key)
+      ?? this.lookup(this.bundles.en, key)
+      ?? key;
+
+    if (!params) {
+      return text;
+    }
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  }
+
+  private lookup(bundle: ManteqTranslations | undefined, key: string): string | undefined {
+    let value: unknown = bundle;
+    for (const part of key.split('.')) {
+      value = (value as Record<string, unknown> | undefined)?.[part];
+    }
+    return typeof value === 'string' ? value : undefined;
+  }
+}
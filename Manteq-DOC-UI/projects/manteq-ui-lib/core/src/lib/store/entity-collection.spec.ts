@@ -0,0 +1,72 @@
+import { Observable, Subject, of } from 'rxjs';
+import { EntityCollection } from './entity-collection';
+
+interface Item {
+  id: string;
+}
+
+describe('EntityCollection', () => {
+  let requests: Subject<Item[]>[];
+  let collection: EntityCollection<Item>;
+
+  beforeEach(() => {
+    requests = [];
+    collection = new EntityCollection<Item>(() => {
+      const request = new Subject<Item[]>();
+      requests.push(request);
+      return request;
+    });
+  });
+
+  function respond(index: number, items: Item[]): void {
+    requests[index].next(items);
+    requests[index].complete();
+  }
+
+  it('should share one request between concurrent loads and serve the cache afterwards', () => {
+    collection.load().subscribe();
+    collection.load().subscribe();
+    expect(requests.length).toBe(1);
+
+    respond(0, [{ id: 'a' }]);
+    let cached: Item[] = [];
+    collection.load().subscribe(items => cached = items);
+
+    expect(requests.length).toBe(1);
+    expect(cached).toEqual([{ id: 'a' }]);
+    expect(collection.loading()).toBeFalse();
+  });
+
+  it('should refetch when invalidated while a request is in flight', () => {
+    let loaded: Item[] = [];
+    collection.load().subscribe(items => loaded = items);
+
+    // e.g. an upload finishing during the first load
+    collection.invalidate();
+    respond(0, [{ id: 'a' }]);
+
+    expect(requests.length).toBe(2);
+    expect(collection.loaded()).toBeFalse();
+    expect(collection.loading()).toBeTrue();
+
+    respond(1, [{ id: 'a' }, { id: 'b' }]);
+
+    expect(loaded).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(collection.entities()).toEqual([{ id: 'a' }, { id: 'b' }]);
+    let cached: Item[] = [];
+    collection.load().subscribe(items => cached = items);
+    expect(requests.length).toBe(2);
+    expect(cached).toEqual(loaded);
+  });
+
+  it('should refetch in the background when a loaded collection is invalidated', () => {
+    const fetcher = jasmine.createSpy<() => Observable<Item[]>>('fetcher').and.returnValues(of([{ id: 'a' }]), of([]));
+    const items = new EntityCollection<Item>(fetcher);
+    items.load().subscribe();
+
+    items.invalidate();
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(items.entities()).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { signal } from '@angular/core';
+import { Observable, finalize, of, shareReplay, switchMap, tap } from 'rxjs';
+
+/**
+ * Cached list of entities loaded from an API service.
+ *
+ * Concurrent loads share one request, and the list stays cached until it is invalidated.
+ * A request that was running when the collection was invalidated is repeated before it is cached.
+ * State is exposed as read-only signals so components and host apps share one copy.
+ */
+export class EntityCollection<T extends { id: string }> {
+  private entitiesSignal = signal<T[]>([]);
+  private loadingSignal = signal(false);
+  private loadedSignal = signal(false);
+  private errorSignal = signal<unknown>(null);
+
+  private inFlight$: Observable<T[]> | null = null;
+  private stale = true;
+  // Bumped by invalidate() so a fetch started before a mutation is not cached as current
+  private generation = 0;
+
+  readonly entities = this.entitiesSignal.asReadonly();
+  readonly loading = this.loadingSignal.asReadonly();
+  readonly loaded = this.loadedSignal.asReadonly();
+  readonly error = this.errorSignal.asReadonly();
+
+  constructor(private fetcher: () => Observable<T[]>) {}
+
+  /**
+   * Load entities, using the cache unless it is stale or `force` is set
+   */
+  load(force: boolean = false): Observable<T[]> {
+    if (!force && !this.stale && this.loadedSignal()) {
+      return of(this.entitiesSignal());
+    }
+
+    if (!this.inFlight$) {
+      this.loadingSignal.set(true);
+      this.inFlight$ = this.fetchLatest().pipe(
+        tap({
+          next: entities => {
+            this.entitiesSignal.set(entities);
+            this.loadedSignal.set(true);
+            this.errorSignal.set(null);
+            this.stale = false;
+          },
+          error: error => this.errorSignal.set(error)
+        }),
+        finalize(() => {
+          this.loadingSignal.set(false);
+          this.inFlight$ = null;
+        }),
+        shareReplay(1)
+      );
+    }
+
+    return this.inFlight$;
+  }
+
+  /**
+   * Mark the cache as stale; if it was already loaded, refetch in the background
+   */
+  invalidate(): void {
+    this.generation++;
+    this.stale = true;
+    if (this.loadedSignal()) {
+      // Failures are reported by the error interceptor; the previous list is kept
+      this.load().subscribe({ error: () => undefined });
+    }
+  }
+
+  private fetchLatest(): Observable<T[]> {
+    const generation = this.generation;
+    return this.fetcher().pipe(
+      switchMap(entities => generation === this.generation ? of(entities) : this.fetchLatest())
+    );
+  }
+
+  find(id: string): T | undefined {
+    return this.entitiesSignal().find(entity => entity.id === id);
+  }
+
+  /**
+   * Apply a local change to a cached entity without refetching
+   */
+  patch(id: string, changes: Partial<T>): void {
+    this.entitiesSignal.update(entities =>
+      entities.map(entity => entity.id === id ? { ...entity, ...changes } : entity)
+    );
+  }
+
+  remove(id: string): void {
+    this.entitiesSignal.update(entities => entities.filter(entity => entity.id !== id));
+  }
+
+  clear(): void {
+    this.entitiesSignal.set([]);
+  }
+}
@@ -0,0 +1,187 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpEvent, HttpEventType } from '@angular/common/http';
+import { Observable, map, tap } from 'rxjs';
+import { CmsApiService } from '../services/cms-api.service';
+import { TmsApiService } from '../services/tms-api.service';
+import { EmailApiService } from '../services/email-api.service';
+import { CmsTrashApiService, TrashItem } from '../services/cms-trash-api.service';
+import { Document } from '../models/cms.models';
+import { RegisterTemplateResponse, Template } from '../models/tms.models';
+import { CreateEmailTemplateRequest, EmailTemplate, UpdateEmailTemplateRequest } from '../models/email.models';
+import { EntityCollection } from './entity-collection';
+
+/**
+ * Shared cache of documents, templates, email templates and trash items.
+ *
+ * Mutations made through the store keep every collection in sync, so components and
+ * host apps reading the same signals never need to refetch whole lists themselves.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ManteqStore {
+  private cmsApi = inject(CmsApiService);
+  private tmsApi = inject(TmsApiService);
+  private emailApi = inject(EmailApiService);
+  private trashApi = inject(CmsTrashApiService);
+
+  readonly documents = new EntityCollection<Document>(() => this.cmsApi.getDocuments());
+  readonly templates = new EntityCollection<Template>(() => this.tmsApi.getTemplates());
+  readonly emailTemplates = new EntityCollection<EmailTemplate>(() => this.emailApi.getEmailTemplates());
+  readonly trash = new EntityCollection<TrashItem>(() =>
+    this.trashApi.getTrashItems().pipe(
+      map(response => [...response.documents, ...response.templates, ...response.emailTemplates])
+    )
+  );
+
+  /**
+   * Drop every cached collection (e.g. after the host app changed data directly)
+   */
+  invalidateAll(): void {
+    this.documents.invalidate();
+    this.templates.invalidate();
+    this.emailTemplates.invalidate();
+    this.trash.invalidate();
+  }
+
+  // ========== DOCUMENTS ==========
+
+  uploadDocument(name: string, file: File, type?: string): Observable<Document> {
+    return this.cmsApi.uploadDocument(name, file, type).pipe(
+      // Reload to get the complete server-side data
+      tap(() => this.documents.invalidate())
+    );
+  }
+
+  uploadDocumentWithProgress(name: string, file: File, type?: string): Observable<HttpEvent<Document>> {
+    return this.cmsApi.uploadDocumentWithProgress(name, file, type).pipe(
+      tap(event => {
+        if (event.type === HttpEventType.Response) {
+          this.documents.invalidate();
+        }
+      })
+    );
+  }
+
+  setDocumentActive(id: string, isActive: boolean): Observable<void> {
+    const request = isActive ? this.cmsApi.activateDocument(id) : this.cmsApi.deactivateDocument(id);
+    return request.pipe(tap(() => this.documents.patch(id, { isActive })));
+  }
+
+  deleteDocument(id: string): Observable<void> {
+    return this.cmsApi.deleteDocument(id).pipe(
+      tap(() => {
+        this.documents.remove(id);
+        this.trash.invalidate();
+      })
+    );
+  }
+
+  // ========== TMS TEMPLATES ==========
+
+  registerTemplate(name: string, file: File, category: string, description?: string): Observable<RegisterTemplateResponse> {
+    return this.tmsApi.registerTemplate(name, file, category, description).pipe(
+      tap(() => {
+        this.templates.invalidate();
+        // Template files are stored as CMS documents
+        this.documents.invalidate();
+      })
+    );
+  }
+
+  setTemplateActive(id: string, isActive: boolean): Observable<void> {
+    const request = isActive ? this.tmsApi.activateTemplate(id) : this.tmsApi.deactivateTemplate(id);
+    return request.pipe(
+      tap(() => {
+        this.templates.invalidate();
+        this.trash.invalidate();
+      })
+    );
+  }
+
+  deleteTemplate(id: string): Observable<void> {
+    return this.tmsApi.deleteTemplate(id).pipe(
+      tap(() => {
+        this.templates.remove(id);
+        this.trash.invalidate();
+      })
+    );
+  }
+
+  // ========== EMAIL TEMPLATES ==========
+
+  createEmailTemplate(request: CreateEmailTemplateRequest): Observable<EmailTemplate> {
+    return this.emailApi.createEmailTemplate(request).pipe(
+      tap(() => this.emailTemplates.invalidate())
+    );
+  }
+
+  updateEmailTemplate(id: string, request: UpdateEmailTemplateRequest): Observable<EmailTemplate> {
+    return this.emailApi.updateEmailTemplate(id, request).pipe(
+      tap(() => this.emailTemplates.invalidate())
+    );
+  }
+
+  uploadCustomTemplate(id: string, file: File): Observable<void> {
+    return this.emailApi.uploadCustomTemplate(id, file).pipe(
+      tap(() => this.emailTemplates.invalidate())
+    );
+  }
+
+  setEmailTemplateActive(id: string, isActive: boolean): Observable<void> {
+    const request = isActive
+      ? this.emailApi.activateEmailTemplate(id)
+      : this.emailApi.deactivateEmailTemplate(id);
+    return request.pipe(tap(() => this.emailTemplates.patch(id, { isActive })));
+  }
+
+  deleteEmailTemplate(id: string): Observable<void> {
+    return this.emailApi.deleteEmailTemplate(id).pipe(
+      tap(() => {
+        this.emailTemplates.remove(id);
+        this.trash.invalidate();
+      })
+    );
+  }
+
+  // ========== TRASH ==========
+
+  restoreTrashItem(item: TrashItem): Observable<void> {
+    const request = item.type === 'Document'
+      ? this.trashApi.restoreDocument(item.id)
+      : item.type === 'Template'
+      ? this.trashApi.restoreTemplate(item.id)
+      : this.trashApi.restoreEmailTemplate(item.id);
+
+    return request.pipe(
+      tap(() => {
+        this.trash.remove(item.id);
+        this.invalidateSourceOf(item);
+      })
+    );
+  }
+
+  permanentlyDeleteTrashItem(item: TrashItem): Observable<void> {
+    const request = item.type === 'Document'
+      ? this.trashApi.permanentlyDeleteDocument(item.id)
+      : item.type === 'Template'
+      ? this.trashApi.permanentlyDeleteTemplate(item.id)
+      : this.trashApi.permanentlyDeleteEmailTemplate(item.id);
+
+    return request.pipe(tap(() => this.trash.remove(item.id)));
+  }
+
+  emptyTrash(): Observable<void> {
+    return this.trashApi.emptyTrash().pipe(tap(() => this.trash.clear()));
+  }
+
+  private invalidateSourceOf(item: TrashItem): void {
+    if (item.type === 'Document') {
+      this.documents.invalidate();
+    } else if (item.type === 'Template') {
+      this.templates.invalidate();
+    } else {
+      this.emailTemplates.invalidate();
+    }
+  }
+}
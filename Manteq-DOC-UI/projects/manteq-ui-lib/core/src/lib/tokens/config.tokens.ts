@@ -0,0 +1,79 @@
+import { InjectionToken } from '@angular/core';
+import {
+  ManteqApiConfig,
+  ManteqAuthProvider,
+  ManteqFeatures,
+  ManteqHttpConfig,
+  ManteqLibConfig,
+  ManteqLocale,
+  ManteqMockBackendConfig,
+  ManteqNavItem,
+  ManteqRolePermissions,
+  UserContext
+} from '../models/config.model';
+import {
+  DEFAULT_HTTP_CONFIG,
+  DEFAULT_MANTEQ_FEATURES,
+  DEFAULT_MOCK_BACKEND_CONFIG,
+  DEFAULT_NAV_ITEMS,
+  DEFAULT_ROLE_PERMISSIONS
+} from '../constants/api.constants';
+import { MANTEQ_EN, ManteqTranslations } from '../i18n/translations.en';
+import { MANTEQ_AR } from '../i18n/translations.ar';
+
+export const MANTEQ_CONFIG = new InjectionToken<ManteqLibConfig>('MANTEQ_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({
+    companyName: 'Doc & Email Portal',
+    companyLogo: 'https://cdn-icons-png.flaticon.com/512/861/861377.png',
+    primaryColor: '#2c3e50',
+    accentColor: '#3498db',
+    fontStyle: 'Inter, system-ui, sans-serif',
+    disclaimer: 'With ❤️ By Manteq Team'
+  })
+});
+
+export const USER_CONTEXT = new InjectionToken<UserContext>('USER_CONTEXT', {
+  providedIn: 'root',
+  factory: () => ({
+    email: 'user@example.com',
+    name: 'Guest User'
+  })
+});
+
+export const MANTEQ_API_CONFIG = new InjectionToken<ManteqApiConfig>('MANTEQ_API_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({})
+});
+
+export const MANTEQ_AUTH_PROVIDER = new InjectionToken<ManteqAuthProvider>('MANTEQ_AUTH_PROVIDER');
+
+export const MANTEQ_HTTP_CONFIG = new InjectionToken<ManteqHttpConfig>('MANTEQ_HTTP_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_HTTP_CONFIG
+});
+
+export const MANTEQ_MOCK_BACKEND_CONFIG = new InjectionToken<ManteqMockBackendConfig>('MANTEQ_MOCK_BACKEND_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MOCK_BACKEND_CONFIG
+});
+
+export const MANTEQ_FEATURES = new InjectionToken<ManteqFeatures>('MANTEQ_FEATURES', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MANTEQ_FEATURES
+});
+
+export const MANTEQ_NAV_ITEMS = new InjectionToken<ManteqNavItem[]>('MANTEQ_NAV_ITEMS', {
+  providedIn: 'root',
+  factory: () => DEFAULT_NAV_ITEMS
+});
+
+export const MANTEQ_ROLE_PERMISSIONS = new InjectionToken<ManteqRolePermissions>('MANTEQ_ROLE_PERMISSIONS', {
+  providedIn: 'root',
+  factory: () => DEFAULT_ROLE_PERMISSIONS
+});
+
+export const MANTEQ_TRANSLATIONS = new InjectionToken<Record<ManteqLocale, ManteqTranslations>>('MANTEQ_TRANSLATIONS', {
+  providedIn: 'root',
+  factory: () => ({ en: MANTEQ_EN, ar: MANTEQ_AR })
+});
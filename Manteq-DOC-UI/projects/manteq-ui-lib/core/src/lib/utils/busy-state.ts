@@ -0,0 +1,48 @@
+import { Signal, computed, signal } from '@angular/core';
+import { MonoTypeOperatorFunction, Observable, defer, finalize } from 'rxjs';
+
+/**
+ * Keys (usually entity ids) with an operation in progress
+ */
+export interface ManteqBusyState {
+  readonly keys: Signal<ReadonlySet<string>>;
+  /** Any key is busy */
+  readonly any: Signal<boolean>;
+  /** Reactive when called inside computed() or a template */
+  isBusy(key: string): boolean;
+  /** Mark `key` busy from subscription until the source completes, fails or is unsubscribed */
+  track<T>(key: string): MonoTypeOperatorFunction<T>;
+}
+
+/**
+ * Per-row busy flags, so a single row shows its progress while the rest of the screen
+ * stays usable.
+ *
+ * ```ts
+ * busy = manteqBusyState();
+ * this.store.deleteDocument(doc.id).pipe(this.busy.track(doc.id)).subscribe();
+ * ```
+ */
+export function manteqBusyState(): ManteqBusyState {
+  const keys = signal<ReadonlySet<string>>(new Set());
+
+  const update = (key: string, busy: boolean) => keys.update(current => {
+    const next = new Set(current);
+    if (busy) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    return next;
+  });
+
+  return {
+    keys: keys.asReadonly(),
+    any: computed(() => keys().size > 0),
+    isBusy: key => keys().has(key),
+    track: <T>(key: string) => (source: Observable<T>) => defer(() => {
+      update(key, true);
+      return source.pipe(finalize(() => update(key, false)));
+    })
+  };
+}
@@ -0,0 +1,39 @@
+import { contrastRatio, createPalette, flattenColor, parseColor, toHex } from './color.utils';
+
+describe('color utils', () => {
+  it('should parse every supported notation', () => {
+    expect(parseColor('#2c3e50')).toEqual({ r: 44, g: 62, b: 80, a: 1 });
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor('#16098dff')).toEqual({ r: 22, g: 9, b: 141, a: 1 });
+    expect(parseColor('#16098d80')!.a).toBeCloseTo(0.5, 2);
+    expect(parseColor('rgb(44, 62, 80)')).toEqual({ r: 44, g: 62, b: 80, a: 1 });
+    expect(parseColor('rgba(44, 62, 80, 0.5)')).toEqual({ r: 44, g: 62, b: 80, a: 0.5 });
+    expect(parseColor('rgb(44 62 80 / 50%)')).toEqual({ r: 44, g: 62, b: 80, a: 0.5 });
+    expect(parseColor('RebeccaPurple')).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+  });
+
+  it('should reject values that are not colors', () => {
+    expect(parseColor('#12345')).toBeNull();
+    expect(parseColor('rgb(1, 2)')).toBeNull();
+    expect(parseColor('not-a-color')).toBeNull();
+    // Object.prototype keys are not color names
+    expect(parseColor('constructor')).toBeNull();
+    expect(parseColor('toString')).toBeNull();
+  });
+
+  it('should derive a palette around the base color', () => {
+    const palette = createPalette(parseColor('#16098dff')!);
+
+    expect(palette[500]).toBe('#16098d');
+    expect(palette[50]).toBe('#e8e6f4');
+    expect(palette[900]).toBe('#090438');
+  });
+
+  it('should compute WCAG contrast ratios', () => {
+    const white = parseColor('white')!;
+
+    expect(contrastRatio(parseColor('black')!, white)).toBeCloseTo(21, 1);
+    expect(contrastRatio(parseColor('#3498db')!, white)).toBeCloseTo(3.15, 2);
+    expect(toHex(flattenColor(parseColor('rgba(0, 0, 0, 0.5)')!, white))).toBe('#808080');
+  });
+});
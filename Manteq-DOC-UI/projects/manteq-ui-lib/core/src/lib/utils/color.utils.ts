@@ -0,0 +1,169 @@
+/**
+ * Color parsing and derivation used by ThemeService.
+ * Accepts #rgb, #rgba, #rrggbb, #rrggbbaa, rgb()/rgba() and CSS named colors.
+ */
+
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  /** 0 (transparent) to 1 (opaque) */
+  a: number;
+}
+
+/**
+ * Shade steps of a palette; 500 is the configured color itself
+ */
+export type ManteqPaletteStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+
+export type ManteqPalette = Record<ManteqPaletteStep, string>;
+
+// Positive weights mix with white, negative ones with black
+const PALETTE_WEIGHTS: Record<ManteqPaletteStep, number> = {
+  50: 0.9, 100: 0.8, 200: 0.6, 300: 0.4, 400: 0.2, 500: 0, 600: -0.15, 700: -0.3, 800: -0.45, 900: -0.6
+};
+
+const WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+
+const HEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_FUNCTION = /^rgba?\(\s*([^)]+)\)$/i;
+
+// CSS Color Level 4 named colors
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32'
+};
+
+/**
+ * Parse a CSS color; returns null for anything that is not a supported color
+ */
+export function parseColor(value: string): RgbaColor | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (Object.hasOwn(NAMED_COLORS, color)) return parseHex(NAMED_COLORS[color]);
+  if (HEX.test(color)) return parseHex(color.slice(1));
+
+  const match = RGB_FUNCTION.exec(color);
+  return match ? parseRgbArguments(match[1]) : null;
+}
+
+function parseHex(hex: string): RgbaColor {
+  const digits = hex.length <= 4 ? [...hex].map(digit => digit + digit).join('') : hex;
+  const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16);
+  return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+}
+
+/**
+ * Handles both `rgb(44, 62, 80, 0.5)` and `rgb(44 62 80 / 50%)`
+ */
+function parseRgbArguments(args: string): RgbaColor | null {
+  const parts = args.split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (parts.length !== 3 && parts.length !== 4) return null;
+
+  const [r, g, b] = parts.slice(0, 3).map(part => parseComponent(part, 255));
+  const a = parts[3] === undefined ? 1 : parseComponent(parts[3], 1);
+  if ([r, g, b, a].some(component => component === null)) return null;
+
+  return { r: r!, g: g!, b: b!, a: a! };
+}
+
+function parseComponent(part: string, max: number): number | null {
+  const isPercent = part.endsWith('%');
+  const number = Number(isPercent ? part.slice(0, -1) : part);
+  if (!Number.isFinite(number)) return null;
+
+  const value = isPercent ? (number / 100) * max : number;
+  return Math.min(max, Math.max(0, value));
+}
+
+/**
+ * Opaque `#rrggbb`; transparency is dropped
+ */
+export function toHex({ r, g, b }: RgbaColor): string {
+  return '#' + [r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Channels as `r, g, b` for use in `rgba(var(--x-rgb), 0.25)`
+ */
+export function toRgbTriplet({ r, g, b }: RgbaColor): string {
+  return [r, g, b].map(Math.round).join(', ');
+}
+
+/**
+ * Mix `color` with `other`; weight 0 keeps `color`, 1 returns `other`
+ */
+export function mixColors(color: RgbaColor, other: RgbaColor, weight: number): RgbaColor {
+  const mix = (from: number, to: number) => from + (to - from) * weight;
+  return { r: mix(color.r, other.r), g: mix(color.g, other.g), b: mix(color.b, other.b), a: mix(color.a, other.a) };
+}
+
+/**
+ * Paint a translucent color over an opaque background, as the browser would
+ */
+export function flattenColor(color: RgbaColor, background: RgbaColor): RgbaColor {
+  return { ...mixColors(background, color, color.a), a: 1 };
+}
+
+/**
+ * Tints (50-400) and shades (600-900) around the base color
+ */
+export function createPalette(base: RgbaColor): ManteqPalette {
+  const opaque = { ...base, a: 1 };
+  const palette = {} as ManteqPalette;
+
+  for (const [step, weight] of Object.entries(PALETTE_WEIGHTS)) {
+    const target = weight >= 0 ? WHITE : BLACK;
+    palette[Number(step) as ManteqPaletteStep] = toHex(mixColors(opaque, target, Math.abs(weight)));
+  }
+  return palette;
+}
+
+/**
+ * WCAG 2.x relative luminance of an opaque color
+ */
+export function relativeLuminance({ r, g, b }: RgbaColor): number {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+/**
+ * WCAG contrast ratio, from 1 (identical) to 21 (black on white)
+ */
+export function contrastRatio(first: RgbaColor, second: RgbaColor): number {
+  const [lighter, darker] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
@@ -0,0 +1,7 @@
+import { escapeHtml } from './html.utils';
+
+describe('escapeHtml', () => {
+  it('should escape markup and quotes', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
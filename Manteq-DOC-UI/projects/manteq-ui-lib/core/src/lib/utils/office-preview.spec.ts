@@ -0,0 +1,85 @@
+import { renderOfficePreview } from './office-preview';
+
+/**
+ * Minimal uncompressed ZIP archive (CRCs are not checked by the reader)
+ */
+function zip(files: Record<string, string>): Blob {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...local, ...central, new Uint8Array(end.buffer)]);
+}
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+describe('renderOfficePreview', () => {
+  it('should render Word headings, formatting, lists and tables', async () => {
+    const html = await renderOfficePreview(zip({
+      'word/document.xml': `<w:document ${W}><w:body>
+        <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Quotation</w:t></w:r></w:p>
+        <w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Total:</w:t></w:r><w:r><w:t xml:space="preserve"> 5 &lt;USD&gt;</w:t></w:r></w:p>
+        <w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>First item</w:t></w:r></w:p>
+        <w:tbl><w:tr><w:tc><w:p><w:r><w:t>Cell</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+      </w:body></w:document>`
+    }), 'docx');
+
+    expect(html).toContain('<h1>Quotation</h1>');
+    expect(html).toContain('<p><strong>Total:</strong> 5 &lt;USD&gt;</p>');
+    expect(html).toContain('<ul><li>First item</li></ul>');
+    expect(html).toContain('<table><tr><td><p>Cell</p></td></tr></table>');
+  });
+
+  it('should render every sheet of a workbook with shared strings', async () => {
+    const html = await renderOfficePreview(zip({
+      'xl/workbook.xml': `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"
+        xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+        <sheets><sheet name="Census" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+        <Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`,
+      'xl/sharedStrings.xml': `<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>Name</t></si></sst>`,
+      'xl/worksheets/sheet1.xml': `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1"><v>42</v></c></row>
+      </sheetData></worksheet>`
+    }), 'xlsx');
+
+    expect(html).toContain('<h2 class="sheet">Census</h2>');
+    expect(html).toContain('<tr><th></th><th>A</th><th>B</th><th>C</th></tr>');
+    expect(html).toContain('<tr><th>1</th><td>Name</td><td></td><td>42</td></tr>');
+  });
+
+  it('should reject files that are not Office archives', async () => {
+    await expectAsync(renderOfficePreview(new Blob(['plain text']), 'docx')).toBeRejected();
+  });
+});
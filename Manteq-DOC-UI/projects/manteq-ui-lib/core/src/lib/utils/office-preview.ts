@@ -0,0 +1,291 @@
+import { escapeHtml } from './html.utils';
+
+/**
+ * Best-effort HTML rendering of Office Open XML files (.docx, .xlsx) without third-party
+ * libraries. Only text, basic formatting, lists and tables are kept - images, charts,
+ * formulas and page layout are not. Relies on DecompressionStream, available in all
+ * current browsers.
+ */
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Keep very large workbooks responsive
+const MAX_SHEETS = 10;
+const MAX_ROWS = 500;
+const MAX_COLUMNS = 50;
+
+const PREVIEW_STYLES = `
+  body { margin: 0; padding: 1.5rem; font: 14px/1.5 system-ui, sans-serif; color: #212529; background: #fff; }
+  table { border-collapse: collapse; margin: 0.75rem 0; }
+  td, th { border: 1px solid #dee2e6; padding: 0.25rem 0.5rem; vertical-align: top; }
+  th { background: #f8f9fa; font-weight: 600; text-align: center; }
+  h2.sheet { font-size: 1rem; margin: 1.5rem 0 0.5rem; }
+  h2.sheet:first-child { margin-top: 0; }
+  p { margin: 0 0 0.5rem; white-space: pre-wrap; }
+  li { white-space: pre-wrap; }
+`;
+
+export type OfficePreviewFormat = 'docx' | 'xlsx';
+
+/**
+ * Render a Word document or Excel workbook as a standalone HTML page
+ * (meant for a sandboxed iframe's srcdoc)
+ */
+export async function renderOfficePreview(file: Blob, format: OfficePreviewFormat): Promise<string> {
+  const archive = await openZip(file);
+  const body = format === 'docx' ? await renderWordDocument(archive) : await renderWorkbook(archive);
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><style>${PREVIEW_STYLES}</style></head><body>${body}</body></html>`;
+}
+
+// ========== ZIP ==========
+
+interface ZipArchive {
+  /** Text content of an entry, or null when the archive has no such entry */
+  read(path: string): Promise<string | null>;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+async function openZip(file: Blob): Promise<ZipArchive> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // End of central directory record, searched backwards past an optional archive comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not an Office Open XML file');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+
+  return {
+    read: async (path: string) => {
+      const entry = entries.get(path);
+      if (!entry) return null;
+
+      const local = entry.localHeaderOffset;
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const data = bytes.slice(start, start + entry.compressedSize);
+
+      if (entry.method === 0) {
+        return decoder.decode(data);
+      }
+      if (entry.method === 8) {
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return new Response(stream).text();
+      }
+      throw new Error(`Unsupported compression method ${entry.method}`);
+    }
+  };
+}
+
+function parseXml(xml: string): XMLDocument {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+function children(element: Element, namespace: string, localName: string): Element[] {
+  return Array.from(element.children).filter(child => child.namespaceURI === namespace && child.localName === localName);
+}
+
+function child(element: Element, namespace: string, localName: string): Element | undefined {
+  return children(element, namespace, localName)[0];
+}
+
+// ========== WORD ==========
+
+async function renderWordDocument(archive: ZipArchive): Promise<string> {
+  const xml = await archive.read('word/document.xml');
+  const body = xml ? parseXml(xml).getElementsByTagNameNS(WORD_NS, 'body')[0] : undefined;
+  if (!body) {
+    throw new Error('The document has no body');
+  }
+  return renderWordBlocks(body);
+}
+
+function renderWordBlocks(container: Element): string {
+  let html = '';
+  let inList = false;
+
+  for (const element of Array.from(container.children)) {
+    const isListItem = element.localName === 'p' && !!element.getElementsByTagNameNS(WORD_NS, 'numPr')[0];
+    if (inList && !isListItem) {
+      html += '</ul>';
+      inList = false;
+    }
+
+    if (element.localName === 'p') {
+      if (isListItem && !inList) {
+        html += '<ul>';
+        inList = true;
+      }
+      html += renderWordParagraph(element, isListItem);
+    } else if (element.localName === 'tbl') {
+      html += renderWordTable(element);
+    }
+  }
+
+  return inList ? html + '</ul>' : html;
+}
+
+function renderWordParagraph(paragraph: Element, isListItem: boolean): string {
+  const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') ?? '';
+  const heading = /^Heading([1-6])$/i.exec(style)?.[1] ?? (/^Title$/i.test(style) ? '1' : null);
+  const tag = isListItem ? 'li' : heading ? `h${heading}` : 'p';
+
+  const content = Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 'r')).map(renderWordRun).join('');
+  return `<${tag}>${content || (tag === 'p' ? '&nbsp;' : '')}</${tag}>`;
+}
+
+function renderWordRun(run: Element): string {
+  let text = '';
+  for (const part of Array.from(run.children)) {
+    if (part.localName === 't') {
+      text += escapeHtml(part.textContent ?? '');
+    } else if (part.localName === 'tab') {
+      text += '\t';
+    } else if (part.localName === 'br' || part.localName === 'cr') {
+      text += '<br>';
+    }
+  }
+
+  const properties = child(run, WORD_NS, 'rPr');
+  const enabled = (name: string) => {
+    const flag = properties && child(properties, WORD_NS, name);
+    return !!flag && !['0', 'false', 'none'].includes(flag.getAttributeNS(WORD_NS, 'val') ?? '');
+  };
+  if (enabled('b')) text = `<strong>${text}</strong>`;
+  if (enabled('i')) text = `<em>${text}</em>`;
+  if (enabled('u')) text = `<u>${text}</u>`;
+  if (enabled('strike')) text = `<s>${text}</s>`;
+  return text;
+}
+
+function renderWordTable(table: Element): string {
+  const rows = children(table, WORD_NS, 'tr').map(row => {
+    const cells = children(row, WORD_NS, 'tc').map(cell => {
+      const span = cell.getElementsByTagNameNS(WORD_NS, 'gridSpan')[0]?.getAttributeNS(WORD_NS, 'val');
+      return `<td${span ? ` colspan="${Number(span) || 1}"` : ''}>${renderWordBlocks(cell)}</td>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  return `<table>${rows.join('')}</table>`;
+}
+
+// ========== EXCEL ==========
+
+async function renderWorkbook(archive: ZipArchive): Promise<string> {
+  const [workbookXml, relationshipsXml, sharedStringsXml] = await Promise.all([
+    archive.read('xl/workbook.xml'),
+    archive.read('xl/_rels/workbook.xml.rels'),
+    archive.read('xl/sharedStrings.xml')
+  ]);
+  if (!workbookXml) {
+    throw new Error('The workbook has no sheets');
+  }
+
+  const targets = new Map<string, string>();
+  if (relationshipsXml) {
+    for (const relationship of Array.from(parseXml(relationshipsXml).documentElement.children)) {
+      const target = relationship.getAttribute('Target') ?? '';
+      targets.set(relationship.getAttribute('Id') ?? '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagNameNS(SHEET_NS, 'si')).map(item =>
+        Array.from(item.getElementsByTagNameNS(SHEET_NS, 't')).map(text => text.textContent ?? '').join('')
+      )
+    : [];
+
+  const sheets = Array.from(parseXml(workbookXml).getElementsByTagNameNS(SHEET_NS, 'sheet')).slice(0, MAX_SHEETS);
+  let html = '';
+  for (const [index, sheet] of sheets.entries()) {
+    const path = targets.get(sheet.getAttributeNS(RELATIONSHIP_NS, 'id') ?? '') ?? `xl/worksheets/sheet${index + 1}.xml`;
+    const sheetXml = await archive.read(path);
+    html += `<h2 class="sheet">${escapeHtml(sheet.getAttribute('name') ?? '')}</h2>`;
+    html += sheetXml ? renderWorksheet(parseXml(sheetXml), sharedStrings) : '';
+  }
+  return html;
+}
+
+function renderWorksheet(sheet: XMLDocument, sharedStrings: string[]): string {
+  const rows = Array.from(sheet.getElementsByTagNameNS(SHEET_NS, 'row')).slice(0, MAX_ROWS);
+  const grid: { number: number; cells: string[] }[] = [];
+  let width = 0;
+
+  for (const [rowIndex, row] of rows.entries()) {
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const cell of children(row, SHEET_NS, 'c')) {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+      if (column < MAX_COLUMNS) {
+        cells[column] = cellText(cell, sharedStrings);
+      }
+    }
+    width = Math.max(width, cells.length);
+    grid.push({ number: Number(row.getAttribute('r')) || rowIndex + 1, cells });
+  }
+
+  if (grid.length === 0) {
+    return '<p>&nbsp;</p>';
+  }
+
+  const header = Array.from({ length: width }, (_, column) => `<th>${columnName(column)}</th>`).join('');
+  const body = grid.map(({ number, cells }) =>
+    `<tr><th>${number}</th>${Array.from({ length: width }, (_, column) => `<td>${escapeHtml(cells[column] ?? '')}</td>`).join('')}</tr>`
+  ).join('');
+  return `<table><tr><th></th>${header}</tr>${body}</table>`;
+}
+
+function cellText(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute('t');
+  if (type === 'inlineStr') {
+    return Array.from(cell.getElementsByTagNameNS(SHEET_NS, 't')).map(text => text.textContent ?? '').join('');
+  }
+  const value = child(cell, SHEET_NS, 'v')?.textContent ?? '';
+  if (type === 's') return sharedStrings[Number(value)] ?? '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+}
+
+/** "C12" -> 2 */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/** 2 -> "C" */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
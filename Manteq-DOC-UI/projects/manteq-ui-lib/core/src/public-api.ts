@@ -0,0 +1,75 @@
+/*
+ * Public API Surface of @manteq/ui-lib/core
+ * Shared configuration, services and state used by every feature entry point
+ */
+
+// Configuration
+export * from './lib/models/config.model';
+export * from './lib/tokens/config.tokens';
+export * from './lib/constants/api.constants';
+export * from './lib/constants/theme.constants';
+export * from './lib/providers/api-config.providers';
+export * from './lib/providers/mock-backend.providers';
+
+// Translations
+export * from './lib/i18n/translations.en';
+export * from './lib/i18n/translations.ar';
+
+// Models
+export * from './lib/models/cms.models';
+export * from './lib/models/tms.models';
+export * from './lib/models/email.models';
+
+// Services
+export * from './lib/services/api-config.service';
+export * from './lib/services/theme.service';
+export * from './lib/services/notification.service';
+export * from './lib/services/network-status.service';
+export * from './lib/services/cms-api.service';
+export * from './lib/services/tms-api.service';
+export * from './lib/services/cms-trash-api.service';
+export * from './lib/services/email-api.service';
+export * from './lib/services/permission.service';
+export * from './lib/services/translation.service';
+export * from './lib/services/navigation.service';
+export * from './lib/services/search.service';
+export * from './lib/services/progress.service';
+
+// Store
+export * from './lib/store/entity-collection';
+export * from './lib/store/manteq-store';
+
+// Interceptors
+export * from './lib/interceptors/auth.interceptor';
+export * from './lib/interceptors/error.interceptor';
+export * from './lib/interceptors/progress.interceptor';
+export * from './lib/interceptors/retry.interceptor';
+export * from './lib/interceptors/mock-backend.interceptor';
+
+// Mock Backend
+export * from './lib/mock/mock-database';
+
+// Utilities
+export * from './lib/utils/color.utils';
+export * from './lib/utils/busy-state';
+export * from './lib/utils/office-preview';
+
+// Errors
+export * from './lib/errors/manteq-api-error';
+export * from './lib/errors/manteq-config-error';
+
+// Pipes
+export * from './lib/pipes/file-size.pipe';
+export * from './lib/pipes/date-format.pipe';
+export * from './lib/pipes/translate.pipe';
+
+// Directives
+export * from './lib/directives/can.directive';
+export * from './lib/directives/drop-target.directive';
+
+// Routing
+export * from './lib/guards/permission.guard';
+export * from './lib/resolvers/entity.resolvers';
+export * from './lib/resolvers/child-route-data';
+export * from './lib/routing/query-param-sync';
+export * from './lib/routing/breadcrumbs';
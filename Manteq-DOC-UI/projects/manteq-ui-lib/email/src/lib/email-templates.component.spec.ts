@@ -0,0 +1,175 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { EmailTemplatesComponent } from './email-templates.component';
+import { NotificationService, API_BASE_URLS, EmailBodySourceType, EmailTemplate } from '@manteq/ui-lib/core';
+
+function createEmailTemplate(index: number, changes: Partial<EmailTemplate> = {}): EmailTemplate {
+  return {
+    id: `mail-${index}`,
+    name: `Email ${index}`,
+    subject: index === 1 ? 'Your quotation is ready' : `Subject ${index}`,
+    htmlContent: '',
+    bodySourceType: EmailBodySourceType.PlainText,
+    isActive: index % 5 !== 0,
+    category: index % 2 === 0 ? 'Sales' : 'Claims',
+    sentCount: 0,
+    failureCount: 0,
+    createdBy: 'tester',
+    createdDate: '2025-01-01T00:00:00Z',
+    totalAttempts: 0,
+    successRate: 0,
+    ...changes
+  };
+}
+
+describe('EmailTemplatesComponent', () => {
+  const cmsBaseUrl = API_BASE_URLS.CMS;
+  let fixture: ComponentFixture<EmailTemplatesComponent>;
+  let component: EmailTemplatesComponent;
+  let httpMock: HttpTestingController;
+  let notifications: jasmine.SpyObj<NotificationService>;
+  let templates: EmailTemplate[];
+
+  beforeEach(async () => {
+    notifications = jasmine.createSpyObj<NotificationService>('NotificationService', [
+      'confirm', 'showLoading', 'hideLoading', 'success', 'warning', 'error', 'apiError'
+    ]);
+
+    await TestBed.configureTestingModule({
+      imports: [EmailTemplatesComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        { provide: NotificationService, useValue: notifications }
+      ]
+    }).compileComponents();
+
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture = TestBed.createComponent(EmailTemplatesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+
+    templates = Array.from({ length: 15 }, (_, i) => createEmailTemplate(i + 1));
+    httpMock.expectOne(r => r.url === `${cmsBaseUrl}/api/email-templates`).flush(templates);
+    httpMock.expectOne(`${API_BASE_URLS.TMS}/api/templates`).flush([]);
+    httpMock.expectOne(r => r.url === `${cmsBaseUrl}/api/documents`).flush([]);
+    httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/categories`).flush(['Claims', 'Sales']);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should load templates and categories on init', () => {
+    expect(component.allTemplates().length).toBe(15);
+    expect(component.categories()).toEqual(['Claims', 'Sales']);
+  });
+
+  describe('filtering', () => {
+    it('should search by name, subject and category', () => {
+      component.searchTerm.set('quotation');
+      expect(component.filteredTemplates().map(t => t.id)).toEqual(['mail-1']);
+
+      component.searchTerm.set('sales');
+      expect(component.filteredTemplates().length).toBe(7);
+    });
+
+    it('should combine category and status filters', () => {
+      component.filterByCategory('Claims');
+      expect(component.filteredTemplates().length).toBe(8);
+
+      component.filterByStatus('inactive');
+      expect(component.filteredTemplates().map(t => t.id)).toEqual(['mail-5', 'mail-15']);
+
+      component.filterByCategory('all');
+      component.filterByStatus('active');
+      expect(component.filteredTemplates().length).toBe(12);
+    });
+
+    it('should reset to the first page when a filter changes', () => {
+      component.goToPage(2);
+      component.filterByStatus('active');
+      expect(component.currentPage()).toBe(1);
+
+      component.goToPage(2);
+      component.updateSearchTerm({ target: { value: 'Email' } } as unknown as Event);
+      expect(component.currentPage()).toBe(1);
+    });
+  });
+
+  describe('pagination', () => {
+    it('should split templates into pages', () => {
+      expect(component.totalPages()).toBe(2);
+      expect(component.pages()).toEqual([1, 2]);
+
+      component.nextPage();
+      expect(component.paginatedTemplates().length).toBe(5);
+
+      component.previousPage();
+      component.previousPage();
+      expect(component.currentPage()).toBe(1);
+    });
+  });
+
+  describe('toggle active', () => {
+    it('should activate an inactive template after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.toggleActive(templates[4]);
+
+      const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-5/activate`);
+      expect(req.request.method).toBe('POST');
+      req.flush(null);
+
+      expect(component.allTemplates()[4].isActive).toBeTrue();
+      expect(notifications.success).toHaveBeenCalledWith('Template activated successfully', undefined, { link: '/mail-5/edit' });
+    });
+
+    it('should do nothing when the confirmation is cancelled', async () => {
+      notifications.confirm.and.resolveTo(false);
+
+      await component.toggleActive(templates[0]);
+
+      httpMock.expectNone(`${cmsBaseUrl}/api/email-templates/mail-1/deactivate`);
+      expect(component.allTemplates()[0].isActive).toBeTrue();
+    });
+  });
+
+  describe('delete', () => {
+    it('should move the template to trash after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.deleteTemplate(templates[0]);
+
+      const req = httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+
+      expect(component.allTemplates().length).toBe(14);
+      expect(notifications.success).toHaveBeenCalledWith('Template moved to trash');
+    });
+
+    it('should report API errors', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.deleteTemplate(templates[0]);
+
+      httpMock.expectOne(`${cmsBaseUrl}/api/email-templates/mail-1`)
+        .flush({ error: 'Email template not found' }, { status: 404, statusText: 'Not Found' });
+      expect(component.allTemplates().length).toBe(15);
+      expect(notifications.apiError).toHaveBeenCalledWith(jasmine.anything(), 'Failed to delete template', { link: '/mail-1/edit' });
+    });
+  });
+
+  it('should validate required fields before saving', async () => {
+    component.openCreateModal();
+
+    await component.saveTemplate();
+
+    expect(notifications.error).toHaveBeenCalledWith('Please fill in all required fields');
+    expect(component.saving()).toBeFalse();
+  });
+});
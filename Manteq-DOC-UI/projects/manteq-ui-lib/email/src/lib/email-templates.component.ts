@@ -1,27 +1,54 @@
-import { Component, OnInit, signal, computed, inject } from '@angular/core';
+import { Component, OnInit, signal, computed, inject, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { EmailApiService } from '../../services/email-api.service';
-import { EmailTemplate, EmailTemplateAttachment, EmailBodySourceType, AttachmentSourceType, CreateEmailTemplateRequest, UpdateEmailTemplateRequest, TestEmailTemplateRequest } from '../../models/email.models';
-import { TmsApiService } from '../../services/tms-api.service';
-import { Template } from '../../models/tms.models';
-import { NotificationService } from '../../services/notification.service';
-import { DateFormatPipe } from '../../pipes/date-format.pipe';
-import { CmsApiService } from '../../services/cms-api.service';
-import { Document } from '../../models/cms.models';
+import { ActivatedRoute, Router } from '@angular/router';
+import {
+  EmailApiService,
+  EmailTemplate,
+  EmailTemplateAttachment,
+  EmailBodySourceType,
+  AttachmentSourceType,
+  CreateEmailTemplateRequest,
+  UpdateEmailTemplateRequest,
+  TestEmailTemplateRequest,
+  TmsApiService,
+  NotificationService,
+  DateFormatPipe,
+  ManteqStore,
+  ManteqCanDirective,
+  ManteqDropTargetDirective,
+  ManteqTranslatePipe,
+  ManteqTranslationService,
+  ManteqProgressService,
+  manteqBusyState,
+  childRouteData,
+  clampPage,
+  syncQueryParams
+} from '@manteq/ui-lib/core';
+
+// Upload limits shared by the file pickers and the drop zones
+const CUSTOM_TEMPLATE_EXTENSIONS = ['.mhtml', '.mht'];
+const CUSTOM_TEMPLATE_MAX_SIZE = 5 * 1024 * 1024;
+const ATTACHMENT_EXTENSIONS = ['.pdf', '.docx', '.xlsx', '.png', '.jpg', '.jpeg', '.txt'];
+const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+const TEST_DATA_EXTENSIONS = ['.xlsx', '.xls'];
 
 @Component({
   selector: 'manteq-email-templates',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, ManteqCanDirective, ManteqDropTargetDirective, ManteqTranslatePipe],
   templateUrl: './email-templates.component.html',
   styleUrls: ['./email-templates.component.scss']
 })
 export class EmailTemplatesComponent implements OnInit {
   private emailApiService = inject(EmailApiService);
   private tmsApiService = inject(TmsApiService);
-  private cmsApiService = inject(CmsApiService);
   private notificationService = inject(NotificationService);
+  private i18n = inject(ManteqTranslationService);
+  private store = inject(ManteqStore);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private progress = inject(ManteqProgressService);
 
   // Expose enums for template
   EmailBodySourceType = EmailBodySourceType;
@@ -29,11 +56,19 @@ export class EmailTemplatesComponent implements OnInit {
   Math = Math;
 
   // Signals for state management
-  allTemplates = signal<EmailTemplate[]>([]);
-  tmsTemplates = signal<Template[]>([]);
-  cmsDocuments = signal<Document[]>([]);
+  allTemplates = this.store.emailTemplates.entities;
+  // Picker data shared with the document library and template builder
+  tmsTemplates = this.store.templates.entities;
+  cmsDocuments = this.store.documents.entities;
   categories = signal<string[]>([]);
-  loading = signal(false);
+  // Rows (by template id) and placeholder downloads in the test dialog with a request in progress
+  busy = manteqBusyState();
+  // The edit dialog is saving / the test dialog is reading its Excel files
+  saving = signal(false);
+  preparingTest = signal(false);
+
+  // Spinner only on first load - background refreshes keep the current list visible
+  loading = computed(() => this.store.emailTemplates.loading() && !this.store.emailTemplates.loaded());
   showModal = signal(false);
   modalMode = signal<'create' | 'edit'>('create');
   searchTerm = signal('');
@@ -76,6 +111,15 @@ export class EmailTemplatesComponent implements OnInit {
   });
   editingId = signal<string | null>(null);
   selectedFile = signal<File | null>(null);
+  uploadLimits = {
+    customTemplate: { extensions: CUSTOM_TEMPLATE_EXTENSIONS, maxSize: CUSTOM_TEMPLATE_MAX_SIZE },
+    attachment: { extensions: ATTACHMENT_EXTENSIONS, maxSize: ATTACHMENT_MAX_SIZE },
+    testData: { extensions: TEST_DATA_EXTENSIONS }
+  };
+
+  // Template opened through the emails/:id/edit or emails/:id/test route; emails/new has no template
+  private routedTemplate = childRouteData<EmailTemplate>('emailTemplate');
+  private routedAction = childRouteData<string>('action');
 
   // Pagination
   currentPage = signal(1);
@@ -143,6 +187,35 @@ export class EmailTemplatesComponent implements OnInit {
     return pages;
   });
 
+  constructor() {
+    syncQueryParams({
+      q: this.searchTerm,
+      category: this.selectedCategory,
+      status: this.selectedStatus,
+      page: this.currentPage
+    }, {
+      replaceUrl: ['q'],
+      // Categories come from the API, so any category is accepted
+      allowedValues: { status: ['all', 'active', 'inactive'] }
+    });
+    clampPage(this.currentPage, this.totalPages, this.store.emailTemplates.loaded);
+
+    // Reopen the routed dialog for deep links and after a refresh
+    effect(() => {
+      const action = this.routedAction();
+      const template = this.routedTemplate();
+      untracked(() => {
+        if (action === 'create' && !this.showModal()) {
+          this.openCreateModal();
+        } else if (action === 'edit' && template && template.id !== this.editingId()) {
+          this.openEditModal(template);
+        } else if (action === 'test' && template && template.id !== this.testingTemplateId()) {
+          this.openTestModal(template);
+        }
+      });
+    });
+  }
+
   ngOnInit(): void {
     this.loadEmailTemplates();
     this.loadTmsTemplates();
@@ -150,25 +223,17 @@ export class EmailTemplatesComponent implements OnInit {
     this.loadCategories();
   }
 
-  loadEmailTemplates(): void {
-    this.loading.set(true);
-    this.emailApiService.getEmailTemplates().subscribe({
-      next: (templates) => {
-        this.allTemplates.set(templates);
-        this.loading.set(false);
-      },
+  loadEmailTemplates(force: boolean = false): void {
+    this.store.emailTemplates.load(force).subscribe({
       error: (error) => {
-        console.error('Error loading email templates:', error);
-        this.notificationService.error('Failed to load email templates');
-        this.loading.set(false);
+        this.notificationService.apiError(error, this.i18n.translate('emails.messages.loadFailed'));
       }
     });
   }
 
   loadTmsTemplates(): void {
-    this.tmsApiService.getTemplates().subscribe({
+    this.store.templates.load().subscribe({
       next: (templates) => {
-        this.tmsTemplates.set(templates);
         console.log('📚 TMS Templates Loaded:', templates.length, 'templates', templates);
       },
       error: (error) => {
@@ -178,10 +243,7 @@ export class EmailTemplatesComponent implements OnInit {
   }
 
   loadCmsDocuments(): void {
-    this.cmsApiService.getDocuments().subscribe({
-      next: (documents) => {
-        this.cmsDocuments.set(documents);
-      },
+    this.store.documents.load().subscribe({
       error: (error) => {
         console.error('Error loading CMS documents:', error);
       }
@@ -218,6 +280,20 @@ export class EmailTemplatesComponent implements OnInit {
     console.log('📝 Create Modal Opened - Initial Attachments:', this.selectedAttachments());
   }
 
+  /**
+   * Edit through the emails/:id/edit route so the dialog can be linked and survives a refresh
+   */
+  editTemplate(template: EmailTemplate): void {
+    this.router.navigate([template.id, 'edit'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+  }
+
+  /**
+   * URL of a template's edit or test dialog, linked from the notification center
+   */
+  private templateLink(id: string, action: 'edit' | 'test' = 'edit'): string {
+    return this.router.serializeUrl(this.router.createUrlTree([id, action], { relativeTo: this.route }));
+  }
+
   openEditModal(template: EmailTemplate): void {
     console.log('✏️ Opening Edit Modal for template:', template.name, '- Has attachments?', !!template.attachments, '- Count:', template.attachments?.length || 0);
     this.modalMode.set('edit');
@@ -235,7 +311,7 @@ export class EmailTemplatesComponent implements OnInit {
     this.selectedFile.set(null);
     
     // Load attachments from API
-    this.emailApiService.getEmailTemplateAttachments(template.id).subscribe({
+    this.emailApiService.getTemplateAttachments(template.id).subscribe({
       next: (attachments: EmailTemplateAttachment[]) => {
         if (attachments && attachments.length > 0) {
           const mappedAttachments = attachments.map(att => ({
@@ -279,34 +355,36 @@ export class EmailTemplatesComponent implements OnInit {
     this.selectedFile.set(null);
     this.selectedAttachments.set([]);
     this.showAttachmentsSection.set(false);
+
+    if (this.routedAction() === 'create' || this.routedAction() === 'edit') {
+      this.router.navigate(['.'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+    }
   }
 
   async saveTemplate(): Promise<void> {
     const data = this.formData();
 
     if (!data.name || !data.subject) {
-      this.notificationService.error('Please fill in all required fields');
+      this.notificationService.error(this.i18n.translate('common.requiredFields'));
       return;
     }
 
     if (data.bodySourceType === EmailBodySourceType.PlainText && !data.plainTextContent) {
-      this.notificationService.error('Plain text content is required');
+      this.notificationService.error(this.i18n.translate('emails.messages.plainTextRequired'));
       return;
     }
 
     if (data.bodySourceType === EmailBodySourceType.TmsTemplate && !data.tmsTemplateId) {
-      this.notificationService.error('Please select a TMS template for body generation');
+      this.notificationService.error(this.i18n.translate('emails.messages.tmsTemplateRequired'));
       return;
     }
 
     if (data.bodySourceType === EmailBodySourceType.CustomTemplate && !this.selectedFile() && !data.customTemplateFilePath) {
-      this.notificationService.error('Please upload a custom template file');
+      this.notificationService.error(this.i18n.translate('emails.messages.customFileRequired'));
       return;
     }
 
-    this.notificationService.showLoading(
-      this.modalMode() === 'create' ? 'Creating template...' : 'Updating template...'
-    );
+    this.saving.set(true);
 
     if (this.modalMode() === 'create') {
       // Convert attachments to the proper format
@@ -328,22 +406,22 @@ export class EmailTemplatesComponent implements OnInit {
 
       console.log('📤 Create Payload:', createData);
 
-      this.emailApiService.createEmailTemplate(createData as CreateEmailTemplateRequest).subscribe({
+      this.store.createEmailTemplate(createData as CreateEmailTemplateRequest).subscribe({
         next: (createdTemplate) => {
           // If CustomTemplate type and file selected, upload it
           if (data.bodySourceType === EmailBodySourceType.CustomTemplate && this.selectedFile()) {
             this.uploadCustomTemplate(createdTemplate.id);
           } else {
-            this.notificationService.hideLoading();
-            this.notificationService.success('Email template created successfully');
+            this.saving.set(false);
+            this.notificationService.success(this.i18n.translate('emails.messages.created'), undefined, {
+              link: this.templateLink(createdTemplate.id)
+            });
             this.closeModal();
-            this.loadEmailTemplates();
           }
         },
         error: (error) => {
-          console.error('Error creating template:', error);
-          this.notificationService.hideLoading();
-          this.notificationService.error('Failed to create template');
+          this.saving.set(false);
+          this.notificationService.apiError(error, this.i18n.translate('emails.messages.createFailed'));
         }
       });
     } else {
@@ -364,22 +442,24 @@ export class EmailTemplatesComponent implements OnInit {
         attachments: attachmentsData.length > 0 ? attachmentsData : undefined
       };
 
-      this.emailApiService.updateEmailTemplate(id, updateData as UpdateEmailTemplateRequest).subscribe({
+      this.store.updateEmailTemplate(id, updateData as UpdateEmailTemplateRequest).subscribe({
         next: () => {
           // If CustomTemplate type and file selected, upload it
           if (data.bodySourceType === EmailBodySourceType.CustomTemplate && this.selectedFile()) {
             this.uploadCustomTemplate(id);
           } else {
-            this.notificationService.hideLoading();
-            this.notificationService.success('Email template updated successfully');
+            this.saving.set(false);
+            this.notificationService.success(this.i18n.translate('emails.messages.updated'), undefined, {
+              link: this.templateLink(id)
+            });
             this.closeModal();
-            this.loadEmailTemplates();
           }
         },
         error: (error) => {
-          console.error('Error updating template:', error);
-          this.notificationService.hideLoading();
-          this.notificationService.error('Failed to update template');
+          this.saving.set(false);
+          this.notificationService.apiError(error, this.i18n.translate('emails.messages.updateFailed'), {
+            link: this.templateLink(id)
+          });
         }
       });
     }
@@ -388,56 +468,46 @@ export class EmailTemplatesComponent implements OnInit {
   async toggleActive(template: EmailTemplate): Promise<void> {
     const action = template.isActive ? 'deactivate' : 'activate';
     const confirmed = await this.notificationService.confirm(
-      `${action.charAt(0).toUpperCase() + action.slice(1)} Template`,
-      `Are you sure you want to ${action} "${template.name}"?`,
-      action.charAt(0).toUpperCase() + action.slice(1),
-      'Cancel'
+      this.i18n.translate(`templates.${action}.title`),
+      this.i18n.translate(`templates.${action}.message`, { name: template.name }),
+      this.i18n.translate(`templates.${action}.confirm`),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading(`${action}ing template...`);
-
-    const observable = template.isActive
-      ? this.emailApiService.deactivateEmailTemplate(template.id)
-      : this.emailApiService.activateEmailTemplate(template.id);
-
-    observable.subscribe({
+    this.store.setEmailTemplateActive(template.id, !template.isActive).pipe(this.busy.track(template.id)).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success(`Template ${action}d successfully`);
-        this.loadEmailTemplates();
+        this.notificationService.success(this.i18n.translate(`templates.${action}.success`), undefined, {
+          link: this.templateLink(template.id)
+        });
       },
       error: (error) => {
-        console.error(`Error ${action}ing template:`, error);
-        this.notificationService.hideLoading();
-        this.notificationService.error(`Failed to ${action} template`);
+        this.notificationService.apiError(error, this.i18n.translate(`templates.${action}.failed`), {
+          link: this.templateLink(template.id)
+        });
       }
     });
   }
 
   async deleteTemplate(template: EmailTemplate): Promise<void> {
     const confirmed = await this.notificationService.confirm(
-      'Delete Template',
-      `Are you sure you want to delete "${template.name}"? This will move it to trash.`,
-      'Delete',
-      'Cancel'
+      this.i18n.translate('emails.delete.title'),
+      this.i18n.translate('emails.delete.message', { name: template.name }),
+      this.i18n.translate('common.delete'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Deleting template...');
-
-    this.emailApiService.deleteEmailTemplate(template.id).subscribe({
+    this.store.deleteEmailTemplate(template.id).pipe(this.busy.track(template.id)).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success('Template moved to trash');
-        this.loadEmailTemplates();
+        this.notificationService.success(this.i18n.translate('templates.messages.deleted'));
       },
       error: (error) => {
-        console.error('Error deleting template:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to delete template');
+        this.notificationService.apiError(error, this.i18n.translate('emails.messages.deleteFailed'), {
+          link: this.templateLink(template.id)
+        });
       }
     });
   }
@@ -462,31 +532,29 @@ export class EmailTemplatesComponent implements OnInit {
 
   onFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
-    if (input.files && input.files.length > 0) {
-      const file = input.files[0];
-      
-      // Validate file type
-      const allowedExtensions = ['.mhtml', '.mht'];
-      const fileName = file.name.toLowerCase();
-      const isValidExtension = allowedExtensions.some(ext => fileName.endsWith(ext));
-      
-      if (!isValidExtension) {
-        this.notificationService.error('Please upload an mht or mHTML file');
-        input.value = '';
-        return;
-      }
-      
-      // Validate file size (5MB max)
-      const maxSizeInBytes = 5 * 1024 * 1024;
-      if (file.size > maxSizeInBytes) {
-        this.notificationService.error('File size must be less than 5MB');
-        input.value = '';
-        return;
-      }
-      
-      this.selectedFile.set(file);
-      this.notificationService.success(`File "${file.name}" selected`);
+    if (input.files && input.files.length > 0 && !this.selectCustomTemplateFile(input.files[0])) {
+      input.value = '';
+    }
+  }
+
+  /**
+   * Use a picked or dropped MHTML file as the custom template body
+   */
+  selectCustomTemplateFile(file: File): boolean {
+    const fileName = file.name.toLowerCase();
+    if (!CUSTOM_TEMPLATE_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
+      this.notificationService.error(this.i18n.translate('emails.messages.unsupportedCustomFile'));
+      return false;
+    }
+
+    if (file.size > CUSTOM_TEMPLATE_MAX_SIZE) {
+      this.notificationService.error(this.i18n.translate('emails.messages.customFileTooLarge'));
+      return false;
     }
+
+    this.selectedFile.set(file);
+    this.notificationService.success(this.i18n.translate('emails.messages.fileSelected', { name: file.name }));
+    return true;
   }
 
   clearSelectedFile(): void {
@@ -551,30 +619,36 @@ export class EmailTemplatesComponent implements OnInit {
   onAttachmentFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (input.files && input.files.length > 0) {
-      const file = input.files[0];
-      
-      // Validate file size (10MB max)
-      const maxSizeInBytes = 10 * 1024 * 1024;
-      if (file.size > maxSizeInBytes) {
-        this.notificationService.error('Attachment size must be less than 10MB');
-        input.value = '';
-        return;
-      }
-      
-      this.selectedAttachments.update(attachments => [
-        ...attachments,
-        {
-          sourceType: AttachmentSourceType.CustomFile,
-          file: file,
-          displayName: file.name
-        }
-      ]);
-
-      this.notificationService.success(`Attachment "${file.name}" added`);
+      this.addAttachmentFile(input.files[0]);
       input.value = '';
     }
   }
 
+  /**
+   * Attach files dropped on the upload tab
+   */
+  addAttachmentFiles(files: File[]): void {
+    files.forEach(file => this.addAttachmentFile(file));
+  }
+
+  private addAttachmentFile(file: File): void {
+    if (file.size > ATTACHMENT_MAX_SIZE) {
+      this.notificationService.error(this.i18n.translate('emails.messages.attachmentTooLarge'));
+      return;
+    }
+
+    this.selectedAttachments.update(attachments => [
+      ...attachments,
+      {
+        sourceType: AttachmentSourceType.CustomFile,
+        file: file,
+        displayName: file.name
+      }
+    ]);
+
+    this.notificationService.success(this.i18n.translate('emails.messages.attachmentAdded', { name: file.name }));
+  }
+
   removeAttachment(index: number): void {
     this.selectedAttachments.update(attachments => 
       attachments.filter((_, i) => i !== index)
@@ -584,24 +658,27 @@ export class EmailTemplatesComponent implements OnInit {
   uploadCustomTemplate(templateId: string): void {
     const file = this.selectedFile();
     if (!file) {
-      this.notificationService.hideLoading();
-      this.notificationService.success('Template saved successfully');
+      this.saving.set(false);
+      this.notificationService.success(this.i18n.translate('emails.messages.saved'), undefined, {
+        link: this.templateLink(templateId)
+      });
       this.closeModal();
-      this.loadEmailTemplates();
       return;
     }
 
-    this.emailApiService.uploadCustomTemplate(templateId, file).subscribe({
+    this.store.uploadCustomTemplate(templateId, file).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success('Template and custom file uploaded successfully');
+        this.saving.set(false);
+        this.notificationService.success(this.i18n.translate('emails.messages.savedWithFile'), undefined, {
+          link: this.templateLink(templateId)
+        });
         this.closeModal();
-        this.loadEmailTemplates();
       },
       error: (error) => {
-        console.error('Error uploading custom template:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to upload custom template file');
+        this.saving.set(false);
+        this.notificationService.apiError(error, this.i18n.translate('emails.messages.customFileFailed'), {
+          link: this.templateLink(templateId)
+        });
       }
     });
   }
@@ -639,15 +716,15 @@ export class EmailTemplatesComponent implements OnInit {
     switch (type) {
       case 0:
       case EmailBodySourceType.PlainText:
-        return 'Plain Text';
+        return this.i18n.translate('emails.bodySource.plainText');
       case 1:
       case EmailBodySourceType.TmsTemplate:
-        return 'TMS Template';
+        return this.i18n.translate('emails.bodySource.tmsTemplate');
       case 2:
       case EmailBodySourceType.CustomTemplate:
-        return 'Custom Template';
+        return this.i18n.translate('emails.bodySource.customTemplate');
       default:
-        return 'Unknown';
+        return this.i18n.translate('common.unknown');
     }
   }
 
@@ -711,6 +788,10 @@ export class EmailTemplatesComponent implements OnInit {
       tmsAttachmentTestFiles: {}
     });
     this.selectedAttachments.set([]);
+
+    if (this.routedAction() === 'test') {
+      this.router.navigate(['.'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+    }
   }
 
   getTestingTemplate(): EmailTemplate | undefined {
@@ -727,8 +808,7 @@ export class EmailTemplatesComponent implements OnInit {
     const template = this.getTestingTemplate();
     if (!template || !template.tmsTemplateId) return;
 
-    this.notificationService.showLoading('Downloading placeholder Excel...');
-    this.tmsApiService.downloadPlaceholdersExcel(template.tmsTemplateId).subscribe({
+    this.tmsApiService.downloadPlaceholdersExcel(template.tmsTemplateId).pipe(this.busy.track('placeholder-body')).subscribe({
       next: (blob: Blob) => {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -738,13 +818,10 @@ export class EmailTemplatesComponent implements OnInit {
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
-        this.notificationService.hideLoading();
-        this.notificationService.success('Placeholder Excel downloaded');
+        this.notificationService.success(this.i18n.translate('emails.messages.placeholderDownloaded'));
       },
       error: (error: any) => {
-        console.error('Error downloading placeholder:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to download placeholder');
+        this.notificationService.apiError(error, this.i18n.translate('emails.messages.placeholderFailed'));
       }
     });
   }
@@ -756,8 +833,9 @@ export class EmailTemplatesComponent implements OnInit {
     const attachment = this.selectedAttachments()[attachmentIndex];
     if (!attachment || !attachment.tmsTemplateId) return;
 
-    this.notificationService.showLoading('Downloading placeholder Excel...');
-    this.tmsApiService.downloadPlaceholdersExcel(attachment.tmsTemplateId).subscribe({
+    this.tmsApiService.downloadPlaceholdersExcel(attachment.tmsTemplateId).pipe(
+      this.busy.track(`placeholder-${attachmentIndex}`)
+    ).subscribe({
       next: (blob: Blob) => {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -767,13 +845,10 @@ export class EmailTemplatesComponent implements OnInit {
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
-        this.notificationService.hideLoading();
-        this.notificationService.success('Placeholder Excel downloaded');
+        this.notificationService.success(this.i18n.translate('emails.messages.placeholderDownloaded'));
       },
       error: (error: any) => {
-        console.error('Error downloading placeholder:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to download placeholder');
+        this.notificationService.apiError(error, this.i18n.translate('emails.messages.placeholderFailed'));
       }
     });
   }
@@ -781,24 +856,30 @@ export class EmailTemplatesComponent implements OnInit {
   onTmsBodyTestFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (input.files && input.files.length > 0) {
-      const file = input.files[0];
-      this.testForm.update(form => ({ ...form, tmsBodyTestFile: file }));
-      this.notificationService.success(`Test file "${file.name}" selected`);
+      this.selectTmsBodyTestFile(input.files[0]);
     }
   }
 
+  selectTmsBodyTestFile(file: File): void {
+    this.testForm.update(form => ({ ...form, tmsBodyTestFile: file }));
+    this.notificationService.success(this.i18n.translate('emails.messages.testFileSelected', { name: file.name }));
+  }
+
   onTmsAttachmentTestFileSelected(event: Event, tmsTemplateId: string): void {
     const input = event.target as HTMLInputElement;
     if (input.files && input.files.length > 0) {
-      const file = input.files[0];
-      this.testForm.update(form => ({
-        ...form,
-        tmsAttachmentTestFiles: { ...form.tmsAttachmentTestFiles, [tmsTemplateId]: file }
-      }));
-      this.notificationService.success(`Test file "${file.name}" selected`);
+      this.selectTmsAttachmentTestFile(input.files[0], tmsTemplateId);
     }
   }
 
+  selectTmsAttachmentTestFile(file: File, tmsTemplateId: string): void {
+    this.testForm.update(form => ({
+      ...form,
+      tmsAttachmentTestFiles: { ...form.tmsAttachmentTestFiles, [tmsTemplateId]: file }
+    }));
+    this.notificationService.success(this.i18n.translate('emails.messages.testFileSelected', { name: file.name }));
+  }
+
   async sendTestEmail(): Promise<void> {
     const form = this.testForm();
     const template = this.getTestingTemplate();
@@ -806,13 +887,13 @@ export class EmailTemplatesComponent implements OnInit {
     if (!template) return;
 
     if (!form.to) {
-      this.notificationService.error('Please enter at least one recipient email');
+      this.notificationService.error(this.i18n.translate('emails.messages.recipientRequired'));
       return;
     }
 
     // Validate TMS body test file if needed
     if (template.bodySourceType === EmailBodySourceType.TmsTemplate && !form.tmsBodyTestFile) {
-      this.notificationService.error('Please upload test data Excel file for TMS body generation');
+      this.notificationService.error(this.i18n.translate('emails.messages.bodyTestDataRequired'));
       return;
     }
 
@@ -820,12 +901,12 @@ export class EmailTemplatesComponent implements OnInit {
     const tmsAttachments = this.selectedAttachments().filter(a => a.sourceType === AttachmentSourceType.TmsTemplate);
     for (const attachment of tmsAttachments) {
       if (attachment.tmsTemplateId && !form.tmsAttachmentTestFiles[attachment.tmsTemplateId]) {
-        this.notificationService.error(`Please upload test data for attachment: ${attachment.displayName}`);
+        this.notificationService.error(this.i18n.translate('emails.messages.attachmentTestDataRequired', { name: attachment.displayName }));
         return;
       }
     }
 
-    this.notificationService.showLoading('Sending test email...');
+    this.preparingTest.set(true);
 
     try {
       // Parse Excel files to extract property values
@@ -864,20 +945,25 @@ export class EmailTemplatesComponent implements OnInit {
         tmsAttachmentPropertyValues
       };
 
-      this.emailApiService.testEmailTemplate(testRequest).subscribe({
-        next: (response) => {
-          this.notificationService.hideLoading();
-          this.notificationService.success('Test email sent successfully!');
-          this.closeTestModal();
+      // Sending runs in the background tasks tray so the user can keep working
+      const link = this.templateLink(template.id!, 'test');
+      this.progress.track(
+        this.i18n.translate('emails.messages.testTask', { name: template.name }),
+        this.emailApiService.testEmailTemplate(testRequest),
+        { link }
+      ).subscribe({
+        next: () => {
+          this.notificationService.success(this.i18n.translate('emails.messages.testSent'), undefined, { link });
         },
         error: (error) => {
-          this.notificationService.hideLoading();
-          this.notificationService.error('Failed to send test email: ' + (error.error?.message || error.message));
+          this.notificationService.apiError(error, this.i18n.translate('emails.messages.testFailed'), { link });
         }
       });
+      this.preparingTest.set(false);
+      this.closeTestModal();
     } catch (error: any) {
-      this.notificationService.hideLoading();
-      this.notificationService.error('Failed to prepare test email: ' + error.message);
+      this.preparingTest.set(false);
+      this.notificationService.apiError(error, this.i18n.translate('emails.messages.testPrepareFailed'));
     }
   }
 
@@ -892,8 +978,7 @@ export class EmailTemplatesComponent implements OnInit {
           resolve(propertyValues);
         },
         error: (error: any) => {
-          console.error('❌ Error parsing Excel file:', error);
-          this.notificationService.error('Failed to parse Excel file: ' + (error.error?.error || error.message));
+          this.notificationService.apiError(error, this.i18n.translate('emails.messages.excelParseFailed'));
           reject(error);
         }
       });
@@ -913,14 +998,14 @@ export class EmailTemplatesComponent implements OnInit {
   private getAttachmentDisplayName(att: EmailTemplateAttachment): string {
     if (att.sourceType === AttachmentSourceType.CmsDocument && att.cmsDocumentId) {
       const doc = this.cmsDocuments().find(d => d.id === att.cmsDocumentId);
-      return doc ? doc.name : 'CMS Document';
+      return doc ? doc.name : this.i18n.translate('emails.attachments.cmsDocument');
     } else if (att.sourceType === AttachmentSourceType.TmsTemplate && att.tmsTemplateId) {
       const template = this.tmsTemplates().find(t => t.id === att.tmsTemplateId);
-      return template ? `${template.name} (${this.getTmsExportFormatLabel(att.tmsExportFormat || 0)})` : 'TMS Template';
+      return template ? `${template.name} (${this.getTmsExportFormatLabel(att.tmsExportFormat || 0)})` : this.i18n.translate('emails.attachments.tmsTemplate');
     } else if (att.sourceType === AttachmentSourceType.CustomFile) {
-      return att.customFileName || 'Custom File';
+      return att.customFileName || this.i18n.translate('emails.attachments.customFile');
     }
-    return 'Unknown';
+    return this.i18n.translate('common.unknown');
   }
 }
 
@@ -0,0 +1,5 @@
+/*
+ * Public API Surface of @manteq/ui-lib/email
+ */
+
+export * from './lib/email-templates.component';
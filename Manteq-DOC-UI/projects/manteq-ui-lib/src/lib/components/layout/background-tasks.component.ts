@@ -0,0 +1,179 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import {
+  ManteqProgressService,
+  ManteqBackgroundTask,
+  ManteqBackgroundTaskStatus,
+  DateFormatPipe,
+  ManteqTranslatePipe,
+  ManteqTranslationKey
+} from '@manteq/ui-lib/core';
+
+const STATUS_ICONS: Record<ManteqBackgroundTaskStatus, string> = {
+  running: 'spinner-border spinner-border-sm text-primary',
+  succeeded: 'bi bi-check-circle-fill text-success',
+  failed: 'bi bi-x-circle-fill text-danger'
+};
+
+const STATUS_LABELS: Record<ManteqBackgroundTaskStatus, ManteqTranslationKey> = {
+  running: 'layout.tasks.inProgress',
+  succeeded: 'layout.tasks.succeeded',
+  failed: 'layout.tasks.failed'
+};
+
+/**
+ * Collapsible tray at the bottom of the screen listing uploads, test generations and
+ * other jobs started through ManteqProgressService.track().
+ */
+@Component({
+  selector: 'manteq-background-tasks',
+  standalone: true,
+  imports: [CommonModule, DateFormatPipe, ManteqTranslatePipe],
+  template: `
+    <section class="tasks-tray" [attr.aria-label]="'layout.tasks.title' | translate">
+      <button
+        type="button"
+        class="tray-header"
+        [attr.aria-expanded]="expanded()"
+        [title]="'layout.tasks.toggle' | translate"
+        (click)="expanded.set(!expanded())">
+        <span class="fw-semibold">{{ 'layout.tasks.title' | translate }}</span>
+        <span class="d-flex align-items-center gap-2">
+          @if (progress.runningTasks() > 0) {
+            <small class="text-muted">{{ 'layout.tasks.running' | translate: { count: progress.runningTasks() } }}</small>
+          }
+          <i class="bi" [class.bi-chevron-down]="expanded()" [class.bi-chevron-up]="!expanded()"></i>
+        </span>
+      </button>
+
+      @if (expanded()) {
+        <ul class="task-list" aria-live="polite">
+          @for (task of progress.tasks(); track task.id) {
+            <li class="task-entry">
+              <span class="{{ statusIcons[task.status] }}" role="img" [attr.aria-label]="statusLabels[task.status] | translate"></span>
+              <div class="task-body">
+                <div class="task-label">{{ task.label }}</div>
+                <small class="text-muted">
+                  {{ statusLabels[task.status] | translate }} · {{ (task.finishedAt ?? task.startedAt) | dateFormat: 'relative' }}
+                </small>
+              </div>
+              <div class="task-actions">
+                @if (task.link && task.status === 'succeeded') {
+                  <button type="button" class="btn btn-link btn-sm p-0" (click)="openLink(task)">
+                    {{ 'layout.tasks.open' | translate }}
+                  </button>
+                }
+                @if (task.status !== 'running') {
+                  <button
+                    type="button"
+                    class="btn btn-link btn-sm p-0 text-muted"
+                    [attr.aria-label]="'layout.tasks.dismiss' | translate"
+                    (click)="progress.dismissTask(task.id)">
+                    <i class="bi bi-x-lg"></i>
+                  </button>
+                }
+              </div>
+            </li>
+          }
+        </ul>
+
+        @if (hasFinished()) {
+          <div class="tray-footer">
+            <button type="button" class="btn btn-link btn-sm p-0" (click)="progress.clearFinishedTasks()">
+              {{ 'layout.tasks.clearFinished' | translate }}
+            </button>
+          </div>
+        }
+      }
+    </section>
+  `,
+  styles: [`
+    :host {
+      position: fixed;
+      bottom: 1rem;
+      inset-inline-end: 1rem;
+      z-index: 1040;
+      width: min(340px, calc(100vw - 2rem));
+    }
+
+    .tasks-tray {
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+      border-radius: 0.5rem;
+      background-color: var(--manteq-surface-color, white);
+      color: var(--manteq-text-color, #212529);
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12);
+      overflow: hidden;
+    }
+
+    .tray-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      width: 100%;
+      padding: 0.6rem 1rem;
+      border: none;
+      background: transparent;
+      color: inherit;
+      text-align: start;
+    }
+
+    .task-list {
+      max-height: 260px;
+      overflow-y: auto;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+      border-top: 1px solid var(--manteq-border-color, #dee2e6);
+    }
+
+    .task-entry {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.6rem 1rem;
+      border-bottom: 1px solid var(--manteq-border-color, #dee2e6);
+      font-size: 0.875rem;
+    }
+
+    .task-entry:last-child {
+      border-bottom: none;
+    }
+
+    .task-body {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .task-label {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .task-actions {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .tray-footer {
+      padding: 0.5rem 1rem;
+      border-top: 1px solid var(--manteq-border-color, #dee2e6);
+      text-align: end;
+    }
+  `]
+})
+export class BackgroundTasksComponent {
+  progress = inject(ManteqProgressService);
+  private router = inject(Router);
+
+  statusIcons = STATUS_ICONS;
+  statusLabels = STATUS_LABELS;
+  expanded = signal(true);
+
+  hasFinished = computed(() => this.progress.tasks().some(task => task.status !== 'running'));
+
+  openLink(task: ManteqBackgroundTask): void {
+    this.router.navigateByUrl(task.link!);
+  }
+}
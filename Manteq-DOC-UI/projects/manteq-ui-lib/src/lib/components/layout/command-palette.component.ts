@@ -0,0 +1,415 @@
+import { Component, ElementRef, afterNextRender, computed, inject, output, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { debounceTime, distinctUntilChanged, switchMap, tap } from 'rxjs';
+import {
+  ThemeService,
+  MANTEQ_FEATURES,
+  ManteqFeatureName,
+  ManteqPermission,
+  ManteqPermissionService,
+  ManteqNavigationService,
+  ManteqResolvedNavItem,
+  ManteqSearchService,
+  ManteqSearchResult,
+  ManteqSearchResultType,
+  ManteqTranslationKey,
+  ManteqTranslationService,
+  ManteqTranslatePipe
+} from '@manteq/ui-lib/core';
+
+type PaletteGroup = 'actions' | ManteqSearchResultType;
+
+interface PaletteEntry {
+  id: string;
+  group: PaletteGroup;
+  label: string;
+  description?: string;
+  icon: string;
+  url?: string;
+  run?: () => void;
+}
+
+const GROUP_LABELS: Record<PaletteGroup, ManteqTranslationKey> = {
+  actions: 'layout.palette.groups.actions',
+  document: 'layout.palette.groups.document',
+  template: 'layout.palette.groups.template',
+  emailTemplate: 'layout.palette.groups.emailTemplate',
+  trash: 'layout.palette.groups.trash'
+};
+
+const RESULT_ICONS: Record<ManteqSearchResultType, string> = {
+  document: 'bi-file-earmark-text',
+  template: 'bi-file-earmark-code',
+  emailTemplate: 'bi-envelope',
+  trash: 'bi-trash'
+};
+
+/**
+ * Ctrl+K overlay: searches every feature at once and offers quick actions.
+ * Render it while open; it emits `closed` after running an entry or on Escape.
+ */
+@Component({
+  selector: 'manteq-command-palette',
+  standalone: true,
+  imports: [CommonModule, ManteqTranslatePipe],
+  template: `
+    <div class="palette-backdrop" (click)="closed.emit()"></div>
+    <div class="palette" role="dialog" aria-modal="true" [attr.aria-label]="'layout.palette.open' | translate">
+      <div class="palette-search">
+        <i class="bi bi-search"></i>
+        <input
+          #searchInput
+          type="text"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-controls="manteq-palette-list"
+          aria-expanded="true"
+          [attr.aria-activedescendant]="activeEntry() ? 'manteq-palette-' + activeEntry()!.id : null"
+          [placeholder]="'layout.palette.placeholder' | translate"
+          [value]="term()"
+          (input)="onInput($any($event.target).value)"
+          (keydown)="onKeydown($event)">
+        @if (searching()) {
+          <span class="spinner-border spinner-border-sm text-secondary" role="status">
+            <span class="visually-hidden">{{ 'layout.palette.searching' | translate }}</span>
+          </span>
+        }
+      </div>
+
+      <div class="palette-list" id="manteq-palette-list" role="listbox">
+        @for (group of groups(); track group.key) {
+          <div class="palette-group" role="presentation">{{ group.label | translate }}</div>
+          @for (entry of group.entries; track entry.id) {
+            <button
+              type="button"
+              class="palette-entry"
+              role="option"
+              tabindex="-1"
+              [id]="'manteq-palette-' + entry.id"
+              [class.active]="entry === activeEntry()"
+              [attr.aria-selected]="entry === activeEntry()"
+              (mouseenter)="activeIndex.set(entries().indexOf(entry))"
+              (click)="run(entry)">
+              <i class="bi {{ entry.icon }}"></i>
+              <span class="entry-label">{{ entry.label }}</span>
+              @if (entry.description) {
+                <small class="entry-description">{{ entry.description }}</small>
+              }
+            </button>
+          }
+        } @empty {
+          @if (!searching() && query()) {
+            <div class="palette-empty">{{ 'layout.palette.noResults' | translate: { term: query() } }}</div>
+          }
+        }
+      </div>
+
+      <div class="palette-footer">{{ 'layout.palette.hint' | translate }}</div>
+    </div>
+  `,
+  styles: [`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 1060;
+      display: flex;
+      justify-content: center;
+      align-items: flex-start;
+      padding-top: 12vh;
+    }
+
+    .palette-backdrop {
+      position: absolute;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.5);
+    }
+
+    .palette {
+      position: relative;
+      width: min(640px, 92vw);
+      max-height: 70vh;
+      display: flex;
+      flex-direction: column;
+      background-color: var(--manteq-surface-color, white);
+      color: var(--manteq-text-color, #212529);
+      border-radius: 0.75rem;
+      box-shadow: 0 16px 48px rgba(0, 0, 0, 0.25);
+      overflow: hidden;
+    }
+
+    .palette-search {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 1rem 1.25rem;
+      border-bottom: 1px solid var(--manteq-border-color, #dee2e6);
+      color: var(--manteq-text-muted, #6c757d);
+    }
+
+    .palette-search input {
+      flex: 1;
+      border: none;
+      outline: none;
+      background: transparent;
+      color: var(--manteq-text-color, #212529);
+      font-size: 1.05rem;
+    }
+
+    .palette-list {
+      overflow-y: auto;
+      padding: 0.5rem;
+    }
+
+    .palette-group {
+      padding: 0.5rem 0.75rem 0.25rem;
+      font-size: 0.75rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: var(--manteq-text-muted, #6c757d);
+    }
+
+    .palette-entry {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      width: 100%;
+      padding: 0.6rem 0.75rem;
+      border: none;
+      border-radius: 0.5rem;
+      background: transparent;
+      color: inherit;
+      text-align: start;
+    }
+
+    .palette-entry.active {
+      background-color: rgba(var(--manteq-accent-rgb, 52, 152, 219), 0.12);
+      color: var(--manteq-primary-color, #2c3e50);
+    }
+
+    .entry-label {
+      flex-shrink: 0;
+    }
+
+    .entry-description {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      text-align: end;
+      color: var(--manteq-text-muted, #6c757d);
+    }
+
+    .palette-empty {
+      padding: 1.5rem;
+      text-align: center;
+      color: var(--manteq-text-muted, #6c757d);
+    }
+
+    .palette-footer {
+      padding: 0.5rem 1.25rem;
+      border-top: 1px solid var(--manteq-border-color, #dee2e6);
+      font-size: 0.75rem;
+      color: var(--manteq-text-muted, #6c757d);
+    }
+  `]
+})
+export class CommandPaletteComponent {
+  closed = output<void>();
+
+  private router = inject(Router);
+  private search = inject(ManteqSearchService);
+  private navigation = inject(ManteqNavigationService);
+  private permissions = inject(ManteqPermissionService);
+  private features = inject(MANTEQ_FEATURES);
+  private i18n = inject(ManteqTranslationService);
+  private themeService = inject(ThemeService);
+
+  private searchInput = viewChild.required<ElementRef<HTMLInputElement>>('searchInput');
+
+  term = signal('');
+  query = computed(() => this.term().trim());
+  activeIndex = signal(0);
+  searching = signal(false);
+
+  private results = toSignal(
+    toObservable(this.query).pipe(
+      debounceTime(250),
+      distinctUntilChanged(),
+      tap(query => this.searching.set(!!query)),
+      switchMap(query => this.search.search(query)),
+      tap(() => this.searching.set(false))
+    ),
+    { initialValue: [] as ManteqSearchResult[] }
+  );
+
+  entries = computed(() => [...this.actions(), ...this.results().map(result => this.resultEntry(result))]);
+
+  groups = computed(() => {
+    const groups: { key: PaletteGroup; label: ManteqTranslationKey; entries: PaletteEntry[] }[] = [];
+    for (const entry of this.entries()) {
+      let group = groups.find(candidate => candidate.key === entry.group);
+      if (!group) {
+        group = { key: entry.group, label: GROUP_LABELS[entry.group], entries: [] };
+        groups.push(group);
+      }
+      group.entries.push(entry);
+    }
+    return groups;
+  });
+
+  activeEntry = computed(() => {
+    const entries = this.entries();
+    return entries.length > 0 ? entries[Math.min(this.activeIndex(), entries.length - 1)] : null;
+  });
+
+  constructor() {
+    afterNextRender(() => this.searchInput().nativeElement.focus());
+  }
+
+  onInput(value: string): void {
+    this.term.set(value);
+    this.activeIndex.set(0);
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const count = this.entries().length;
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (count > 0) this.moveTo((this.activeIndex() + 1) % count);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (count > 0) this.moveTo((Math.min(this.activeIndex(), count - 1) - 1 + count) % count);
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const entry = this.activeEntry();
+        if (entry) this.run(entry);
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        this.closed.emit();
+        break;
+    }
+  }
+
+  run(entry: PaletteEntry): void {
+    if (entry.url) {
+      this.router.navigateByUrl(entry.url);
+    }
+    entry.run?.();
+    this.closed.emit();
+  }
+
+  private moveTo(index: number): void {
+    this.activeIndex.set(index);
+    const entry = this.entries()[index];
+    document.getElementById(`manteq-palette-${entry.id}`)?.scrollIntoView({ block: 'nearest' });
+  }
+
+  // ========== ACTIONS ==========
+
+  /**
+   * Commands matching the term; all of them while the term is empty
+   */
+  private actions(): PaletteEntry[] {
+    const actions: PaletteEntry[] = [];
+
+    for (const item of this.navLeaves(this.navigation.items())) {
+      actions.push({
+        id: `go-${item.id}`,
+        group: 'actions',
+        label: this.i18n.translate('layout.palette.actions.goTo', { name: item.label }),
+        icon: item.icon ?? 'bi-arrow-right-circle',
+        url: item.url
+      });
+    }
+
+    const documentsUrl = this.actionUrl('documents', 'documents.upload');
+    if (documentsUrl) {
+      actions.push({
+        id: 'upload-document',
+        group: 'actions',
+        label: this.i18n.translate('layout.palette.actions.uploadDocument'),
+        icon: 'bi-cloud-upload',
+        url: `${documentsUrl}/upload`
+      });
+    }
+
+    const templatesUrl = this.actionUrl('templates', 'templates.upload');
+    if (templatesUrl) {
+      actions.push({
+        id: 'add-template',
+        group: 'actions',
+        label: this.i18n.translate('layout.palette.actions.addTemplate'),
+        icon: 'bi-file-earmark-plus',
+        url: `${templatesUrl}/new`
+      });
+    }
+
+    const emailsUrl = this.actionUrl('emails', 'emails.create');
+    if (emailsUrl) {
+      actions.push({
+        id: 'create-email',
+        group: 'actions',
+        label: this.i18n.translate('layout.palette.actions.createEmail'),
+        icon: 'bi-envelope-plus',
+        url: `${emailsUrl}/new`
+      });
+    }
+
+    actions.push({
+      id: 'toggle-dark-mode',
+      group: 'actions',
+      label: this.i18n.translate('layout.palette.actions.toggleDarkMode'),
+      icon: this.themeService.isDarkMode() ? 'bi-sun' : 'bi-moon-stars',
+      run: () => this.themeService.toggleDarkMode()
+    });
+
+    const query = this.query().toLowerCase();
+    const matching = actions.filter(action => action.label.toLowerCase().includes(query));
+
+    // "Test X" commands for the email templates the search found
+    const testUrl = query ? this.actionUrl('emails', 'emails.test') : null;
+    if (testUrl) {
+      for (const result of this.results()) {
+        if (result.type !== 'emailTemplate') continue;
+        matching.push({
+          id: `test-email-${result.id}`,
+          group: 'actions',
+          label: this.i18n.translate('layout.palette.actions.testEmail', { name: result.label }),
+          icon: 'bi-send',
+          url: `${testUrl}/${result.id}/test`
+        });
+      }
+    }
+    return matching;
+  }
+
+  private navLeaves(items: ManteqResolvedNavItem[]): ManteqResolvedNavItem[] {
+    return items.flatMap(item => item.children.length > 0 ? this.navLeaves(item.children) : item.url ? [item] : []);
+  }
+
+  private actionUrl(feature: ManteqFeatureName, permission: ManteqPermission): string | null {
+    if (!this.features[feature] || !this.permissions.can(permission)) {
+      return null;
+    }
+    return this.navigation.featureUrl(feature);
+  }
+
+  private resultEntry(result: ManteqSearchResult): PaletteEntry {
+    return {
+      id: `${result.type}-${result.id}`,
+      group: result.type,
+      label: result.label,
+      description: result.description,
+      icon: RESULT_ICONS[result.type],
+      url: result.url
+    };
+  }
+}
@@ -1,36 +1,110 @@
-import { Component, inject } from '@angular/core';
+import { Component, ElementRef, computed, inject, output, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ThemeService } from '../../services/theme.service';
+import { RouterLink } from '@angular/router';
+import { NotificationCenterComponent } from './notification-center.component';
+import {
+  ThemeService,
+  ManteqPermissionService,
+  ManteqTranslatePipe,
+  manteqBreadcrumbs
+} from '@manteq/ui-lib/core';
 
+/**
+ * Library header: brand, page title with breadcrumbs, notification center, color scheme
+ * toggle and user menu.
+ *
+ * Host content can be projected with the `manteqHeaderActions` attribute (next to the
+ * user menu) and `manteqHeaderContent` (below the title).
+ */
 @Component({
   selector: 'manteq-header',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, NotificationCenterComponent, ManteqTranslatePipe],
+  host: {
+    '(document:click)': 'closeMenuOnOutsideClick($event)',
+    '(document:keydown.escape)': 'menuOpen.set(false)'
+  },
   template: `
     <div class="library-header">
-      <div class="d-flex justify-content-between align-items-center">
-        <div class="d-flex align-items-center">
+      <div class="d-flex justify-content-between align-items-center gap-3">
+        <div class="d-flex align-items-center min-w-0">
           @if (themeService.companyLogo()) {
             <img 
               [src]="themeService.companyLogo()" 
-              alt="Company Logo" 
+              [alt]="'layout.logoAlt' | translate" 
               class="company-logo me-3"
             >
           }
-          <div>
-            <h1 class="page-title mb-1">{{ themeService.companyName() }}</h1>
-            <p class="text-muted mb-0">Manage and organize your documents efficiently</p>
+          <div class="min-w-0">
+            @if (breadcrumbs().length > 0) {
+              <nav [attr.aria-label]="'layout.breadcrumbs' | translate">
+                <ol class="breadcrumb mb-1">
+                  <li class="breadcrumb-item">
+                    <a routerLink="/">{{ themeService.companyName() }}</a>
+                  </li>
+                  @for (crumb of breadcrumbs(); track crumb.url; let last = $last) {
+                    @if (last) {
+                      <li class="breadcrumb-item active" aria-current="page">{{ crumb.label }}</li>
+                    } @else {
+                      <li class="breadcrumb-item"><a [routerLink]="crumb.url">{{ crumb.label }}</a></li>
+                    }
+                  }
+                </ol>
+              </nav>
+              <h1 class="page-title mb-0">{{ pageTitle() }}</h1>
+            } @else {
+              <h1 class="page-title mb-1">{{ themeService.companyName() }}</h1>
+              <p class="text-muted mb-0">{{ 'layout.subtitle' | translate }}</p>
+            }
           </div>
         </div>
-        <div class="text-end">
-          <small class="text-muted">{{ themeService.disclaimer() }}</small>
+        <div class="d-flex align-items-center gap-3">
+          <small class="text-muted text-end d-none d-xl-inline">{{ themeService.disclaimer() }}</small>
+          <ng-content select="[manteqHeaderActions]"></ng-content>
+          <manteq-notification-center></manteq-notification-center>
+          <button
+            type="button"
+            class="color-scheme-toggle"
+            (click)="themeService.toggleDarkMode()"
+            [attr.aria-label]="(themeService.isDarkMode() ? 'layout.lightMode' : 'layout.darkMode') | translate"
+            [title]="(themeService.isDarkMode() ? 'layout.lightMode' : 'layout.darkMode') | translate">
+            <i class="bi" [class.bi-sun]="themeService.isDarkMode()" [class.bi-moon-stars]="!themeService.isDarkMode()"></i>
+          </button>
+          <div class="user-menu">
+            <button
+              type="button"
+              class="user-menu-toggle"
+              [attr.aria-label]="'layout.userMenu.label' | translate: { name: user().name }"
+              aria-haspopup="menu"
+              [attr.aria-expanded]="menuOpen()"
+              (click)="menuOpen.set(!menuOpen())">
+              <span class="user-avatar" aria-hidden="true">{{ initials() }}</span>
+              <span class="user-name d-none d-md-inline">{{ user().name }}</span>
+              <i class="bi bi-chevron-down d-none d-md-inline"></i>
+            </button>
+            @if (menuOpen()) {
+              <div class="user-menu-dropdown" role="menu">
+                <div class="user-menu-identity">
+                  <div class="fw-semibold">{{ user().name }}</div>
+                  <small class="text-muted">{{ user().email }}</small>
+                </div>
+                <button type="button" class="user-menu-item" role="menuitem" (click)="select('profile')">
+                  <i class="bi bi-person me-2"></i> {{ 'layout.userMenu.profile' | translate }}
+                </button>
+                <button type="button" class="user-menu-item" role="menuitem" (click)="select('signOut')">
+                  <i class="bi bi-box-arrow-right me-2"></i> {{ 'layout.userMenu.signOut' | translate }}
+                </button>
+              </div>
+            }
+          </div>
         </div>
       </div>
+      <ng-content select="[manteqHeaderContent]"></ng-content>
     </div>
   `,
   styles: [`
     .library-header {
-      background-color: white;
+      background-color: var(--manteq-surface-color, white);
       padding: 1.5rem 2rem;
       border-bottom: 3px solid var(--manteq-accent-color, #3498db);
       margin-bottom: 0;
@@ -38,6 +112,106 @@ import { ThemeService } from '../../services/theme.service';
       position: relative;
     }
 
+    .color-scheme-toggle {
+      width: 38px;
+      height: 38px;
+      flex-shrink: 0;
+      border-radius: 50%;
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+      background: transparent;
+      color: var(--manteq-text-color, #212529);
+      transition: all 0.2s ease;
+    }
+
+    .color-scheme-toggle:hover {
+      border-color: var(--manteq-accent-color, #3498db);
+      color: var(--manteq-accent-color, #3498db);
+    }
+
+    .breadcrumb {
+      font-size: 0.85rem;
+    }
+
+    .breadcrumb a {
+      color: var(--manteq-text-muted, #6c757d);
+      text-decoration: none;
+    }
+
+    .breadcrumb a:hover {
+      color: var(--manteq-accent-color, #3498db);
+    }
+
+    .min-w-0 {
+      min-width: 0;
+    }
+
+    .user-menu {
+      position: relative;
+    }
+
+    .user-menu-toggle {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.25rem 0.5rem;
+      border: none;
+      border-radius: 2rem;
+      background: transparent;
+      color: var(--manteq-text-color, #212529);
+    }
+
+    .user-menu-toggle:hover {
+      background-color: rgba(var(--manteq-primary-rgb, 44, 62, 80), 0.08);
+    }
+
+    .user-avatar {
+      width: 38px;
+      height: 38px;
+      border-radius: 50%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-weight: 600;
+      font-size: 0.875rem;
+      background-color: var(--manteq-primary-color, #2c3e50);
+      color: white;
+    }
+
+    .user-menu-dropdown {
+      position: absolute;
+      top: calc(100% + 0.5rem);
+      inset-inline-end: 0;
+      z-index: 1050;
+      min-width: 220px;
+      padding: 0.5rem 0;
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+      border-radius: 0.5rem;
+      background-color: var(--manteq-surface-color, white);
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12);
+    }
+
+    .user-menu-identity {
+      padding: 0.5rem 1rem 0.75rem;
+      margin-bottom: 0.25rem;
+      border-bottom: 1px solid var(--manteq-border-color, #dee2e6);
+      overflow-wrap: anywhere;
+    }
+
+    .user-menu-item {
+      display: flex;
+      align-items: center;
+      width: 100%;
+      padding: 0.5rem 1rem;
+      border: none;
+      background: transparent;
+      color: var(--manteq-text-color, #212529);
+      text-align: start;
+    }
+
+    .user-menu-item:hover {
+      background-color: rgba(var(--manteq-accent-rgb, 52, 152, 219), 0.08);
+    }
+
     .company-logo {
       height: 50px;
       width: auto;
@@ -48,7 +222,8 @@ import { ThemeService } from '../../services/theme.service';
 
     @media (max-width: 991.98px) {
       .library-header {
-        padding: 1rem 1.5rem 1rem 4.5rem;
+        padding: 1rem 1.5rem;
+        padding-inline-start: 4.5rem;
       }
       
       .company-logo {
@@ -82,4 +257,32 @@ import { ThemeService } from '../../services/theme.service';
 })
 export class HeaderComponent {
   themeService = inject(ThemeService);
+  private permissions = inject(ManteqPermissionService);
+  private elementRef = inject(ElementRef);
+
+  signOut = output<void>();
+  profile = output<void>();
+
+  user = this.permissions.user;
+  breadcrumbs = manteqBreadcrumbs();
+  pageTitle = computed(() => this.breadcrumbs().at(-1)?.label ?? '');
+  menuOpen = signal(false);
+
+  // First letters of the first and last name, e.g. "John Smith" -> "JS"
+  initials = computed(() => {
+    const words = this.user().name.trim().split(/\s+/).filter(Boolean);
+    const letters = words.length > 1 ? [words[0], words[words.length - 1]] : words;
+    return letters.map(word => word[0]).join('').toUpperCase() || '?';
+  });
+
+  select(action: 'profile' | 'signOut'): void {
+    this.menuOpen.set(false);
+    this[action].emit();
+  }
+
+  closeMenuOnOutsideClick(event: MouseEvent): void {
+    if (this.menuOpen() && !this.elementRef.nativeElement.querySelector('.user-menu')?.contains(event.target as Node)) {
+      this.menuOpen.set(false);
+    }
+  }
 }
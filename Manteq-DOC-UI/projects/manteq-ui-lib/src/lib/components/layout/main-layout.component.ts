@@ -1,21 +1,51 @@
-import { Component, signal, Input, OnChanges, SimpleChanges, inject, effect } from '@angular/core';
+import { Component, signal, Input, OnChanges, SimpleChanges, inject, effect, output } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, RouterOutlet } from '@angular/router';
 import { HeaderComponent } from './header.component';
-import { SidebarComponent, NavItem } from './sidebar.component';
-import { ThemeService } from '../../services/theme.service';
-import { ManteqLibConfig, UserContext } from '../../models/config.model';
+import { SidebarComponent } from './sidebar.component';
+import { CommandPaletteComponent } from './command-palette.component';
+import { BackgroundTasksComponent } from './background-tasks.component';
+import {
+  ThemeService,
+  NetworkStatusService,
+  ManteqProgressService,
+  ManteqPermissionService,
+  ManteqNavigationService,
+  ManteqTranslationService,
+  ManteqTranslatePipe,
+  ManteqLibConfig,
+  UserContext
+} from '@manteq/ui-lib/core';
 
+/**
+ * Shell with sidebar, header and the routed feature screen. Host elements marked
+ * `manteqHeaderActions` or `manteqHeaderContent` are projected into the header.
+ * Ctrl+K (Cmd+K on macOS) opens the command palette. A thin bar at the top shows API
+ * requests in flight and background jobs are listed in a tray.
+ */
 @Component({
   selector: 'manteq-main-layout',
   standalone: true,
-  imports: [CommonModule, HeaderComponent, SidebarComponent, RouterOutlet],
+  imports: [CommonModule, HeaderComponent, SidebarComponent, CommandPaletteComponent, BackgroundTasksComponent, RouterOutlet, ManteqTranslatePipe],
+  host: {
+    '(document:keydown)': 'handleShortcut($event)'
+  },
   template: `
-    <div class="main-layout-container">
+    <div
+      class="main-layout-container"
+      [attr.dir]="i18n.direction()"
+      [attr.lang]="i18n.locale()"
+      [attr.data-bs-theme]="themeService.isDarkMode() ? 'dark' : 'light'">
+      <!-- API Progress -->
+      @if (progress.loading()) {
+        <div class="progress-bar-top" role="progressbar" [attr.aria-label]="'layout.progress' | translate"></div>
+      }
+
       <!-- Mobile Menu Toggle -->
       <button 
         class="mobile-menu-toggle d-lg-none"
         (click)="toggleSidebar()"
+        [attr.aria-label]="'layout.toggleMenu' | translate"
         [attr.aria-expanded]="sidebarOpen()">
         <i class="bi" [class.bi-list]="!sidebarOpen()" [class.bi-x-lg]="sidebarOpen()"></i>
       </button>
@@ -23,8 +53,7 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
       <!-- Sidebar -->
       <div class="sidebar-wrapper" [class.open]="sidebarOpen()">
         <manteq-sidebar 
-          [items]="navItems()"
-          [activeRoute]="getCurrentRoute()"
+          [items]="navigation.items()"
           (navigate)="handleNavigate($event)">
         </manteq-sidebar>
       </div>
@@ -38,27 +67,98 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
       
       <!-- Main Content Area -->
       <div class="content-wrapper">
-        <manteq-header></manteq-header>
+        <manteq-header (signOut)="signOut.emit()" (profile)="profile.emit()">
+          <ng-container ngProjectAs="[manteqHeaderActions]">
+            <button
+              type="button"
+              class="palette-toggle"
+              [attr.aria-label]="'layout.palette.open' | translate"
+              (click)="paletteOpen.set(true)">
+              <i class="bi bi-search"></i>
+              <span class="d-none d-xl-inline">{{ 'layout.palette.open' | translate }}</span>
+              <kbd class="d-none d-xl-inline">Ctrl K</kbd>
+            </button>
+            <ng-content select="[manteqHeaderActions]"></ng-content>
+          </ng-container>
+          <ng-container ngProjectAs="[manteqHeaderContent]">
+            <ng-content select="[manteqHeaderContent]"></ng-content>
+          </ng-container>
+        </manteq-header>
+        @if (!networkStatus.online()) {
+          <div class="offline-banner" role="status">
+            <i class="bi bi-wifi-off me-2"></i>
+            <span>
+              {{ 'layout.offline.title' | translate }}
+              @if (networkStatus.pausedRequests() > 0) {
+                {{ (networkStatus.pausedRequests() === 1 ? 'layout.offline.pendingOne' : 'layout.offline.pendingMany') | translate: { count: networkStatus.pausedRequests() } }}
+              } @else {
+                {{ 'layout.offline.noPending' | translate }}
+              }
+            </span>
+          </div>
+        }
         <div class="main-content">
           <router-outlet></router-outlet>
         </div>
       </div>
+
+      @if (paletteOpen()) {
+        <manteq-command-palette (closed)="paletteOpen.set(false)"></manteq-command-palette>
+      }
+
+      @if (progress.tasks().length > 0) {
+        <manteq-background-tasks></manteq-background-tasks>
+      }
     </div>
   `,
   styles: [`
     .main-layout-container {
       min-height: 100vh;
-      background-color: #f8f9fa;
+      background-color: var(--manteq-surface-muted, #f8f9fa);
+      color: var(--manteq-text-color, #212529);
       font-family: var(--manteq-font-family, 'Inter', sans-serif);
       display: flex;
       position: relative;
     }
 
+    /* API Progress */
+    .progress-bar-top {
+      position: fixed;
+      top: 0;
+      inset-inline: 0;
+      z-index: 1060;
+      height: 3px;
+      overflow: hidden;
+      background-color: rgba(var(--manteq-accent-rgb, 52, 152, 219), 0.2);
+    }
+
+    .progress-bar-top::after {
+      content: '';
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      width: 40%;
+      background-color: var(--manteq-accent-color, #3498db);
+      animation: manteq-progress 1.2s ease-in-out infinite;
+    }
+
+    @keyframes manteq-progress {
+      from { left: -40%; }
+      to { left: 100%; }
+    }
+
+    @media (prefers-reduced-motion: reduce) {
+      .progress-bar-top::after {
+        width: 100%;
+        animation: none;
+      }
+    }
+
     /* Mobile Menu Toggle */
     .mobile-menu-toggle {
       position: absolute;
       top: 1.25rem;
-      left: 1rem;
+      inset-inline-start: 1rem;
       z-index: 10;
       width: 40px;
       height: 40px;
@@ -88,11 +188,11 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
     .sidebar-wrapper {
       position: fixed;
       top: 0;
-      left: 0;
+      inset-inline-start: 0;
       height: 100vh;
       width: 280px;
-      background-color: white;
-      border-right: 1px solid #dee2e6;
+      background-color: var(--manteq-surface-color, white);
+      border-inline-end: 1px solid var(--manteq-border-color, #dee2e6);
       z-index: 1040;
       transition: transform 0.3s ease;
       overflow-y: auto;
@@ -104,7 +204,11 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
         transform: translateX(-100%);
       }
 
-      .sidebar-wrapper.open {
+      .main-layout-container[dir='rtl'] .sidebar-wrapper {
+        transform: translateX(100%);
+      }
+
+      .main-layout-container .sidebar-wrapper.open {
         transform: translateX(0);
       }
     }
@@ -143,7 +247,7 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
     /* Content Wrapper */
     .content-wrapper {
       flex: 1;
-      margin-left: 0;
+      margin-inline-start: 0;
       min-height: 100vh;
       display: flex;
       flex-direction: column;
@@ -151,10 +255,51 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
 
     @media (min-width: 992px) {
       .content-wrapper {
-        margin-left: 280px;
+        margin-inline-start: 280px;
       }
     }
 
+    /* Offline Banner */
+    .offline-banner {
+      position: sticky;
+      top: 0;
+      z-index: 1020;
+      display: flex;
+      align-items: center;
+      padding: 0.75rem 2rem;
+      background-color: #fff3cd;
+      color: #664d03;
+      border-bottom: 1px solid #ffe69c;
+      font-size: 0.9rem;
+    }
+
+    /* Command Palette Toggle */
+    .palette-toggle {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      height: 38px;
+      padding: 0 0.75rem;
+      border-radius: 19px;
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+      background: transparent;
+      color: var(--manteq-text-muted, #6c757d);
+      white-space: nowrap;
+      transition: all 0.2s ease;
+    }
+
+    .palette-toggle:hover {
+      border-color: var(--manteq-accent-color, #3498db);
+      color: var(--manteq-accent-color, #3498db);
+    }
+
+    .palette-toggle kbd {
+      font-size: 0.7rem;
+      background-color: var(--manteq-surface-muted, #f8f9fa);
+      color: var(--manteq-text-muted, #6c757d);
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+    }
+
     /* Main Content */
     .main-content {
       flex: 1;
@@ -170,19 +315,25 @@ import { ManteqLibConfig, UserContext } from '../../models/config.model';
 })
 export class MainLayoutComponent implements OnChanges {
   sidebarOpen = signal(false);
+  paletteOpen = signal(false);
   
-  // Inputs for dynamic configuration
-  @Input() config!: ManteqLibConfig;
-  @Input() userContext!: UserContext;
+  // Optional runtime overrides - provideManteq() already supplies the configuration
+  @Input() config?: ManteqLibConfig;
+  @Input() userContext?: UserContext;
+
+  // User menu actions, forwarded from the header
+  signOut = output<void>();
+  profile = output<void>();
   
-  navItems = signal<NavItem[]>([
-    { label: 'Document Library', icon: 'bi-folder-fill', route: 'documents' },
-    { label: 'Template Builder', icon: 'bi-file-earmark-text', route: 'templates' },
-    { label: 'Email Templates', icon: 'bi-envelope', route: 'emails' },
-    { label: 'Trash', icon: 'bi-trash', route: 'trash' }
-  ]);
+  private permissions = inject(ManteqPermissionService);
+  i18n = inject(ManteqTranslationService);
+
+  // Sidebar entries from MANTEQ_NAV_ITEMS, filtered by features, permissions and registered routes
+  navigation = inject(ManteqNavigationService);
   
-  private themeService = inject(ThemeService);
+  themeService = inject(ThemeService);
+  networkStatus = inject(NetworkStatusService);
+  progress = inject(ManteqProgressService);
   
   constructor(private router: Router) {
     // Watch for config changes and apply theme
@@ -198,6 +349,9 @@ export class MainLayoutComponent implements OnChanges {
     if (changes['config'] && this.config) {
       this.themeService.setConfig(this.config);
     }
+    if (changes['userContext'] && this.userContext) {
+      this.permissions.setUser(this.userContext);
+    }
   }
   
   toggleSidebar(): void {
@@ -208,15 +362,17 @@ export class MainLayoutComponent implements OnChanges {
     this.sidebarOpen.set(false);
   }
   
-  handleNavigate(route: string): void {
-    this.router.navigate([route]);
-    // Close sidebar on mobile after navigation
-    this.closeSidebar();
+  handleShortcut(event: KeyboardEvent): void {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      // Keep the browser from focusing its own search bar
+      event.preventDefault();
+      this.paletteOpen.update(open => !open);
+    }
   }
 
-  getCurrentRoute(): string {
-    const url = this.router.url;
-    const route = url.split('/').pop() || 'documents';
-    return route;
+  handleNavigate(url: string): void {
+    this.router.navigateByUrl(url);
+    // Close sidebar on mobile after navigation
+    this.closeSidebar();
   }
 }
@@ -0,0 +1,257 @@
+import { Component, ElementRef, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import {
+  NotificationService,
+  ManteqNotification,
+  ManteqNotificationLevel,
+  DateFormatPipe,
+  ManteqTranslatePipe
+} from '@manteq/ui-lib/core';
+
+const LEVEL_ICONS: Record<ManteqNotificationLevel, string> = {
+  success: 'bi-check-circle-fill text-success',
+  error: 'bi-x-circle-fill text-danger',
+  warning: 'bi-exclamation-triangle-fill text-warning',
+  info: 'bi-info-circle-fill text-info'
+};
+
+/**
+ * Bell with the unread count and the notification history of this browser session.
+ * Entries are marked read when the panel closes.
+ */
+@Component({
+  selector: 'manteq-notification-center',
+  standalone: true,
+  imports: [CommonModule, DateFormatPipe, ManteqTranslatePipe],
+  host: {
+    '(document:click)': 'closeOnOutsideClick($event)',
+    '(document:keydown.escape)': 'close()'
+  },
+  template: `
+    <button
+      type="button"
+      class="notification-toggle"
+      aria-haspopup="dialog"
+      [attr.aria-expanded]="open()"
+      [attr.aria-label]="('layout.notifications.label' | translate) + (notifications.unreadCount() > 0 ? ', ' + ('layout.notifications.unread' | translate: { count: notifications.unreadCount() }) : '')"
+      [title]="'layout.notifications.label' | translate"
+      (click)="toggle()">
+      <i class="bi bi-bell"></i>
+      @if (notifications.unreadCount() > 0) {
+        <span class="unread-badge" aria-hidden="true">{{ notifications.unreadCount() > 99 ? '99+' : notifications.unreadCount() }}</span>
+      }
+    </button>
+
+    @if (open()) {
+      <div class="notification-panel" role="dialog" [attr.aria-label]="'layout.notifications.label' | translate">
+        <div class="panel-header">
+          <span class="fw-semibold">{{ 'layout.notifications.label' | translate }}</span>
+          @if (notifications.history().length > 0) {
+            <div class="d-flex gap-2">
+              <button type="button" class="btn btn-link btn-sm p-0" (click)="notifications.markAllRead()">
+                {{ 'layout.notifications.markAllRead' | translate }}
+              </button>
+              <button type="button" class="btn btn-link btn-sm p-0" (click)="notifications.clearHistory()">
+                {{ 'layout.notifications.clear' | translate }}
+              </button>
+            </div>
+          }
+        </div>
+
+        <ul class="notification-list">
+          @for (entry of notifications.history(); track entry.id) {
+            <li class="notification-entry" [class.unread]="!entry.read">
+              <i class="bi {{ levelIcons[entry.level] }}"></i>
+              <div class="entry-body">
+                <div class="d-flex justify-content-between gap-2">
+                  <span class="fw-semibold">{{ entry.title }}</span>
+                  <small class="text-muted text-nowrap">{{ entry.createdAt | dateFormat: 'relative' }}</small>
+                </div>
+                @if (entry.message) {
+                  <div class="entry-message">{{ entry.message }}</div>
+                }
+                @if (entry.detail; as detail) {
+                  <div class="entry-detail">
+                    <div>
+                      {{ 'layout.notifications.status' | translate: { status: detail.status } }}
+                      @if (detail.service) {
+                        · {{ detail.service }}
+                      }
+                    </div>
+                    @if (detail.messages.length > 0) {
+                      <ul class="mb-0 ps-3">
+                        @for (message of detail.messages; track $index) {
+                          <li>{{ message }}</li>
+                        }
+                      </ul>
+                    }
+                    @if (detail.traceId) {
+                      <div class="text-break">{{ 'layout.notifications.traceId' | translate: { id: detail.traceId } }}</div>
+                    }
+                  </div>
+                }
+                <div class="entry-actions">
+                  @if (entry.link) {
+                    <button type="button" class="btn btn-link btn-sm p-0" (click)="openLink(entry)">
+                      {{ 'layout.notifications.open' | translate }}
+                    </button>
+                  }
+                  <button type="button" class="btn btn-link btn-sm p-0 text-muted" (click)="notifications.dismiss(entry.id)">
+                    {{ 'layout.notifications.dismiss' | translate }}
+                  </button>
+                </div>
+              </div>
+            </li>
+          } @empty {
+            <li class="notification-empty">{{ 'layout.notifications.empty' | translate }}</li>
+          }
+        </ul>
+      </div>
+    }
+  `,
+  styles: [`
+    :host {
+      position: relative;
+      display: block;
+    }
+
+    .notification-toggle {
+      position: relative;
+      width: 38px;
+      height: 38px;
+      border-radius: 50%;
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+      background: transparent;
+      color: var(--manteq-text-color, #212529);
+      transition: all 0.2s ease;
+    }
+
+    .notification-toggle:hover {
+      border-color: var(--manteq-accent-color, #3498db);
+      color: var(--manteq-accent-color, #3498db);
+    }
+
+    .unread-badge {
+      position: absolute;
+      top: -4px;
+      inset-inline-end: -6px;
+      min-width: 1.25rem;
+      padding: 0 0.3rem;
+      border-radius: 1rem;
+      font-size: 0.7rem;
+      font-weight: 600;
+      line-height: 1.25rem;
+      background-color: #dc3545;
+      color: white;
+    }
+
+    .notification-panel {
+      position: absolute;
+      top: calc(100% + 0.5rem);
+      inset-inline-end: 0;
+      z-index: 1050;
+      width: min(380px, 92vw);
+      border: 1px solid var(--manteq-border-color, #dee2e6);
+      border-radius: 0.5rem;
+      background-color: var(--manteq-surface-color, white);
+      color: var(--manteq-text-color, #212529);
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12);
+    }
+
+    .panel-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 0.75rem 1rem;
+      border-bottom: 1px solid var(--manteq-border-color, #dee2e6);
+    }
+
+    .notification-list {
+      max-height: 420px;
+      overflow-y: auto;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .notification-entry {
+      display: flex;
+      gap: 0.75rem;
+      padding: 0.75rem 1rem;
+      border-bottom: 1px solid var(--manteq-border-color, #dee2e6);
+      font-size: 0.875rem;
+    }
+
+    .notification-entry:last-child {
+      border-bottom: none;
+    }
+
+    .notification-entry.unread {
+      background-color: rgba(var(--manteq-accent-rgb, 52, 152, 219), 0.06);
+    }
+
+    .entry-body {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .entry-message {
+      overflow-wrap: anywhere;
+    }
+
+    .entry-detail {
+      margin-top: 0.25rem;
+      font-size: 0.8rem;
+      color: var(--manteq-text-muted, #6c757d);
+    }
+
+    .entry-actions {
+      display: flex;
+      gap: 0.75rem;
+      margin-top: 0.25rem;
+    }
+
+    .notification-empty {
+      padding: 1.5rem 1rem;
+      text-align: center;
+      color: var(--manteq-text-muted, #6c757d);
+    }
+  `]
+})
+export class NotificationCenterComponent {
+  notifications = inject(NotificationService);
+  private router = inject(Router);
+  private elementRef = inject(ElementRef);
+
+  levelIcons = LEVEL_ICONS;
+  open = signal(false);
+
+  toggle(): void {
+    if (this.open()) {
+      this.close();
+    } else {
+      this.open.set(true);
+    }
+  }
+
+  close(): void {
+    if (this.open()) {
+      this.open.set(false);
+      this.notifications.markAllRead();
+    }
+  }
+
+  openLink(entry: ManteqNotification): void {
+    this.notifications.markRead(entry.id);
+    this.close();
+    this.router.navigateByUrl(entry.link!);
+  }
+
+  closeOnOutsideClick(event: MouseEvent): void {
+    // composedPath() still lists entries removed by the click (dismiss, clear)
+    if (this.open() && !event.composedPath().includes(this.elementRef.nativeElement)) {
+      this.close();
+    }
+  }
+}
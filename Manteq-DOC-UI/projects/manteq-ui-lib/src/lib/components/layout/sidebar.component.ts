@@ -1,6 +1,10 @@
-import { Component, input, output } from '@angular/core';
+import { Component, computed, input, output, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ManteqResolvedNavItem } from '@manteq/ui-lib/core';
 
+/**
+ * @deprecated Pass ManteqResolvedNavItem entries (ManteqNavigationService.items) instead
+ */
 export interface NavItem {
   label: string;
   icon: string;
@@ -14,24 +18,61 @@ export interface NavItem {
   template: `
     <div class="sidebar">
       <div class="sidebar-content">
-        <div class="nav flex-column nav-pills" role="tablist">
-          @for (item of items(); track item.route) {
-            <button 
-              class="nav-link" 
-              [class.active]="item.route === activeRoute()"
-              type="button"
-              (click)="navigate.emit(item.route)">
-              <i class="bi {{ item.icon }} me-2"></i>
-              {{ item.label }}
-            </button>
+        <nav class="nav flex-column nav-pills">
+          @for (item of entries(); track item.id) {
+            <ng-container *ngTemplateOutlet="entry; context: { $implicit: item }"></ng-container>
           }
-        </div>
+        </nav>
       </div>
     </div>
+
+    <ng-template #entry let-item>
+      @if (item.children.length > 0) {
+        <div class="nav-group">
+          <button
+            class="nav-link nav-group-toggle"
+            [class.contains-active]="item.active"
+            type="button"
+            [attr.aria-expanded]="!collapsed().has(item.id)"
+            (click)="toggleGroup(item.id)">
+            @if (item.icon) {
+              <i class="bi {{ item.icon }} me-2"></i>
+            }
+            <span class="nav-label">{{ item.label }}</span>
+            @if (item.badge !== null) {
+              <span class="nav-badge">{{ item.badge }}</span>
+            }
+            <i class="bi bi-chevron-down group-chevron ms-2"></i>
+          </button>
+          @if (!collapsed().has(item.id)) {
+            <div class="nav-group-items">
+              @for (child of item.children; track child.id) {
+                <ng-container *ngTemplateOutlet="entry; context: { $implicit: child }"></ng-container>
+              }
+            </div>
+          }
+        </div>
+      } @else {
+        <button
+          class="nav-link"
+          [class.active]="item.active"
+          type="button"
+          [attr.aria-current]="item.active ? 'page' : null"
+          (click)="navigate.emit(item.url)">
+          @if (item.icon) {
+            <i class="bi {{ item.icon }} me-2"></i>
+          }
+          <span class="nav-label">{{ item.label }}</span>
+          @if (item.badge !== null) {
+            <span class="nav-badge">{{ item.badge }}</span>
+          }
+        </button>
+      }
+    </ng-template>
   `,
   styles: [`
     .sidebar {
-      background-color: white;
+      background-color: var(--manteq-surface-color, white);
       height: 100%;
       display: flex;
       flex-direction: column;
@@ -44,35 +85,110 @@ export interface NavItem {
     }
 
     .nav-pills .nav-link {
+      display: flex;
+      align-items: center;
       border-radius: 0.5rem;
       padding: 0.75rem 1rem;
       margin-bottom: 0.5rem;
-      color: #6c757d;
+      color: var(--manteq-text-muted, #6c757d);
       transition: all 0.2s;
-      text-align: left;
+      text-align: start;
       border: none;
       background: transparent;
       width: 100%;
     }
 
     .nav-pills .nav-link:hover {
-      background-color: rgba(52, 152, 219, 0.08);
+      background-color: rgba(var(--manteq-accent-rgb, 52, 152, 219), 0.08);
       color: var(--manteq-primary-color, #2c3e50);
-      border-left: 3px solid var(--manteq-accent-color, #3498db);
-      padding-left: calc(1rem - 3px);
+      border-inline-start: 3px solid var(--manteq-accent-color, #3498db);
+      padding-inline-start: calc(1rem - 3px);
     }
 
     .nav-pills .nav-link.active {
       background-color: var(--manteq-accent-color, #3498db);
       color: white;
       box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-      border-left: 3px solid var(--manteq-primary-color, #2c3e50);
-      padding-left: calc(1rem - 3px);
+      border-inline-start: 3px solid var(--manteq-primary-color, #2c3e50);
+      padding-inline-start: calc(1rem - 3px);
+    }
+
+    .nav-label {
+      flex: 1;
+    }
+
+    .nav-badge {
+      min-width: 1.5rem;
+      padding: 0.125rem 0.5rem;
+      border-radius: 1rem;
+      font-size: 0.75rem;
+      font-weight: 600;
+      text-align: center;
+      background-color: rgba(var(--manteq-primary-rgb, 44, 62, 80), 0.1);
+      color: var(--manteq-primary-color, #2c3e50);
+    }
+
+    .nav-link.active .nav-badge {
+      background-color: rgba(255, 255, 255, 0.25);
+      color: white;
+    }
+
+    .nav-group-toggle.contains-active {
+      color: var(--manteq-primary-color, #2c3e50);
+      font-weight: 600;
+    }
+
+    .group-chevron {
+      font-size: 0.75rem;
+      transition: transform 0.2s;
+    }
+
+    .nav-group-toggle[aria-expanded='false'] .group-chevron {
+      transform: rotate(-90deg);
+    }
+
+    :host-context([dir='rtl']) .nav-group-toggle[aria-expanded='false'] .group-chevron {
+      transform: rotate(90deg);
+    }
+
+    .nav-group-items {
+      padding-inline-start: 1rem;
     }
   `]
 })
 export class SidebarComponent {
-  items = input.required<NavItem[]>();
+  items = input.required<readonly (ManteqResolvedNavItem | NavItem)[]>();
+  /**
+   * @deprecated Only used to highlight legacy NavItem entries; resolved items carry `active`
+   */
   activeRoute = input<string>('');
   navigate = output<string>();
+
+  entries = computed(() => this.items().map(item => 'route' in item ? this.fromLegacyItem(item) : item));
+
+  // Groups are open unless the user closed them
+  collapsed = signal(new Set<string>());
+
+  toggleGroup(id: string): void {
+    this.collapsed.update(collapsed => {
+      const next = new Set(collapsed);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  private fromLegacyItem(item: NavItem): ManteqResolvedNavItem {
+    const activeRoute = this.activeRoute();
+    return {
+      id: item.route,
+      label: item.label,
+      icon: item.icon,
+      url: item.route,
+      badge: null,
+      active: activeRoute === item.route || activeRoute.startsWith(`${item.route}/`),
+      children: []
+    };
+  }
 }
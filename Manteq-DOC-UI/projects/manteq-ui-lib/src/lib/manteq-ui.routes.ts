@@ -1,30 +1,114 @@
-import { Routes } from '@angular/router';
-import { DocumentLibraryComponent } from './components/cms/document-library.component';
-import { TemplateBuilderComponent } from './components/tms/template-builder.component';
-import { TrashComponent } from './components/trash/trash.component';
-import { EmailTemplatesComponent } from './components/email/email-templates.component';
+import { inject } from '@angular/core';
+import { RedirectFunction, Routes } from '@angular/router';
+import {
+  ManteqFeatureName,
+  ManteqFeatures,
+  ManteqPermissionService,
+  documentResolver,
+  emailTemplateResolver,
+  manteqPermissionGuard,
+  templateResolver
+} from '@manteq/ui-lib/core';
 
-export const MANTEQ_ROUTES: Routes = [
-  {
-    path: '',
-    redirectTo: 'documents',
-    pathMatch: 'full'
-  },
+const FEATURE_ROUTES: Routes = [
   {
     path: 'documents',
-    component: DocumentLibraryComponent
+    loadComponent: () => import('@manteq/ui-lib/cms').then(m => m.DocumentLibraryComponent),
+    canMatch: [manteqPermissionGuard('documents.view')],
+    data: { title: 'documents.title' },
+    // Detail and action routes have no component of their own - the list opens a modal for them
+    children: [
+      {
+        path: 'upload',
+        canMatch: [manteqPermissionGuard('documents.upload')],
+        data: { title: 'documents.upload.title', action: 'upload' },
+        children: []
+      },
+      { path: ':id', resolve: { document: documentResolver }, data: { title: 'documents.details.subtitle' }, children: [] }
+    ]
   },
   {
     path: 'templates',
-    component: TemplateBuilderComponent
+    loadComponent: () => import('@manteq/ui-lib/tms').then(m => m.TemplateBuilderComponent),
+    canMatch: [manteqPermissionGuard('templates.view')],
+    data: { title: 'templates.title' },
+    children: [
+      {
+        path: 'new',
+        canMatch: [manteqPermissionGuard('templates.upload')],
+        data: { title: 'templates.add.title', action: 'create' },
+        children: []
+      },
+      { path: ':id', resolve: { template: templateResolver }, data: { title: 'templates.details.subtitle' }, children: [] }
+    ]
   },
   {
     path: 'emails',
-    component: EmailTemplatesComponent,
-    data: { title: 'Email Templates' }
+    loadComponent: () => import('@manteq/ui-lib/email').then(m => m.EmailTemplatesComponent),
+    canMatch: [manteqPermissionGuard('emails.view')],
+    data: { title: 'emails.title' },
+    children: [
+      {
+        path: 'new',
+        canMatch: [manteqPermissionGuard('emails.create')],
+        data: { title: 'emails.create.title', action: 'create' },
+        children: []
+      },
+      {
+        path: ':id/edit',
+        canMatch: [manteqPermissionGuard('emails.edit')],
+        resolve: { emailTemplate: emailTemplateResolver },
+        data: { title: 'emails.edit.title', action: 'edit' },
+        children: []
+      },
+      {
+        path: ':id/test',
+        canMatch: [manteqPermissionGuard('emails.test')],
+        resolve: { emailTemplate: emailTemplateResolver },
+        data: { title: 'emails.actions.test', action: 'test' },
+        children: []
+      }
+    ]
   },
   {
     path: 'trash',
-    component: TrashComponent
+    loadComponent: () => import('@manteq/ui-lib/trash').then(m => m.TrashComponent),
+    canMatch: [manteqPermissionGuard('trash.view')],
+    data: { title: 'trash.title' }
   }
 ];
+
+/**
+ * Feature components are lazy-loaded from their secondary entry points, so a host
+ * only downloads the screens the user actually opens
+ */
+export const MANTEQ_ROUTES: Routes = [
+  { path: '', redirectTo: redirectToFirstAllowed(FEATURE_ROUTES), pathMatch: 'full' },
+  ...FEATURE_ROUTES
+];
+
+/**
+ * MANTEQ_ROUTES without the disabled features; the default redirect goes to the first enabled one
+ */
+export function manteqRoutes(features: ManteqFeatures): Routes {
+  const enabled = FEATURE_ROUTES.filter(route => features[route.path as ManteqFeatureName]);
+  if (enabled.length === 0) {
+    return [];
+  }
+
+  return [
+    { path: '', redirectTo: redirectToFirstAllowed(enabled), pathMatch: 'full' },
+    ...enabled
+  ];
+}
+
+/**
+ * Land on the first feature the current user may view
+ */
+function redirectToFirstAllowed(routes: Routes): RedirectFunction {
+  return () => {
+    const permissions = inject(ManteqPermissionService);
+    const allowed = routes.find(route => permissions.can(`${route.path as ManteqFeatureName}.view`));
+    return (allowed ?? routes[0]).path!;
+  };
+}
@@ -1,19 +0,0 @@
-import { Pipe, PipeTransform } from '@angular/core';
-
-@Pipe({
-  name: 'dateFormat',
-  standalone: true
-})
-export class DateFormatPipe implements PipeTransform {
-  transform(value: Date | string | undefined): string {
-    if (!value) return '';
-    
-    const date = typeof value === 'string' ? new Date(value) : value;
-    
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const year = date.getFullYear();
-    
-    return `${month}/${day}/${year}`;
-  }
-}
@@ -0,0 +1,226 @@
+import { EnvironmentProviders, makeEnvironmentProviders, provideEnvironmentInitializer } from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { ROUTES } from '@angular/router';
+import {
+  MANTEQ_API_CONFIG,
+  MANTEQ_CONFIG,
+  MANTEQ_FEATURES,
+  MANTEQ_NAV_ITEMS,
+  MANTEQ_ROLE_PERMISSIONS,
+  USER_CONTEXT,
+  ManteqApiConfig,
+  ManteqFeatures,
+  ManteqLibConfig,
+  ManteqNavItem,
+  ManteqOptions,
+  ManteqPermissionGrant,
+  ManteqRolePermissions,
+  UserContext,
+  API_BASE_URLS,
+  DEFAULT_MANTEQ_FEATURES,
+  DEFAULT_ROLE_PERMISSIONS,
+  MANTEQ_PERMISSIONS,
+  DEFAULT_THEME,
+  MANTEQ_LOCALES,
+  MANTEQ_COLOR_SCHEMES,
+  parseColor,
+  errorInterceptor,
+  progressInterceptor,
+  retryInterceptor,
+  authInterceptor,
+  ManteqConfigError
+} from '@manteq/ui-lib/core';
+import { manteqRoutes } from '../manteq-ui.routes';
+
+/**
+ * Register everything the library needs in one call: HttpClient with the Manteq
+ * interceptors, theme, user and API configuration, and the feature routes.
+ *
+ * The options are validated at startup and a ManteqConfigError lists every problem.
+ * List it before provideRouter() so a wildcard route of the host app does not shadow
+ * the feature routes, and before provideManteqMockBackend().
+ */
+export function provideManteq(options: ManteqOptions = {}): EnvironmentProviders {
+  const features: ManteqFeatures = { ...DEFAULT_MANTEQ_FEATURES, ...options.features };
+  const theme: ManteqLibConfig = { ...DEFAULT_THEME, ...options.theme };
+  const routePath = options.routePath === undefined ? '' : options.routePath;
+
+  return makeEnvironmentProviders([
+    provideHttpClient(withInterceptors([errorInterceptor, progressInterceptor, retryInterceptor, authInterceptor])),
+    { provide: MANTEQ_CONFIG, useValue: theme },
+    { provide: MANTEQ_FEATURES, useValue: features },
+    options.api ? { provide: MANTEQ_API_CONFIG, useValue: options.api } : [],
+    options.user ? { provide: USER_CONTEXT, useValue: options.user } : [],
+    options.navItems ? { provide: MANTEQ_NAV_ITEMS, useValue: options.navItems } : [],
+    options.rolePermissions
+      ? { provide: MANTEQ_ROLE_PERMISSIONS, useValue: { ...DEFAULT_ROLE_PERMISSIONS, ...options.rolePermissions } }
+      : [],
+    routePath !== null
+      ? { provide: ROUTES, multi: true, useValue: [{ path: routePath, children: manteqRoutes(features) }] }
+      : [],
+    provideEnvironmentInitializer(() => {
+      const problems = validateManteqOptions(options);
+      if (problems.length > 0) {
+        throw new ManteqConfigError(problems);
+      }
+    })
+  ]);
+}
+
+// ========== VALIDATION ==========
+
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+
+function validateManteqOptions(options: ManteqOptions): string[] {
+  return [
+    ...validateApi(options.api),
+    ...validateTheme(options.theme),
+    ...validateUser(options.user, { ...DEFAULT_ROLE_PERMISSIONS, ...options.rolePermissions }),
+    ...validateRolePermissions(options.rolePermissions),
+    ...validateFeatures(options.features),
+    ...validateNavItems(options.navItems),
+    ...validateRoutePath(options.routePath)
+  ];
+}
+
+function validateApi(api: ManteqApiConfig | undefined): string[] {
+  if (!api) return [];
+
+  const problems = checkBaseUrl('api.baseUrl', api.baseUrl);
+  for (const [service, endpoint] of Object.entries(api.services ?? {})) {
+    if (!(service in API_BASE_URLS)) {
+      problems.push(`api.services.${service} is not a known service (expected ${Object.keys(API_BASE_URLS).join(', ')})`);
+    }
+    problems.push(...checkBaseUrl(`api.services.${service}.baseUrl`, endpoint?.baseUrl));
+  }
+  return problems;
+}
+
+function checkBaseUrl(field: string, value: string | undefined): string[] {
+  if (value === undefined || value.startsWith('/')) return [];
+
+  try {
+    const protocol = new URL(value).protocol;
+    return protocol === 'http:' || protocol === 'https:' ? [] : [`${field} must use http or https (got "${value}")`];
+  } catch {
+    return [`${field} must be an absolute URL or a path starting with "/" (got "${value}")`];
+  }
+}
+
+function validateTheme(theme: Partial<ManteqLibConfig> | undefined): string[] {
+  if (!theme) return [];
+
+  const problems: string[] = [];
+  for (const field of ['primaryColor', 'accentColor'] as const) {
+    const value = theme[field];
+    if (value !== undefined && !parseColor(value)) {
+      problems.push(`theme.${field} must be a hex, rgb() or named color such as #2c3e50 (got "${value}")`);
+    }
+  }
+  if (theme.companyName !== undefined && !theme.companyName.trim()) {
+    problems.push('theme.companyName must not be empty');
+  }
+  if (theme.locale !== undefined && !MANTEQ_LOCALES.includes(theme.locale)) {
+    problems.push(`theme.locale must be one of ${MANTEQ_LOCALES.join(', ')} (got "${theme.locale}")`);
+  }
+  if (theme.colorScheme !== undefined && !MANTEQ_COLOR_SCHEMES.includes(theme.colorScheme)) {
+    problems.push(`theme.colorScheme must be one of ${MANTEQ_COLOR_SCHEMES.join(', ')} (got "${theme.colorScheme}")`);
+  }
+  if (theme.dateLocale !== undefined && !isValidIntlOption({ locale: theme.dateLocale })) {
+    problems.push(`theme.dateLocale must be a BCP 47 language tag such as en-GB (got "${theme.dateLocale}")`);
+  }
+  if (theme.timeZone !== undefined && !isValidIntlOption({ timeZone: theme.timeZone })) {
+    problems.push(`theme.timeZone must be an IANA time zone such as Asia/Dubai (got "${theme.timeZone}")`);
+  }
+  return problems;
+}
+
+/** Intl throws a RangeError for malformed locales and unknown time zones */
+function isValidIntlOption({ locale = 'en', timeZone }: { locale?: string; timeZone?: string }): boolean {
+  try {
+    new Intl.DateTimeFormat(locale, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateUser(user: UserContext | undefined, roles: ManteqRolePermissions): string[] {
+  if (!user) return [];
+
+  const problems: string[] = [];
+  if (!EMAIL.test(user.email ?? '')) {
+    problems.push(`user.email must be an email address (got "${user.email}")`);
+  }
+  if (!user.name?.trim()) {
+    problems.push('user.name must not be empty');
+  }
+  for (const role of user.roles ?? []) {
+    if (!(role in roles)) {
+      problems.push(`user.roles contains unknown role "${role}" (expected ${Object.keys(roles).join(', ')})`);
+    }
+  }
+  problems.push(...checkGrants('user.permissions', user.permissions));
+  return problems;
+}
+
+function validateRolePermissions(rolePermissions: ManteqRolePermissions | undefined): string[] {
+  return Object.entries(rolePermissions ?? {})
+    .flatMap(([role, grants]) => checkGrants(`rolePermissions.${role}`, grants));
+}
+
+function checkGrants(field: string, grants: ManteqPermissionGrant[] | undefined): string[] {
+  return (grants ?? [])
+    .filter(grant => !isKnownGrant(grant))
+    .map(grant => `${field} contains unknown permission "${grant}"`);
+}
+
+function isKnownGrant(grant: string): boolean {
+  if (grant === '*') return true;
+  if (grant.endsWith('.*')) return grant.slice(0, -2) in DEFAULT_MANTEQ_FEATURES;
+  return (MANTEQ_PERMISSIONS as readonly string[]).includes(grant);
+}
+
+function validateFeatures(features: Partial<ManteqFeatures> | undefined): string[] {
+  if (!features) return [];
+
+  const problems = Object.keys(features)
+    .filter(name => !(name in DEFAULT_MANTEQ_FEATURES))
+    .map(name => `features.${name} is not a known feature (expected ${Object.keys(DEFAULT_MANTEQ_FEATURES).join(', ')})`);
+
+  const resolved = { ...DEFAULT_MANTEQ_FEATURES, ...features };
+  if (!Object.values(resolved).some(Boolean)) {
+    problems.push('features must enable at least one feature');
+  }
+  return problems;
+}
+
+function validateNavItems(items: ManteqNavItem[] | undefined, field = 'navItems', ids = new Set<string>()): string[] {
+  const problems: string[] = [];
+  (items ?? []).forEach((item, index) => {
+    const path = `${field}[${index}]`;
+    if (ids.has(item.id)) {
+      problems.push(`${path}.id "${item.id}" is used more than once`);
+    }
+    ids.add(item.id);
+
+    if (item.feature !== undefined && !(item.feature in DEFAULT_MANTEQ_FEATURES)) {
+      problems.push(`${path}.feature "${item.feature}" is not a known feature`);
+    }
+    if (item.route !== undefined && !item.route.startsWith('/')) {
+      problems.push(`${path}.route must be an absolute URL starting with "/" (got "${item.route}")`);
+    }
+    if (!item.children && !item.feature && !item.route) {
+      problems.push(`${path} needs a feature, a route or children`);
+    }
+    if (item.permission !== undefined && !isKnownGrant(item.permission)) {
+      problems.push(`${path}.permission "${item.permission}" is not a known permission`);
+    }
+    problems.push(...validateNavItems(item.children, `${path}.children`, ids));
+  });
+  return problems;
+}
+
+function validateRoutePath(routePath: string | null | undefined): string[] {
+  return routePath?.startsWith('/') ? [`routePath must not start with "/" (got "${routePath}")`] : [];
+}
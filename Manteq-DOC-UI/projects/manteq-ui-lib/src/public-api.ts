@@ -1,49 +1,26 @@
 /*
  * Public API Surface of manteq-ui-lib
+ *
+ * Feature components live in secondary entry points so hosts only bundle what they use:
+ *   @manteq/ui-lib/cms   - DocumentLibraryComponent
+ *   @manteq/ui-lib/tms   - TemplateBuilderComponent
+ *   @manteq/ui-lib/email - EmailTemplatesComponent
+ *   @manteq/ui-lib/trash - TrashComponent
  */
 
-// Configuration
-export * from './lib/models/config.model';
-export * from './lib/tokens/config.tokens';
-export * from './lib/constants/api.constants';
-export * from './lib/constants/theme.constants';
+// Core - configuration, models, services, store, interceptors, pipes
+export * from '@manteq/ui-lib/core';
 
-// Models
-export * from './lib/models/cms.models';
-export * from './lib/models/tms.models';
-export * from './lib/models/email.models';
-
-// Services
-export * from './lib/services/theme.service';
-export * from './lib/services/notification.service';
-export * from './lib/services/cms-api.service';
-export * from './lib/services/tms-api.service';
-export * from './lib/services/cms-trash-api.service';
-export * from './lib/services/email-api.service';
-
-// Interceptors
-export * from './lib/interceptors/auth.interceptor';
-
-// Pipes
-export * from './lib/pipes/file-size.pipe';
-export * from './lib/pipes/date-format.pipe';
+// Setup
+export * from './lib/providers/manteq.providers';
 
 // Components - Layout
 export * from './lib/components/layout/header.component';
 export * from './lib/components/layout/sidebar.component';
+export * from './lib/components/layout/notification-center.component';
+export * from './lib/components/layout/command-palette.component';
+export * from './lib/components/layout/background-tasks.component';
 export * from './lib/components/layout/main-layout.component';
 
-// Components - CMS Module
-export * from './lib/components/cms/document-library.component';
-
-// Components - TMS Module
-export * from './lib/components/tms/template-builder.component';
-
-// Components - Trash
-export * from './lib/components/trash/trash.component';
-
-// Components - Email Module
-export * from './lib/components/email/email-templates.component';
-
 // Routes
 export * from './lib/manteq-ui.routes';
@@ -0,0 +1,185 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { TemplateBuilderComponent } from './template-builder.component';
+import { NotificationService, API_BASE_URLS, Template } from '@manteq/ui-lib/core';
+
+function createTemplate(index: number, changes: Partial<Template> = {}): Template {
+  return {
+    id: `tpl-${index}`,
+    name: `Template ${index}`,
+    description: index === 1 ? 'Motor quotation' : '',
+    category: index % 2 === 0 ? 'Sales' : 'Finance',
+    cmsDocumentId: `doc-${index}`,
+    placeholders: [],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    isActive: index % 4 !== 0,
+    createdBy: 'tester',
+    updatedBy: 'tester',
+    templateDownloadUrl: '',
+    successCount: 0,
+    failureCount: 0,
+    ...changes
+  };
+}
+
+describe('TemplateBuilderComponent', () => {
+  const baseUrl = API_BASE_URLS.TMS;
+  let fixture: ComponentFixture<TemplateBuilderComponent>;
+  let component: TemplateBuilderComponent;
+  let httpMock: HttpTestingController;
+  let notifications: jasmine.SpyObj<NotificationService>;
+  let templates: Template[];
+
+  beforeEach(async () => {
+    notifications = jasmine.createSpyObj<NotificationService>('NotificationService', [
+      'confirm', 'showLoading', 'hideLoading', 'success', 'warning', 'error', 'apiError'
+    ]);
+
+    await TestBed.configureTestingModule({
+      imports: [TemplateBuilderComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        { provide: NotificationService, useValue: notifications }
+      ]
+    }).compileComponents();
+
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture = TestBed.createComponent(TemplateBuilderComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+
+    templates = Array.from({ length: 12 }, (_, i) => createTemplate(i + 1));
+    httpMock.expectOne(`${baseUrl}/api/templates`).flush(templates);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should load templates on init', () => {
+    expect(component.templates().length).toBe(12);
+  });
+
+  describe('filtering', () => {
+    it('should filter by status', () => {
+      component.filterTemplates('inactive');
+      expect(component.filteredTemplates().map(t => t.id)).toEqual(['tpl-4', 'tpl-8', 'tpl-12']);
+
+      component.filterTemplates('active');
+      expect(component.filteredTemplates().length).toBe(9);
+    });
+
+    it('should filter by category', () => {
+      component.filterByType('sales');
+      expect(component.filteredTemplates().length).toBe(6);
+      expect(component.filteredTemplates().every(t => t.category === 'Sales')).toBeTrue();
+    });
+
+    it('should only apply the search term when searching', () => {
+      component.goToPage(2);
+      component.searchTerm = 'motor';
+      expect(component.filteredTemplates().length).toBe(12);
+
+      component.searchTemplates();
+      expect(component.filteredTemplates().map(t => t.id)).toEqual(['tpl-1']);
+      expect(component.currentPage()).toBe(1);
+    });
+  });
+
+  describe('pagination', () => {
+    it('should split templates into pages', () => {
+      expect(component.totalPages()).toBe(2);
+      expect(component.paginatedTemplates().length).toBe(10);
+
+      component.nextPage();
+      expect(component.paginatedTemplates().map(t => t.id)).toEqual(['tpl-11', 'tpl-12']);
+
+      component.nextPage();
+      expect(component.currentPage()).toBe(2);
+    });
+  });
+
+  describe('toggle status', () => {
+    it('should deactivate through the CMS and reload the templates', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.toggleTemplateStatus(templates[0]);
+
+      const req = httpMock.expectOne(`${API_BASE_URLS.CMS}/api/templates/tpl-1/deactivate`);
+      expect(req.request.method).toBe('POST');
+      req.flush({ message: 'Template deactivated successfully' });
+
+      httpMock.expectOne(`${baseUrl}/api/templates`).flush(templates.map(t => t.id === 'tpl-1' ? { ...t, isActive: false } : t));
+      expect(component.templates()[0].isActive).toBeFalse();
+      expect(notifications.success).toHaveBeenCalledWith('Template deactivated successfully', undefined, { link: '/tpl-1' });
+    });
+
+    it('should do nothing when the confirmation is cancelled', async () => {
+      notifications.confirm.and.resolveTo(false);
+
+      await component.toggleTemplateStatus(templates[3]);
+
+      httpMock.expectNone(`${API_BASE_URLS.CMS}/api/templates/tpl-4/activate`);
+      expect(component.busy.isBusy('tpl-4')).toBeFalse();
+    });
+  });
+
+  describe('delete', () => {
+    it('should move the template to trash after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.deleteTemplate(templates[1]);
+
+      const req = httpMock.expectOne(`${baseUrl}/api/templates/tpl-2`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+
+      expect(component.templates().some(t => t.id === 'tpl-2')).toBeFalse();
+      expect(notifications.success).toHaveBeenCalledWith('Template moved to trash');
+    });
+
+    it('should report API errors', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.deleteTemplate(templates[1]);
+
+      httpMock.expectOne(`${baseUrl}/api/templates/tpl-2`)
+        .flush({ error: 'Template is in use' }, { status: 400, statusText: 'Bad Request' });
+      expect(component.templates().length).toBe(12);
+      expect(notifications.apiError).toHaveBeenCalledWith(jasmine.anything(), 'Failed to move template to trash', { link: '/tpl-2' });
+    });
+  });
+
+  describe('upload', () => {
+    it('should require all fields before asking for confirmation', async () => {
+      component.uploadForm.name = 'Quotation';
+
+      await component.uploadTemplate();
+
+      expect(notifications.warning).toHaveBeenCalledWith('Please fill in all required fields');
+      expect(notifications.confirm).not.toHaveBeenCalled();
+    });
+
+    it('should register the template after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+      component.selectedFile.set(new File(['content'], 'quotation.docx'));
+      component.uploadForm.name = 'Quotation';
+      component.uploadForm.type = 'Sales';
+      component.openAddModal();
+
+      await component.uploadTemplate();
+
+      httpMock.expectOne(`${baseUrl}/api/templates/register`).flush({ templateId: 'tpl-13' });
+      httpMock.expectOne(`${baseUrl}/api/templates`).flush(templates);
+
+      expect(notifications.success).toHaveBeenCalledWith('Template uploaded successfully', undefined, { link: '/tpl-13' });
+      expect(component.showAddModal()).toBeFalse();
+      expect(component.uploadForm.name).toBe('');
+    });
+  });
+});
@@ -1,11 +1,24 @@
-import { Component, OnInit, signal, computed, inject } from '@angular/core';
+import { Component, OnInit, signal, computed, effect, inject, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { TmsApiService } from '../../services/tms-api.service';
-import { CmsApiService } from '../../services/cms-api.service';
-import { NotificationService } from '../../services/notification.service';
-import { Template } from '../../models/tms.models'
-import { DateFormatPipe } from '../../pipes/date-format.pipe';
+import { ActivatedRoute, Router } from '@angular/router';
+import {
+  TmsApiService,
+  CmsApiService,
+  NotificationService,
+  ManteqStore,
+  Template,
+  DateFormatPipe,
+  ManteqCanDirective,
+  ManteqDropTargetDirective,
+  ManteqTranslatePipe,
+  ManteqTranslationService,
+  ManteqProgressService,
+  manteqBusyState,
+  childRouteData,
+  clampPage,
+  syncQueryParams
+} from '@manteq/ui-lib/core';
 
 interface TemplateFilters {
   status?: 'all' | 'active' | 'inactive' | 'draft';
@@ -13,23 +26,35 @@ interface TemplateFilters {
   searchTerm?: string;
 }
 
+/** Word and Excel files TMS can turn into templates */
+const TEMPLATE_FILE_EXTENSIONS = ['.docx', '.xlsx', '.doc', '.xls'];
+
+/** Upload limit of the TMS API (TmsSettings.MaxFileSizeMB) */
+const TMS_MAX_FILE_SIZE_MB = 100;
+const TMS_MAX_FILE_SIZE = TMS_MAX_FILE_SIZE_MB * 1024 * 1024;
+
 @Component({
   selector: 'manteq-template-builder',
   standalone: true,
-  imports: [CommonModule, FormsModule, DateFormatPipe],
+  imports: [CommonModule, FormsModule, DateFormatPipe, ManteqCanDirective, ManteqDropTargetDirective, ManteqTranslatePipe],
   templateUrl: './template-builder.component.html',
   styleUrls: ['./template-builder.component.scss']
 })
 export class TemplateBuilderComponent implements OnInit {
   private tmsApi = inject(TmsApiService);
   private cmsApi = inject(CmsApiService);
+  private store = inject(ManteqStore);
   private notificationService = inject(NotificationService);
+  private i18n = inject(ManteqTranslationService);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private progress = inject(ManteqProgressService);
   
   // Expose Math for template
   Math = Math;
 
   // Signals for state management
-  templates = signal<Template[]>([]);
+  templates = this.store.templates.entities;
   filteredTemplates = computed(() => {
     const temps = this.templates();
     const filter = this.currentFilter();
@@ -61,10 +86,25 @@ export class TemplateBuilderComponent implements OnInit {
     return filtered;
   });
 
-  loading = signal(false);
+  // Rows (by template id) and the add dialog ('upload', 'placeholders') with a request in progress
+  busy = manteqBusyState();
+
+  // Spinner only on first load - background refreshes keep the current list visible
+  loading = computed(() => this.store.templates.loading() && !this.store.templates.loaded());
+
+  // Template opened through the templates/:id route, kept in sync with the store
+  private routedTemplate = childRouteData<Template>('template');
+  selectedTemplate = computed(() => {
+    const template = this.routedTemplate();
+    return template ? this.store.templates.find(template.id) ?? template : null;
+  });
+  // templates/new opens the add dialog, e.g. from the command palette
+  private routedAction = childRouteData<string>('action');
   currentFilter = signal<TemplateFilters>({ status: 'all' });
   showAddModal = signal(false);
   selectedFile = signal<File | null>(null);
+  templateFileExtensions = TEMPLATE_FILE_EXTENSIONS;
+  maxFileSize = TMS_MAX_FILE_SIZE;
   testFile = signal<File | null>(null);
   uploadedTemplateId = signal<string | null>(null);
   
@@ -116,6 +156,36 @@ export class TemplateBuilderComponent implements OnInit {
     return pages;
   });
 
+  constructor() {
+    syncQueryParams({
+      status: {
+        get: () => this.currentFilter().status ?? 'all',
+        set: (status: string) => this.currentFilter.update(f => ({ ...f, status: status as TemplateFilters['status'] }))
+      },
+      type: {
+        get: () => this.currentFilter().type ?? '',
+        set: (type: string) => this.currentFilter.update(f => ({ ...f, type: type || undefined }))
+      },
+      q: {
+        get: () => this.currentFilter().searchTerm ?? '',
+        set: (searchTerm: string) => {
+          this.searchTerm = searchTerm;
+          this.currentFilter.update(f => ({ ...f, searchTerm: searchTerm || undefined }));
+        }
+      },
+      page: this.currentPage
+    }, {
+      allowedValues: { status: ['all', 'active', 'inactive', 'draft'], type: ['', 'QuotationReport', 'TOB'] }
+    });
+    clampPage(this.currentPage, this.totalPages, this.store.templates.loaded);
+
+    effect(() => {
+      if (this.routedAction() === 'create') {
+        untracked(() => this.openAddModal());
+      }
+    });
+  }
+
   ngOnInit(): void {
     this.loadTemplates();
   }
@@ -123,21 +193,32 @@ export class TemplateBuilderComponent implements OnInit {
   /**
    * Load all templates
    */
-  loadTemplates(): void {
-    this.loading.set(true);
-    this.tmsApi.getTemplates().subscribe({
-      next: (templates) => {
-        this.templates.set(templates);
-        this.loading.set(false);
-      },
+  loadTemplates(force: boolean = false): void {
+    this.store.templates.load(force).subscribe({
       error: (error) => {
-        console.error('Error loading templates:', error);
-        this.notificationService.error('Failed to load templates');
-        this.loading.set(false);
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.loadFailed'));
       }
     });
   }
 
+  /**
+   * Open the details of a template (templates/:id)
+   */
+  viewTemplate(template: Template): void {
+    this.router.navigate([template.id], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+  }
+
+  closeTemplateDetails(): void {
+    this.router.navigate(['.'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+  }
+
+  /**
+   * URL of a template's details, linked from the notification center
+   */
+  private templateLink(id: string): string {
+    return this.router.serializeUrl(this.router.createUrlTree([id], { relativeTo: this.route }));
+  }
+
   /**
    * Open add template modal
    */
@@ -151,6 +232,10 @@ export class TemplateBuilderComponent implements OnInit {
   closeAddModal(): void {
     this.showAddModal.set(false);
     this.resetUploadForm();
+
+    if (this.routedAction() === 'create') {
+      this.router.navigate(['.'], { relativeTo: this.route, queryParamsHandling: 'preserve' });
+    }
   }
 
   /**
@@ -158,61 +243,66 @@ export class TemplateBuilderComponent implements OnInit {
    */
   onFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
-    if (input.files && input.files.length > 0) {
-      const file = input.files[0];
-      const validExtensions = ['.docx', '.xlsx', '.doc', '.xls'];
-      const fileExtension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
-      
-      if (!validExtensions.includes(fileExtension)) {
-        this.notificationService.warning('Only .docx and .xlsx files are supported');
-        input.value = '';
-        return;
-      }
-      
-      this.selectedFile.set(file);
+    if (input.files && input.files.length > 0 && !this.selectTemplateFile(input.files[0])) {
+      input.value = '';
     }
   }
 
+  /**
+   * Use a picked or dropped file as the template file
+   */
+  selectTemplateFile(file: File): boolean {
+    const fileExtension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
+
+    if (!TEMPLATE_FILE_EXTENSIONS.includes(fileExtension)) {
+      this.notificationService.warning(this.i18n.translate('templates.messages.unsupportedFile'));
+      return false;
+    }
+    if (!this.checkFileSize(file)) return false;
+
+    this.selectedFile.set(file);
+    return true;
+  }
+
   /**
    * Upload template
    */
   async uploadTemplate(): Promise<void> {
     const file = this.selectedFile();
     if (!file || !this.uploadForm.name || !this.uploadForm.type) {
-      this.notificationService.warning('Please fill in all required fields');
+      this.notificationService.warning(this.i18n.translate('common.requiredFields'));
       return;
     }
 
     const confirmed = await this.notificationService.confirm(
-      'Save Template',
-      'Are you sure you want to save this template?',
-      'Save Template',
-      'Cancel'
+      this.i18n.translate('templates.save.title'),
+      this.i18n.translate('templates.save.message'),
+      this.i18n.translate('templates.save.title'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Uploading template...');
-    this.tmsApi.registerTemplate(
+    this.store.registerTemplate(
       this.uploadForm.name, 
       file, 
       this.uploadForm.type,
       this.uploadForm.description
-    ).subscribe({
+    ).pipe(this.busy.track('upload')).subscribe({
       next: (response) => {
-        this.notificationService.hideLoading();
-        this.notificationService.success('Template uploaded successfully');
+        this.notificationService.success(
+          this.i18n.translate('templates.messages.uploaded'),
+          undefined,
+          response.templateId ? { link: this.templateLink(response.templateId) } : {}
+        );
         // Store template ID for testing
         if (response.templateId) {
           this.uploadedTemplateId.set(response.templateId);
         }
         this.closeAddModal();
-        this.loadTemplates();
       },
       error: (error) => {
-        console.error('Error uploading template:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to upload template');
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.uploadFailed'));
       }
     });
   }
@@ -223,14 +313,12 @@ export class TemplateBuilderComponent implements OnInit {
   downloadPlaceholderForTest(): void {
     const file = this.selectedFile();
     if (!file) {
-      this.notificationService.warning('Please select a template file first');
+      this.notificationService.warning(this.i18n.translate('templates.messages.selectFileFirst'));
       return;
     }
 
-    this.notificationService.showLoading('Extracting placeholders...');
-    this.tmsApi.extractPlaceholdersFromFile(file).subscribe({
+    this.tmsApi.extractPlaceholdersFromFile(file).pipe(this.busy.track('placeholders')).subscribe({
       next: (blob) => {
-        this.notificationService.hideLoading();
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -239,12 +327,10 @@ export class TemplateBuilderComponent implements OnInit {
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
-        this.notificationService.success('Placeholders downloaded successfully');
+        this.notificationService.success(this.i18n.translate('templates.messages.placeholdersDownloaded'));
       },
       error: (error) => {
-        console.error('Error extracting placeholders:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to extract placeholders from template');
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.extractFailed'));
       }
     });
   }
@@ -254,21 +340,34 @@ export class TemplateBuilderComponent implements OnInit {
    */
   onTestFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
-    if (input.files && input.files.length > 0) {
-      const file = input.files[0];
-      const fileExtension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
-      
-      if (fileExtension !== '.xlsx') {
-        this.notificationService.warning('Only .xlsx files are supported for testing');
-        input.value = '';
-        return;
-      }
-      
-      this.testFile.set(file);
-      this.notificationService.success('Test file selected: ' + file.name);
+    if (input.files && input.files.length > 0 && !this.selectTestFile(input.files[0])) {
+      input.value = '';
     }
   }
 
+  /**
+   * Use a picked or dropped Excel file as the test data
+   */
+  selectTestFile(file: File): boolean {
+    const fileExtension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
+
+    if (fileExtension !== '.xlsx') {
+      this.notificationService.warning(this.i18n.translate('templates.messages.unsupportedTestFile'));
+      return false;
+    }
+    if (!this.checkFileSize(file)) return false;
+
+    this.testFile.set(file);
+    this.notificationService.success(this.i18n.translate('templates.messages.testFileSelected', { name: file.name }));
+    return true;
+  }
+
+  private checkFileSize(file: File): boolean {
+    if (file.size <= TMS_MAX_FILE_SIZE) return true;
+    this.notificationService.warning(this.i18n.translate('templates.messages.fileTooLarge', { size: TMS_MAX_FILE_SIZE_MB }));
+    return false;
+  }
+
   /**
    * Test template
    */
@@ -277,34 +376,35 @@ export class TemplateBuilderComponent implements OnInit {
     const excelFile = this.testFile();
     
     if (!templateFile) {
-      this.notificationService.warning('Please select a template file');
+      this.notificationService.warning(this.i18n.translate('templates.messages.selectFile'));
       return;
     }
     
     if (!excelFile) {
-      this.notificationService.warning('Please select a filled Excel file for testing');
+      this.notificationService.warning(this.i18n.translate('templates.messages.selectTestFile'));
       return;
     }
 
     const confirmed = await this.notificationService.confirm(
-      'Test Template',
-      'Generate and download a test document from your template?',
-      'Generate',
-      'Cancel'
+      this.i18n.translate('templates.test.title'),
+      this.i18n.translate('templates.test.message'),
+      this.i18n.translate('templates.test.confirm'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Generating test document...');
-    
     // Determine export format from uploadForm
     let exportFormat = 0; // Original
     if (this.uploadForm.outputFormat === 'PDF') exportFormat = 4;
     else if (this.uploadForm.outputFormat === 'DOCX') exportFormat = 1;
     
-    this.tmsApi.testTemplateWithoutSaving(templateFile, excelFile, exportFormat).subscribe({
+    // Generation can take a while; run it in the background tasks tray
+    this.progress.track(
+      this.i18n.translate('templates.messages.testTask', { name: templateFile.name }),
+      this.tmsApi.testTemplateWithoutSaving(templateFile, excelFile, exportFormat)
+    ).subscribe({
       next: (blob) => {
-        this.notificationService.hideLoading();
         
         // Determine file extension based on export format
         let extension = '.docx';
@@ -320,12 +420,10 @@ export class TemplateBuilderComponent implements OnInit {
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
         
-        this.notificationService.success('Test document generated successfully!');
+        this.notificationService.success(this.i18n.translate('templates.messages.generated'));
       },
       error: (error) => {
-        console.error('Error testing template:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to generate test document');
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.generateFailed'));
       }
     });
   }
@@ -334,10 +432,8 @@ export class TemplateBuilderComponent implements OnInit {
    * Download template placeholders as Excel
    */
   downloadPlaceholdersExcel(template: Template): void {
-    this.notificationService.showLoading('Downloading placeholders...');
-    this.tmsApi.downloadPlaceholdersExcel(template.id).subscribe({
+    this.tmsApi.downloadPlaceholdersExcel(template.id).pipe(this.busy.track(template.id)).subscribe({
       next: (blob) => {
-        this.notificationService.hideLoading();
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -348,9 +444,7 @@ export class TemplateBuilderComponent implements OnInit {
         document.body.removeChild(a);
       },
       error: (error) => {
-        console.error('Error downloading placeholders:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to download placeholders');
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.placeholdersFailed'));
       }
     });
   }
@@ -363,30 +457,24 @@ export class TemplateBuilderComponent implements OnInit {
     const action = newStatus ? 'activate' : 'deactivate';
     
     const confirmed = await this.notificationService.confirm(
-      `${action.charAt(0).toUpperCase() + action.slice(1)} Template`,
-      `Are you sure you want to ${action} "${template.name}"?`,
-      action.charAt(0).toUpperCase() + action.slice(1),
-      'Cancel'
+      this.i18n.translate(`templates.${action}.title`),
+      this.i18n.translate(`templates.${action}.message`, { name: template.name }),
+      this.i18n.translate(`templates.${action}.confirm`),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading(`${action.charAt(0).toUpperCase() + action.slice(1)}ing template...`);
-    
-    const observable = newStatus 
-      ? this.tmsApi.activateTemplate(template.id)
-      : this.tmsApi.deactivateTemplate(template.id);
-    
-    observable.subscribe({
+    this.store.setTemplateActive(template.id, newStatus).pipe(this.busy.track(template.id)).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success(`Template ${action}d successfully`);
-        this.loadTemplates();
+        this.notificationService.success(this.i18n.translate(`templates.${action}.success`), undefined, {
+          link: this.templateLink(template.id)
+        });
       },
       error: (error: any) => {
-        console.error(`Error ${action}ing template:`, error);
-        this.notificationService.hideLoading();
-        this.notificationService.error(`Failed to ${action} template`);
+        this.notificationService.apiError(error, this.i18n.translate(`templates.${action}.failed`), {
+          link: this.templateLink(template.id)
+        });
       }
     });
   }
@@ -396,14 +484,12 @@ export class TemplateBuilderComponent implements OnInit {
    */
   downloadTemplate(template: Template): void {
     if (!template.cmsDocumentId) {
-      this.notificationService.error('Template file not found');
+      this.notificationService.error(this.i18n.translate('templates.messages.fileNotFound'));
       return;
     }
 
-    this.notificationService.showLoading('Downloading template...');
-    this.cmsApi.downloadDocument(template.cmsDocumentId).subscribe({
+    this.cmsApi.downloadDocument(template.cmsDocumentId).pipe(this.busy.track(template.id)).subscribe({
       next: (blob) => {
-        this.notificationService.hideLoading();
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -412,12 +498,12 @@ export class TemplateBuilderComponent implements OnInit {
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
-        this.notificationService.success('Template downloaded successfully');
+        this.notificationService.success(this.i18n.translate('templates.messages.downloaded'));
       },
       error: (error) => {
-        console.error('Error downloading template:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to download template');
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.downloadFailed'), {
+          link: this.templateLink(template.id)
+        });
       }
     });
   }
@@ -427,25 +513,22 @@ export class TemplateBuilderComponent implements OnInit {
    */
   async deleteTemplate(template: Template): Promise<void> {
     const confirmed = await this.notificationService.confirm(
-      'Move to Trash',
-      `Are you sure you want to move "${template.name}" to trash?`,
-      'Move to Trash',
-      'Cancel'
+      this.i18n.translate('templates.delete.title'),
+      this.i18n.translate('templates.delete.message', { name: template.name }),
+      this.i18n.translate('templates.delete.title'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Moving to trash...');
-    this.tmsApi.deleteTemplate(template.id).subscribe({
+    this.store.deleteTemplate(template.id).pipe(this.busy.track(template.id)).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success('Template moved to trash');
-        this.loadTemplates();
+        this.notificationService.success(this.i18n.translate('templates.messages.deleted'));
       },
         error: (error: any) => {
-        console.error('Error moving template to trash:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to move template to trash');
+        this.notificationService.apiError(error, this.i18n.translate('templates.messages.deleteFailed'), {
+          link: this.templateLink(template.id)
+        });
       }
     });
   }
@@ -455,20 +538,22 @@ export class TemplateBuilderComponent implements OnInit {
    */
   filterTemplates(status: 'all' | 'active' | 'inactive' | 'draft'): void {
     this.currentFilter.update(f => ({ ...f, status }));
+    this.currentPage.set(1);
   }
 
   /**
    * Filter templates by type
    */
   filterByType(type: string): void {
-    this.currentFilter.update(f => ({ ...f, type }));
+    this.currentFilter.update(f => ({ ...f, type: type || undefined }));
+    this.currentPage.set(1);
   }
 
   /**
    * Search templates
    */
   searchTemplates(): void {
-    this.currentFilter.update(f => ({ ...f, searchTerm: this.searchTerm }));
+    this.currentFilter.update(f => ({ ...f, searchTerm: this.searchTerm || undefined }));
     this.currentPage.set(1); // Reset to first page on search
   }
   
@@ -498,8 +583,7 @@ export class TemplateBuilderComponent implements OnInit {
    * Get status text
    */
   getStatusText(template: Template): string {
-    if (template.isActive) return 'Active';
-    return 'Inactive';
+    return this.i18n.translate(template.isActive ? 'common.active' : 'common.inactive');
   }
 
   /**
@@ -0,0 +1,5 @@
+/*
+ * Public API Surface of @manteq/ui-lib/tms
+ */
+
+export * from './lib/template-builder.component';
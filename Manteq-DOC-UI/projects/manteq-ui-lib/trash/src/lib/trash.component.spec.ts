@@ -0,0 +1,158 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { TrashComponent } from './trash.component';
+import { NotificationService, TrashItem, TrashResponse, API_BASE_URLS } from '@manteq/ui-lib/core';
+
+@Component({ standalone: true, template: '' })
+class PageStubComponent {}
+
+function createItem(id: string, type: TrashItem['type'], deletedBy: string = 'tester'): TrashItem {
+  return { id, name: `${type} ${id}`, type, deletedAt: '2025-01-01T00:00:00Z', deletedBy };
+}
+
+describe('TrashComponent', () => {
+  const baseUrl = API_BASE_URLS.CMS;
+  let fixture: ComponentFixture<TrashComponent>;
+  let component: TrashComponent;
+  let httpMock: HttpTestingController;
+  let notifications: jasmine.SpyObj<NotificationService>;
+
+  function loadTrash(response: TrashResponse): void {
+    fixture.detectChanges();
+    httpMock.expectOne(`${baseUrl}/api/trash`).flush(response);
+  }
+
+  beforeEach(async () => {
+    notifications = jasmine.createSpyObj<NotificationService>('NotificationService', [
+      'confirm', 'showLoading', 'hideLoading', 'success', 'warning', 'error', 'apiError'
+    ]);
+
+    await TestBed.configureTestingModule({
+      imports: [TrashComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([{ path: 'documents', component: PageStubComponent }]),
+        { provide: NotificationService, useValue: notifications }
+      ]
+    }).compileComponents();
+
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture = TestBed.createComponent(TrashComponent);
+    component = fixture.componentInstance;
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('with items', () => {
+    beforeEach(() => {
+      const documents = Array.from({ length: 8 }, (_, i) => createItem(`doc-${i + 1}`, 'Document'));
+      const templates = Array.from({ length: 4 }, (_, i) => createItem(`tpl-${i + 1}`, 'Template', 'admin'));
+      const emailTemplates = [createItem('mail-1', 'EmailTemplate')];
+      loadTrash({ documents, templates, emailTemplates, totalCount: 13 });
+    });
+
+    it('should merge all item types', () => {
+      expect(component.allItems().length).toBe(13);
+    });
+
+    it('should filter by type', () => {
+      component.filterByType('Template');
+      expect(component.filteredItems().length).toBe(4);
+
+      component.filterByType('all');
+      expect(component.filteredItems().length).toBe(13);
+    });
+
+    it('should search by name and deleting user', () => {
+      component.searchTerm.set('ADMIN');
+      expect(component.filteredItems().every(i => i.type === 'Template')).toBeTrue();
+
+      component.searchTerm.set('mail-1');
+      expect(component.filteredItems().map(i => i.id)).toEqual(['mail-1']);
+    });
+
+    it('should paginate and reset to the first page on search', () => {
+      expect(component.totalPages()).toBe(2);
+      component.nextPage();
+      expect(component.paginatedItems().length).toBe(3);
+
+      component.updateSearchTerm({ target: { value: 'doc' } } as unknown as Event);
+      expect(component.currentPage()).toBe(1);
+      expect(component.totalPages()).toBe(1);
+    });
+
+    it('should restore an item and reload its source collection', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.restoreItem(component.allItems()[0]);
+
+      const req = httpMock.expectOne(`${baseUrl}/api/trash/documents/doc-1/restore`);
+      expect(req.request.method).toBe('POST');
+      req.flush(null);
+
+      expect(component.allItems().some(i => i.id === 'doc-1')).toBeFalse();
+      expect(notifications.success).toHaveBeenCalledWith('Document doc-1 restored successfully', undefined, {
+        link: '/documents/doc-1'
+      });
+    });
+
+    it('should permanently delete an email template after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.permanentlyDelete(createItem('mail-1', 'EmailTemplate'));
+
+      const req = httpMock.expectOne(`${baseUrl}/api/trash/email-templates/mail-1/permanent`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+      expect(component.allItems().length).toBe(12);
+    });
+
+    it('should keep the item when the confirmation is cancelled', async () => {
+      notifications.confirm.and.resolveTo(false);
+
+      await component.permanentlyDelete(component.allItems()[0]);
+
+      httpMock.expectNone(`${baseUrl}/api/trash/documents/doc-1/permanent`);
+      expect(component.allItems().length).toBe(13);
+    });
+
+    it('should empty the trash after confirmation', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.emptyTrash();
+
+      expect(notifications.confirm.calls.mostRecent().args[1]).toContain('all 13 items');
+      const req = httpMock.expectOne(`${baseUrl}/api/trash/empty`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+      expect(component.allItems().length).toBe(0);
+      expect(notifications.success).toHaveBeenCalledWith('Trash emptied successfully');
+    });
+
+    it('should report API errors', async () => {
+      notifications.confirm.and.resolveTo(true);
+
+      await component.emptyTrash();
+
+      httpMock.expectOne(`${baseUrl}/api/trash/empty`)
+        .flush({ error: 'Server error' }, { status: 500, statusText: 'Internal Server Error' });
+      expect(component.allItems().length).toBe(13);
+      expect(notifications.apiError).toHaveBeenCalledWith(jasmine.anything(), 'Failed to empty trash');
+    });
+  });
+
+  it('should warn instead of confirming when the trash is empty', async () => {
+    loadTrash({ documents: [], templates: [], emailTemplates: [], totalCount: 0 });
+
+    await component.emptyTrash();
+
+    expect(notifications.warning).toHaveBeenCalledWith('Trash is already empty');
+    expect(notifications.confirm).not.toHaveBeenCalled();
+  });
+});
@@ -1,26 +1,39 @@
 import { Component, OnInit, signal, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { NotificationService } from '../../services/notification.service';
-import { DateFormatPipe } from '../../pipes/date-format.pipe';
-import { CmsTrashApiService, TrashItem } from '../../services/cms-trash-api.service';
+import {
+  NotificationService,
+  DateFormatPipe,
+  ManteqCanDirective,
+  ManteqTranslatePipe,
+  ManteqTranslationService,
+  ManteqTranslationKey,
+  TrashItem,
+  ManteqStore,
+  ManteqNavigationService,
+  manteqBusyState,
+  clampPage,
+  syncQueryParams
+} from '@manteq/ui-lib/core';
 
 @Component({
   selector: 'manteq-trash',
   standalone: true,
-  imports: [CommonModule, FormsModule, DateFormatPipe],
+  imports: [CommonModule, FormsModule, DateFormatPipe, ManteqCanDirective, ManteqTranslatePipe],
   templateUrl: './trash.component.html',
   styleUrls: ['./trash.component.scss']
 })
 export class TrashComponent implements OnInit {
   private notificationService = inject(NotificationService);
-  private trashService = inject(CmsTrashApiService);
+  private i18n = inject(ManteqTranslationService);
+  private store = inject(ManteqStore);
+  private navigation = inject(ManteqNavigationService);
   
   // Expose Math for template
   Math = Math;
 
   // Signals for state management
-  allItems = signal<TrashItem[]>([]);
+  allItems = this.store.trash.entities;
   filteredItems = computed(() => {
     const items = this.allItems();
     const filter = this.currentFilter();
@@ -44,7 +57,11 @@ export class TrashComponent implements OnInit {
     return filtered;
   });
 
-  loading = signal(false);
+  // Rows (by item id) and 'empty' with a request in progress
+  busy = manteqBusyState();
+
+  // Spinner only on first load - background refreshes keep the current list visible
+  loading = computed(() => this.store.trash.loading() && !this.store.trash.loaded());
   currentFilter = signal<{ type?: string; searchTerm?: string }>({ type: 'all' });
   searchTerm = signal('');
   
@@ -87,6 +104,21 @@ export class TrashComponent implements OnInit {
     return pages;
   });
 
+  constructor() {
+    syncQueryParams({
+      type: {
+        get: () => this.currentFilter().type ?? 'all',
+        set: (type: string) => this.currentFilter.update(f => ({ ...f, type }))
+      },
+      q: this.searchTerm,
+      page: this.currentPage
+    }, {
+      replaceUrl: ['q'],
+      allowedValues: { type: ['all', 'Document', 'Template', 'EmailTemplate'] }
+    });
+    clampPage(this.currentPage, this.totalPages, this.store.trash.loaded);
+  }
+
   ngOnInit(): void {
     this.loadTrashItems();
   }
@@ -94,22 +126,10 @@ export class TrashComponent implements OnInit {
   /**
    * Load all trash items from API
    */
-  loadTrashItems(): void {
-    this.loading.set(true);
-    this.trashService.getTrashItems().subscribe({
-      next: (response) => {
-        const items: TrashItem[] = [
-          ...response.documents,
-          ...response.templates,
-          ...response.emailTemplates
-        ];
-        this.allItems.set(items);
-        this.loading.set(false);
-      },
+  loadTrashItems(force: boolean = false): void {
+    this.store.trash.load(force).subscribe({
       error: (error) => {
-        console.error('Error loading trash items:', error);
-        this.notificationService.error('Failed to load trash items');
-        this.loading.set(false);
+        this.notificationService.apiError(error, this.i18n.translate('trash.messages.loadFailed'));
       }
     });
   }
@@ -119,67 +139,55 @@ export class TrashComponent implements OnInit {
    */
   async restoreItem(item: TrashItem): Promise<void> {
     const confirmed = await this.notificationService.confirm(
-      'Restore Item',
-      `Are you sure you want to restore "${item.name}"?`,
-      'Restore',
-      'Cancel'
+      this.i18n.translate('trash.restore.title'),
+      this.i18n.translate('trash.restore.message', { name: item.name }),
+      this.i18n.translate('trash.restore.confirm'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Restoring item...');
-    
-    const restoreObs = item.type === 'Document' 
-      ? this.trashService.restoreDocument(item.id)
-      : item.type === 'Template'
-      ? this.trashService.restoreTemplate(item.id)
-      : this.trashService.restoreEmailTemplate(item.id);
-
-    restoreObs.subscribe({
+    this.store.restoreTrashItem(item).pipe(this.busy.track(item.id)).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success(`${item.name} restored successfully`);
-        this.loadTrashItems();
+        this.notificationService.success(this.i18n.translate('trash.messages.restored', { name: item.name }), undefined, {
+          link: this.restoredLink(item)
+        });
       },
       error: (error) => {
-        console.error('Error restoring item:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error(`Failed to restore ${item.name}`);
+        this.notificationService.apiError(error, this.i18n.translate('trash.messages.restoreFailed', { name: item.name }));
       }
     });
   }
 
+  /**
+   * Where a restored item can be found again, linked from the notification center
+   */
+  private restoredLink(item: TrashItem): string | undefined {
+    const feature = item.type === 'Document' ? 'documents' : item.type === 'Template' ? 'templates' : 'emails';
+    const url = this.navigation.featureUrl(feature);
+    if (!url) return undefined;
+    return item.type === 'EmailTemplate' ? `${url}/${item.id}/edit` : `${url}/${item.id}`;
+  }
+
   /**
    * Permanently delete item
    */
   async permanentlyDelete(item: TrashItem): Promise<void> {
     const confirmed = await this.notificationService.confirm(
-      'Permanently Delete',
-      `Are you sure you want to permanently delete "${item.name}"? This action cannot be undone.`,
-      'Delete Forever',
-      'Cancel'
+      this.i18n.translate('trash.delete.title'),
+      this.i18n.translate('trash.delete.message', { name: item.name }),
+      this.i18n.translate('trash.delete.confirm'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Deleting permanently...');
-    
-    const deleteObs = item.type === 'Document'
-      ? this.trashService.permanentlyDeleteDocument(item.id)
-      : item.type === 'Template'
-      ? this.trashService.permanentlyDeleteTemplate(item.id)
-      : this.trashService.permanentlyDeleteEmailTemplate(item.id);
-
-    deleteObs.subscribe({
+    this.store.permanentlyDeleteTrashItem(item).pipe(this.busy.track(item.id)).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success(`${item.name} permanently deleted`);
-        this.loadTrashItems();
+        this.notificationService.success(this.i18n.translate('trash.messages.deleted', { name: item.name }));
       },
       error: (error) => {
-        console.error('Error deleting item:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error(`Failed to delete ${item.name}`);
+        this.notificationService.apiError(error, this.i18n.translate('trash.messages.deleteFailed', { name: item.name }));
       }
     });
   }
@@ -189,31 +197,25 @@ export class TrashComponent implements OnInit {
    */
   async emptyTrash(): Promise<void> {
     if (this.allItems().length === 0) {
-      this.notificationService.warning('Trash is already empty');
+      this.notificationService.warning(this.i18n.translate('trash.messages.alreadyEmpty'));
       return;
     }
 
     const confirmed = await this.notificationService.confirm(
-      'Empty Trash',
-      `Are you sure you want to permanently delete all ${this.allItems().length} items? This action cannot be undone.`,
-      'Empty Trash',
-      'Cancel'
+      this.i18n.translate('trash.empty.title'),
+      this.i18n.translate('trash.empty.message', { count: this.allItems().length }),
+      this.i18n.translate('trash.empty.title'),
+      this.i18n.translate('common.cancel')
     );
 
     if (!confirmed) return;
 
-    this.notificationService.showLoading('Emptying trash...');
-    
-    this.trashService.emptyTrash().subscribe({
+    this.store.emptyTrash().pipe(this.busy.track('empty')).subscribe({
       next: () => {
-        this.notificationService.hideLoading();
-        this.notificationService.success('Trash emptied successfully');
-        this.loadTrashItems();
+        this.notificationService.success(this.i18n.translate('trash.messages.emptied'));
       },
       error: (error) => {
-        console.error('Error emptying trash:', error);
-        this.notificationService.hideLoading();
-        this.notificationService.error('Failed to empty trash');
+        this.notificationService.apiError(error, this.i18n.translate('trash.messages.emptyFailed'));
       }
     });
   }
@@ -223,6 +225,7 @@ export class TrashComponent implements OnInit {
    */
   filterByType(type: string): void {
     this.currentFilter.update(f => ({ ...f, type }));
+    this.currentPage.set(1);
   }
 
   /**
@@ -280,11 +283,11 @@ export class TrashComponent implements OnInit {
    * Get type label
    */
   getTypeLabel(type: string): string {
-    const labelMap: { [key: string]: string } = {
-      'Document': 'CMS Document',
-      'Template': 'TMS Template',
-      'EmailTemplate': 'Email Template'
+    const labelMap: { [key: string]: ManteqTranslationKey } = {
+      'Document': 'trash.types.document',
+      'Template': 'trash.types.template',
+      'EmailTemplate': 'trash.types.emailTemplate'
     };
-    return labelMap[type] || type;
+    return labelMap[type] ? this.i18n.translate(labelMap[type]) : type;
   }
 }
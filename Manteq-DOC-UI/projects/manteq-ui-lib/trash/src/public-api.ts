@@ -0,0 +1,5 @@
+/*
+ * Public API Surface of @manteq/ui-lib/trash
+ */
+
+export * from './lib/trash.component';
@@ -1,10 +1,13 @@
 import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 import { AppComponent } from './app.component';
+import { provideManteq } from '../../projects/manteq-ui-lib/src/public-api';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent],
+      providers: [provideManteq({ theme: { companyName: 'Manteq Doc Portal' } }), provideRouter([])],
     }).compileComponents();
   });
 
@@ -20,10 +23,10 @@ describe('AppComponent', () => {
     expect(app.title).toEqual('Manteq-DOC-UI');
   });
 
-  it('should render title', () => {
+  it('should render the company name in the layout header', () => {
     const fixture = TestBed.createComponent(AppComponent);
     fixture.detectChanges();
     const compiled = fixture.nativeElement as HTMLElement;
-    expect(compiled.querySelector('h1')?.textContent).toContain('Hello, Manteq-DOC-UI');
+    expect(compiled.querySelector('manteq-main-layout h1')?.textContent).toContain('Manteq Doc Portal');
   });
 });
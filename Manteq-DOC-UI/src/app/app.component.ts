@@ -1,14 +1,12 @@
-import { Component, signal } from '@angular/core';
+import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
-import { ManteqLibConfig, UserContext, MainLayoutComponent } from '../../projects/manteq-ui-lib/src/public-api';
+import { MainLayoutComponent } from '../../projects/manteq-ui-lib/src/public-api';
 
 @Component({
   selector: 'app-root',
   imports: [MainLayoutComponent, RouterOutlet],
   template: `
-    <manteq-main-layout 
-      [config]="currentConfig()" 
-      [userContext]="currentUserContext()">
+    <manteq-main-layout>
       <router-outlet></router-outlet>
     </manteq-main-layout>
   `,
@@ -16,19 +14,4 @@ import { ManteqLibConfig, UserContext, MainLayoutComponent } from '../../project
 })
 export class AppComponent {
   title = 'Manteq-DOC-UI';
-  
-  // Reactive config and user context
-  currentConfig = signal<ManteqLibConfig>({
-    companyName: 'Manteq Doc Portal',
-    companyLogo: 'https://cdn-icons-png.flaticon.com/512/861/861377.png',
-    primaryColor: '#16098dff',
-    accentColor: '#112D4E',
-    fontStyle: 'OpenSans',
-    disclaimer: 'Built By ❤️ With Manteq Team',
-  });
-
-  currentUserContext = signal<UserContext>({
-    email: 'john.smith@example.com',
-    name: 'John Smith',
-  });
 }
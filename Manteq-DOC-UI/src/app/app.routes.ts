@@ -1,8 +1,7 @@
 import { Routes } from '@angular/router';
-import { MANTEQ_ROUTES } from 'manteq-ui-lib';
 
 
+// Feature routes are registered by provideManteq()
 export const routes: Routes = [
-  { path: '', children: MANTEQ_ROUTES },
   { path: '**', redirectTo: '' }
 ];